@@ -0,0 +1,98 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import sharp from 'sharp';
+import { validateGallerySidecar } from '../src/config/schema.ts';
+import type { GalleryManifest, GalleryPhoto, GallerySidecar } from '../src/gallery/types.ts';
+import { displayedSize } from './image-size.ts';
+
+export const SIDECAR = 'gallery.json';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif', '.gif']);
+
+// prenup2 before prenup10
+const naturalOrder = new Intl.Collator('en', { numeric: true, sensitivity: 'base' }).compare;
+
+export interface ManifestResult {
+  manifest: GalleryManifest;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Reads a photo's size, rejecting files that aren't decodable images.
+ * Only headers are parsed, so a JPEG is also checked for its end-of-image marker
+ * to catch truncated uploads without decoding every pixel.
+ */
+const measure = async (path: string): Promise<{ width: number; height: number }> => {
+  const metadata = await sharp(path).metadata();
+  const size = displayedSize(metadata);
+
+  if (metadata.format === 'jpeg') {
+    const bytes = readFileSync(path);
+    if (bytes[bytes.length - 2] !== 0xff || bytes[bytes.length - 1] !== 0xd9) throw new Error('JPEG is truncated');
+  }
+  return size;
+};
+
+const buildAlbum = async (publicDir: string, album: string, result: ManifestResult): Promise<GalleryPhoto[]> => {
+  const folder = join(publicDir, album);
+  const where = `public/${album}/${SIDECAR}`;
+
+  let sidecar: GallerySidecar;
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(join(folder, SIDECAR), 'utf8'));
+    const problems = validateGallerySidecar(parsed);
+    if (problems.length > 0) {
+      result.errors.push(...problems.map((problem) => `${where}: ${problem}`));
+      return [];
+    }
+    sidecar = parsed as GallerySidecar;
+  } catch (error) {
+    result.errors.push(`${where}: could not read: ${(error as Error).message}`);
+    return [];
+  }
+
+  const files = readdirSync(folder)
+    .filter((file) => IMAGE_EXTENSIONS.has(extname(file).toLowerCase()))
+    .sort(naturalOrder);
+  const listed = new Set(sidecar.photos.map((photo) => photo.file));
+
+  for (const photo of sidecar.photos) {
+    if (!files.includes(photo.file)) result.errors.push(`${where}: "${photo.file}" is listed but missing from the folder`);
+  }
+  const unlisted = files.filter((file) => !listed.has(file));
+  if (unlisted.length > 0) {
+    result.warnings.push(`${where}: not listed, shown last: ${unlisted.join(', ')}`);
+  }
+
+  const entries = [...sidecar.photos.filter((photo) => files.includes(photo.file)), ...unlisted.map((file) => ({ file }))];
+  const photos: GalleryPhoto[] = [];
+  for (const entry of entries) {
+    try {
+      const { width, height } = await measure(join(folder, entry.file));
+      photos.push({ ...entry, src: `/${album}/${encodeURIComponent(entry.file)}`, width, height });
+    } catch (error) {
+      result.errors.push(`public/${album}/${entry.file}: not a readable image (${(error as Error).message})`);
+    }
+  }
+  return photos;
+};
+
+/**
+ * Scans `publicDir` for albums — folders holding a `gallery.json` sidecar — and measures
+ * their photos.
+ */
+export const buildGalleryManifest = async (publicDir: string): Promise<ManifestResult> => {
+  const result: ManifestResult = { manifest: {}, errors: [], warnings: [] };
+  if (!existsSync(publicDir)) return result;
+
+  const albums = readdirSync(publicDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(join(publicDir, entry.name, SIDECAR)))
+    .map((entry) => entry.name)
+    .sort(naturalOrder);
+
+  for (const album of albums) {
+    result.manifest[album] = await buildAlbum(publicDir, album, result);
+  }
+  return result;
+};
@@ -0,0 +1,9 @@
+import type { Metadata } from 'sharp';
+
+/** The size an image is shown at, from sharp's metadata of it. */
+export const displayedSize = (metadata: Metadata): { width: number; height: number } => {
+  if (!metadata.width || !metadata.height) throw new Error('image has no dimensions');
+  // EXIF orientations 5-8 are rotated a quarter turn, so the displayed size is swapped
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return rotated ? { width: metadata.height, height: metadata.width } : { width: metadata.width, height: metadata.height };
+};
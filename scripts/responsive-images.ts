@@ -0,0 +1,174 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join, relative, sep } from 'node:path';
+import sharp from 'sharp';
+import type { Sharp } from 'sharp';
+import { IMAGE_FORMATS } from '../src/images/types.ts';
+import type { ImageManifest, ResponsiveImageSet } from '../src/images/types.ts';
+import { displayedSize } from './image-size.ts';
+
+/** Widths generated for every image, capped at the original's own width. */
+export const WIDTHS = [320, 640, 960, 1280, 1920];
+// The `src` for browsers that ignore <source>: sharp enough for a phone, far lighter than the original
+const FALLBACK_WIDTH = 1280;
+const PLACEHOLDER_WIDTH = 16;
+
+// Part of every cache key: bump it after changing the encoder settings to regenerate everything
+const PIPELINE_VERSION = 1;
+
+const ENCODERS = {
+  avif: (image: Sharp) => image.avif({ quality: 50, effort: 2 }),
+  webp: (image: Sharp) => image.webp({ quality: 72 }),
+  jpeg: (image: Sharp) => image.jpeg({ quality: 78, mozjpeg: true }),
+  png: (image: Sharp) => image.png({ palette: true, compressionLevel: 9 }),
+};
+
+type OutputFormat = keyof typeof ENCODERS;
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif']);
+
+/** One generated file. */
+export interface ImageVariant {
+  /** Where it is served, e.g. `/assets/img/prenup1-640w-1a2b3c4d.avif`. */
+  url: string;
+  /** Where it is cached on disk. */
+  path: string;
+  width: number;
+  format: OutputFormat;
+}
+
+/** An image in `public/` and the variants planned for it. */
+export interface SourceImage {
+  path: string;
+  /** Public URL of the original, the key in the manifest. */
+  src: string;
+  width: number;
+  height: number;
+  hash: string;
+  variants: ImageVariant[];
+}
+
+export interface ImageManifestResult {
+  images: SourceImage[];
+  manifest: ImageManifest;
+  warnings: string[];
+}
+
+const listImages = (folder: string): string[] =>
+  readdirSync(folder, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(folder, entry.name);
+    if (entry.isDirectory()) return listImages(path);
+    return IMAGE_EXTENSIONS.has(extname(entry.name).toLowerCase()) ? [path] : [];
+  });
+
+/** `public/prenup/prenup 1.jpeg` → `/prenup/prenup%201.jpeg`, the same URL the gallery manifest uses. */
+const publicUrl = (publicDir: string, path: string): string =>
+  `/${relative(publicDir, path).split(sep).map(encodeURIComponent).join('/')}`;
+
+const widthsFor = (width: number): number[] => {
+  const largest = Math.min(width, WIDTHS[WIDTHS.length - 1]);
+  return [...WIDTHS.filter((candidate) => candidate < largest), largest];
+};
+
+/**
+ * Reads an image's size and fingerprint and decides which variants it gets.
+ * Nothing is encoded yet; see `generateVariants`.
+ */
+const planImage = async (publicDir: string, path: string, cacheDir: string, urlPrefix: string): Promise<SourceImage> => {
+  const metadata = await sharp(path).metadata();
+  const { width, height } = displayedSize(metadata);
+
+  const hash = createHash('sha1').update(`${PIPELINE_VERSION}:`).update(readFileSync(path)).digest('hex').slice(0, 8);
+  const stem = basename(path, extname(path)).replace(/[^\w.-]+/g, '-');
+  const variant = (width: number, format: OutputFormat): ImageVariant => {
+    const name = `${stem}-${width}w-${hash}.${format}`;
+    return { url: `${urlPrefix}${name}`, path: join(cacheDir, name), width, format };
+  };
+
+  const fallbackFormat = metadata.hasAlpha ? 'png' : 'jpeg';
+  return {
+    path,
+    src: publicUrl(publicDir, path),
+    width,
+    height,
+    hash,
+    variants: [
+      ...IMAGE_FORMATS.flatMap((format) => widthsFor(width).map((size) => variant(size, format))),
+      variant(Math.min(width, FALLBACK_WIDTH), fallbackFormat),
+    ],
+  };
+};
+
+/**
+ * Encodes the variants of `image` that aren't cached yet. The original is decoded once,
+ * already shrunk to the largest width needed, so even 12,500px photos stay cheap.
+ */
+export const generateVariants = async (image: SourceImage): Promise<void> => {
+  const missing = image.variants.filter((variant) => !existsSync(variant.path));
+  if (missing.length === 0) return;
+
+  const largest = Math.max(...missing.map((variant) => variant.width));
+  const { data, info } = await sharp(image.path)
+    .rotate()
+    .resize({ width: largest, withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  for (const variant of missing) {
+    const resized = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } }).resize({
+      width: variant.width,
+    });
+    writeFileSync(variant.path, await ENCODERS[variant.format](resized).toBuffer());
+  }
+};
+
+const placeholderOf = async (image: SourceImage, cacheDir: string): Promise<string> => {
+  const cached = join(cacheDir, `${image.hash}.placeholder`);
+  if (existsSync(cached)) return readFileSync(cached, 'utf8');
+
+  const bytes = await sharp(image.path).rotate().resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
+  const placeholder = `data:image/webp;base64,${bytes.toString('base64')}`;
+  writeFileSync(cached, placeholder);
+  return placeholder;
+};
+
+const srcSet = (variants: ImageVariant[]): string => variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ');
+
+const toImageSet = (image: SourceImage, placeholder: string): ResponsiveImageSet => {
+  const [avif, webp] = IMAGE_FORMATS.map((format) => image.variants.filter((variant) => variant.format === format));
+  const fallback = image.variants.find((variant) => variant.format === 'jpeg' || variant.format === 'png')!;
+  return {
+    width: image.width,
+    height: image.height,
+    placeholder,
+    fallback: fallback.url,
+    srcSet: { avif: srcSet(avif), webp: srcSet(webp) },
+  };
+};
+
+/**
+ * Plans the variants of every image in `publicDir` and builds the manifest the app
+ * reads them from. Only the placeholders are made here; the variants themselves are
+ * encoded by `generateVariants`, up front for a build and on first request in dev.
+ * Files sharp can't read are skipped with a warning and keep loading as-is.
+ */
+export const buildImageManifest = async (
+  publicDir: string,
+  cacheDir: string,
+  urlPrefix: string,
+): Promise<ImageManifestResult> => {
+  const result: ImageManifestResult = { images: [], manifest: {}, warnings: [] };
+  if (!existsSync(publicDir)) return result;
+  mkdirSync(cacheDir, { recursive: true });
+
+  for (const path of listImages(publicDir).sort()) {
+    try {
+      const image = await planImage(publicDir, path, cacheDir, urlPrefix);
+      result.manifest[image.src] = toImageSet(image, await placeholderOf(image, cacheDir));
+      result.images.push(image);
+    } catch (error) {
+      result.warnings.push(`${relative(publicDir, path)}: no responsive variants (${(error as Error).message})`);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,88 @@
+import { readFileSync } from 'node:fs';
+import { resolve, sep } from 'node:path';
+import type { Plugin, ViteDevServer } from 'vite';
+import { buildGalleryManifest } from './gallery-manifest.ts';
+import type { ManifestResult } from './gallery-manifest.ts';
+
+const VIRTUAL_ID = 'virtual:gallery-manifest';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+const formatErrors = (errors: string[]) =>
+  `Invalid gallery:\n${errors.map((error) => `  - ${error}`).join('\n')}`;
+
+/**
+ * Serves `virtual:gallery-manifest`, built by scanning the album folders in `public/`.
+ * Missing, unreadable or truncated photos, a bad sidecar, or a `gallery.album` or
+ * `gallery.officialAlbum` in the wedding config that doesn't exist fail the build;
+ * the dev server rebuilds on changes.
+ */
+export const galleryManifestPlugin = (configPath = 'src/config/wedding.json'): Plugin => {
+  let publicDir = '';
+  let weddingConfig = configPath;
+  let result: ManifestResult | undefined;
+
+  const build = async (): Promise<ManifestResult> => {
+    const next = await buildGalleryManifest(publicDir);
+    try {
+      const gallery = JSON.parse(readFileSync(weddingConfig, 'utf8')).gallery ?? {};
+      for (const key of ['album', 'officialAlbum']) {
+        const album: unknown = gallery[key];
+        if (typeof album === 'string' && !(album in next.manifest)) {
+          next.errors.push(`gallery.${key}: "${album}" has no public/${album}/gallery.json`);
+        }
+      }
+    } catch {
+      // An unreadable config is reported by weddingConfigPlugin
+    }
+    return next;
+  };
+
+  const reload = async (server: ViteDevServer) => {
+    result = await build();
+    result.warnings.forEach((warning) => server.config.logger.warn(warning));
+    if (result.errors.length > 0) {
+      const message = formatErrors(result.errors);
+      server.config.logger.error(message);
+      server.ws.send({ type: 'error', err: { message, stack: '' } });
+      return;
+    }
+    const module = server.moduleGraph.getModuleById(RESOLVED_ID);
+    if (module) server.moduleGraph.invalidateModule(module);
+    server.ws.send({ type: 'full-reload' });
+  };
+
+  return {
+    name: 'gallery-manifest',
+
+    configResolved(resolved) {
+      publicDir = resolved.publicDir;
+      weddingConfig = resolve(resolved.root, configPath);
+    },
+
+    async buildStart() {
+      result = await build();
+      result.warnings.forEach((warning) => this.warn(warning));
+      if (result.errors.length > 0) this.error(formatErrors(result.errors));
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID || !result) return undefined;
+      return `export default ${JSON.stringify(result.manifest)};`;
+    },
+
+    configureServer(server) {
+      // Photos added, renamed or removed, and sidecar edits
+      const onChange = (file: string) => {
+        const path = resolve(file);
+        if (path.startsWith(publicDir + sep) || path === weddingConfig) void reload(server);
+      };
+      server.watcher.on('add', onChange);
+      server.watcher.on('unlink', onChange);
+      server.watcher.on('change', onChange);
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { hashInviteCode } from '../src/invite/inviteHash.ts';
+import type { InviteIndex } from '../src/rsvp/googleFormsClient.ts';
+import type { Household } from '../src/rsvp/types.ts';
+
+const VIRTUAL_ID = 'virtual:invites';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+// Even a slow hash only holds off guessing when there are many possible codes
+const SAFE_CODE_LENGTH = 10;
+
+const buildIndex = async (households: Household[]): Promise<InviteIndex> => {
+  const salt = randomBytes(16).toString('hex');
+  const entries = await Promise.all(
+    households.map(async ({ code, greeting, maxGuests }) => [await hashInviteCode(code, salt), { greeting, maxGuests }] as const),
+  );
+  return { salt, invites: Object.fromEntries(entries) };
+};
+
+/**
+ * Serves `virtual:invites`, the invite list for builds without a server: each household's
+ * greeting and seat count under a salted slow hash of its code, leaving out the codes and
+ * guest names. Warns about codes short enough to be guessed.
+ */
+export const invitesPlugin = (householdsPath = 'src/data/households.json'): Plugin => {
+  let path = householdsPath;
+
+  return {
+    name: 'invites',
+
+    configResolved(resolved) {
+      path = resolve(resolved.root, householdsPath);
+    },
+
+    buildStart() {
+      this.addWatchFile(path);
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return undefined;
+      const households = JSON.parse(readFileSync(path, 'utf8')) as Household[];
+      const short = households.filter(({ code }) => code.length < SAFE_CODE_LENGTH).length;
+      if (short > 0) {
+        this.warn(
+          `${short} invite code(s) are shorter than ${SAFE_CODE_LENGTH} characters. ` +
+            'Without a server the invite list ships with the site, so use long random codes.',
+        );
+      }
+      return `export default ${JSON.stringify(await buildIndex(households))};`;
+    },
+
+    configureServer(server) {
+      server.watcher.on('change', (file) => {
+        if (resolve(file) !== path) return;
+        const module = server.moduleGraph.getModuleById(RESOLVED_ID);
+        if (module) server.moduleGraph.invalidateModule(module);
+        server.ws.send({ type: 'full-reload' });
+      });
+    },
+  };
+};
@@ -0,0 +1,117 @@
+import { readFileSync } from 'node:fs';
+import { basename, resolve, sep } from 'node:path';
+import type { Plugin, ViteDevServer } from 'vite';
+import { buildImageManifest, generateVariants } from './responsive-images.ts';
+import type { ImageManifestResult, ImageVariant, SourceImage } from './responsive-images.ts';
+
+const VIRTUAL_ID = 'virtual:image-manifest';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+const OUTPUT_DIR = 'assets/img/';
+
+const CONTENT_TYPES: Record<ImageVariant['format'], string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+/**
+ * Serves `virtual:image-manifest`, the AVIF/WebP widths and blur placeholder of every
+ * image in `public/` (see `<ResponsiveImage>`). Encoded files are cached in
+ * `node_modules/.cache/responsive-images`, so only new or changed images cost time:
+ * a build encodes and emits all of them to `dist/assets/img/`, the dev server encodes
+ * an image the first time one of its variants is requested.
+ */
+export const responsiveImagesPlugin = (): Plugin => {
+  let publicDir = '';
+  let cacheDir = '';
+  let urlPrefix = `/${OUTPUT_DIR}`;
+  let isBuild = false;
+  let result: ImageManifestResult | undefined;
+  // Dev only: variant URL → its image, and the encodes in flight
+  const byUrl = new Map<string, { image: SourceImage; variant: ImageVariant }>();
+  const encoding = new Map<SourceImage, Promise<void>>();
+
+  const build = async () => {
+    result = await buildImageManifest(publicDir, cacheDir, urlPrefix);
+    byUrl.clear();
+    for (const image of result.images) {
+      for (const variant of image.variants) byUrl.set(variant.url, { image, variant });
+    }
+    return result;
+  };
+
+  const reload = async (server: ViteDevServer) => {
+    const next = await build();
+    next.warnings.forEach((warning) => server.config.logger.warn(warning));
+    const module = server.moduleGraph.getModuleById(RESOLVED_ID);
+    if (module) server.moduleGraph.invalidateModule(module);
+    server.ws.send({ type: 'full-reload' });
+  };
+
+  return {
+    name: 'responsive-images',
+
+    configResolved(resolved) {
+      publicDir = resolved.publicDir;
+      cacheDir = resolve(resolved.root, 'node_modules/.cache/responsive-images');
+      urlPrefix = `${resolved.base}${OUTPUT_DIR}`;
+      isBuild = resolved.command === 'build';
+    },
+
+    async buildStart() {
+      const { images, warnings } = await build();
+      warnings.forEach((warning) => this.warn(warning));
+      if (!isBuild) return;
+
+      for (const image of images) {
+        await generateVariants(image);
+        for (const variant of image.variants) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `${OUTPUT_DIR}${basename(variant.path)}`,
+            source: readFileSync(variant.path),
+          });
+        }
+      }
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID || !result) return undefined;
+      return `export default ${JSON.stringify(result.manifest)};`;
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const match = byUrl.get((req.url ?? '').split('?')[0]);
+        if (!match) return next();
+
+        const { image, variant } = match;
+        // Every variant of an image is encoded together, so the other widths are ready next
+        if (!encoding.has(image)) encoding.set(image, generateVariants(image));
+        encoding
+          .get(image)!
+          .then(() => {
+            res.setHeader('Content-Type', CONTENT_TYPES[variant.format]);
+            res.setHeader('Cache-Control', 'max-age=31536000, immutable');
+            res.end(readFileSync(variant.path));
+          })
+          .catch((error: Error) => {
+            encoding.delete(image);
+            next(error);
+          });
+      });
+
+      const onChange = (file: string) => {
+        if (resolve(file).startsWith(publicDir + sep)) void reload(server);
+      };
+      server.watcher.on('add', onChange);
+      server.watcher.on('unlink', onChange);
+      server.watcher.on('change', onChange);
+    },
+  };
+};
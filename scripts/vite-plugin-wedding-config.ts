@@ -0,0 +1,99 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { validateWeddingConfig } from '../src/config/schema.ts';
+import type { WeddingConfig } from '../src/config/schema.ts';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Files in `public/` the config names but that aren't there. Every string starting with one
+ * `/` is such a path (assets must be absolute, and no other setting starts with one).
+ */
+const missingAssets = (value: unknown, publicDir: string, path = ''): string[] => {
+  if (typeof value === 'string') {
+    return value.startsWith('/') && !value.startsWith('//') && !existsSync(join(publicDir, value))
+      ? [`${path}: "${value}" is not in public/`]
+      : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => missingAssets(item, publicDir, `${path}[${index}]`));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      missingAssets(item, publicDir, path ? `${path}.${key}` : key),
+    );
+  }
+  return [];
+};
+
+/**
+ * Reads and validates the wedding config.
+ * @returns {{ config?: WeddingConfig; errors: string[] }} - The config, or the problems found.
+ */
+const loadConfig = (path: string, publicDir: string): { config?: WeddingConfig; errors: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    return { errors: [`could not read ${path}: ${(error as Error).message}`] };
+  }
+  const invalid = validateWeddingConfig(parsed);
+  if (invalid.length > 0) return { errors: invalid };
+  const errors = missingAssets(parsed, publicDir);
+  return errors.length > 0 ? { errors } : { config: parsed as WeddingConfig, errors };
+};
+
+const formatErrors = (path: string, errors: string[]) =>
+  `Invalid wedding config (${path}):\n${errors.map((error) => `  - ${error}`).join('\n')}`;
+
+/**
+ * Fails the build (and the dev server) with a readable list of problems when
+ * `wedding.json` doesn't match the schema or names a file missing from `public/`, and fills
+ * the `%WEDDING_*%` placeholders in index.html from it.
+ */
+export const weddingConfigPlugin = (configPath = 'src/config/wedding.json'): Plugin => {
+  let path = configPath;
+  let publicDir = '';
+  let config: WeddingConfig | undefined;
+
+  return {
+    name: 'wedding-config',
+
+    configResolved(resolved) {
+      path = resolve(resolved.root, configPath);
+      publicDir = resolved.publicDir;
+    },
+
+    buildStart() {
+      this.addWatchFile(path);
+      const result = loadConfig(path, publicDir);
+      if (result.errors.length > 0) this.error(formatErrors(configPath, result.errors));
+      config = result.config;
+    },
+
+    configureServer(server) {
+      // Re-check on every save so mistakes show up in the terminal and the error overlay
+      server.watcher.on('change', (file) => {
+        if (resolve(file) !== path) return;
+        const result = loadConfig(path, publicDir);
+        if (result.errors.length > 0) {
+          const message = formatErrors(configPath, result.errors);
+          server.config.logger.error(message);
+          server.ws.send({ type: 'error', err: { message, stack: '' } });
+        } else {
+          config = result.config;
+        }
+      });
+    },
+
+    transformIndexHtml(html) {
+      if (!config) return html;
+      return html
+        .replace(/%WEDDING_TITLE%/g, escapeHtml(config.site.title))
+        .replace(/%WEDDING_DESCRIPTION%/g, escapeHtml(config.site.description))
+        .replace(/%WEDDING_URL%/g, escapeHtml(config.site.url));
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { AdminEntry } from '../src/admin/types.ts';
+import { startServer } from './test/server.ts';
+
+const { request, signIn } = await startServer();
+
+describe('admin routes', () => {
+  it('turns away requests without a live session', async () => {
+    expect((await request('GET', '/api/admin/rsvps')).status).toBe(401);
+    expect((await request('GET', '/api/admin/rsvps', { token: 'guessed' })).status).toBe(401);
+    expect((await request('GET', '/api/admin/photos', { token: 'guessed' })).status).toBe(401);
+    expect((await request('PUT', '/api/admin/seating', { token: 'guessed', body: { tables: [] } })).status).toBe(401);
+  });
+
+  it('lists replies and the households still to reply', async () => {
+    await request('POST', '/api/rsvps', {
+      body: {
+        name: 'Rizalyn Bristol',
+        contact: '0917 123 4567',
+        attending: false,
+        attendees: [],
+        message: '',
+        inviteCode: 'RIZ001',
+      },
+    });
+
+    const token = await signIn();
+    const { status, body } = await request<{ entries: AdminEntry[] }>('GET', '/api/admin/rsvps', { token });
+
+    expect(status).toBe(200);
+    expect(body.entries.find((entry) => entry.household?.code === 'RIZ001')).toMatchObject({
+      status: 'declined',
+      history: [expect.objectContaining({ version: 1 })],
+    });
+    expect(body.entries.find((entry) => entry.household?.code === 'ABC123')).toMatchObject({ status: 'pending' });
+  });
+
+  it('stops taking passwords after too many attempts', async () => {
+    // One attempt went to signing in above
+    for (let attempt = 0; attempt < 9; attempt += 1) {
+      expect((await request('POST', '/api/admin/session', { body: { password: 'wrong' } })).status).toBe(401);
+    }
+    expect((await request('POST', '/api/admin/session', { body: { password: 'wrong' } })).status).toBe(429);
+  });
+});
@@ -0,0 +1,74 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { allHouseholds, currentVersion, findHousehold, store } from './db.ts';
+import { HttpError, bearerToken, readJsonBody, sendJson } from './http.ts';
+import type { Router } from './http.ts';
+import { clientAddress, RateLimiter } from './rateLimit.ts';
+import type { AdminEntry } from '../src/admin/types.ts';
+
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD ?? '';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// The couple sign in a handful of times; this keeps anyone else from guessing the password
+const limiter = new RateLimiter(10, 15 * 60 * 1000);
+
+// Admin sessions live in memory; restarting the server signs the couple out
+const sessions = new Map<string, number>();
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const passwordMatches = (attempt: string) =>
+  ADMIN_PASSWORD !== '' && timingSafeEqual(digest(attempt), digest(ADMIN_PASSWORD));
+
+/** Rejects the request unless it carries a live admin session token. */
+export const requireAdmin = (req: IncomingMessage) => {
+  const token = bearerToken(req);
+  const expiresAt = token ? sessions.get(token) : undefined;
+  if (!token || !expiresAt || expiresAt < Date.now()) {
+    if (token) sessions.delete(token);
+    throw new HttpError(401, 'Please sign in again.');
+  }
+};
+
+export const registerAdminRoutes = (router: Router) => {
+  router.post('/api/admin/session', async ({ req, res }) => {
+    if (!ADMIN_PASSWORD) {
+      throw new HttpError(503, 'The admin area is disabled. Start the server with ADMIN_PASSWORD set.');
+    }
+    limiter.consume(clientAddress(req), 'Too many sign-in attempts. Please wait a few minutes and try again.');
+    const { password } = (await readJsonBody(req)) as { password?: unknown };
+    if (typeof password !== 'string' || !passwordMatches(password)) {
+      throw new HttpError(401, 'Wrong password.');
+    }
+    const token = randomBytes(32).toString('base64url');
+    sessions.set(token, Date.now() + SESSION_TTL_MS);
+    sendJson(res, 201, { token });
+  });
+
+  router.get('/api/admin/rsvps', async ({ req, res }) => {
+    requireAdmin(req);
+    const db = await store.read();
+
+    const entries: AdminEntry[] = db.rsvps.map((stored) => {
+      const { rsvp } = currentVersion(stored);
+      return {
+        id: stored.id,
+        status: rsvp.attending ? 'attending' : 'declined',
+        household: stored.inviteCode ? findHousehold(stored.inviteCode) : undefined,
+        rsvp,
+        updatedAt: stored.updatedAt,
+        history: stored.versions,
+      };
+    });
+
+    // Invited households without any reply are listed as pending
+    const replied = new Set(db.rsvps.map((stored) => stored.inviteCode).filter(Boolean));
+    for (const household of allHouseholds()) {
+      if (!replied.has(household.code)) {
+        entries.push({ id: `pending-${household.code}`, status: 'pending', household, history: [] });
+      }
+    }
+
+    sendJson(res, 200, { entries });
+  });
+};
@@ -0,0 +1,38 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { registerAdminRoutes } from './admin.ts';
+import { CORS_HEADERS, HttpError, Router, sendJson } from './http.ts';
+import { registerInviteRoutes } from './invites.ts';
+import { registerPhotoRoutes } from './photos.ts';
+import { registerRsvpRoutes } from './rsvps.ts';
+import { registerSeatingRoutes } from './seating.ts';
+import { registerWishRoutes } from './wishes.ts';
+
+/** The whole API as a `node:http` request listener: every route, CORS preflights and error replies. */
+export const createRequestListener = () => {
+  const router = new Router();
+  router.get('/api/health', ({ res }) => sendJson(res, 200, { ok: true }));
+  registerInviteRoutes(router);
+  registerRsvpRoutes(router);
+  registerAdminRoutes(router);
+  registerPhotoRoutes(router);
+  registerWishRoutes(router);
+  registerSeatingRoutes(router);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+      } else if (!(await router.handle(req, res))) {
+        sendJson(res, 404, { message: 'Not found.' });
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { message: error.message });
+        return;
+      }
+      console.error('Unhandled request error:', error);
+      sendJson(res, 500, { message: 'Internal server error.' });
+    }
+  };
+};
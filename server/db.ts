@@ -0,0 +1,80 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { JsonFileStore } from './store.ts';
+import { normalizeInviteCode } from '../src/invite/inviteCode.ts';
+import type { WishStatus } from '../src/guestbook/types.ts';
+import type { PhotoStatus } from '../src/photos/types.ts';
+import type { Household, RsvpSubmission } from '../src/rsvp/types.ts';
+import type { SeatingPlan } from '../src/seating/types.ts';
+
+/** One saved revision of an RSVP. Versions are never modified once written. */
+export interface RsvpVersion {
+  version: number;
+  submittedAt: string;
+  rsvp: RsvpSubmission;
+}
+
+export interface StoredRsvp {
+  id: string;
+  /** Secret that lets the guest who sent the RSVP view and edit it. */
+  token: string;
+  inviteCode?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Oldest first; the last entry is the current answer. */
+  versions: RsvpVersion[];
+}
+
+/** A guest's photo. The file itself is kept by the photo storage under `key`. */
+export interface StoredPhoto {
+  id: string;
+  key: string;
+  contentType: string;
+  width: number;
+  height: number;
+  uploader?: string;
+  /** Where the upload came from, to cap the photos one address can leave waiting. Never sent to clients. */
+  address?: string;
+  uploadedAt: string;
+  status: PhotoStatus;
+  moderatedAt?: string;
+}
+
+/** A guestbook wish. An attached photo is kept by the photo storage under `photo.key`. */
+export interface StoredWish {
+  id: string;
+  name: string;
+  message: string;
+  stickers: string[];
+  photo?: { key: string; contentType: string; width: number; height: number };
+  createdAt: string;
+  status: WishStatus;
+  moderatedAt?: string;
+}
+
+export interface Database {
+  rsvps: StoredRsvp[];
+  photos: StoredPhoto[];
+  wishes: StoredWish[];
+  /** The couple's one seating plan, saved whole from the planner. */
+  seating: SeatingPlan;
+}
+
+export const DB_PATH = process.env.RSVP_DB ?? fileURLToPath(new URL('./data/db.json', import.meta.url));
+const HOUSEHOLDS_PATH =
+  process.env.RSVP_HOUSEHOLDS ?? fileURLToPath(new URL('../src/data/households.json', import.meta.url));
+
+export const store = new JsonFileStore<Database>(DB_PATH, () => ({ rsvps: [], photos: [], wishes: [], seating: { tables: [] } }));
+
+const households = new Map<string, Household>(
+  (JSON.parse(await readFile(HOUSEHOLDS_PATH, 'utf8')) as Household[]).map((household) => [household.code, household]),
+);
+
+export const allHouseholds = (): Household[] => [...households.values()];
+
+export const findHousehold = (rawCode: string): Household | undefined => {
+  const code = normalizeInviteCode(rawCode);
+  return code ? households.get(code) : undefined;
+};
+
+export const currentVersion = (rsvp: StoredRsvp): RsvpVersion => rsvp.versions[rsvp.versions.length - 1];
@@ -0,0 +1,133 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** Thrown from handlers to answer with a status code and a JSON `{ message }`. */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+/** Caching for files the couple can still take down: kept for minutes, not for good. */
+export const MODERATED_CACHE = 'public, max-age=300';
+
+/** Sends a file, e.g. a stored photo, with `cache` as its `Cache-Control`. */
+export const sendFile = (res: ServerResponse, bytes: Buffer, contentType: string, cache: string) => {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': contentType, 'Content-Length': bytes.length, 'Cache-Control': cache });
+  res.end(bytes);
+};
+
+/** The raw request body, rejected with 413 once it passes `maxBytes`. */
+export const readBody = async (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Buffer> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+/** The request body as a JSON object; anything else (`null`, an array, a number) is a 400. */
+export const readJsonBody = async (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Record<string, unknown>> => {
+  const body = await readBody(req, maxBytes);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new HttpError(400, 'Request body must be a JSON object.');
+  }
+  return parsed as Record<string, unknown>;
+};
+
+/** The token from an `Authorization: Bearer <token>` header, if present. */
+export const bearerToken = (req: IncomingMessage): string | null => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1].trim() : null;
+};
+
+export interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  params: Record<string, string>;
+}
+
+export type Handler = (ctx: RequestContext) => void | Promise<void>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+/**
+ * A minimal method + path router. Paths may contain `:name` segments, which are
+ * URL-decoded into `ctx.params`; a segment that can't be decoded is a 400.
+ */
+export class Router {
+  private readonly routes: Route[] = [];
+
+  add(method: string, path: string, handler: Handler): this {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      `^${path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      })}/?$`,
+    );
+    this.routes.push({ method, pattern, keys, handler });
+    return this;
+  }
+
+  get(path: string, handler: Handler): this {
+    return this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: Handler): this {
+    return this.add('POST', path, handler);
+  }
+
+  put(path: string, handler: Handler): this {
+    return this.add('PUT', path, handler);
+  }
+
+  /** Runs the matching handler; resolves `false` when no route matched. */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    for (const route of this.routes) {
+      if (route.method !== req.method) continue;
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      let params: Record<string, string>;
+      try {
+        params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+      } catch {
+        throw new HttpError(400, 'Malformed URL.');
+      }
+      await route.handler({ req, res, url, params });
+      return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Reference RSVP server.
+ * A dependency-free JSON API backed by a JSON file, used for local development and
+ * offline end-to-end testing of the REST RSVP adapter.
+ *
+ *   npm run server                 # listens on :8787, stores in server/data/db.json
+ *   PORT=9000 RSVP_DB=/tmp/db.json npm run server
+ *
+ * Invites are read from src/data/households.json (override with RSVP_HOUSEHOLDS).
+ * RSVP_DEADLINE (ISO date) overrides the deadline from src/rsvp/deadline.ts.
+ * ADMIN_PASSWORD enables the couple's dashboard at /admin.
+ * Guests' photos are kept in server/data/photos (override with PHOTO_DIR); PHOTO_STORAGE picks
+ * another storage adapter from server/photoStorage.ts; guestbook photos are kept there too.
+ * Behind a reverse proxy, TRUST_PROXY=1 rate-limits admin sign-ins, invite lookups, photo
+ * uploads, guestbook wishes and table searches by X-Forwarded-For.
+ */
+import { createServer } from 'node:http';
+import { createRequestListener } from './app.ts';
+import { DB_PATH } from './db.ts';
+
+const PORT = Number(process.env.PORT ?? 8787);
+
+const server = createServer(createRequestListener());
+
+server.listen(PORT, () => {
+  console.log(`RSVP reference server listening on http://localhost:${PORT} (data: ${DB_PATH})`);
+});
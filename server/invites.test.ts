@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { startServer } from './test/server.ts';
+
+const { request } = await startServer();
+
+describe('invite routes', () => {
+  it('stops answering an address that keeps trying codes', async () => {
+    for (let attempt = 0; attempt < 300; attempt += 1) {
+      const path = attempt % 2 === 0 ? `/api/invites/TRY${attempt}` : `/api/rsvps/by-invite/TRY${attempt}`;
+      expect((await request('GET', path)).status).toBe(404);
+    }
+    expect((await request('GET', '/api/invites/ABC123')).status).toBe(429);
+    expect((await request('GET', '/api/rsvps/by-invite/ABC123')).status).toBe(429);
+  });
+});
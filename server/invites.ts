@@ -0,0 +1,26 @@
+import type { IncomingMessage } from 'node:http';
+import { findHousehold } from './db.ts';
+import { sendJson } from './http.ts';
+import type { Router } from './http.ts';
+import { clientAddress, RateLimiter } from './rateLimit.ts';
+
+// Every page a guest opens through their link asks once, and the reception may share one address;
+// trying codes one by one at this pace would take far longer than the wedding is away
+const limiter = new RateLimiter(300, 10 * 60 * 1000);
+
+/** Counts a lookup by invite code, which also guards the RSVP found through one. */
+export const limitInviteLookups = (req: IncomingMessage) => {
+  limiter.consume(clientAddress(req), 'That is a lot of invitations to look up. Please wait a few minutes and try again.');
+};
+
+export const registerInviteRoutes = (router: Router) => {
+  router.get('/api/invites/:code', ({ req, res, params }) => {
+    limitInviteLookups(req);
+    const household = findHousehold(params.code);
+    if (!household) {
+      sendJson(res, 404, { message: 'Unknown invite code.' });
+      return;
+    }
+    sendJson(res, 200, household);
+  });
+};
@@ -0,0 +1,81 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Where guests' photo files live. The database only keeps each photo's key and details,
+ * so a deployment can swap the local folder for object storage (S3, R2, Cloud Storage)
+ * by implementing this interface and choosing it in `createPhotoStorage`.
+ */
+export interface PhotoStorage {
+  save(key: string, bytes: Buffer, contentType: string): Promise<void>;
+  /** The file's bytes, or `null` if nothing is stored under `key`. */
+  read(key: string): Promise<Buffer | null>;
+  /** Deletes the file; removing a missing file is not an error. */
+  remove(key: string): Promise<void>;
+}
+
+/** Keeps photos as plain files in one folder, for local development and tests. */
+export class LocalPhotoStorage implements PhotoStorage {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async save(key: string, bytes: Buffer): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.path(key), bytes);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.path(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  // Keys are generated by the server, but never let one point outside the folder
+  private path(key: string): string {
+    if (!/^[\w-]+\.\w+$/.test(key)) throw new Error(`Invalid photo key: ${key}`);
+    return join(this.dir, key);
+  }
+}
+
+export interface ImageFormat {
+  contentType: string;
+  extension: string;
+}
+
+const FORMATS: Array<ImageFormat & { matches: (bytes: Buffer) => boolean }> = [
+  { contentType: 'image/jpeg', extension: 'jpg', matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+  { contentType: 'image/png', extension: 'png', matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/webp', extension: 'webp', matches: (bytes) => bytes.toString('latin1', 0, 4) === 'RIFF' && bytes.toString('latin1', 8, 12) === 'WEBP' },
+];
+
+/**
+ * The image format of an uploaded file, read from the file itself and never trusted from
+ * the request, or `undefined` unless it is a JPEG, PNG or WebP.
+ */
+export const imageFormat = (bytes: Buffer): ImageFormat | undefined => {
+  const format = FORMATS.find((candidate) => candidate.matches(bytes));
+  return format && { contentType: format.contentType, extension: format.extension };
+};
+
+export const PHOTO_DIR = process.env.PHOTO_DIR ?? fileURLToPath(new URL('./data/photos', import.meta.url));
+
+/** Picks the storage from `PHOTO_STORAGE`; `local` (the default) is the only built-in adapter. */
+export const createPhotoStorage = (kind = process.env.PHOTO_STORAGE ?? 'local'): PhotoStorage => {
+  switch (kind) {
+    case 'local':
+      return new LocalPhotoStorage(PHOTO_DIR);
+    default:
+      throw new Error(`Unknown PHOTO_STORAGE "${kind}". Add an adapter in server/photoStorage.ts.`);
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { startServer } from './test/server.ts';
+
+const { request, signIn } = await startServer();
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+
+const upload = (body: Uint8Array, query = 'width=800&height=600') => request<{ id: string; status: string }>('POST', `/api/photos?${query}`, { body });
+
+describe('photo routes', () => {
+  it('keeps a photo private until the couple approves it, then caches it only briefly', async () => {
+    const { status, body } = await upload(JPEG, 'width=800&height=600&uploader=Tita%20Baby');
+    expect(status).toBe(201);
+    expect(body.status).toBe('pending');
+
+    expect((await request('GET', `/api/photos/${body.id}`)).status).toBe(404);
+    expect((await request('GET', '/api/photos')).body).toEqual({ photos: [] });
+
+    const token = await signIn();
+    expect((await request('PUT', `/api/admin/photos/${body.id}`, { token, body: { status: 'approved' } })).status).toBe(200);
+
+    const served = await request('GET', `/api/photos/${body.id}`);
+    expect(served.status).toBe(200);
+    expect(served.headers.get('content-type')).toBe('image/jpeg');
+    expect(served.headers.get('cache-control')).not.toMatch(/immutable/);
+    expect((await request('GET', '/api/photos')).body).toEqual({
+      photos: [expect.objectContaining({ id: body.id, uploader: 'Tita Baby' })],
+    });
+  });
+
+  it('stops serving a photo once it is rejected', async () => {
+    const { body } = await upload(JPEG);
+    const token = await signIn();
+    await request('PUT', `/api/admin/photos/${body.id}`, { token, body: { status: 'approved' } });
+    await request('PUT', `/api/admin/photos/${body.id}`, { token, body: { status: 'rejected' } });
+
+    expect((await request('GET', `/api/photos/${body.id}`)).status).toBe(404);
+    expect((await request('PUT', `/api/admin/photos/${body.id}`, { token, body: { status: 'approved' } })).status).toBe(409);
+  });
+
+  it('only takes JPEG, PNG and WebP photos with their size', async () => {
+    expect((await upload(new TextEncoder().encode('<svg/>'))).status).toBe(415);
+    expect((await upload(JPEG, 'width=0&height=600')).status).toBe(400);
+  });
+});
@@ -0,0 +1,150 @@
+import { randomUUID } from 'node:crypto';
+import { requireAdmin } from './admin.ts';
+import { store } from './db.ts';
+import type { StoredPhoto } from './db.ts';
+import { HttpError, MODERATED_CACHE, readBody, readJsonBody, sendFile, sendJson } from './http.ts';
+import type { Router } from './http.ts';
+import { createPhotoStorage, imageFormat } from './photoStorage.ts';
+import { clientAddress, RateLimiter } from './rateLimit.ts';
+import type { GuestPhoto, ModeratedPhoto, PhotoStatus } from '../src/photos/types.ts';
+
+// The browser resizes photos before sending them, so anything this big is not from the site
+const MAX_PHOTO_BYTES = 12 * 1024 * 1024;
+const MAX_DIMENSION = 10_000;
+const MAX_UPLOADER_LENGTH = 60;
+
+// Counted per address, which the whole reception may share on the venue Wi-Fi: room for everyone's
+// photos, while a script can neither keep uploading nor pile up files the couple hasn't seen
+const limiter = new RateLimiter(300, 10 * 60 * 1000);
+const MAX_PENDING_PER_ADDRESS = 500;
+const MAX_PENDING = 2000;
+
+const storage = createPhotoStorage();
+
+const dimension = (value: string | null): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > MAX_DIMENSION) {
+    throw new HttpError(400, 'Photo width and height must be whole numbers of pixels.');
+  }
+  return number;
+};
+
+// Clients build the image URL from the id, relative to wherever they reach the API
+const toGuestPhoto = (photo: StoredPhoto): Omit<GuestPhoto, 'src'> => ({
+  id: photo.id,
+  width: photo.width,
+  height: photo.height,
+  ...(photo.uploader ? { uploader: photo.uploader } : {}),
+  uploadedAt: photo.uploadedAt,
+});
+
+const findPhoto = async (id: string): Promise<StoredPhoto> => {
+  const photo = (await store.read()).photos.find((stored) => stored.id === id);
+  if (!photo) throw new HttpError(404, 'Photo not found.');
+  return photo;
+};
+
+const readPhoto = async (photo: StoredPhoto): Promise<Buffer> => {
+  const bytes = await storage.read(photo.key);
+  if (!bytes) throw new HttpError(404, 'Photo not found.');
+  return bytes;
+};
+
+/**
+ * Guests upload photos as the raw image body (`POST /api/photos?width=&height=&uploader=`).
+ * Uploads wait for the couple's approval before anyone else can see them.
+ */
+export const registerPhotoRoutes = (router: Router) => {
+  router.post('/api/photos', async ({ req, res, url }) => {
+    const address = clientAddress(req);
+    limiter.consume(address, 'That is a lot of photos at once. Please wait a few minutes and try again.');
+    const pending = (await store.read()).photos.filter((photo) => photo.status === 'pending');
+    if (pending.length >= MAX_PENDING || pending.filter((photo) => photo.address === address).length >= MAX_PENDING_PER_ADDRESS) {
+      throw new HttpError(429, 'Lots of photos are waiting for the couple to look at. Please try again later.');
+    }
+
+    const bytes = await readBody(req, MAX_PHOTO_BYTES);
+    const format = imageFormat(bytes);
+    if (!format) throw new HttpError(415, 'Please upload a JPEG, PNG or WebP photo.');
+
+    const width = dimension(url.searchParams.get('width'));
+    const height = dimension(url.searchParams.get('height'));
+    const uploader = (url.searchParams.get('uploader') ?? '').trim().slice(0, MAX_UPLOADER_LENGTH);
+
+    const id = randomUUID();
+    const key = `${id}.${format.extension}`;
+    await storage.save(key, bytes, format.contentType);
+
+    const photo: StoredPhoto = {
+      id,
+      key,
+      contentType: format.contentType,
+      width,
+      height,
+      ...(uploader ? { uploader } : {}),
+      address,
+      uploadedAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    await store.update((db) => {
+      db.photos.push(photo);
+    });
+    sendJson(res, 201, { id, status: photo.status });
+  });
+
+  router.get('/api/photos', async ({ res }) => {
+    const { photos } = await store.read();
+    sendJson(res, 200, {
+      photos: photos
+        .filter((photo) => photo.status === 'approved')
+        .map(toGuestPhoto),
+    });
+  });
+
+  // Unapproved photos stay private, even to someone who guesses the id. Caches only keep an
+  // approved one briefly, so a photo rejected later stops showing soon after.
+  router.get('/api/photos/:id', async ({ res, params }) => {
+    const photo = await findPhoto(params.id);
+    if (photo.status !== 'approved') throw new HttpError(404, 'Photo not found.');
+    sendFile(res, await readPhoto(photo), photo.contentType, MODERATED_CACHE);
+  });
+
+  router.get('/api/admin/photos', async ({ req, res }) => {
+    requireAdmin(req);
+    const { photos } = await store.read();
+    const moderated: Array<Omit<ModeratedPhoto, 'src'>> = photos.map((photo) => ({
+      ...toGuestPhoto(photo),
+      status: photo.status,
+    }));
+    sendJson(res, 200, { photos: moderated });
+  });
+
+  router.get('/api/admin/photos/:id', async ({ req, res, params }) => {
+    requireAdmin(req);
+    const photo = await findPhoto(params.id);
+    sendFile(res, await readPhoto(photo), photo.contentType, 'private, no-store');
+  });
+
+  // Rejecting a photo deletes the file; only the record of the decision is kept
+  router.put('/api/admin/photos/:id', async ({ req, res, params }) => {
+    requireAdmin(req);
+    const { status } = (await readJsonBody(req)) as { status?: unknown };
+    if (status !== 'approved' && status !== 'rejected') {
+      throw new HttpError(400, 'Status must be "approved" or "rejected".');
+    }
+    const photo = await findPhoto(params.id);
+    if (photo.status === 'rejected') throw new HttpError(409, 'This photo was already removed.');
+    if (status === 'rejected') await storage.remove(photo.key);
+
+    const updated = await store.update((db) => {
+      const stored = db.photos.find((candidate) => candidate.id === photo.id);
+      if (!stored) throw new HttpError(404, 'Photo not found.');
+      stored.status = status as PhotoStatus;
+      stored.moderatedAt = new Date().toISOString();
+      // Only waiting photos count against their address
+      delete stored.address;
+      return stored;
+    });
+    sendJson(res, 200, { ...toGuestPhoto(updated), status: updated.status });
+  });
+};
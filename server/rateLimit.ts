@@ -0,0 +1,47 @@
+import type { IncomingMessage } from 'node:http';
+import { HttpError } from './http.ts';
+
+// Behind a reverse proxy every request arrives from the proxy; TRUST_PROXY=1 reads the guest's
+// address from X-Forwarded-For instead. Without a proxy that header can be forged, so it is off by default.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+/** The address a request came from, used to tell guests apart for rate limiting. */
+export const clientAddress = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string' && forwarded.trim()) return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * Allows each key (usually a client address) `limit` requests per sliding `windowMs`.
+ * Counts live in memory only; a restart simply forgets them.
+ */
+export class RateLimiter {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(limit: number, windowMs: number) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  /** Counts a request from `key`, or throws 429 with `message` once its allowance is used up. */
+  consume(key: string, message: string, now = Date.now()) {
+    const recent = (this.hits.get(key) ?? []).filter((time) => now - time < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      throw new HttpError(429, message);
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    if (this.hits.size > 10_000) this.prune(now);
+  }
+
+  // Forget addresses that have gone quiet so the map can't grow without bound
+  private prune(now: number) {
+    for (const [key, times] of this.hits) {
+      if (times.every((time) => now - time >= this.windowMs)) this.hits.delete(key);
+    }
+  }
+}
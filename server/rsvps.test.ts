@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { RsvpRecord, RsvpSubmission } from '../src/rsvp/types.ts';
+import { startServer } from './test/server.ts';
+
+const { request } = await startServer();
+
+const reply = (changes: Partial<RsvpSubmission> = {}): RsvpSubmission => ({
+  name: 'Maria Clara',
+  contact: '0917 123 4567',
+  attending: true,
+  attendees: [{ name: 'Maria Clara', ageGroup: 'adult', entree: 'chicken', allergies: '', dietaryNotes: '' }],
+  message: '',
+  ...changes,
+});
+
+/** Asks for a lookup code and reads it off the console, where the reference server "sends" it. */
+const requestLookupCode = async (contact: string): Promise<string | undefined> => {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  const { status } = await request('POST', '/api/rsvps/lookup/code', { body: { contact } });
+  expect(status).toBe(202);
+  const line = log.mock.calls.map(([message]) => String(message)).find((message) => message.includes('Lookup code'));
+  log.mockRestore();
+  return line?.match(/(\d{6})$/)?.[1];
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RSVP routes', () => {
+  it('saves an RSVP and hands it back only with its token', async () => {
+    const created = await request<RsvpRecord>('POST', '/api/rsvps', { body: reply({ contact: '0917 000 0001' }) });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ version: 1, rsvp: { name: 'Maria Clara', contact: '0917 000 0001' } });
+
+    const { id, token } = created.body;
+    expect((await request('GET', `/api/rsvps/${id}`, { token })).body).toMatchObject({ id, version: 1 });
+    expect((await request('GET', `/api/rsvps/${id}`, { token: 'guessed' })).status).toBe(404);
+    expect((await request('GET', `/api/rsvps/${id}`)).status).toBe(404);
+  });
+
+  it('answers 422 with the problems in each field', async () => {
+    const { status, body } = await request('POST', '/api/rsvps', { body: reply({ name: '', contact: 'call me' }) });
+    expect(status).toBe(422);
+    expect(body.errors).toMatchObject({ name: expect.any(String), contact: expect.any(String) });
+  });
+
+  it('answers 422 to an invitation it doesn’t know', async () => {
+    const { status, body } = await request('POST', '/api/rsvps', { body: reply({ inviteCode: 'NOSUCH1' }) });
+    expect(status).toBe(422);
+    expect(body.errors).toMatchObject({ inviteCode: expect.any(String) });
+  });
+
+  it('keeps a household within its seats', async () => {
+    const attendees = ['Rizalyn', 'Plus one'].map((name) => ({ ...reply().attendees[0], name }));
+    const { status, body } = await request('POST', '/api/rsvps', { body: reply({ inviteCode: 'RIZ001', attendees }) });
+    expect(status).toBe(422);
+    expect(body.errors).toMatchObject({ guests: expect.any(String) });
+  });
+
+  it('adds a version when a household replies again through its invitation', async () => {
+    const first = await request<RsvpRecord>('POST', '/api/rsvps', { body: reply({ inviteCode: 'ABC123' }) });
+    const second = await request<RsvpRecord>('POST', '/api/rsvps', {
+      body: reply({ inviteCode: 'abc-123', message: 'Can’t wait!' }),
+    });
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(200);
+    expect(second.body).toMatchObject({ id: first.body.id, version: 2, rsvp: { message: 'Can’t wait!', inviteCode: 'ABC123' } });
+
+    // The invite link finds the latest version
+    const found = await request<RsvpRecord>('GET', '/api/rsvps/by-invite/ABC123');
+    expect(found.body).toMatchObject({ id: first.body.id, version: 2 });
+    expect((await request('GET', '/api/rsvps/by-invite/LAU777')).status).toBe(404);
+  });
+
+  it('edits an RSVP without letting it claim another invitation', async () => {
+    const { body: created } = await request<RsvpRecord>('POST', '/api/rsvps', { body: reply({ contact: '0917 000 0002' }) });
+
+    const edited = await request<RsvpRecord>('PUT', `/api/rsvps/${created.id}`, {
+      token: created.token,
+      body: reply({ contact: '0917 000 0002', attending: false, attendees: [], inviteCode: 'LAU777' }),
+    });
+
+    expect(edited.status).toBe(200);
+    expect(edited.body).toMatchObject({ version: 2, rsvp: { attending: false } });
+    expect(edited.body.rsvp.inviteCode).toBeUndefined();
+    expect((await request('PUT', `/api/rsvps/${created.id}`, { token: 'guessed', body: reply() })).status).toBe(404);
+  });
+
+  it('stops taking and changing RSVPs after the deadline', async () => {
+    const { body: created } = await request<RsvpRecord>('POST', '/api/rsvps', { body: reply({ contact: '0917 000 0003' }) });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2099-01-02T00:00:00Z'));
+
+    expect((await request('POST', '/api/rsvps', { body: reply() })).status).toBe(403);
+    expect((await request('PUT', `/api/rsvps/${created.id}`, { token: created.token, body: reply() })).status).toBe(403);
+    // Guests can still look at their reply
+    expect((await request('GET', `/api/rsvps/${created.id}`, { token: created.token })).status).toBe(200);
+  });
+
+  it('finds an RSVP by contact number with a one-time code', async () => {
+    const { body: created } = await request<RsvpRecord>('POST', '/api/rsvps', { body: reply({ contact: '0917 000 0004' }) });
+
+    const code = await requestLookupCode('+63 917 000 0004');
+    expect(code).toBeDefined();
+
+    const found = await request<RsvpRecord>('POST', '/api/rsvps/lookup/verify', { body: { contact: '09170000004', code } });
+    expect(found.status).toBe(200);
+    expect(found.body).toMatchObject({ id: created.id, token: created.token });
+
+    // Each code works once
+    expect((await request('POST', '/api/rsvps/lookup/verify', { body: { contact: '09170000004', code } })).status).toBe(404);
+  });
+
+  it('makes the guest wait before sending another code, known number or not', async () => {
+    await request('POST', '/api/rsvps', { body: reply({ contact: '0917 000 0005' }) });
+
+    for (const contact of ['0917 000 0005', '0917 999 9999']) {
+      await requestLookupCode(contact);
+      expect((await request('POST', '/api/rsvps/lookup/code', { body: { contact } })).status).toBe(429);
+    }
+  });
+
+  it('gives up on a code after too many wrong guesses', async () => {
+    await request('POST', '/api/rsvps', { body: reply({ contact: '0917 000 0006' }) });
+    const code = await requestLookupCode('0917 000 0006');
+    const wrong = code === '000000' ? '000001' : '000000';
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      const { body } = await request('POST', '/api/rsvps/lookup/verify', { body: { contact: '0917 000 0006', code: wrong } });
+      expect(body.message).toMatch(/doesn't match/);
+    }
+    const { status, body } = await request('POST', '/api/rsvps/lookup/verify', { body: { contact: '0917 000 0006', code } });
+    expect(status).toBe(404);
+    expect(body.message).toMatch(/expired/);
+  });
+
+  it('answers 400 to bodies and paths it can’t read', async () => {
+    expect((await request('POST', '/api/rsvps', { body: null })).status).toBe(400);
+    expect((await request('GET', '/api/rsvps/%E0%A4%A')).status).toBe(400);
+  });
+
+  it('looks up invitations by code', async () => {
+    const { status, body } = await request('GET', '/api/invites/abc123');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ code: 'ABC123', maxGuests: 2 });
+    expect((await request('GET', '/api/invites/NOSUCH1')).status).toBe(404);
+  });
+});
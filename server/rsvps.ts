@@ -0,0 +1,204 @@
+import { randomBytes, randomInt, randomUUID } from 'node:crypto';
+import type { ServerResponse } from 'node:http';
+import { currentVersion, findHousehold, store } from './db.ts';
+import type { StoredRsvp } from './db.ts';
+import { HttpError, bearerToken, readJsonBody, sendJson } from './http.ts';
+import type { Router } from './http.ts';
+import { limitInviteLookups } from './invites.ts';
+import { attendeeVenues } from '../src/rsvp/attendees.ts';
+import { hasErrors, normalizeContact, validateRsvp } from '../src/rsvp/validation.ts';
+import { RSVP_DEADLINE, isRsvpOpen } from '../src/rsvp/deadline.ts';
+import type { RsvpRecord, RsvpSubmission } from '../src/rsvp/types.ts';
+
+const DEADLINE = process.env.RSVP_DEADLINE ? new Date(process.env.RSVP_DEADLINE) : RSVP_DEADLINE;
+if (Number.isNaN(DEADLINE.getTime())) {
+  throw new Error(`Invalid RSVP_DEADLINE "${process.env.RSVP_DEADLINE}". Use an ISO date like 2026-05-01T23:59:59+08:00.`);
+}
+const LOOKUP_CODE_TTL_MS = 10 * 60 * 1000;
+const LOOKUP_CODE_RESEND_MS = 60 * 1000;
+const LOOKUP_CODE_MAX_ATTEMPTS = 5;
+
+interface LookupCode {
+  code: string;
+  issuedAt: number;
+  attempts: number;
+}
+
+// One-time codes live in memory only; a restart simply invalidates them
+const lookupCodes = new Map<string, LookupCode>();
+
+/**
+ * Delivers a lookup code. The reference server has no SMS gateway, so the code is
+ * printed to the console; a real deployment would send it to the guest's phone.
+ */
+const sendLookupCode = (contact: string, code: string) => {
+  console.log(`[rsvp] Lookup code for ${contact}: ${code}`);
+};
+
+const toRecord = (stored: StoredRsvp): RsvpRecord => {
+  const { version, rsvp } = currentVersion(stored);
+  return { id: stored.id, token: stored.token, version, updatedAt: stored.updatedAt, rsvp };
+};
+
+const sanitize = (input: RsvpSubmission, inviteCode?: string): RsvpSubmission => ({
+  name: input.name.trim(),
+  contact: input.contact.trim(),
+  attending: input.attending,
+  attendees: input.attending
+    ? input.attendees.map((attendee) => ({
+        name: attendee.name.trim(),
+        ageGroup: attendee.ageGroup,
+        entree: attendee.entree,
+        allergies: (attendee.allergies ?? '').trim(),
+        dietaryNotes: (attendee.dietaryNotes ?? '').trim(),
+        ...(attendee.venues ? { venues: attendeeVenues(attendee) } : {}),
+      }))
+    : [],
+  message: (input.message ?? '').trim(),
+  inviteCode,
+});
+
+/**
+ * Validates a submission against the guest's invitation.
+ * @returns {RsvpSubmission | null} - The cleaned submission, or `null` after answering 422.
+ */
+const parseSubmission = (body: unknown, res: ServerResponse): RsvpSubmission | null => {
+  const inviteCode = (body as Partial<RsvpSubmission>).inviteCode;
+  const household = typeof inviteCode === 'string' ? findHousehold(inviteCode) : undefined;
+
+  const errors = validateRsvp(body, { maxGuests: household?.maxGuests });
+  if (inviteCode !== undefined && inviteCode !== null && !household && !errors.inviteCode) {
+    errors.inviteCode = 'We couldn\'t find that invitation.';
+  }
+  if (hasErrors(errors)) {
+    sendJson(res, 422, { message: 'Please correct the highlighted fields.', errors });
+    return null;
+  }
+  return sanitize(body as RsvpSubmission, household?.code);
+};
+
+const assertOpen = () => {
+  if (!isRsvpOpen(new Date(), DEADLINE)) {
+    throw new HttpError(403, 'The RSVP deadline has passed. Please message the couple directly.');
+  }
+};
+
+const appendVersion = (stored: StoredRsvp, rsvp: RsvpSubmission) => {
+  const now = new Date().toISOString();
+  stored.versions.push({ version: currentVersion(stored).version + 1, submittedAt: now, rsvp });
+  stored.updatedAt = now;
+};
+
+const findAuthorized = async (id: string, token: string | null): Promise<StoredRsvp> => {
+  const db = await store.read();
+  const stored = db.rsvps.find((rsvp) => rsvp.id === id);
+  if (!stored || !token || stored.token !== token) {
+    throw new HttpError(404, 'RSVP not found.');
+  }
+  return stored;
+};
+
+export const registerRsvpRoutes = (router: Router) => {
+  router.post('/api/rsvps', async ({ req, res }) => {
+    assertOpen();
+    const rsvp = parseSubmission(await readJsonBody(req), res);
+    if (!rsvp) return;
+
+    // A household replies once; a second reply through the same invite is a new version
+    const { stored, created } = await store.update((db) => {
+      const existing = rsvp.inviteCode && db.rsvps.find((candidate) => candidate.inviteCode === rsvp.inviteCode);
+      if (existing) {
+        appendVersion(existing, rsvp);
+        return { stored: existing, created: false };
+      }
+      const now = new Date().toISOString();
+      const added: StoredRsvp = {
+        id: randomUUID(),
+        token: randomBytes(24).toString('base64url'),
+        inviteCode: rsvp.inviteCode,
+        createdAt: now,
+        updatedAt: now,
+        versions: [{ version: 1, submittedAt: now, rsvp }],
+      };
+      db.rsvps.push(added);
+      return { stored: added, created: true };
+    });
+    sendJson(res, created ? 201 : 200, toRecord(stored));
+  });
+
+  router.get('/api/rsvps/:id', async ({ req, res, params }) => {
+    sendJson(res, 200, toRecord(await findAuthorized(params.id, bearerToken(req))));
+  });
+
+  router.put('/api/rsvps/:id', async ({ req, res, params }) => {
+    assertOpen();
+    const stored = await findAuthorized(params.id, bearerToken(req));
+    const body = (await readJsonBody(req)) as Partial<RsvpSubmission>;
+    // Edits stay tied to the original invitation and its allowance; an RSVP sent without one
+    // can't claim a household's invitation later
+    const rsvp = parseSubmission({ ...body, inviteCode: stored.inviteCode }, res);
+    if (!rsvp) return;
+
+    await store.update(() => appendVersion(stored, rsvp));
+    sendJson(res, 200, toRecord(stored));
+  });
+
+  // The personal invite link doubles as the credential for the household's RSVP
+  router.get('/api/rsvps/by-invite/:code', async ({ req, res, params }) => {
+    limitInviteLookups(req);
+    const household = findHousehold(params.code);
+    const db = await store.read();
+    const stored = household && db.rsvps.find((rsvp) => rsvp.inviteCode === household.code);
+    if (!stored) throw new HttpError(404, 'No RSVP for this invitation yet.');
+    sendJson(res, 200, toRecord(stored));
+  });
+
+  router.post('/api/rsvps/lookup/code', async ({ req, res }) => {
+    const { contact } = (await readJsonBody(req)) as { contact?: unknown };
+    if (typeof contact !== 'string' || !normalizeContact(contact)) {
+      throw new HttpError(422, 'Please enter the contact number you used.');
+    }
+    const key = normalizeContact(contact);
+    // Every number asked about is remembered, so forget the expired ones
+    for (const [stale, entry] of lookupCodes) {
+      if (Date.now() - entry.issuedAt > LOOKUP_CODE_TTL_MS) lookupCodes.delete(stale);
+    }
+    const previous = lookupCodes.get(key);
+    if (previous && Date.now() - previous.issuedAt < LOOKUP_CODE_RESEND_MS) {
+      throw new HttpError(429, 'A code was just sent. Please wait a minute before asking again.');
+    }
+
+    // Answer the same way whether or not the number is known, so numbers can't be probed: unknown
+    // numbers get a code too, which is never sent, and the same wait before the next one
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    lookupCodes.set(key, { code, issuedAt: Date.now(), attempts: 0 });
+    const db = await store.read();
+    if (db.rsvps.some((rsvp) => normalizeContact(currentVersion(rsvp).rsvp.contact) === key)) {
+      sendLookupCode(contact, code);
+    }
+    sendJson(res, 202, { message: 'If we have an RSVP for this number, a code is on its way.' });
+  });
+
+  router.post('/api/rsvps/lookup/verify', async ({ req, res }) => {
+    const { contact, code } = (await readJsonBody(req)) as { contact?: unknown; code?: unknown };
+    const key = typeof contact === 'string' ? normalizeContact(contact) : '';
+    const pending = lookupCodes.get(key);
+
+    if (!pending || Date.now() - pending.issuedAt > LOOKUP_CODE_TTL_MS || pending.attempts >= LOOKUP_CODE_MAX_ATTEMPTS) {
+      lookupCodes.delete(key);
+      throw new HttpError(404, 'That code has expired. Please request a new one.');
+    }
+    if (typeof code !== 'string' || code.trim() !== pending.code) {
+      pending.attempts += 1;
+      throw new HttpError(404, 'That code doesn\'t match. Please check and try again.');
+    }
+    lookupCodes.delete(key);
+
+    const db = await store.read();
+    const matches = db.rsvps
+      .filter((rsvp) => normalizeContact(currentVersion(rsvp).rsvp.contact) === key)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    if (!matches[0]) throw new HttpError(404, 'RSVP not found.');
+    sendJson(res, 200, toRecord(matches[0]));
+  });
+};
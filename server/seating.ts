@@ -0,0 +1,59 @@
+import { requireAdmin } from './admin.ts';
+import { store } from './db.ts';
+import { HttpError, readJsonBody, sendJson } from './http.ts';
+import type { Router } from './http.ts';
+import { clientAddress, RateLimiter } from './rateLimit.ts';
+import { findGuests, MIN_SEARCH_LENGTH, validateSeatingPlan } from '../src/seating/plan.ts';
+import type { FloorTable, SeatingPlan, SeatingTable, TableLookup } from '../src/seating/types.ts';
+
+// The whole reception may search from one address (the venue Wi-Fi, a carrier's NAT), so this
+// allows every guest a couple of tries; the minimum length and the cap on matches are what keep
+// the guest list from being read out
+const limiter = new RateLimiter(600, 5 * 60 * 1000);
+
+const floorTable = ({ id, name, x, y }: SeatingTable): FloorTable => ({ id, name, x, y });
+
+/**
+ * The couple saves the whole seating plan from the planner; guests search it by name with
+ * `GET /api/seating?name=…` and get their table and the floor map, never the full guest list.
+ */
+export const registerSeatingRoutes = (router: Router) => {
+  router.get('/api/admin/seating', async ({ req, res }) => {
+    requireAdmin(req);
+    sendJson(res, 200, (await store.read()).seating);
+  });
+
+  router.put('/api/admin/seating', async ({ req, res }) => {
+    requireAdmin(req);
+    const body = (await readJsonBody(req)) as Partial<SeatingPlan>;
+    const errors = validateSeatingPlan(body);
+    if (errors.length > 0) throw new HttpError(400, errors.join(' '));
+
+    const plan: SeatingPlan = {
+      tables: (body.tables as SeatingTable[]).map((table) => ({
+        id: table.id,
+        name: table.name.trim(),
+        capacity: table.capacity,
+        guests: table.guests.map((guest) => ({ rsvpId: guest.rsvpId, name: guest.name })),
+        x: table.x,
+        y: table.y,
+      })),
+      updatedAt: new Date().toISOString(),
+    };
+    await store.update((db) => {
+      db.seating = plan;
+    });
+    sendJson(res, 200, plan);
+  });
+
+  router.get('/api/seating', async ({ req, res, url }) => {
+    limiter.consume(clientAddress(req), 'That is a lot of searches. Please wait a few minutes and try again.');
+    const name = url.searchParams.get('name') ?? '';
+    if (name.replace(/\s/g, '').length < MIN_SEARCH_LENGTH) {
+      throw new HttpError(400, `Please type at least ${MIN_SEARCH_LENGTH} letters of your name.`);
+    }
+    const { seating } = await store.read();
+    const lookup: TableLookup = { matches: findGuests(seating, name), tables: seating.tables.map(floorTable) };
+    sendJson(res, 200, lookup);
+  });
+};
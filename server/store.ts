@@ -0,0 +1,46 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * A tiny JSON-file database. The whole document is kept in memory and rewritten
+ * atomically (temp file + rename) after every change; writes are serialized so
+ * concurrent requests cannot interleave.
+ */
+export class JsonFileStore<T extends object> {
+  private readonly path: string;
+  private readonly initial: () => T;
+  private data: T | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string, initial: () => T) {
+    this.path = path;
+    this.initial = initial;
+  }
+
+  async read(): Promise<T> {
+    if (!this.data) {
+      try {
+        this.data = { ...this.initial(), ...JSON.parse(await readFile(this.path, 'utf8')) } as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        this.data = this.initial();
+      }
+    }
+    return this.data;
+  }
+
+  /** Applies `change` to the document and persists it before resolving. */
+  update<R>(change: (data: T) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      const data = await this.read();
+      const result = change(data);
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      await writeFile(tmp, JSON.stringify(data, null, 2));
+      await rename(tmp, this.path);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll } from 'vitest';
+
+export const ADMIN_PASSWORD = 'test-password';
+
+export interface TestResponse<T = Record<string, unknown>> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+/**
+ * Starts the reference server on a free port with its database and photos in a temporary folder,
+ * closed and removed after the test file. The server reads its settings when first imported,
+ * so each test file gets one server; `env` adds to or overrides the defaults.
+ */
+export const startServer = async (env: Record<string, string> = {}) => {
+  const dir = mkdtempSync(join(tmpdir(), 'wedding-server-'));
+  Object.assign(process.env, {
+    RSVP_DB: join(dir, 'db.json'),
+    PHOTO_DIR: join(dir, 'photos'),
+    ADMIN_PASSWORD,
+    RSVP_DEADLINE: '2099-01-01T00:00:00Z',
+    ...env,
+  });
+
+  const { createRequestListener } = await import('../app.ts');
+  const server = createServer(createRequestListener());
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Sends a request; a plain object `body` goes as JSON. */
+  const request = async <T = Record<string, unknown>>(
+    method: string,
+    path: string,
+    { body, token }: { body?: unknown; token?: string } = {},
+  ): Promise<TestResponse<T>> => {
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+    let payload: RequestInit['body'];
+    if (body instanceof Uint8Array) {
+      payload = body;
+    } else if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      payload = JSON.stringify(body);
+    }
+    const response = await fetch(`${base}${path}`, { method, headers, body: payload });
+    const type = response.headers.get('content-type') ?? '';
+    const parsed = type.startsWith('application/json') ? await response.json() : await response.arrayBuffer();
+    return { status: response.status, headers: response.headers, body: parsed as T };
+  };
+
+  const signIn = async (): Promise<string> => {
+    const { body } = await request<{ token: string }>('POST', '/api/admin/session', { body: { password: ADMIN_PASSWORD } });
+    return body.token;
+  };
+
+  return { request, signIn };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { startServer } from './test/server.ts';
+
+const { request, signIn } = await startServer();
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]).toString('base64');
+
+describe('wish routes', () => {
+  it('shows a wish and its photo once approved, and neither once hidden', async () => {
+    const { status, body } = await request<{ id: string }>('POST', '/api/wishes', {
+      body: { name: 'Tita Baby', message: 'Mabuhay!', stickers: [], photo: { data: PNG, width: 40, height: 30 } },
+    });
+    expect(status).toBe(201);
+    expect((await request('GET', `/api/wishes/${body.id}/photo`)).status).toBe(404);
+
+    const token = await signIn();
+    await request('PUT', `/api/admin/wishes/${body.id}`, { token, body: { status: 'approved' } });
+    expect((await request('GET', '/api/wishes')).body).toEqual({
+      wishes: [expect.objectContaining({ id: body.id, message: 'Mabuhay!', photo: { width: 40, height: 30 } })],
+    });
+    const photo = await request('GET', `/api/wishes/${body.id}/photo`);
+    expect(photo.status).toBe(200);
+    expect(photo.headers.get('cache-control')).not.toMatch(/immutable/);
+
+    await request('PUT', `/api/admin/wishes/${body.id}`, { token, body: { status: 'hidden' } });
+    expect((await request('GET', '/api/wishes')).body).toEqual({ wishes: [] });
+    expect((await request('GET', `/api/wishes/${body.id}/photo`)).status).toBe(404);
+  });
+
+  it('answers 422 with the problems in each field', async () => {
+    const { status, body } = await request('POST', '/api/wishes', { body: { name: '', message: '' } });
+    expect(status).toBe(422);
+    expect(body.errors).toMatchObject({ name: expect.any(String), message: expect.any(String) });
+  });
+
+  it('pretends to take wishes from bots that fill in the hidden field', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { status } = await request('POST', '/api/wishes', { body: { name: 'Bot', message: 'Buy now', website: 'spam.example' } });
+    expect(status).toBe(201);
+    const token = await signIn();
+    const { body } = await request<{ wishes: Array<{ name: string }> }>('GET', '/api/admin/wishes', { token });
+    expect(body.wishes.map((wish) => wish.name)).not.toContain('Bot');
+  });
+});
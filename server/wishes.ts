@@ -0,0 +1,155 @@
+import { randomUUID } from 'node:crypto';
+import { requireAdmin } from './admin.ts';
+import { store } from './db.ts';
+import type { StoredWish } from './db.ts';
+import { HttpError, MODERATED_CACHE, readJsonBody, sendFile, sendJson } from './http.ts';
+import type { Router } from './http.ts';
+import { createPhotoStorage, imageFormat } from './photoStorage.ts';
+import { clientAddress, RateLimiter } from './rateLimit.ts';
+import { validateWish } from '../src/guestbook/validation.ts';
+import type { Wish, WishPhoto, WishRequest, WishStatus } from '../src/guestbook/types.ts';
+
+// The browser shrinks the photo first; base64 adds a third on top
+const MAX_WISH_PHOTO_BYTES = 2 * 1024 * 1024;
+const MAX_WISH_BODY_BYTES = 3 * 1024 * 1024;
+const MAX_DIMENSION = 10_000;
+
+// Counted per address, and the whole reception may share one (the venue Wi-Fi, a carrier's NAT):
+// room for a wish from most guests in a busy ten minutes, while a script still hits the limit
+const limiter = new RateLimiter(200, 10 * 60 * 1000);
+
+const storage = createPhotoStorage();
+
+type WishJson = Omit<Wish, 'photo'> & { photo?: Omit<WishPhoto, 'src'> };
+
+// Clients build the photo URL from the id, relative to wherever they reach the API
+const toWish = (wish: StoredWish): WishJson => ({
+  id: wish.id,
+  name: wish.name,
+  message: wish.message,
+  stickers: wish.stickers,
+  ...(wish.photo ? { photo: { width: wish.photo.width, height: wish.photo.height } } : {}),
+  createdAt: wish.createdAt,
+});
+
+const newestFirst = (a: StoredWish, b: StoredWish) => b.createdAt.localeCompare(a.createdAt);
+
+const findWish = async (id: string): Promise<StoredWish> => {
+  const wish = (await store.read()).wishes.find((stored) => stored.id === id);
+  if (!wish) throw new HttpError(404, 'Wish not found.');
+  return wish;
+};
+
+const readWishPhoto = async (wish: StoredWish): Promise<{ bytes: Buffer; contentType: string }> => {
+  const bytes = wish.photo && (await storage.read(wish.photo.key));
+  if (!wish.photo || !bytes) throw new HttpError(404, 'Photo not found.');
+  return { bytes, contentType: wish.photo.contentType };
+};
+
+/** Checks and stores the attached photo; the wish is only saved if this succeeds. */
+const savePhoto = async (id: string, photo: WishRequest['photo']): Promise<StoredWish['photo']> => {
+  if (photo === undefined || photo === null) return undefined;
+  const { data, width, height } = photo as Partial<Record<'data' | 'width' | 'height', unknown>>;
+  const sizes = [width, height];
+  if (!sizes.every((size) => Number.isInteger(size) && (size as number) >= 1 && (size as number) <= MAX_DIMENSION)) {
+    throw new HttpError(400, 'Photo width and height must be whole numbers of pixels.');
+  }
+  const bytes = typeof data === 'string' ? Buffer.from(data, 'base64') : Buffer.alloc(0);
+  if (bytes.length > MAX_WISH_PHOTO_BYTES) throw new HttpError(413, 'That photo is too large.');
+
+  const format = imageFormat(bytes);
+  if (!format) throw new HttpError(415, 'Please attach a JPEG, PNG or WebP photo.');
+  const key = `wish-${id}.${format.extension}`;
+  await storage.save(key, bytes, format.contentType);
+  return { key, contentType: format.contentType, width: width as number, height: height as number };
+};
+
+/**
+ * Guests leave wishes as JSON (`POST /api/wishes`), optionally with stickers and a base64
+ * photo. New wishes wait for the couple; only approved ones are public.
+ */
+export const registerWishRoutes = (router: Router) => {
+  router.post('/api/wishes', async ({ req, res }) => {
+    limiter.consume(clientAddress(req), 'You have sent a lot of wishes. Please wait a few minutes and try again.');
+    const body = (await readJsonBody(req, MAX_WISH_BODY_BYTES)) as Partial<WishRequest>;
+
+    // Bots fill in every field. Answer as if the wish was taken so they don't try again.
+    if (typeof body.website === 'string' && body.website.trim() !== '') {
+      console.log('[guestbook] Dropped a wish that filled in the hidden field');
+      sendJson(res, 201, { id: randomUUID(), status: 'pending' });
+      return;
+    }
+
+    const errors = validateWish(body);
+    if (Object.keys(errors).length > 0) {
+      sendJson(res, 422, { message: 'Please correct the highlighted fields.', errors });
+      return;
+    }
+
+    const id = randomUUID();
+    const photo = await savePhoto(id, body.photo);
+    const wish: StoredWish = {
+      id,
+      name: (body.name as string).trim(),
+      message: (body.message as string).trim(),
+      stickers: body.stickers ?? [],
+      ...(photo ? { photo } : {}),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    await store.update((db) => {
+      db.wishes.push(wish);
+    });
+    sendJson(res, 201, { id, status: wish.status });
+  });
+
+  router.get('/api/wishes', async ({ res }) => {
+    const { wishes } = await store.read();
+    sendJson(res, 200, {
+      wishes: wishes
+        .filter((wish) => wish.status === 'approved')
+        .sort(newestFirst)
+        .map(toWish),
+    });
+  });
+
+  // Cached only briefly, so the photo stops showing soon after its wish is hidden
+  router.get('/api/wishes/:id/photo', async ({ res, params }) => {
+    const wish = await findWish(params.id);
+    if (wish.status !== 'approved') throw new HttpError(404, 'Photo not found.');
+    const { bytes, contentType } = await readWishPhoto(wish);
+    sendFile(res, bytes, contentType, MODERATED_CACHE);
+  });
+
+  router.get('/api/admin/wishes', async ({ req, res }) => {
+    requireAdmin(req);
+    const { wishes } = await store.read();
+    const moderated: Array<WishJson & { status: WishStatus }> = [...wishes]
+      .sort(newestFirst)
+      .map((wish) => ({ ...toWish(wish), status: wish.status }));
+    sendJson(res, 200, { wishes: moderated });
+  });
+
+  router.get('/api/admin/wishes/:id/photo', async ({ req, res, params }) => {
+    requireAdmin(req);
+    const { bytes, contentType } = await readWishPhoto(await findWish(params.id));
+    sendFile(res, bytes, contentType, 'private, no-store');
+  });
+
+  // Hiding keeps the wish and its photo, so the couple can change their mind
+  router.put('/api/admin/wishes/:id', async ({ req, res, params }) => {
+    requireAdmin(req);
+    const { status } = (await readJsonBody(req)) as { status?: unknown };
+    if (status !== 'approved' && status !== 'hidden') {
+      throw new HttpError(400, 'Status must be "approved" or "hidden".');
+    }
+    const updated = await store.update((db) => {
+      const stored = db.wishes.find((candidate) => candidate.id === params.id);
+      if (!stored) throw new HttpError(404, 'Wish not found.');
+      stored.status = status as WishStatus;
+      stored.moderatedAt = new Date().toISOString();
+      return stored;
+    });
+    sendJson(res, 200, { ...toWish(updated), status: updated.status });
+  });
+};
@@ -0,0 +1,103 @@
+import { act, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Site from './App.tsx';
+import { wedding } from './config/index.ts';
+import { translator } from './i18n/translate.ts';
+import { previewInstant } from './phases/phases.ts';
+
+vi.mock('./rsvp/client.ts', () => ({
+  rsvpClient: { submit: vi.fn(), getInvite: vi.fn().mockResolvedValue(null) },
+}));
+
+// The sections and pages that need the JSON API, as a site built with it would have them
+vi.mock('./photos/client.ts', () => ({
+  photoClient: { upload: vi.fn(), listApproved: vi.fn(() => Promise.resolve([])) },
+}));
+
+vi.mock('./guestbook/client.ts', () => ({
+  guestbookClient: { submit: vi.fn(), listApproved: vi.fn(() => Promise.resolve([])) },
+}));
+
+vi.mock('./seating/client.ts', () => ({
+  seatingClient: { findTable: vi.fn() },
+}));
+
+const t = translator('en');
+
+// jsdom doesn't lay out or paint, so contrast is checked by hand (see the Accessibility notes in the README)
+const AXE_OPTIONS: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+
+const renderRoute = async (path: string) => {
+  window.history.pushState({}, '', path);
+  const result = render(<Site />);
+  // Let lazy routes and provider effects settle
+  await act(async () => {});
+  return result;
+};
+
+const violations = async (element: Element) => {
+  const results = await axe.run(element, AXE_OPTIONS);
+  return results.violations.map((violation) => `${violation.id}: ${violation.nodes.map((node) => node.target).join(', ')}`);
+};
+
+describe('Site', () => {
+  beforeEach(() => {
+    // Before the RSVP deadline, so every home section that takes input is there
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(previewInstant('rsvp-open', wedding));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('starts every page with a skip link to the main content', async () => {
+    await renderRoute('/');
+    const skip = screen.getByRole('link', { name: t('nav.skip') });
+    expect(skip).toHaveAttribute('href', '#main-content');
+    expect(screen.getByRole('main')).toHaveAttribute('id', 'main-content');
+  });
+
+  it.each(['/', '/entourage', '/rsvp', '/gallery', '/upload', '/wall', '/no-such-page'])(
+    'has no detectable accessibility problems on %s',
+    async (path) => {
+      const { container } = await renderRoute(path);
+      expect(await violations(container)).toEqual([]);
+    },
+  );
+
+  it('has no detectable accessibility problems on the home page of the day itself', async () => {
+    vi.setSystemTime(previewInstant('day-of', wedding));
+    const { container } = await renderRoute('/');
+
+    expect(container.querySelector('#guestbook')).toBeInTheDocument();
+    expect(container.querySelector('#find-table')).toBeInTheDocument();
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it('has no detectable accessibility problems on the dashboard sign-in', async () => {
+    vi.stubEnv('VITE_RSVP_BACKEND', 'rest');
+    const { container } = await renderRoute('/admin');
+
+    expect(await screen.findByLabelText('Password')).toBeInTheDocument();
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it.each(['/print/program', '/print/invitation'])('opens %s on its own, without the site around it', async (path) => {
+    const { container } = await renderRoute(path);
+    expect(await screen.findByRole('button', { name: t('print.print') })).toBeInTheDocument();
+    expect(screen.queryByRole('navigation')).not.toBeInTheDocument();
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it.each(['/#%', '/#100%', '/i/%E0%A4%A'])('still shows the page for the broken link %s', async (path) => {
+    await renderRoute(path);
+    expect(screen.getByRole('main')).toBeInTheDocument();
+  });
+
+  it('shows the not-found page for unknown paths', async () => {
+    await renderRoute('/no-such-page');
+    expect(screen.getByRole('heading', { name: t('notFound.title') })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import type { AdminClient } from './adminClient.ts';
+
+interface AdminImageProps {
+  client: AdminClient;
+  token: string;
+  /** A guest photo, or the photo attached to a wish. */
+  kind: 'photo' | 'wish';
+  id: string;
+  alt: string;
+  width: number;
+  height: number;
+}
+
+/** An image that isn't public yet, fetched with the session token and shown from an object URL. */
+const AdminImage: React.FC<AdminImageProps> = ({ client, token, kind, id, alt, width, height }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    (kind === 'photo' ? client.photoObjectUrl(token, id) : client.wishPhotoObjectUrl(token, id))
+      .then((objectUrl) => {
+        url = objectUrl;
+        if (cancelled) URL.revokeObjectURL(objectUrl);
+        else setSrc(objectUrl);
+      })
+      .catch(() => setSrc(null));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [client, token, kind, id]);
+
+  return src ? (
+    <img src={src} alt={alt} width={width} height={height} />
+  ) : (
+    <div className="admin-photo-placeholder" aria-hidden="true" />
+  );
+};
+
+export default AdminImage;
@@ -0,0 +1,188 @@
+import { fireEvent, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import AdminPage from './AdminPage.tsx';
+import type { AdminEntry } from './types.ts';
+
+const admin = vi.hoisted(() => ({
+  login: vi.fn(),
+  listEntries: vi.fn(),
+  getSeating: vi.fn(),
+  listPhotos: vi.fn(),
+  listWishes: vi.fn(),
+}));
+
+vi.mock('./adminClient.ts', () => ({
+  AdminClient: function AdminClient() {
+    return admin;
+  },
+}));
+
+const ENTRIES: AdminEntry[] = [
+  {
+    id: 'r1',
+    status: 'attending',
+    rsvp: {
+      name: 'Maria Clara',
+      contact: '0917 123 4567',
+      attending: true,
+      attendees: [
+        { name: 'Maria Clara', ageGroup: 'adult', entree: 'chicken', allergies: '', dietaryNotes: '' },
+        { name: 'Lito', ageGroup: 'child', entree: 'kids', allergies: 'peanuts', dietaryNotes: '' },
+      ],
+      message: 'See you there!',
+    },
+    updatedAt: '2025-12-01T10:00:00Z',
+    history: [],
+  },
+  {
+    id: 'r2',
+    status: 'declined',
+    rsvp: { name: 'Crisostomo Ibarra', contact: '0917 765 4321', attending: false, attendees: [], message: 'Sorry!' },
+    updatedAt: '2025-12-02T10:00:00Z',
+    history: [],
+  },
+  {
+    id: 'household:ABC123',
+    status: 'pending',
+    household: { code: 'ABC123', greeting: 'The Baronda Family', names: ['Ana', 'Ben'], maxGuests: 2 },
+    history: [],
+  },
+];
+
+const SESSION_KEY = 'ej-wedding:admin';
+
+// The "Household / Name" column of the RSVP table
+const rowNames = () =>
+  [...document.querySelectorAll('.admin-rsvps tbody tr')].map((row) => row.querySelectorAll('td')[1]?.textContent ?? '');
+
+// jsdom's Blob has no text() or arrayBuffer()
+const readBytes = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+const readText = async (blob: Blob) => new TextDecoder().decode(await readBytes(blob));
+
+/** Captures what the next export hands the browser to download. */
+const captureDownload = () => {
+  const download = { name: '', blob: undefined as Blob | undefined };
+  vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+    download.blob = blob as Blob;
+    return 'blob:test';
+  });
+  vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+    download.name = this.download;
+  });
+  return download;
+};
+
+const signedIn = async () => {
+  sessionStorage.setItem(SESSION_KEY, 'session-token');
+  renderWithProviders(<AdminPage />);
+  await screen.findByText('Maria Clara', { selector: 'td' });
+};
+
+describe('AdminPage', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_RSVP_BACKEND', 'rest');
+    admin.listEntries.mockResolvedValue(ENTRIES);
+    admin.getSeating.mockResolvedValue({ tables: [] });
+    admin.listPhotos.mockResolvedValue([]);
+    admin.listWishes.mockResolvedValue([]);
+  });
+
+  it('signs in with the password and keeps the session for the tab', async () => {
+    admin.login.mockResolvedValue('session-token');
+    renderWithProviders(<AdminPage />);
+
+    await userEvent.type(screen.getByLabelText('Password'), 'correct horse');
+    await userEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(admin.login).toHaveBeenCalledWith('correct horse');
+    expect(await screen.findByRole('heading', { name: "Couple's Dashboard" })).toBeInTheDocument();
+    expect(await screen.findByText('Maria Clara', { selector: 'td' })).toBeInTheDocument();
+    expect(admin.listEntries).toHaveBeenCalledWith('session-token');
+    expect(sessionStorage.getItem(SESSION_KEY)).toBe('session-token');
+  });
+
+  it('shows why signing in failed', async () => {
+    admin.login.mockRejectedValue(new RsvpRequestError('Wrong password.', 401));
+    renderWithProviders(<AdminPage />);
+
+    await userEvent.type(screen.getByLabelText('Password'), 'guess');
+    await userEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    expect(await screen.findByText('Wrong password.')).toBeInTheDocument();
+    expect(sessionStorage.getItem(SESSION_KEY)).toBeNull();
+  });
+
+  it('goes back to the sign-in form when the session has expired', async () => {
+    sessionStorage.setItem(SESSION_KEY, 'expired-token');
+    admin.listEntries.mockRejectedValue(new RsvpRequestError('Sign in again.', 401));
+    renderWithProviders(<AdminPage />);
+
+    expect(await screen.findByLabelText('Password')).toBeInTheDocument();
+    expect(sessionStorage.getItem(SESSION_KEY)).toBeNull();
+  });
+
+  it('filters the RSVPs by status and search', async () => {
+    await signedIn();
+    expect(rowNames()).toEqual(['Maria Clara', 'Crisostomo Ibarra', 'The Baronda Family ABC123 invitation']);
+
+    const filters = screen.getByRole('group', { name: 'Filter by status' });
+    await userEvent.click(within(filters).getByRole('button', { name: 'Declined' }));
+    expect(within(filters).getByRole('button', { name: 'Declined' })).toHaveAttribute('aria-pressed', 'true');
+    expect(rowNames()).toEqual(['Crisostomo Ibarra']);
+
+    await userEvent.click(within(filters).getByRole('button', { name: 'All' }));
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Search RSVPs' }), { target: { value: 'abc123' } });
+    expect(rowNames()).toEqual(['The Baronda Family ABC123 invitation']);
+
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Search RSVPs' }), { target: { value: 'nobody' } });
+    expect(screen.getByText('No RSVPs match.')).toBeInTheDocument();
+  });
+
+  it('exports the filtered guest list and the meal counts as CSV', async () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    await signedIn();
+    await userEvent.click(screen.getByRole('button', { name: 'Attending' }));
+
+    const guestList = captureDownload();
+    await userEvent.click(screen.getByRole('button', { name: 'Guest list CSV' }));
+    expect(guestList.name).toBe(`guest-list-${stamp}.csv`);
+    const rows = (await readText(guestList.blob!)).split('\r\n');
+    expect(rows[0]).toMatch(/^Status,Invite code,Household,Replied by/);
+    // One row per guest of the attending RSVP, and nothing from the others
+    expect(rows.slice(1).map((row) => row.split(',')[5])).toEqual(['Maria Clara', 'Lito']);
+
+    const meals = captureDownload();
+    await userEvent.click(screen.getByRole('button', { name: 'Meal counts CSV' }));
+    expect(meals.name).toBe(`meal-counts-${stamp}.csv`);
+    expect(await readText(meals.blob!)).toContain('All entrées,1,1,2');
+  });
+
+  it('exports the guest list and meal counts as an Excel workbook', async () => {
+    await signedIn();
+
+    const workbook = captureDownload();
+    await userEvent.click(screen.getByRole('button', { name: 'Excel (XLSX)' }));
+
+    expect(workbook.name).toMatch(/^wedding-rsvps-\d{4}-\d{2}-\d{2}\.xlsx$/);
+    expect(workbook.blob?.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    // An XLSX file is a ZIP archive
+    const bytes = await readBytes(workbook.blob!);
+    expect(String.fromCharCode(bytes[0], bytes[1])).toBe('PK');
+  });
+
+  it('explains that the dashboard needs the REST backend', () => {
+    vi.stubEnv('VITE_RSVP_BACKEND', '');
+    renderWithProviders(<AdminPage />);
+
+    expect(screen.getByText(/needs the REST RSVP backend/)).toBeInTheDocument();
+    expect(screen.queryByLabelText('Password')).not.toBeInTheDocument();
+  });
+});
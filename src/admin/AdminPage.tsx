@@ -0,0 +1,324 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AdminClient } from './adminClient.ts';
+import AdminPhotos from './AdminPhotos.tsx';
+import AdminPlaceCards from './AdminPlaceCards.tsx';
+import AdminSeating from './AdminSeating.tsx';
+import AdminWishes from './AdminWishes.tsx';
+import { attendingGuests, computeTotals, filterEntries } from './summary.ts';
+import { downloadCsv, downloadXlsx, guestListRows, mealCountRows } from './exports.ts';
+import type { AdminEntry, AdminStatus } from './types.ts';
+import { usesRestBackend } from '../rsvp/backend.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { entreeLabel } from '../rsvp/menu.ts';
+import { DEFAULT_LOCALE } from '../i18n/locales.ts';
+import { localize } from '../i18n/translate.ts';
+import { wedding } from '../config/index.ts';
+
+const SESSION_KEY = 'ej-wedding:admin';
+const REFRESH_INTERVAL_MS = 30_000;
+
+const adminClient = new AdminClient(import.meta.env.VITE_RSVP_API_URL || '/api');
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '—');
+
+/**
+ * Sign-in form for the couple. The password is checked by the server, never in the browser.
+ */
+const AdminLogin: React.FC<{ onLogin: (token: string) => void }> = ({ onLogin }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await adminClient.login(password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sign in.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="page-section admin-login">
+      <h2 className="page-title">Couple's Dashboard</h2>
+      <form onSubmit={handleSubmit} className="rsvp-form">
+        <div className="form-field">
+          <label htmlFor="admin-password" className="form-label">Password</label>
+          <input
+            type="password"
+            id="admin-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className="form-input"
+          />
+        </div>
+        <button type="submit" className="submit-button" disabled={isSubmitting}>
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+        {error && <p className="error-message">{error}</p>}
+      </form>
+    </section>
+  );
+};
+
+/** Every saved version of one RSVP, newest first. */
+const AdminHistory: React.FC<{ entry: AdminEntry }> = ({ entry }) => (
+  <details className="admin-history">
+    <summary>{entry.history.length} version{entry.history.length === 1 ? '' : 's'}</summary>
+    <ol reversed>
+      {[...entry.history].reverse().map((version) => (
+        <li key={version.version}>
+          <strong>{formatDate(version.submittedAt)}</strong>:{' '}
+          {version.rsvp.attending ? `attending, ${version.rsvp.attendees.length} guest(s)` : 'declined'}
+          {version.rsvp.attendees.length > 0 && ` (${version.rsvp.attendees.map((a) => a.name).join(', ')})`}
+        </li>
+      ))}
+    </ol>
+  </details>
+);
+
+/**
+ * The couple's dashboard: every RSVP with filters and search, live totals, exports and
+ * printables, the seating planner, then the guests' photos and guestbook wishes to moderate.
+ */
+const AdminDashboard: React.FC<{ token: string; onLogout: () => void }> = ({ token, onLogout }) => {
+  const [entries, setEntries] = useState<AdminEntry[]>([]);
+  const [status, setStatus] = useState<AdminStatus | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [printingPlaceCards, setPrintingPlaceCards] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await adminClient.listEntries(token));
+      setLastUpdated(new Date());
+      setError(null);
+    } catch (err) {
+      if (err instanceof RsvpRequestError && err.status === 401) {
+        onLogout();
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Could not load RSVPs.');
+    }
+  }, [token, onLogout]);
+
+  // Keep the totals live while the dashboard is open
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const totals = useMemo(() => computeTotals(entries, wedding.venues), [entries]);
+  const visible = useMemo(() => filterEntries(entries, status, query), [entries, status, query]);
+  const guests = useMemo(() => attendingGuests(entries), [entries]);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (printingPlaceCards) {
+    return (
+      <AdminPlaceCards client={adminClient} token={token} guests={guests} onClose={() => setPrintingPlaceCards(false)} />
+    );
+  }
+
+  return (
+    <section className="admin-dashboard">
+      <header className="admin-header">
+        <h2 className="page-title">Couple's Dashboard</h2>
+        <div className="admin-actions">
+          <span className="admin-updated">Updated {lastUpdated ? lastUpdated.toLocaleTimeString() : '—'}</span>
+          <button type="button" className="map-button" onClick={refresh}>Refresh</button>
+          <button type="button" className="rsvp-link-button" onClick={onLogout}>Sign out</button>
+        </div>
+      </header>
+      {error && <p className="error-message">{error}</p>}
+
+      <div className="admin-stats">
+        <div className="admin-stat"><span className="admin-stat-value">{totals.guests}</span> guests attending</div>
+        <div className="admin-stat"><span className="admin-stat-value">{totals.adults}</span> adults</div>
+        <div className="admin-stat"><span className="admin-stat-value">{totals.children}</span> children</div>
+        <div className="admin-stat"><span className="admin-stat-value">{totals.attending}</span> RSVPs attending</div>
+        <div className="admin-stat"><span className="admin-stat-value">{totals.declined}</span> declined</div>
+        <div className="admin-stat">
+          <span className="admin-stat-value">{totals.pending}</span> households pending ({totals.pendingSeats} seats)
+        </div>
+      </div>
+
+      <div className="admin-panels">
+        <div className="admin-panel">
+          <h3>Headcount per venue</h3>
+          <table className="admin-table">
+            <tbody>
+              {totals.venues.map(({ venue, headcount }) => (
+                <tr key={venue.id}>
+                  <th scope="row">{localize(venue.type, DEFAULT_LOCALE)}: {venue.name}</th>
+                  <td>{headcount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="admin-panel">
+          <h3>Meal counts</h3>
+          <table className="admin-table">
+            <thead>
+              <tr><th>Entrée</th><th>Adults</th><th>Children</th><th>Total</th></tr>
+            </thead>
+            <tbody>
+              {totals.meals.map((meal) => (
+                <tr key={meal.entree}>
+                  <th scope="row">{meal.label}</th>
+                  <td>{meal.adults}</td>
+                  <td>{meal.children}</td>
+                  <td>{meal.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="admin-toolbar">
+        <div className="admin-filters" role="group" aria-label="Filter by status">
+          {(['all', 'attending', 'declined', 'pending'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`admin-filter ${status === option ? 'active' : ''}`}
+              aria-pressed={status === option}
+              onClick={() => setStatus(option)}
+            >
+              {option[0].toUpperCase() + option.slice(1)}
+            </button>
+          ))}
+        </div>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search names, numbers, codes..."
+          aria-label="Search RSVPs"
+          className="form-input admin-search"
+        />
+        <div className="admin-exports">
+          <button type="button" className="map-button" onClick={() => downloadCsv(`guest-list-${stamp}.csv`, guestListRows(visible))}>
+            Guest list CSV
+          </button>
+          <button type="button" className="map-button" onClick={() => downloadCsv(`meal-counts-${stamp}.csv`, mealCountRows(totals))}>
+            Meal counts CSV
+          </button>
+          <button type="button" className="map-button" onClick={() => downloadXlsx(`wedding-rsvps-${stamp}.xlsx`, visible, totals)}>
+            Excel (XLSX)
+          </button>
+        </div>
+        <div className="admin-exports">
+          <a href="/print/program" target="_blank" rel="noopener" className="map-button">Program booklet</a>
+          <a href="/print/invitation" target="_blank" rel="noopener" className="map-button">Invitation</a>
+          <button type="button" className="map-button" onClick={() => setPrintingPlaceCards(true)}>
+            Place cards
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-table-wrapper">
+        <table className="admin-table admin-rsvps">
+          <thead>
+            <tr>
+              <th>Status</th>
+              <th>Household / Name</th>
+              <th>Contact</th>
+              <th>Guests</th>
+              <th>Message</th>
+              <th>Updated</th>
+              <th>History</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((entry) => (
+              <tr key={entry.id} className={`admin-row-${entry.status}`}>
+                <td><span className={`admin-badge admin-badge-${entry.status}`}>{entry.status}</span></td>
+                <td>
+                  {entry.rsvp?.name ?? entry.household?.greeting}
+                  {entry.household && (
+                    <small className="admin-code">
+                      {' '}{entry.household.code}{' '}
+                      <a href={`/print/invitation?invite=${entry.household.code}`} target="_blank" rel="noopener">
+                        invitation
+                      </a>
+                    </small>
+                  )}
+                </td>
+                <td>{entry.rsvp?.contact ?? '—'}</td>
+                <td>
+                  {entry.rsvp?.attendees.map((attendee, index) => (
+                    <div key={index}>
+                      {attendee.name} ({attendee.ageGroup}, {entreeLabel(attendee.entree)})
+                      {(attendee.allergies || attendee.dietaryNotes) && (
+                        <small> – {[attendee.allergies, attendee.dietaryNotes].filter(Boolean).join('; ')}</small>
+                      )}
+                    </div>
+                  ))}
+                  {entry.status === 'pending' && `${entry.household?.maxGuests ?? 0} seat(s) reserved`}
+                </td>
+                <td>{entry.rsvp?.message}</td>
+                <td>{formatDate(entry.updatedAt)}</td>
+                <td>{entry.history.length > 0 && <AdminHistory entry={entry} />}</td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr><td colSpan={7} className="admin-empty">No RSVPs match.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <AdminSeating client={adminClient} token={token} onLogout={onLogout} guests={guests} />
+      <AdminPhotos client={adminClient} token={token} onLogout={onLogout} />
+      <AdminWishes client={adminClient} token={token} onLogout={onLogout} />
+    </section>
+  );
+};
+
+/**
+ * The password-protected `/admin` area. The session token is kept for the browser tab only.
+ */
+const AdminPage: React.FC = () => {
+  const [token, setToken] = useState<string | null>(() => sessionStorage.getItem(SESSION_KEY));
+
+  const handleLogin = (newToken: string) => {
+    sessionStorage.setItem(SESSION_KEY, newToken);
+    setToken(newToken);
+  };
+
+  const handleLogout = useCallback(() => {
+    sessionStorage.removeItem(SESSION_KEY);
+    setToken(null);
+  }, []);
+
+  if (!usesRestBackend()) {
+    return (
+      <section className="page-section admin-login">
+        <h2 className="page-title">Couple's Dashboard</h2>
+        <p className="page-description">
+          The dashboard needs the REST RSVP backend. Build the site with VITE_RSVP_BACKEND=rest.
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <div className="website-container admin-container">
+      <main className="main-content">
+        {token ? <AdminDashboard token={token} onLogout={handleLogout} /> : <AdminLogin onLogin={handleLogin} />}
+      </main>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AdminClient } from './adminClient.ts';
+import AdminImage from './AdminImage.tsx';
+import type { AdminPhoto } from './types.ts';
+import type { PhotoStatus } from '../photos/types.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+
+interface AdminPhotosProps {
+  client: AdminClient;
+  token: string;
+  onLogout: () => void;
+}
+
+/**
+ * Guests' uploads waiting for the couple. Approved photos appear in the Guest Album;
+ * rejected ones are deleted from storage.
+ */
+const AdminPhotos: React.FC<AdminPhotosProps> = ({ client, token, onLogout }) => {
+  const [photos, setPhotos] = useState<AdminPhoto[]>([]);
+  const [status, setStatus] = useState<Exclude<PhotoStatus, 'rejected'>>('pending');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleError = useCallback(
+    (err: unknown, fallback: string) => {
+      if (err instanceof RsvpRequestError && err.status === 401) {
+        onLogout();
+        return;
+      }
+      setError(err instanceof Error ? err.message : fallback);
+    },
+    [onLogout],
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setPhotos(await client.listPhotos(token));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Could not load photos.');
+    }
+  }, [client, token, handleError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const moderate = async (photo: AdminPhoto, decision: Exclude<PhotoStatus, 'pending'>) => {
+    setBusy(photo.id);
+    try {
+      await client.moderatePhoto(token, photo.id, decision);
+      setPhotos((current) => current.map((item) => (item.id === photo.id ? { ...item, status: decision } : item)));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Could not update the photo.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const pendingCount = photos.filter((photo) => photo.status === 'pending').length;
+  const visible = photos.filter((photo) => photo.status === status);
+
+  return (
+    <div className="admin-panel admin-photos">
+      <div className="admin-header">
+        <h3>Guest photos</h3>
+        <div className="admin-filters" role="group" aria-label="Filter photos by status">
+          {(['pending', 'approved'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`admin-filter ${status === option ? 'active' : ''}`}
+              aria-pressed={status === option}
+              onClick={() => setStatus(option)}
+            >
+              {option === 'pending' ? `Waiting (${pendingCount})` : 'Approved'}
+            </button>
+          ))}
+          <button type="button" className="map-button" onClick={refresh}>Refresh</button>
+        </div>
+      </div>
+      {error && <p className="error-message">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="admin-empty">{status === 'pending' ? 'No photos are waiting.' : 'No photos approved yet.'}</p>
+      ) : (
+        <ul className="admin-photo-grid">
+          {visible.map((photo) => (
+            <li key={photo.id} className="admin-photo">
+              <AdminImage
+                client={client}
+                token={token}
+                kind="photo"
+                id={photo.id}
+                alt={`Photo from ${photo.uploader ?? 'a guest'}`}
+                width={photo.width}
+                height={photo.height}
+              />
+              <p className="admin-photo-meta">
+                {photo.uploader ?? 'Anonymous'}
+                <small> {new Date(photo.uploadedAt).toLocaleString()}</small>
+              </p>
+              <div className="admin-actions">
+                {photo.status === 'pending' && (
+                  <button
+                    type="button"
+                    className="map-button"
+                    disabled={busy === photo.id}
+                    onClick={() => moderate(photo, 'approved')}
+                  >
+                    Approve
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="rsvp-link-button"
+                  disabled={busy === photo.id}
+                  onClick={() => moderate(photo, 'rejected')}
+                >
+                  {photo.status === 'pending' ? 'Reject' : 'Remove'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdminPhotos;
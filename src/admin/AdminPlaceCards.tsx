@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import type { AdminClient } from './adminClient.ts';
+import PlaceCards from '../print/PlaceCards.tsx';
+import PrintLayout from '../print/PrintLayout.tsx';
+import { tableOf } from '../seating/plan.ts';
+import type { SeatingGuest, SeatingPlan } from '../seating/types.ts';
+
+interface AdminPlaceCardsProps {
+  client: AdminClient;
+  token: string;
+  guests: SeatingGuest[];
+  onClose: () => void;
+}
+
+/**
+ * Place cards for every attending guest, shown in place of the dashboard until closed, with
+ * each guest's table from the saved seating plan.
+ * The dashboard has no site menu around it, so only the cards reach the paper.
+ */
+const AdminPlaceCards: React.FC<AdminPlaceCardsProps> = ({ client, token, guests, onClose }) => {
+  // `null` once loading failed: the cards are still worth printing, just without tables
+  const [plan, setPlan] = useState<SeatingPlan | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    client
+      .getSeating(token)
+      .then((loaded) => !cancelled && setPlan(loaded))
+      .catch(() => !cancelled && setPlan(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, token]);
+
+  return (
+    <PrintLayout
+      paper="A4"
+      actions={<button type="button" className="rsvp-link-button" onClick={onClose}>Back to the dashboard</button>}
+    >
+      {plan === undefined ? (
+        <p className="admin-empty">Loading the seating plan...</p>
+      ) : guests.length === 0 ? (
+        <p className="admin-empty">No one has said they are coming yet.</p>
+      ) : (
+        <PlaceCards guests={guests.map((guest) => ({ name: guest.name, table: plan ? tableOf(plan, guest)?.name : undefined }))} />
+      )}
+    </PrintLayout>
+  );
+};
+
+export default AdminPlaceCards;
@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useId, useMemo, useState } from 'react';
+import type { AdminClient } from './adminClient.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import FloorMap from '../seating/FloorMap.tsx';
+import {
+  addTable,
+  guestKey,
+  MAX_TABLE_CAPACITY,
+  MAX_TABLE_NAME_LENGTH,
+  removeTable,
+  seatGuest,
+  seatingWarnings,
+  tableOf,
+  updateTable,
+} from '../seating/plan.ts';
+import type { SeatingGuest, SeatingPlan, SeatingTable } from '../seating/types.ts';
+
+interface AdminSeatingProps {
+  client: AdminClient;
+  token: string;
+  onLogout: () => void;
+  /** Everyone on an attending RSVP. */
+  guests: SeatingGuest[];
+}
+
+const newTableId = () => `table-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/** Moves one guest with a menu, for keyboards and touch screens where dragging is awkward. */
+const SeatPicker: React.FC<{
+  guest: SeatingGuest;
+  tables: SeatingTable[];
+  tableId: string | null;
+  onSeat: (guest: SeatingGuest, tableId: string | null) => void;
+}> = ({ guest, tables, tableId, onSeat }) => (
+  <select
+    className="form-input admin-seating-picker"
+    value={tableId ?? ''}
+    aria-label={`Table for ${guest.name}`}
+    onChange={(e) => onSeat(guest, e.target.value || null)}
+  >
+    <option value="">No table</option>
+    {tables.map((table) => (
+      <option key={table.id} value={table.id}>
+        Table {table.name}
+      </option>
+    ))}
+  </select>
+);
+
+/**
+ * The seating planner: the couple adds tables, drags attending guests onto them (or picks a
+ * table from each guest's menu) and places the tables on the floor map. Changes are kept in the
+ * browser until saved, and the warnings list what still needs sorting out.
+ */
+const AdminSeating: React.FC<AdminSeatingProps> = ({ client, token, onLogout, guests }) => {
+  const [plan, setPlan] = useState<SeatingPlan | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const hintId = useId();
+
+  const handleError = useCallback(
+    (err: unknown, fallback: string) => {
+      if (err instanceof RsvpRequestError && err.status === 401) {
+        onLogout();
+        return;
+      }
+      setError(err instanceof Error ? err.message : fallback);
+    },
+    [onLogout],
+  );
+
+  const load = useCallback(async () => {
+    try {
+      setPlan(await client.getSeating(token));
+      setDirty(false);
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Could not load the seating plan.');
+    }
+  }, [client, token, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const warnings = useMemo(() => (plan ? seatingWarnings(plan, guests) : null), [plan, guests]);
+
+  if (!plan || !warnings) {
+    return (
+      <div className="admin-panel admin-seating">
+        <h3>Seating</h3>
+        {error ? <p className="error-message">{error}</p> : <p className="admin-empty">Loading the seating plan...</p>}
+      </div>
+    );
+  }
+
+  const change = (next: SeatingPlan) => {
+    setPlan(next);
+    setDirty(true);
+  };
+
+  const seat = (guest: SeatingGuest, tableId: string | null) => change(seatGuest(plan, guest, tableId));
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      setPlan(await client.saveSeating(token, plan));
+      setDirty(false);
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Could not save the seating plan.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Everyone who can be dragged: attending guests and anyone still holding a seat
+  const byKey = new Map([...guests, ...warnings.stale].map((guest) => [guestKey(guest), guest]));
+
+  const dragProps = (guest: SeatingGuest) => ({
+    draggable: true,
+    onDragStart: (event: React.DragEvent) => {
+      event.dataTransfer.setData('text/plain', guestKey(guest));
+      event.dataTransfer.effectAllowed = 'move';
+    },
+  });
+
+  const dropProps = (tableId: string | null) => ({
+    onDragOver: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(tableId ?? '');
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const guest = byKey.get(event.dataTransfer.getData('text/plain'));
+      if (guest) seat(guest, tableId);
+    },
+  });
+
+  const hasWarnings = warnings.overCapacity.length > 0 || warnings.unseated.length > 0 || warnings.stale.length > 0;
+
+  return (
+    <div className="admin-panel admin-seating">
+      <div className="admin-header">
+        <h3>Seating</h3>
+        <div className="admin-actions">
+          {plan.updatedAt && <span className="admin-updated">Saved {new Date(plan.updatedAt).toLocaleString()}</span>}
+          <button type="button" className="map-button" onClick={() => change(addTable(plan, newTableId()))}>
+            Add table
+          </button>
+          <button type="button" className="map-button" disabled={!dirty || saving} onClick={save}>
+            {saving ? 'Saving...' : dirty ? 'Save plan' : 'Saved'}
+          </button>
+          <button type="button" className="rsvp-link-button" disabled={saving} onClick={load}>
+            {dirty ? 'Discard changes' : 'Reload'}
+          </button>
+        </div>
+      </div>
+      {error && <p className="error-message">{error}</p>}
+
+      <ul className={`admin-seating-warnings ${hasWarnings ? '' : 'ok'}`} role="status">
+        {warnings.overCapacity.map((table) => (
+          <li key={table.id}>
+            Table {table.name} has {table.guests.length} guests for {table.capacity} seats.
+          </li>
+        ))}
+        {warnings.unseated.length > 0 && (
+          <li>
+            {warnings.unseated.length} guest{warnings.unseated.length === 1 ? ' has' : 's have'} no table yet.
+          </li>
+        )}
+        {warnings.stale.map((guest) => (
+          <li key={guestKey(guest)}>
+            {guest.name} is seated at table {tableOf(plan, guest)?.name} but is no longer attending.{' '}
+            <button type="button" className="rsvp-link-button" onClick={() => seat(guest, null)}>
+              Remove from the table
+            </button>
+          </li>
+        ))}
+        {!hasWarnings && <li>Every attending guest has a seat.</li>}
+      </ul>
+
+      <div className="admin-seating-layout">
+        <div className={`admin-seating-unseated ${dropTarget === '' ? 'drop-target' : ''}`} {...dropProps(null)}>
+          <h4>Not seated ({warnings.unseated.length})</h4>
+          {warnings.unseated.length === 0 ? (
+            <p className="admin-empty">Everyone has a table.</p>
+          ) : (
+            <ul className="admin-seating-guests">
+              {warnings.unseated.map((guest) => (
+                <li key={guestKey(guest)} className="admin-seating-guest" {...dragProps(guest)}>
+                  <span>{guest.name}</span>
+                  <SeatPicker guest={guest} tables={plan.tables} tableId={null} onSeat={seat} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {plan.tables.length === 0 ? (
+          <p className="admin-empty">No tables yet. Add one to start seating guests.</p>
+        ) : (
+          <ul className="admin-seating-tables">
+            {plan.tables.map((table) => (
+              <li
+                key={table.id}
+                className={`admin-seating-table ${table.guests.length > table.capacity ? 'over' : ''} ${dropTarget === table.id ? 'drop-target' : ''}`}
+                {...dropProps(table.id)}
+              >
+                <div className="admin-seating-table-header">
+                  <label>
+                    Table{' '}
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={table.name}
+                      maxLength={MAX_TABLE_NAME_LENGTH}
+                      required
+                      onChange={(e) => change(updateTable(plan, table.id, { name: e.target.value }))}
+                    />
+                  </label>
+                  <label>
+                    Seats{' '}
+                    <input
+                      type="number"
+                      className="form-input"
+                      value={table.capacity}
+                      min={1}
+                      max={MAX_TABLE_CAPACITY}
+                      onChange={(e) => change(updateTable(plan, table.id, { capacity: Number(e.target.value) }))}
+                    />
+                  </label>
+                  <span className="admin-seating-count">
+                    {table.guests.length}/{table.capacity}
+                  </span>
+                  <button
+                    type="button"
+                    className="rsvp-link-button"
+                    onClick={() => change(removeTable(plan, table.id))}
+                    aria-label={`Remove table ${table.name}`}
+                  >
+                    Remove
+                  </button>
+                </div>
+                <ol className="admin-seating-guests">
+                  {table.guests.map((guest) => (
+                    <li key={guestKey(guest)} className="admin-seating-guest" {...dragProps(guest)}>
+                      <span>{guest.name}</span>
+                      <SeatPicker guest={guest} tables={plan.tables} tableId={table.id} onSeat={seat} />
+                    </li>
+                  ))}
+                </ol>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {plan.tables.length > 0 && (
+        <>
+          <FloorMap
+            tables={plan.tables}
+            label="Floor map of the reception"
+            moveHintId={hintId}
+            onMove={(tableId, x, y) => change(updateTable(plan, tableId, { x, y }))}
+          />
+          <p id={hintId} className="admin-seating-hint">
+            Drag a table to where it stands, or select it and move it with the arrow keys.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdminSeating;
@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AdminClient } from './adminClient.ts';
+import AdminImage from './AdminImage.tsx';
+import type { AdminWish } from './types.ts';
+import { STICKERS } from '../guestbook/stickers.ts';
+import type { WishStatus } from '../guestbook/types.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+
+interface AdminWishesProps {
+  client: AdminClient;
+  token: string;
+  onLogout: () => void;
+}
+
+const FILTERS: Array<{ status: WishStatus; label: string; empty: string }> = [
+  { status: 'pending', label: 'Waiting', empty: 'No wishes are waiting.' },
+  { status: 'approved', label: 'Shown', empty: 'No wishes shown yet.' },
+  { status: 'hidden', label: 'Hidden', empty: 'No hidden wishes.' },
+];
+
+/**
+ * Guestbook wishes waiting for the couple. Approved wishes appear in the guestbook and on
+ * the wishes wall; hidden ones are kept and can be shown again.
+ */
+const AdminWishes: React.FC<AdminWishesProps> = ({ client, token, onLogout }) => {
+  const [wishes, setWishes] = useState<AdminWish[]>([]);
+  const [status, setStatus] = useState<WishStatus>('pending');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleError = useCallback(
+    (err: unknown, fallback: string) => {
+      if (err instanceof RsvpRequestError && err.status === 401) {
+        onLogout();
+        return;
+      }
+      setError(err instanceof Error ? err.message : fallback);
+    },
+    [onLogout],
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setWishes(await client.listWishes(token));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Could not load wishes.');
+    }
+  }, [client, token, handleError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const moderate = async (wish: AdminWish, decision: Exclude<WishStatus, 'pending'>) => {
+    setBusy(wish.id);
+    try {
+      await client.moderateWish(token, wish.id, decision);
+      setWishes((current) => current.map((item) => (item.id === wish.id ? { ...item, status: decision } : item)));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Could not update the wish.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const visible = wishes.filter((wish) => wish.status === status);
+
+  return (
+    <div className="admin-panel admin-wishes">
+      <div className="admin-header">
+        <h3>Guestbook</h3>
+        <div className="admin-filters" role="group" aria-label="Filter wishes by status">
+          {FILTERS.map((filter) => (
+            <button
+              key={filter.status}
+              type="button"
+              className={`admin-filter ${status === filter.status ? 'active' : ''}`}
+              aria-pressed={status === filter.status}
+              onClick={() => setStatus(filter.status)}
+            >
+              {filter.label} ({wishes.filter((wish) => wish.status === filter.status).length})
+            </button>
+          ))}
+          <button type="button" className="map-button" onClick={refresh}>Refresh</button>
+        </div>
+      </div>
+      {error && <p className="error-message">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="admin-empty">{FILTERS.find((filter) => filter.status === status)?.empty}</p>
+      ) : (
+        <ul className="admin-photo-grid">
+          {visible.map((wish) => (
+            <li key={wish.id} className="admin-photo admin-wish">
+              {wish.photo && (
+                <AdminImage
+                  client={client}
+                  token={token}
+                  kind="wish"
+                  id={wish.id}
+                  alt={`Photo from ${wish.name}`}
+                  width={wish.photo.width}
+                  height={wish.photo.height}
+                />
+              )}
+              <p className="admin-wish-message">
+                {STICKERS.filter((sticker) => wish.stickers.includes(sticker.id)).map((sticker) => sticker.emoji).join(' ')}{' '}
+                {wish.message}
+              </p>
+              <p className="admin-photo-meta">
+                {wish.name}
+                <small> {new Date(wish.createdAt).toLocaleString()}</small>
+              </p>
+              <div className="admin-actions">
+                {wish.status !== 'approved' && (
+                  <button
+                    type="button"
+                    className="map-button"
+                    disabled={busy === wish.id}
+                    onClick={() => moderate(wish, 'approved')}
+                  >
+                    {wish.status === 'hidden' ? 'Show again' : 'Approve'}
+                  </button>
+                )}
+                {wish.status !== 'hidden' && (
+                  <button
+                    type="button"
+                    className="rsvp-link-button"
+                    disabled={busy === wish.id}
+                    onClick={() => moderate(wish, 'hidden')}
+                  >
+                    Hide
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdminWishes;
@@ -0,0 +1,97 @@
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import type { WishStatus } from '../guestbook/types.ts';
+import type { PhotoStatus } from '../photos/types.ts';
+import type { SeatingPlan } from '../seating/types.ts';
+import type { AdminEntry, AdminPhoto, AdminWish } from './types.ts';
+
+/**
+ * Client for the couple-only endpoints of the RSVP API.
+ * Requests made with an expired session reject with an `RsvpRequestError` whose status is 401.
+ */
+export class AdminClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /** Exchanges the admin password for a session token. */
+  async login(password: string): Promise<string> {
+    const body = await this.request('POST', '/admin/session', undefined, { password });
+    return (body as { token: string }).token;
+  }
+
+  async listEntries(token: string): Promise<AdminEntry[]> {
+    const body = await this.request('GET', '/admin/rsvps', token);
+    return (body as { entries: AdminEntry[] }).entries;
+  }
+
+  /** Every guest photo with its moderation status, newest uploads last. */
+  async listPhotos(token: string): Promise<AdminPhoto[]> {
+    const body = await this.request('GET', '/admin/photos', token);
+    return (body as { photos: AdminPhoto[] }).photos;
+  }
+
+  async moderatePhoto(token: string, id: string, status: Exclude<PhotoStatus, 'pending'>): Promise<void> {
+    await this.request('PUT', `/admin/photos/${encodeURIComponent(id)}`, token, { status });
+  }
+
+  /**
+   * Pending photos are only served with the session token, so an `<img>` can't load them directly.
+   * The caller revokes the returned object URL when it is done with it.
+   */
+  photoObjectUrl(token: string, id: string): Promise<string> {
+    return this.objectUrl(token, `/admin/photos/${encodeURIComponent(id)}`);
+  }
+
+  /** Every wish with its moderation status, newest first. Photos are fetched with `wishPhotoObjectUrl`. */
+  async listWishes(token: string): Promise<AdminWish[]> {
+    const body = await this.request('GET', '/admin/wishes', token);
+    return (body as { wishes: AdminWish[] }).wishes;
+  }
+
+  async moderateWish(token: string, id: string, status: Exclude<WishStatus, 'pending'>): Promise<void> {
+    await this.request('PUT', `/admin/wishes/${encodeURIComponent(id)}`, token, { status });
+  }
+
+  /** Like `photoObjectUrl`, for the photo attached to a wish. */
+  wishPhotoObjectUrl(token: string, id: string): Promise<string> {
+    return this.objectUrl(token, `/admin/wishes/${encodeURIComponent(id)}/photo`);
+  }
+
+  async getSeating(token: string): Promise<SeatingPlan> {
+    return (await this.request('GET', '/admin/seating', token)) as SeatingPlan;
+  }
+
+  /** Replaces the whole plan; the server checks it and returns it with its new `updatedAt`. */
+  async saveSeating(token: string, plan: SeatingPlan): Promise<SeatingPlan> {
+    return (await this.request('PUT', '/admin/seating', token, plan)) as SeatingPlan;
+  }
+
+  private async objectUrl(token: string, path: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      throw new RsvpRequestError(`Photo request failed with status ${response.status}`, response.status);
+    }
+    return URL.createObjectURL(await response.blob());
+  }
+
+  protected async request(method: string, path: string, token?: string, payload?: unknown): Promise<unknown> {
+    const headers: Record<string, string> = {};
+    if (payload !== undefined) headers['Content-Type'] = 'application/json';
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: payload === undefined ? undefined : JSON.stringify(payload),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `Admin request failed with status ${response.status}`, response.status);
+    }
+    return body;
+  }
+}
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { downloadFile } from './exports.ts';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('downloadFile', () => {
+  it('clicks a link in the page and frees the file only after the browser has read it', () => {
+    vi.useFakeTimers();
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.isConnected).toBe(true);
+      expect(this).toHaveAttribute('download', 'rsvps.csv');
+      expect(this).toHaveAttribute('href', 'blob:test');
+    });
+
+    downloadFile('rsvps.csv', 'name\r\n', 'text/csv');
+
+    expect(click).toHaveBeenCalledOnce();
+    expect(document.querySelector('a[download]')).toBeNull();
+    expect(revoke).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith('blob:test');
+  });
+});
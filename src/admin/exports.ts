@@ -0,0 +1,99 @@
+import { attendeeVenueTypes } from '../rsvp/attendees.ts';
+import { entreeLabel } from '../rsvp/menu.ts';
+import type { AdminTotals } from './summary.ts';
+import type { AdminEntry } from './types.ts';
+import { buildXlsx } from './xlsx.ts';
+import type { Cell } from './xlsx.ts';
+
+const GUEST_LIST_HEADER = [
+  'Status',
+  'Invite code',
+  'Household',
+  'Replied by',
+  'Contact',
+  'Guest',
+  'Age group',
+  'Entrée',
+  'Allergies',
+  'Dietary notes',
+  'Venues',
+  'Message',
+  'Last updated',
+];
+
+/** One row per attending guest, one per declined RSVP and one per pending household. */
+export const guestListRows = (entries: AdminEntry[]): Cell[][] => {
+  const rows: Cell[][] = [GUEST_LIST_HEADER];
+  for (const entry of entries) {
+    const base = [
+      entry.status,
+      entry.household?.code ?? '',
+      entry.household?.greeting ?? '',
+      entry.rsvp?.name ?? '',
+      entry.rsvp?.contact ?? '',
+    ];
+    const tail = [entry.rsvp?.message ?? '', entry.updatedAt ?? ''];
+    const attendees = entry.rsvp?.attendees ?? [];
+    if (attendees.length === 0) {
+      rows.push([...base, '', '', '', '', '', '', ...tail]);
+      continue;
+    }
+    for (const attendee of attendees) {
+      rows.push([
+        ...base,
+        attendee.name,
+        attendee.ageGroup,
+        entreeLabel(attendee.entree),
+        attendee.allergies,
+        attendee.dietaryNotes,
+        attendeeVenueTypes(attendee),
+        ...tail,
+      ]);
+    }
+  }
+  return rows;
+};
+
+export const mealCountRows = (totals: AdminTotals): Cell[][] => [
+  ['Entrée', 'Adults', 'Children', 'Total'],
+  ...totals.meals.map((meal) => [meal.label, meal.adults, meal.children, meal.total]),
+  ['All entrées', totals.adults, totals.children, totals.guests],
+];
+
+// Cells starting with these are treated as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (cell: Cell): string => {
+  if (typeof cell === 'number') return String(cell);
+  const safe = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/** RFC 4180 CSV with CRLF line endings. */
+export const toCsv = (rows: Cell[][]): string => rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+
+export const downloadFile = (filename: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  // Firefox only follows links that are in the page, and Safari reads the file after click() returns
+  document.body.append(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadCsv = (filename: string, rows: Cell[][]) =>
+  // The BOM makes Excel read the file as UTF-8 (ñ, é in names)
+  downloadFile(filename, `\uFEFF${toCsv(rows)}`, 'text/csv;charset=utf-8');
+
+export const downloadXlsx = (filename: string, entries: AdminEntry[], totals: AdminTotals) =>
+  downloadFile(
+    filename,
+    buildXlsx([
+      { name: 'Guest list', rows: guestListRows(entries) },
+      { name: 'Meal counts', rows: mealCountRows(totals) },
+    ]) as Uint8Array<ArrayBuffer>,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  );
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import type { Attendee } from '../rsvp/types.ts';
+import { computeTotals } from './summary.ts';
+import type { AdminEntry } from './types.ts';
+
+const guest = (name: string, venues?: string[]): Attendee => ({
+  name,
+  ageGroup: 'adult',
+  entree: 'chicken',
+  allergies: '',
+  dietaryNotes: '',
+  ...(venues ? { venues } : {}),
+});
+
+const entry = (id: string, attendees: Attendee[]): AdminEntry => ({
+  id,
+  status: 'attending',
+  rsvp: { name: attendees[0].name, contact: '09171234567', attending: true, attendees, message: '' },
+  history: [],
+});
+
+describe('computeTotals', () => {
+  it('counts each venue from the guests who said they will be there', () => {
+    const totals = computeTotals(
+      [
+        entry('r1', [guest('Maria', ['ceremony', 'reception']), guest('Ibarra', ['reception'])]),
+        // Replied before guests were asked, so counted everywhere
+        entry('r2', [guest('Elias')]),
+      ],
+      wedding.venues,
+    );
+
+    expect(totals.guests).toBe(3);
+    expect(totals.venues.map(({ venue, headcount }) => [venue.id, headcount])).toEqual([
+      ['ceremony', 2],
+      ['reception', 3],
+    ]);
+  });
+});
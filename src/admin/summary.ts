@@ -0,0 +1,103 @@
+import { attendeeVenues } from '../rsvp/attendees.ts';
+import { ENTREE_OPTIONS, entreeLabel } from '../rsvp/menu.ts';
+import type { Venue } from '../config/index.ts';
+import type { SeatingGuest } from '../seating/types.ts';
+import type { AdminEntry, AdminStatus } from './types.ts';
+
+export interface MealCount {
+  entree: string;
+  label: string;
+  adults: number;
+  children: number;
+  total: number;
+}
+
+export interface AdminTotals {
+  attending: number;
+  declined: number;
+  pending: number;
+  guests: number;
+  adults: number;
+  children: number;
+  /** Seats still held for households that haven't replied. */
+  pendingSeats: number;
+  meals: MealCount[];
+  venues: Array<{ venue: Venue; headcount: number }>;
+}
+
+/**
+ * Adds up the guest list. Each venue counts the attending guests who said they will be there;
+ * guests whose RSVP predates that question count at every venue.
+ */
+export const computeTotals = (entries: AdminEntry[], venueList: Venue[]): AdminTotals => {
+  const meals = new Map<string, MealCount>(
+    ENTREE_OPTIONS.map((option) => [option.id, { entree: option.id, label: entreeLabel(option.id), adults: 0, children: 0, total: 0 }]),
+  );
+  const totals: AdminTotals = {
+    attending: 0,
+    declined: 0,
+    pending: 0,
+    guests: 0,
+    adults: 0,
+    children: 0,
+    pendingSeats: 0,
+    meals: [],
+    venues: [],
+  };
+  const headcounts = new Map<string, number>();
+
+  for (const entry of entries) {
+    totals[entry.status] += 1;
+    if (entry.status === 'pending') {
+      totals.pendingSeats += entry.household?.maxGuests ?? 0;
+      continue;
+    }
+    for (const attendee of entry.rsvp?.attendees ?? []) {
+      totals.guests += 1;
+      const meal = meals.get(attendee.entree) ?? { entree: attendee.entree, label: entreeLabel(attendee.entree), adults: 0, children: 0, total: 0 };
+      if (attendee.ageGroup === 'child') {
+        totals.children += 1;
+        meal.children += 1;
+      } else {
+        totals.adults += 1;
+        meal.adults += 1;
+      }
+      meal.total += 1;
+      meals.set(attendee.entree, meal);
+      for (const venueId of attendeeVenues(attendee)) {
+        headcounts.set(venueId, (headcounts.get(venueId) ?? 0) + 1);
+      }
+    }
+  }
+
+  totals.meals = [...meals.values()];
+  totals.venues = venueList.map((venue) => ({ venue, headcount: headcounts.get(venue.id) ?? 0 }));
+  return totals;
+};
+
+/** Narrows the list by status and a free-text search over names, contacts and codes. */
+export const filterEntries = (entries: AdminEntry[], status: AdminStatus | 'all', query: string): AdminEntry[] => {
+  const needle = query.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (status !== 'all' && entry.status !== status) return false;
+    if (!needle) return true;
+    const haystack = [
+      entry.rsvp?.name,
+      entry.rsvp?.contact,
+      entry.rsvp?.message,
+      entry.household?.code,
+      entry.household?.greeting,
+      ...(entry.household?.names ?? []),
+      ...(entry.rsvp?.attendees.map((attendee) => attendee.name) ?? []),
+    ];
+    return haystack.some((value) => value?.toLowerCase().includes(needle));
+  });
+};
+
+/** Everyone coming, by name, for place cards and seating. */
+export const attendingGuests = (entries: AdminEntry[]): SeatingGuest[] =>
+  entries
+    .filter((entry) => entry.status === 'attending')
+    .flatMap((entry) => entry.rsvp?.attendees.map((attendee) => ({ rsvpId: entry.id, name: attendee.name.trim() })) ?? [])
+    .filter((guest) => guest.name !== '')
+    .sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,31 @@
+import type { ModeratedWish, WishPhoto } from '../guestbook/types.ts';
+import type { ModeratedPhoto } from '../photos/types.ts';
+import type { Household, RsvpSubmission } from '../rsvp/types.ts';
+
+export type AdminStatus = 'attending' | 'declined' | 'pending';
+
+export interface AdminRsvpVersion {
+  version: number;
+  submittedAt: string;
+  rsvp: RsvpSubmission;
+}
+
+/**
+ * One line of the couple's guest list: an RSVP, or an invited household that hasn't replied.
+ * `rsvp` and `history` are absent for pending households.
+ */
+export interface AdminEntry {
+  id: string;
+  status: AdminStatus;
+  household?: Household;
+  rsvp?: RsvpSubmission;
+  updatedAt?: string;
+  /** Every saved version, oldest first. */
+  history: AdminRsvpVersion[];
+}
+
+/** A guest photo in the dashboard. Its image is fetched with the session token, so there is no `src`. */
+export type AdminPhoto = Omit<ModeratedPhoto, 'src'>;
+
+/** A wish in the dashboard; an attached photo is fetched with the session token too. */
+export type AdminWish = Omit<ModeratedWish, 'photo'> & { photo?: Omit<WishPhoto, 'src'> };
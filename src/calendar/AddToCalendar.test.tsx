@@ -0,0 +1,38 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import AddToCalendar from './AddToCalendar.tsx';
+import { calendarFileName, weddingEvents } from './events.ts';
+import { googleCalendarUrl, outlookCalendarUrl } from './links.ts';
+
+describe('AddToCalendar', () => {
+  it('links each event to Google Calendar and Outlook.com in the guest’s language', () => {
+    const t = translator('tl');
+    renderWithProviders(<AddToCalendar />, { locale: 'tl' });
+
+    for (const event of weddingEvents(wedding, 'tl')) {
+      const google = screen.getByRole('link', { name: t('calendar.addTo', { event: event.title, calendar: t('calendar.google') }) });
+      const outlook = screen.getByRole('link', { name: t('calendar.addTo', { event: event.title, calendar: t('calendar.outlook') }) });
+      expect(google).toHaveAttribute('href', googleCalendarUrl(event));
+      expect(outlook).toHaveAttribute('href', outlookCalendarUrl(event));
+      expect(google).toHaveAttribute('target', '_blank');
+    }
+  });
+
+  it('downloads every event as one .ics file', async () => {
+    const t = translator('en');
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const createObjectURL = vi.spyOn(URL, 'createObjectURL');
+    renderWithProviders(<AddToCalendar />);
+
+    await userEvent.click(screen.getByText(t('calendar.add')));
+    await userEvent.click(screen.getByRole('button', { name: t('calendar.ics') }));
+
+    expect(click).toHaveBeenCalledOnce();
+    expect(click.mock.contexts[0]).toHaveAttribute('download', calendarFileName(wedding));
+    expect((createObjectURL.mock.calls[0][0] as Blob).type).toBe('text/calendar;charset=utf-8');
+  });
+});
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { calendarFileName, weddingEvents } from './events.ts';
+import { buildIcs } from './ics.ts';
+import { googleCalendarUrl, outlookCalendarUrl } from './links.ts';
+
+const PRODUCT_ID = `-//${wedding.couple.displayName}//Wedding//EN`;
+
+/**
+ * "Add to calendar": an .ics file with every event for Apple Calendar and desktop Outlook,
+ * and per-event links for Google Calendar and Outlook.com, in the current language.
+ */
+const AddToCalendar: React.FC = () => {
+  const { t, locale } = useI18n();
+  const events = useMemo(() => weddingEvents(wedding, locale), [locale]);
+
+  if (events.length === 0) return null;
+
+  const download = () => {
+    const blob = new Blob([buildIcs(events, PRODUCT_ID)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = calendarFileName(wedding);
+    document.body.append(link);
+    link.click();
+    link.remove();
+    // Safari reads the blob after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <details className="add-to-calendar">
+      <summary className="add-to-calendar-toggle">{t('calendar.add')}</summary>
+      <ul className="add-to-calendar-menu">
+        <li>
+          <button type="button" onClick={download}>
+            {t('calendar.ics')}
+          </button>
+        </li>
+        {events.map((event) => (
+          <li key={event.uid}>
+            <span className="add-to-calendar-event">{event.title}</span>
+            <a
+              href={googleCalendarUrl(event)}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={t('calendar.addTo', { event: event.title, calendar: t('calendar.google') })}
+            >
+              {t('calendar.google')}
+            </a>
+            <a
+              href={outlookCalendarUrl(event)}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={t('calendar.addTo', { event: event.title, calendar: t('calendar.outlook') })}
+            >
+              {t('calendar.outlook')}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default AddToCalendar;
@@ -0,0 +1,72 @@
+import { formatTime } from '../config/format.ts';
+import type { Venue, WeddingConfig } from '../config/schema.ts';
+import { LOCALE_TAGS } from '../i18n/locales.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import type { CalendarEvent } from './ics.ts';
+import { zonedDateTime } from './zoned.ts';
+
+/** Alerts on every event: the day before, and two hours before to leave for the venue. */
+export const REMINDERS = [24 * 60, 2 * 60];
+
+// A venue without an end time is blocked out for this long
+const DEFAULT_DURATION_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+export interface VenueTimes {
+  venue: Venue;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * When each venue with a start time is in use, in order: from its `time` to its `endTime`
+ * (an hour later if it has none) on the wedding date, in the venues' time zone.
+ */
+export const venueTimes = (config: WeddingConfig): VenueTimes[] =>
+  config.venues
+    .flatMap((venue) => {
+      if (!venue.time) return [];
+      const start = zonedDateTime(config.date, venue.time, config.timeZone);
+      let end = venue.endTime
+        ? zonedDateTime(config.date, venue.endTime, config.timeZone)
+        : new Date(start.getTime() + DEFAULT_DURATION_MS);
+      // An end time earlier than the start means the party goes past midnight
+      if (end <= start) end = new Date(end.getTime() + DAY_MS);
+      return [{ venue, start, end }];
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+/**
+ * One event per venue with a start time (ceremony, reception).
+ * The description lists the program items that fall inside the event.
+ */
+export const weddingEvents = (config: WeddingConfig, locale: Locale): CalendarEvent[] => {
+  const t = translator(locale);
+  const host = new URL(config.site.url).host;
+
+  return venueTimes(config).map(({ venue, start, end }) => {
+    const program = config.timeline.items
+      .filter((item) => {
+        const at = zonedDateTime(config.date, item.time, config.timeZone);
+        return at >= start && at < end;
+      })
+      .map((item) => `${formatTime(item.time, LOCALE_TAGS[locale])} – ${localize(item.label, locale)}`);
+
+    return {
+      uid: `${venue.id}-${config.date}@${host}`,
+      title: t('calendar.eventTitle', { event: localize(venue.type, locale), couple: config.couple.displayName }),
+      start,
+      end,
+      timeZone: config.timeZone,
+      location: `${venue.name}, ${venue.address}`,
+      description: [...program, t('calendar.map', { url: venue.mapUrl }), config.site.url].join('\n'),
+      url: config.site.url,
+      reminders: REMINDERS,
+    };
+  });
+};
+
+/** e.g. `emerson-justine-wedding.ics` */
+export const calendarFileName = (config: WeddingConfig): string =>
+  `${config.couple.groom.firstName}-${config.couple.bride.firstName}-wedding.ics`.toLowerCase().replace(/[^\w.-]+/g, '-');
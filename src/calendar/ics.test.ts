@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildIcs, escapeText, foldLine } from './ics.ts';
+import type { CalendarEvent } from './ics.ts';
+
+const ceremony: CalendarEvent = {
+  uid: 'ceremony-2026-01-31@example.com',
+  title: 'Ceremony, Emerson & Justine',
+  start: new Date('2026-01-31T07:00:00Z'),
+  end: new Date('2026-01-31T09:00:00Z'),
+  timeZone: 'Asia/Manila',
+  location: 'Barasoain Church; Malolos',
+  description: '3:00 PM – Ceremony\n5:30 PM – Reception',
+  url: 'https://example.com/',
+  reminders: [24 * 60, 2 * 60, 30],
+};
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Ceremony')).toBe('SUMMARY:Ceremony');
+  });
+
+  it('folds long lines into 75-octet pieces with continuation spaces', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`).split('\r\n');
+    expect(folded.length).toBe(3);
+    expect(folded.every((piece) => octets(piece) <= 75)).toBe(true);
+    expect(folded.slice(1).every((piece) => piece.startsWith(' '))).toBe(true);
+    expect(folded.map((piece, index) => (index === 0 ? piece : piece.slice(1))).join('')).toBe(
+      `DESCRIPTION:${'x'.repeat(200)}`,
+    );
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `LOCATION:${'–'.repeat(40)}`;
+    const pieces = foldLine(line).split('\r\n');
+    expect(pieces.every((piece) => octets(piece) <= 75)).toBe(true);
+    expect(pieces.map((piece, index) => (index === 0 ? piece : piece.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('buildIcs', () => {
+  const ics = buildIcs([ceremony], '-//Emerson & Justine//Wedding//EN', new Date('2026-01-01T00:00:00Z'));
+  const lines = ics.split('\r\n');
+
+  it('wraps the events in one calendar with CRLF line endings', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('writes local times with a VTIMEZONE for the event’s zone', () => {
+    expect(lines).toContain('TZID:Asia/Manila');
+    expect(lines).toContain('TZOFFSETTO:+0800');
+    expect(lines).toContain('DTSTART;TZID=Asia/Manila:20260131T150000');
+    expect(lines).toContain('DTEND;TZID=Asia/Manila:20260131T170000');
+    expect(lines).toContain('DTSTAMP:20260101T000000Z');
+  });
+
+  it('escapes the text fields', () => {
+    expect(lines).toContain('SUMMARY:Ceremony\\, Emerson & Justine');
+    expect(lines).toContain('LOCATION:Barasoain Church\\; Malolos');
+    expect(lines).toContain('DESCRIPTION:3:00 PM – Ceremony\\n5:30 PM – Reception');
+  });
+
+  it('adds an alarm for every reminder', () => {
+    expect(lines.filter((line) => line === 'BEGIN:VALARM')).toHaveLength(3);
+    expect(lines).toEqual(expect.arrayContaining(['TRIGGER:-P1D', 'TRIGGER:-PT2H', 'TRIGGER:-PT30M']));
+  });
+
+  it('writes one VTIMEZONE per zone however many events use it', () => {
+    const reception = { ...ceremony, uid: 'reception-2026-01-31@example.com', url: undefined };
+    const both = buildIcs([ceremony, reception], '-//Test//EN').split('\r\n');
+    expect(both.filter((line) => line === 'BEGIN:VTIMEZONE')).toHaveLength(1);
+    expect(both.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(both.filter((line) => line.startsWith('URL:'))).toHaveLength(1);
+  });
+});
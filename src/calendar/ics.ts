@@ -0,0 +1,133 @@
+/**
+ * An iCalendar (RFC 5545) writer for the handful of events a wedding has.
+ * Files open in Apple Calendar, Outlook and Google Calendar's import.
+ */
+import { localStamp, timeZoneOffset } from './zoned.ts';
+
+export interface CalendarEvent {
+  /** Globally unique and stable, so importing the file twice updates instead of duplicating. */
+  uid: string;
+  title: string;
+  start: Date;
+  end: Date;
+  /** IANA zone the times are shown in, e.g. `Asia/Manila`. */
+  timeZone: string;
+  location: string;
+  description: string;
+  url?: string;
+  /** Alerts, in minutes before the start. */
+  reminders: number[];
+}
+
+const CRLF = '\r\n';
+// Content lines are at most 75 octets; continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+/** Escapes a TEXT value: backslash, semicolon, comma and line breaks (RFC 5545 §3.3.11). */
+export const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into 75-octet pieces (RFC 5545 §3.1), never inside a UTF-8 character,
+ * so names like "Barasoain – Malolos" survive the fold.
+ */
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its 75
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join(`${CRLF} `);
+};
+
+/** `instant` in UTC, e.g. `20260131T070000Z`. */
+const utcStamp = (instant: Date): string => `${instant.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+
+/** `-PT2H`, `-P1D`, `-PT30M`. */
+const beforeStart = (minutes: number): string => {
+  if (minutes % 1440 === 0) return `-P${minutes / 1440}D`;
+  if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+  return `-PT${minutes}M`;
+};
+
+/** `+0800` */
+const utcOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+};
+
+/**
+ * A VTIMEZONE for `timeZone` as it is at `instant`. It describes a single fixed offset,
+ * which is exact for zones without daylight saving such as Asia/Manila.
+ */
+const timeZoneLines = (timeZone: string, instant: Date): string[] => {
+  const offset = utcOffset(timeZoneOffset(instant, timeZone));
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+};
+
+const eventLines = (event: CalendarEvent, stamp: string): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART;TZID=${event.timeZone}:${localStamp(event.start, event.timeZone)}`,
+  `DTEND;TZID=${event.timeZone}:${localStamp(event.end, event.timeZone)}`,
+  `SUMMARY:${escapeText(event.title)}`,
+  `LOCATION:${escapeText(event.location)}`,
+  `DESCRIPTION:${escapeText(event.description)}`,
+  ...(event.url ? [`URL:${event.url}`] : []),
+  ...event.reminders.flatMap((minutes) => [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(event.title)}`,
+    `TRIGGER:${beforeStart(minutes)}`,
+    'END:VALARM',
+  ]),
+  'END:VEVENT',
+];
+
+/**
+ * Writes `events` as one VCALENDAR, with a VTIMEZONE for every zone they use.
+ * @param {string} productId - The PRODID, e.g. `-//Emerson & Justine//Wedding//EN`.
+ * @param {Date} now - When the file is generated, for DTSTAMP.
+ */
+export const buildIcs = (events: CalendarEvent[], productId: string, now = new Date()): string => {
+  const stamp = utcStamp(now);
+  const zones = new Map<string, Date>();
+  for (const event of events) {
+    if (!zones.has(event.timeZone)) zones.set(event.timeZone, event.start);
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${escapeText(productId)}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...[...zones].flatMap(([timeZone, instant]) => timeZoneLines(timeZone, instant)),
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
@@ -0,0 +1,6 @@
+export { calendarFileName, REMINDERS, venueTimes, weddingEvents } from './events.ts';
+export type { VenueTimes } from './events.ts';
+export { buildIcs, escapeText, foldLine } from './ics.ts';
+export type { CalendarEvent } from './ics.ts';
+export { googleCalendarUrl, outlookCalendarUrl } from './links.ts';
+export { localStamp, timeZoneOffset, zonedDateTime } from './zoned.ts';
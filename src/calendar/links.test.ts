@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { CalendarEvent } from './ics.ts';
+import { googleCalendarUrl, outlookCalendarUrl } from './links.ts';
+
+const ceremony: CalendarEvent = {
+  uid: 'ceremony-2026-01-31@example.com',
+  title: 'Ceremony, Emerson & Justine',
+  start: new Date('2026-01-31T07:00:00Z'),
+  end: new Date('2026-01-31T09:00:00Z'),
+  timeZone: 'Asia/Manila',
+  location: 'Barasoain Church, Malolos',
+  description: '3:00 PM – Ceremony\nhttps://example.com/',
+  url: 'https://example.com/',
+  reminders: [],
+};
+
+const params = (url: string) => new URL(url).searchParams;
+
+describe('googleCalendarUrl', () => {
+  it('gives the local wall-clock times with the venue’s time zone', () => {
+    const url = googleCalendarUrl(ceremony);
+
+    expect(url).toMatch(/^https:\/\/calendar\.google\.com\/calendar\/render\?/);
+    expect(Object.fromEntries(params(url))).toEqual({
+      action: 'TEMPLATE',
+      text: 'Ceremony, Emerson & Justine',
+      dates: '20260131T150000/20260131T170000',
+      ctz: 'Asia/Manila',
+      location: 'Barasoain Church, Malolos',
+      details: '3:00 PM – Ceremony\nhttps://example.com/',
+    });
+  });
+});
+
+describe('outlookCalendarUrl', () => {
+  it('gives the times with their UTC offset', () => {
+    const url = outlookCalendarUrl(ceremony);
+
+    expect(url).toMatch(/^https:\/\/outlook\.live\.com\/calendar\/0\/deeplink\/compose\?/);
+    expect(Object.fromEntries(params(url))).toEqual({
+      path: '/calendar/action/compose',
+      rru: 'addevent',
+      subject: 'Ceremony, Emerson & Justine',
+      startdt: '2026-01-31T15:00:00+08:00',
+      enddt: '2026-01-31T17:00:00+08:00',
+      location: 'Barasoain Church, Malolos',
+      body: '3:00 PM – Ceremony\nhttps://example.com/',
+    });
+  });
+
+  it('writes offsets behind UTC and by the half hour', () => {
+    const url = outlookCalendarUrl({ ...ceremony, timeZone: 'America/St_Johns' });
+
+    expect(params(url).get('startdt')).toBe('2026-01-31T03:30:00-03:30');
+    expect(params(url).get('enddt')).toBe('2026-01-31T05:30:00-03:30');
+  });
+});
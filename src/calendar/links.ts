@@ -0,0 +1,41 @@
+import type { CalendarEvent } from './ics.ts';
+import { localStamp, timeZoneOffset } from './zoned.ts';
+
+/** A Google Calendar "create event" link, shown in the event's own time zone. */
+export const googleCalendarUrl = (event: CalendarEvent): string => {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${localStamp(event.start, event.timeZone)}/${localStamp(event.end, event.timeZone)}`,
+    ctz: event.timeZone,
+    location: event.location,
+    details: event.description,
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+};
+
+// `2026-01-31T15:00:00+08:00`: Outlook reads the offset and converts to the viewer's zone
+const isoWithOffset = (instant: Date, timeZone: string): string => {
+  const stamp = localStamp(instant, timeZone);
+  const offset = timeZoneOffset(instant, timeZone);
+  const absolute = Math.abs(offset);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}` +
+    `${offset < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
+};
+
+/** An Outlook.com (personal accounts) "new event" link. */
+export const outlookCalendarUrl = (event: CalendarEvent): string => {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: isoWithOffset(event.start, event.timeZone),
+    enddt: isoWithOffset(event.end, event.timeZone),
+    location: event.location,
+    body: event.description,
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
+};
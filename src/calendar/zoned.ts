@@ -0,0 +1,48 @@
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock fields of `instant` as seen in `timeZone`
+const wallClock = (instant: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map((part) => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+/** Offset of `timeZone` from UTC at `instant`, in minutes (Asia/Manila → 480). */
+export const timeZoneOffset = (instant: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60_000);
+};
+
+/**
+ * The moment a config date and time (`"2026-01-31"`, `"15:00"`) happen in `timeZone`,
+ * whatever the viewer's own time zone is.
+ */
+export const zonedDateTime = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+  const guess = wall - timeZoneOffset(new Date(wall), timeZone) * 60_000;
+  // Near a daylight-saving change the offset at the answer can differ from the first guess
+  return new Date(wall - timeZoneOffset(new Date(guess), timeZone) * 60_000);
+};
+
+/** `instant` as a floating iCalendar date-time in `timeZone`, e.g. `20260131T150000`. */
+export const localStamp = (instant: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute, second } = wallClock(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+};
@@ -0,0 +1,20 @@
+/**
+ * Formats a config time (`"15:00"`) for display, e.g. "3:00 PM".
+ */
+export const formatTime = (time: string, locale = 'en-US'): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' }).format(
+    new Date(Date.UTC(2000, 0, 1, hours, minutes)),
+  );
+};
+
+/**
+ * Formats a config date (`"2026-01-31"`) for display, e.g. "January 31, 2026".
+ * The date is a calendar day, so it is formatted the same in every time zone.
+ */
+export const formatLongDate = (date: string, locale = 'en-US'): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }).format(
+    new Date(Date.UTC(year, month - 1, day)),
+  );
+};
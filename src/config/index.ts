@@ -0,0 +1,10 @@
+import raw from './wedding.json';
+import type { WeddingConfig } from './schema.ts';
+
+export type * from './schema.ts';
+
+/**
+ * The site's content. `wedding.json` is validated against the schema when Vite starts
+ * or builds (see `weddingConfigPlugin`), so components can rely on the declared types.
+ */
+export const wedding = raw as WeddingConfig;
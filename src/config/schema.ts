@@ -0,0 +1,558 @@
+/**
+ * The typed shape of `wedding.json`, the single source of the site's content,
+ * and the validator the build runs against it.
+ * Guest-facing copy is `LocalizedText`: a plain string, or one string per locale.
+ */
+import { LOCALES } from '../i18n/locales.ts';
+import type { LocalizedText } from '../i18n/locales.ts';
+
+export type { LocalizedText };
+
+export interface ImageRef {
+  src: string;
+  alt: LocalizedText;
+}
+
+export interface Person {
+  firstName: string;
+  fullName: string;
+}
+
+export interface MusicTrack {
+  src: string;
+  title: string;
+  artist?: string;
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface Venue {
+  id: string;
+  /** What happens there, shown as the card heading. */
+  type: LocalizedText;
+  name: string;
+  address: string;
+  /** Local start time, 24-hour `HH:mm`. */
+  time?: string;
+  /** Local end time, 24-hour `HH:mm`; used for the calendar invite. */
+  endTime?: string;
+  /** Photo on the venue card; the card goes without one. */
+  image?: string;
+  mapUrl: string;
+  /** Pin on the venue map and target of the Waze/Google/Apple Maps links. */
+  coordinates?: Coordinates;
+}
+
+export interface MapPoint {
+  kind: 'parking' | 'landmark';
+  name: LocalizedText;
+  coordinates: Coordinates;
+  /** e.g. opening hours or fees of a car park. */
+  note?: LocalizedText;
+}
+
+export interface VenueMap {
+  /** The way from the first venue to the next, drawn on the map. */
+  route?: {
+    mode: 'driving' | 'walking';
+    /** Typical travel time, shown next to the directions links. */
+    minutes?: number;
+    /** Points along the road, first venue to second. */
+    path: Coordinates[];
+  };
+  points: MapPoint[];
+  /** A picture of the area shown when map tiles can't load, instead of the built-in sketch. */
+  staticImage?: ImageRef;
+}
+
+export interface TimelineItem {
+  /** Local time, 24-hour `HH:mm`. */
+  time: string;
+  label: LocalizedText;
+}
+
+export interface EntreeOption {
+  id: string;
+  label: LocalizedText;
+  /** Restricts the option to one age group, e.g. the kids' plate. */
+  ageGroup?: 'adult' | 'child';
+}
+
+export interface PaletteColor {
+  name: LocalizedText;
+  color: string;
+}
+
+/** One person in the entourage. */
+export interface EntourageMember {
+  name: string;
+  /** What they carry or light, e.g. "Ring Bearer"; shown before the name. */
+  task?: LocalizedText;
+  /** How they are related to the couple, e.g. "Bride's aunt"; shown under the name. */
+  relation?: LocalizedText;
+  /** A portrait shown beside the name on the site; left out of the printed layout. */
+  photo?: string;
+}
+
+/** Two people who serve together and are always listed side by side, e.g. a sponsor couple. */
+export interface EntourageCouple {
+  /** What the pair does, e.g. "Candle"; shown before their names. */
+  task?: LocalizedText;
+  partners: [EntourageMember, EntourageMember];
+}
+
+/**
+ * One heading of the entourage and the people under it, either one per line or in couples.
+ * A role with nobody in it is left off the page, so an unfilled role can simply stay empty.
+ */
+export interface EntourageRole {
+  title: LocalizedText;
+  members?: EntourageMember[];
+  couples?: EntourageCouple[];
+}
+
+/** A block of roles: a card on the site and a column of the printed program. */
+export interface EntourageSection {
+  roles: EntourageRole[];
+}
+
+export interface Entourage {
+  /** In the order of the printed program. */
+  sections: EntourageSection[];
+}
+
+/** A fixed feature of the reception hall drawn on the floor map, e.g. the stage or the entrance. */
+export interface FloorLandmark {
+  label: LocalizedText;
+  /** Position in percent of the map's width and height. */
+  x: number;
+  y: number;
+}
+
+export interface GoogleFormConfig {
+  url: string;
+  /** `entry.*` ids of the form's questions. */
+  fields: {
+    name: string;
+    contact: string;
+    attending: string;
+    guests: string;
+    message: string;
+    inviteCode?: string;
+    attendees?: string;
+  };
+}
+
+export interface SocialLink {
+  type: 'facebook' | 'messenger' | 'email';
+  url: string;
+}
+
+export interface WeddingConfig {
+  couple: {
+    groom: Person;
+    bride: Person;
+    /** How the couple signs the site, e.g. "Emerson & Justine". */
+    displayName: string;
+  };
+  /** Wedding date (`YYYY-MM-DD`) in the venue's time zone. */
+  date: string;
+  /** IANA time zone of the venues, e.g. `Asia/Manila`. */
+  timeZone: string;
+  site: {
+    title: string;
+    description: string;
+    url: string;
+  };
+  /** Ornaments from `public/`, each left out when unset. */
+  decorations?: {
+    /** Either side of the menu links on wide screens; the right one is shown mirrored. */
+    navLeft?: string;
+    navRight?: string;
+    /** Floats over the corner of the story photo. */
+    story?: string;
+  };
+  /** The top of the home page, under the couple's names and the date. */
+  hero: {
+    /** One photo, or several to cross-fade between. */
+    images: ImageRef[];
+    /** How long each photo of a slideshow stays up. Defaults to 6. */
+    slideSeconds?: number;
+    /** A muted, looping film played behind the names instead of the photos. */
+    video?: { src: string; poster?: string };
+    tagline?: LocalizedText;
+  };
+  invite: {
+    title: LocalizedText;
+    body: LocalizedText;
+    photos: Array<ImageRef & { title: LocalizedText; subtitle: LocalizedText }>;
+  };
+  countdown: {
+    message: LocalizedText;
+    title: LocalizedText;
+    /** Shown in place of the countdown once the celebration is over. */
+    thankYou: LocalizedText;
+  };
+  story: {
+    title: LocalizedText;
+    body: LocalizedText;
+    image: ImageRef;
+  };
+  gallery: {
+    title: LocalizedText;
+    subtitle: LocalizedText;
+    /** Album shown in the gallery section: a folder in `public/` with a `gallery.json`. */
+    album: string;
+    /** Album of the official wedding photos, shown instead once the celebration is over. */
+    officialAlbum?: string;
+  };
+  /** The film section of the home page; without one the section hides. */
+  video?: {
+    src: string;
+    poster: string;
+  };
+  music?: {
+    /** Played in order, starting over after the last. Files go in `public/audio/`; with none, the player hides. */
+    tracks: MusicTrack[];
+    /** Starting volume from 0 to 1, until the guest changes it. */
+    volume?: number;
+  };
+  venues: Venue[];
+  map?: VenueMap;
+  timeline: {
+    title: LocalizedText;
+    subtitle: LocalizedText;
+    items: TimelineItem[];
+  };
+  dressCode: {
+    description: LocalizedText;
+    paletteNote: LocalizedText;
+    images: ImageRef[];
+    palette: PaletteColor[];
+  };
+  rsvp: {
+    /** Last moment to reply or change a reply, ISO 8601 with offset. */
+    deadline: string;
+    maxGuests: number;
+    menu: EntreeOption[];
+    googleForm?: GoogleFormConfig;
+  };
+  entourage: Entourage;
+  /** The floor map behind the seating planner and "Find your table". */
+  seating?: {
+    /** The venue the tables are in; the map is named after it. */
+    venueId: string;
+    landmarks: FloorLandmark[];
+  };
+  gifts: {
+    message: LocalizedText;
+    reasonsIntro: LocalizedText;
+    reasons: LocalizedText[];
+    qrText: LocalizedText;
+    qrCodes: ImageRef[];
+  };
+  footer: {
+    credit: string;
+    social: SocialLink[];
+  };
+}
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value);
+
+const string = (options: { pattern?: RegExp; hint?: string } = {}): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+  } else if (options.pattern && !options.pattern.test(value)) {
+    errors.push(`${path}: "${value}" is not ${options.hint ?? `in the format ${options.pattern}`}`);
+  }
+};
+
+// Copy shown to guests: one string for every language, or a translation per locale
+const text = (): Check => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    string()(value, path, errors);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const locale of LOCALES) {
+    if (typeof record[locale] !== 'string' || (record[locale] as string).trim() === '') {
+      errors.push(`${path}.${locale}: missing translation`);
+    }
+  }
+  for (const key of Object.keys(record)) {
+    if (!LOCALES.includes(key as (typeof LOCALES)[number])) errors.push(`${path}.${key}: unknown locale`);
+  }
+};
+
+const number = (options: { min?: number; max?: number } = {}): Check => (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}: expected a number, got ${describe(value)}`);
+  } else if (options.min !== undefined && value < options.min) {
+    errors.push(`${path}: must be at least ${options.min}, got ${value}`);
+  } else if (options.max !== undefined && value > options.max) {
+    errors.push(`${path}: must be at most ${options.max}, got ${value}`);
+  }
+};
+
+const oneOf = (...allowed: string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push(`${path}: expected one of ${allowed.map((a) => `"${a}"`).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+};
+
+const array = (item: Check, options: { min?: number; max?: number } = {}): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array, got ${describe(value)}`);
+    return;
+  }
+  if (options.min !== undefined && value.length < options.min) {
+    errors.push(`${path}: expected at least ${options.min} item(s), got ${value.length}`);
+  }
+  if (options.max !== undefined && value.length > options.max) {
+    errors.push(`${path}: expected at most ${options.max} item(s), got ${value.length}`);
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, errors));
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+  if (value !== undefined) check(value, path, errors);
+};
+
+const object = (shape: Record<string, Check>): Check => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const [key, check] of Object.entries(shape)) {
+    check(record[key], path ? `${path}.${key}` : key, errors);
+  }
+  for (const key of Object.keys(record)) {
+    if (!(key in shape)) errors.push(`${path ? `${path}.${key}` : key}: unknown key (typo?)`);
+  }
+};
+
+const TIME = { pattern: /^([01]\d|2[0-3]):[0-5]\d$/, hint: 'a 24-hour time like "15:00"' };
+const DATE = { pattern: /^\d{4}-\d{2}-\d{2}$/, hint: 'a date like "2026-01-31"' };
+const DATETIME = {
+  pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?(Z|[+-]\d{2}:\d{2})$/,
+  hint: 'an ISO date-time with offset like "2026-01-10T23:59:59+08:00"',
+};
+// Pages live at nested routes (/entourage, /i/CODE), so relative asset paths would break
+const ASSET = { pattern: /^(\/|https?:\/\/)/, hint: 'an absolute path like "/invite/invite1.jpeg" or a URL' };
+const ALBUM = { pattern: /^[\w-]+$/, hint: 'a folder name like "prenup"' };
+const COLOR = { pattern: /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+)$/, hint: 'a hex color like "#f74e92" or a CSS color name' };
+
+const PLACEHOLDER_NAME = /^\s*(n\/?a|none|tbd|tba|-+)\s*$/i;
+
+const image = object({ src: string(ASSET), alt: text() });
+const person = object({ firstName: string(), fullName: string() });
+const coordinates = object({ lat: number({ min: -90, max: 90 }), lng: number({ min: -180, max: 180 }) });
+const entourageMember = object({
+  name: string(),
+  task: optional(text()),
+  relation: optional(text()),
+  photo: optional(string(ASSET)),
+});
+
+const weddingConfigSchema = object({
+  couple: object({ groom: person, bride: person, displayName: string() }),
+  date: string(DATE),
+  timeZone: string(),
+  site: object({ title: string(), description: string(), url: string() }),
+  decorations: optional(
+    object({ navLeft: optional(string(ASSET)), navRight: optional(string(ASSET)), story: optional(string(ASSET)) }),
+  ),
+  hero: object({
+    images: array(image, { min: 1 }),
+    slideSeconds: optional(number({ min: 1 })),
+    video: optional(object({ src: string(ASSET), poster: optional(string(ASSET)) })),
+    tagline: optional(text()),
+  }),
+  invite: object({
+    title: text(),
+    body: text(),
+    photos: array(object({ src: string(ASSET), alt: text(), title: text(), subtitle: text() })),
+  }),
+  countdown: object({ message: text(), title: text(), thankYou: text() }),
+  story: object({ title: text(), body: text(), image }),
+  gallery: object({
+    title: text(),
+    subtitle: text(),
+    album: string(ALBUM),
+    officialAlbum: optional(string(ALBUM)),
+  }),
+  video: optional(object({ src: string(ASSET), poster: string(ASSET) })),
+  music: optional(
+    object({
+      tracks: array(object({ src: string(ASSET), title: string(), artist: optional(string()) })),
+      volume: optional(number({ min: 0, max: 1 })),
+    }),
+  ),
+  venues: array(
+    object({
+      id: string(),
+      type: text(),
+      name: string(),
+      address: string(),
+      time: optional(string(TIME)),
+      endTime: optional(string(TIME)),
+      image: optional(string(ASSET)),
+      mapUrl: string(),
+      coordinates: optional(coordinates),
+    }),
+    { min: 1 },
+  ),
+  map: optional(
+    object({
+      route: optional(
+        object({
+          mode: oneOf('driving', 'walking'),
+          minutes: optional(number({ min: 1 })),
+          path: array(coordinates, { min: 2 }),
+        }),
+      ),
+      points: array(
+        object({ kind: oneOf('parking', 'landmark'), name: text(), coordinates, note: optional(text()) }),
+      ),
+      staticImage: optional(image),
+    }),
+  ),
+  timeline: object({
+    title: text(),
+    subtitle: text(),
+    items: array(object({ time: string(TIME), label: text() })),
+  }),
+  dressCode: object({
+    description: text(),
+    paletteNote: text(),
+    images: array(image),
+    palette: array(object({ name: text(), color: string(COLOR) })),
+  }),
+  rsvp: object({
+    deadline: string(DATETIME),
+    maxGuests: number({ min: 1 }),
+    menu: array(object({ id: string(), label: text(), ageGroup: optional(oneOf('adult', 'child')) }), { min: 1 }),
+    googleForm: optional(
+      object({
+        url: string(),
+        fields: object({
+          name: string(),
+          contact: string(),
+          attending: string(),
+          guests: string(),
+          message: string(),
+          inviteCode: optional(string()),
+          attendees: optional(string()),
+        }),
+      }),
+    ),
+  }),
+  entourage: object({
+    sections: array(
+      object({
+        roles: array(
+          object({
+            title: text(),
+            members: optional(array(entourageMember)),
+            couples: optional(
+              array(object({ task: optional(text()), partners: array(entourageMember, { min: 2, max: 2 }) })),
+            ),
+          }),
+          { min: 1 },
+        ),
+      }),
+    ),
+  }),
+  seating: optional(
+    object({
+      venueId: string(),
+      landmarks: array(object({ label: text(), x: number({ min: 0, max: 100 }), y: number({ min: 0, max: 100 }) })),
+    }),
+  ),
+  gifts: object({
+    message: text(),
+    reasonsIntro: text(),
+    reasons: array(text()),
+    qrText: text(),
+    qrCodes: array(image),
+  }),
+  footer: object({
+    credit: string(),
+    social: array(object({ type: oneOf('facebook', 'messenger', 'email'), url: string() })),
+  }),
+});
+
+/**
+ * Checks a parsed config file against the schema.
+ * @returns {string[]} - One `path: problem` line per error; empty when the config is valid.
+ */
+export const validateWeddingConfig = (value: unknown): string[] => {
+  const errors: string[] = [];
+  weddingConfigSchema(value, '', errors);
+
+  // Cross-field checks the shape alone can't express
+  const config = value as Partial<WeddingConfig>;
+  const ids = new Set<string>();
+  config.rsvp?.menu?.forEach((option, index) => {
+    if (ids.has(option.id)) errors.push(`rsvp.menu[${index}].id: duplicate entrée id "${option.id}"`);
+    ids.add(option.id);
+  });
+  if (Array.isArray(config.timeline?.items)) {
+    const times = config.timeline.items.map((item) => item.time);
+    if (times.some((time, index) => index > 0 && time < times[index - 1])) {
+      errors.push('timeline.items: items must be in chronological order');
+    }
+  }
+  if (typeof config.seating?.venueId === 'string' && !config.venues?.some((venue) => venue.id === config.seating?.venueId)) {
+    errors.push(`seating.venueId: no venue has the id "${config.seating.venueId}"`);
+  }
+  // Placeholders like "NA" used to fill roles nobody has; an empty role is hidden instead
+  config.entourage?.sections?.forEach((section, sectionIndex) => {
+    section.roles?.forEach((role, roleIndex) => {
+      const path = `entourage.sections[${sectionIndex}].roles[${roleIndex}]`;
+      const people = [
+        ...(role.members ?? []).map((member, index) => ({ member, path: `${path}.members[${index}]` })),
+        ...(role.couples ?? []).flatMap((couple, index) =>
+          (couple.partners ?? []).map((member, partner) => ({
+            member,
+            path: `${path}.couples[${index}].partners[${partner}]`,
+          })),
+        ),
+      ];
+      for (const { member, path: memberPath } of people) {
+        if (typeof member?.name === 'string' && PLACEHOLDER_NAME.test(member.name)) {
+          errors.push(`${memberPath}.name: "${member.name}" is a placeholder; leave the role empty instead`);
+        }
+      }
+    });
+  });
+  if (typeof config.timeZone === 'string') {
+    try {
+      new Intl.DateTimeFormat('en', { timeZone: config.timeZone });
+    } catch {
+      errors.push(`timeZone: "${config.timeZone}" is not a known IANA time zone`);
+    }
+  }
+
+  return errors;
+};
+
+const gallerySidecarSchema = object({
+  photos: array(object({ file: string(), alt: optional(text()), caption: optional(text()) })),
+});
+
+/**
+ * Checks an album's `gallery.json` sidecar (see `GallerySidecar`).
+ * @returns {string[]} - One `path: problem` line per error; empty when the sidecar is valid.
+ */
+export const validateGallerySidecar = (value: unknown): string[] => {
+  const errors: string[] = [];
+  gallerySidecarSchema(value, '', errors);
+  return errors;
+};
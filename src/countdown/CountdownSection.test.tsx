@@ -0,0 +1,74 @@
+import { act, screen, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import CountdownSection from './CountdownSection.tsx';
+import { celebrationWindow } from './clock.ts';
+
+const t = translator('en');
+const { start, end } = celebrationWindow(wedding);
+
+const unit = (label: string) => screen.getByText(label).previousElementSibling?.textContent;
+
+describe('CountdownSection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('counts down every second until the ceremony starts', () => {
+    vi.setSystemTime(start.getTime() - ((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000);
+    renderWithProviders(<CountdownSection />);
+
+    expect(screen.getByRole('heading', { name: localize(wedding.countdown.title, 'en') })).toBeInTheDocument();
+    expect(unit(t('countdown.days'))).toBe('02');
+    expect(unit(t('countdown.hours'))).toBe('03');
+    expect(unit(t('countdown.minutes'))).toBe('04');
+    expect(unit(t('countdown.seconds'))).toBe('05');
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(unit(t('countdown.seconds'))).toBe('04');
+  });
+
+  it('switches to the live view when the countdown reaches zero', () => {
+    vi.setSystemTime(start.getTime() - 2000);
+    const { container } = renderWithProviders(<CountdownSection />);
+    expect(unit(t('countdown.seconds'))).toBe('02');
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(unit(t('countdown.seconds'))).toBe('01');
+    expect(container.querySelector('.countdown-section')).toHaveClass('upcoming');
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(container.querySelector('.countdown-section')).toHaveClass('live');
+    expect(screen.getByRole('heading', { name: t('countdown.live') })).toBeInTheDocument();
+    expect(screen.queryByText(t('countdown.seconds'))).not.toBeInTheDocument();
+    expect(
+      screen.getByText(t('countdown.now', { item: localize(wedding.timeline.items[0].label, 'en') })),
+    ).toBeInTheDocument();
+  });
+
+  it('thanks the guests once the reception is over', () => {
+    vi.setSystemTime(end);
+    const { container } = renderWithProviders(<CountdownSection />);
+
+    expect(container.querySelector('.countdown-section')).toHaveClass('over');
+    expect(screen.getByText(localize(wedding.countdown.thankYou, 'en'))).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: t('countdown.marriedToday') })).toBeInTheDocument();
+  });
+
+  it('counts the days married afterwards', () => {
+    vi.setSystemTime(end.getTime() + 10 * 24 * 3600 * 1000);
+    renderWithProviders(<CountdownSection />);
+    expect(screen.getByRole('heading', { name: t('countdown.marriedMany', { count: 10 }) })).toBeInTheDocument();
+  });
+
+  it('stands still at the previewed phase', () => {
+    vi.setSystemTime(start.getTime() - 5000);
+    const { container } = renderWithProviders(<CountdownSection />, { phase: 'day-of' });
+
+    expect(container.querySelector('.countdown-section')).toHaveClass('live');
+    act(() => vi.advanceTimersByTime(60_000));
+    expect(within(container).getByRole('heading', { name: t('countdown.live') })).toBeInTheDocument();
+  });
+});
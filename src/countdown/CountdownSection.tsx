@@ -0,0 +1,69 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { useIntersectionObserver } from '../motion/useIntersectionObserver.ts';
+import { useWeddingClock } from './useWeddingClock.ts';
+
+/**
+ * The countdown section component.
+ * Counts down to the ceremony in the venues' time zone, shows what is happening during
+ * the celebration, and afterwards how long the couple has been married.
+ */
+const CountdownSection: React.FC = () => {
+  const { t, text, formatDate, formatTime } = useI18n();
+  const { state, timeLeft, currentItem, daysMarried } = useWeddingClock();
+  const [ref, isInView] = useIntersectionObserver<HTMLElement>({ threshold: 0.5 });
+  const ceremonyTime = wedding.venues.find((venue) => venue.time)?.time;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const units = [
+    { value: timeLeft.days, label: t('countdown.days') },
+    { value: timeLeft.hours, label: t('countdown.hours') },
+    { value: timeLeft.minutes, label: t('countdown.minutes') },
+    { value: timeLeft.seconds, label: t('countdown.seconds') },
+  ];
+
+  const married =
+    daysMarried === 0
+      ? t('countdown.marriedToday')
+      : daysMarried === 1
+        ? t('countdown.marriedOne')
+        : t('countdown.marriedMany', { count: daysMarried });
+
+  return (
+    <section className={`countdown-section ${state}`} ref={ref}>
+      <div className={`countdown-overlay ${isInView ? 'fade-in' : ''}`}>
+        <p className="countdown-message">
+          {state === 'over' ? text(wedding.countdown.thankYou) : text(wedding.countdown.message)}
+        </p>
+        <h2 className="countdown-title">
+          {state === 'upcoming' && text(wedding.countdown.title)}
+          {state === 'live' && t('countdown.live')}
+          {state === 'over' && married}
+        </h2>
+        <p className="countdown-date">
+          {ceremonyTime
+            ? t('countdown.when', { date: formatDate(wedding.date), time: formatTime(ceremonyTime) })
+            : formatDate(wedding.date)}
+        </p>
+        {state === 'upcoming' && (
+          <div className="countdown-timer">
+            {units.map((unit) => (
+              <div className="timer-unit" key={unit.label}>
+                <span className="timer-value">{pad(unit.value)}</span>
+                <span className="timer-label">{unit.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {state === 'live' && currentItem >= 0 && (
+          <p className="countdown-now">
+            {t('countdown.now', { item: text(wedding.timeline.items[currentItem].label) })}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CountdownSection;
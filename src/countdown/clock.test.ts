@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import type { WeddingConfig } from '../config/index.ts';
+import { celebrationWindow, weddingClock } from './clock.ts';
+
+// 15:00–17:00 ceremony and 17:30–22:00 reception in Manila (UTC+8) on 31 January 2026
+const config: WeddingConfig = {
+  ...wedding,
+  date: '2026-01-31',
+  timeZone: 'Asia/Manila',
+  venues: [
+    { ...wedding.venues[0], time: '15:00', endTime: '17:00' },
+    { ...wedding.venues[1], time: '17:30', endTime: '22:00' },
+  ],
+  timeline: {
+    ...wedding.timeline,
+    items: [
+      { ...wedding.timeline.items[0], time: '15:00' },
+      { ...wedding.timeline.items[1], time: '17:30' },
+    ],
+  },
+};
+
+describe('celebrationWindow', () => {
+  it('runs from the first venue to the end of the last, in the venues’ time zone', () => {
+    expect(celebrationWindow(config)).toEqual({
+      start: new Date('2026-01-31T07:00:00Z'),
+      end: new Date('2026-01-31T14:00:00Z'),
+    });
+  });
+
+  it('carries a reception past midnight into the next day', () => {
+    const late = { ...config, venues: [config.venues[0], { ...config.venues[1], endTime: '01:00' }] };
+    expect(celebrationWindow(late).end).toEqual(new Date('2026-01-31T17:00:00Z'));
+  });
+
+  it('covers the whole wedding date without venue times', () => {
+    const undated = { ...config, venues: config.venues.map((venue) => ({ ...venue, time: undefined, endTime: undefined })) };
+    expect(celebrationWindow(undated)).toEqual({
+      start: new Date('2026-01-30T16:00:00Z'),
+      end: new Date('2026-01-31T16:00:00Z'),
+    });
+  });
+});
+
+describe('weddingClock', () => {
+  it('splits the time left into days, hours, minutes and seconds', () => {
+    const clock = weddingClock(new Date('2026-01-29T05:57:55Z'), config);
+    expect(clock.state).toBe('upcoming');
+    expect(clock.timeLeft).toEqual({ days: 2, hours: 1, minutes: 2, seconds: 5 });
+    expect(clock.currentItem).toBe(-1);
+  });
+
+  it('crosses zero at the start of the ceremony', () => {
+    expect(weddingClock(new Date('2026-01-31T06:59:59Z'), config)).toMatchObject({
+      state: 'upcoming',
+      timeLeft: { days: 0, hours: 0, minutes: 0, seconds: 1 },
+    });
+    expect(weddingClock(new Date('2026-01-31T07:00:00Z'), config)).toMatchObject({
+      state: 'live',
+      timeLeft: { days: 0, hours: 0, minutes: 0, seconds: 0 },
+      currentItem: 0,
+    });
+  });
+
+  it('follows the program while live', () => {
+    expect(weddingClock(new Date('2026-01-31T09:29:59Z'), config).currentItem).toBe(0);
+    expect(weddingClock(new Date('2026-01-31T09:30:00Z'), config).currentItem).toBe(1);
+  });
+
+  it('counts whole days married in the venues’ time zone', () => {
+    expect(weddingClock(new Date('2026-01-31T14:00:00Z'), config)).toMatchObject({ state: 'over', daysMarried: 0 });
+    // Midnight on 1 February in Manila
+    expect(weddingClock(new Date('2026-01-31T16:00:00Z'), config).daysMarried).toBe(1);
+    expect(weddingClock(new Date('2026-03-01T16:00:00Z'), config).daysMarried).toBe(30);
+  });
+
+  it('reads the venue times in the configured time zone', () => {
+    const newYork = { ...config, timeZone: 'America/New_York' };
+    expect(weddingClock(new Date('2026-01-31T19:59:59Z'), newYork).state).toBe('upcoming');
+    expect(weddingClock(new Date('2026-01-31T20:00:00Z'), newYork).state).toBe('live');
+  });
+});
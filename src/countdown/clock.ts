@@ -0,0 +1,72 @@
+import { venueTimes } from '../calendar/events.ts';
+import { zonedDateTime } from '../calendar/zoned.ts';
+import type { WeddingConfig } from '../config/schema.ts';
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Before the ceremony, between the ceremony and the end of the reception, or after. */
+export type CelebrationState = 'upcoming' | 'live' | 'over';
+
+export interface TimeLeft {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export interface WeddingClock {
+  state: CelebrationState;
+  /** Until the ceremony starts; all zero once it has. */
+  timeLeft: TimeLeft;
+  /** Index of the timeline item under way while `live`, otherwise -1. */
+  currentItem: number;
+  /** Whole days since the wedding date, in the venues' time zone; 0 before and on the day. */
+  daysMarried: number;
+}
+
+/**
+ * From the first venue's start to the last one's end, in the venues' time zone.
+ * Without venue times it is the whole wedding date.
+ */
+export const celebrationWindow = (config: WeddingConfig): { start: Date; end: Date } => {
+  const times = venueTimes(config);
+  if (times.length === 0) {
+    const start = zonedDateTime(config.date, '00:00', config.timeZone);
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+  return {
+    start: times[0].start,
+    end: new Date(Math.max(...times.map((time) => time.end.getTime()))),
+  };
+};
+
+const splitDuration = (ms: number): TimeLeft => ({
+  days: Math.floor(ms / DAY_MS),
+  hours: Math.floor((ms % DAY_MS) / HOUR_MS),
+  minutes: Math.floor((ms % HOUR_MS) / MINUTE_MS),
+  seconds: Math.floor((ms % MINUTE_MS) / SECOND_MS),
+});
+
+/** Where the celebration stands at `now`. The same moment gives the same answer in every time zone. */
+export const weddingClock = (now: Date, config: WeddingConfig): WeddingClock => {
+  const { start, end } = celebrationWindow(config);
+  const state: CelebrationState = now < start ? 'upcoming' : now < end ? 'live' : 'over';
+
+  let currentItem = -1;
+  if (state === 'live') {
+    config.timeline.items.forEach((item, index) => {
+      if (zonedDateTime(config.date, item.time, config.timeZone) <= now) currentItem = index;
+    });
+  }
+
+  const weddingDay = zonedDateTime(config.date, '00:00', config.timeZone);
+  return {
+    state,
+    timeLeft: splitDuration(Math.max(0, start.getTime() - now.getTime())),
+    currentItem,
+    daysMarried: state === 'over' ? Math.max(0, Math.floor((now.getTime() - weddingDay.getTime()) / DAY_MS)) : 0,
+  };
+};
@@ -0,0 +1,3 @@
+export { celebrationWindow, weddingClock } from './clock.ts';
+export type { CelebrationState, TimeLeft, WeddingClock } from './clock.ts';
+export { useWeddingClock } from './useWeddingClock.ts';
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { usePhase } from '../phases/context.ts';
+import { weddingClock } from './clock.ts';
+import type { WeddingClock } from './clock.ts';
+
+/**
+ * The wedding clock, re-read every second while counting down or live and every minute after.
+ * While a phase is previewed it stands still at that phase's moment.
+ */
+export const useWeddingClock = (): WeddingClock => {
+  const { previewAt } = usePhase();
+  const [now, setNow] = useState(() => new Date());
+  const clock = weddingClock(previewAt ?? now, wedding);
+
+  useEffect(() => {
+    if (previewAt) return;
+    const timer = setInterval(() => setNow(new Date()), clock.state === 'over' ? 60_000 : 1000);
+    return () => clearInterval(timer);
+  }, [clock.state, previewAt]);
+
+  return clock;
+};
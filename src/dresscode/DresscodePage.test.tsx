@@ -0,0 +1,35 @@
+import { act, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { MockIntersectionObserver } from '../test/observers.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import DresscodePage from './DresscodePage.tsx';
+
+const t = translator('en');
+
+describe('DresscodePage', () => {
+  it('shows the inspiration photos and the palette', () => {
+    renderWithProviders(<DresscodePage />);
+
+    expect(screen.getByRole('heading', { name: t('dresscode.title') })).toBeInTheDocument();
+    for (const image of wedding.dressCode.images) {
+      expect(screen.getByRole('img', { name: localize(image.alt, 'en') })).toBeInTheDocument();
+    }
+    for (const swatch of wedding.dressCode.palette) {
+      const sample = document.createElement('div');
+      sample.style.backgroundColor = swatch.color;
+      const label = screen.getByText(localize(swatch.name, 'en'));
+      expect((label.previousElementSibling as HTMLElement).style.backgroundColor).toBe(sample.style.backgroundColor);
+    }
+  });
+
+  it('fades in once scrolled into view', () => {
+    const { container } = renderWithProviders(<DresscodePage />);
+    const content = container.querySelector('.container') as HTMLElement;
+    expect(content).not.toHaveClass('in-view');
+
+    act(() => MockIntersectionObserver.instances.forEach((observer) => observer.trigger(true)));
+    expect(content).toHaveClass('in-view');
+  });
+});
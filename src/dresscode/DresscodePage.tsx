@@ -0,0 +1,49 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import { useIntersectionObserver } from '../motion/useIntersectionObserver.ts';
+import ParticleCanvas from '../particles/ParticleCanvas.tsx';
+
+const DresscodePage: React.FC = () => {
+  const { t, text } = useI18n();
+  const [ref2, isInView] = useIntersectionObserver<HTMLDivElement>({ threshold: 0.1 });
+  const [gridRef2, isGridInView] = useIntersectionObserver<HTMLDivElement>({ threshold: 0.1 });
+
+  return (
+    <section className="page-section2" id="dresscode" ref={ref2}>
+      <ParticleCanvas preset="dresscode" className="particles-container" />
+
+      <div className={`container fade-in-on-scroll ${isInView ? 'in-view' : ''}`}>
+        <h2 className="heading-main text-center">{t('dresscode.title')}</h2>
+        <p className="heading-sub text-center">{text(wedding.dressCode.description)}</p>
+
+        <div
+          className={`image-grid fade-in-on-scroll ${isGridInView ? 'in-view' : ''}`}
+          ref={gridRef2}
+        >
+          {wedding.dressCode.images.map((image) => (
+            <div className="image-card" key={image.src}>
+              <ResponsiveImage src={image.src} alt={text(image.alt)} sizes="(min-width: 768px) 33vw, 100vw" />
+            </div>
+          ))}
+        </div>
+
+        <div className="text-center">
+          <h3 className="heading-secondary">{t('dresscode.palette')}</h3>
+          <p className="heading-sub">{text(wedding.dressCode.paletteNote)}</p>
+          <div className="color-palette-wrapper">
+            {wedding.dressCode.palette.map((swatch) => (
+              <div className="color-swatch-container" key={swatch.color}>
+                <div className="color-swatch" style={{ backgroundColor: swatch.color }}></div>
+                <span className="color-label">{text(swatch.name)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default DresscodePage;
@@ -0,0 +1,97 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import type * as Config from '../config/index.ts';
+import type { Entourage } from '../config/schema.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import EntouragePage from './EntouragePage.tsx';
+
+const entourage = vi.hoisted(
+  (): Entourage => ({
+    sections: [
+      {
+        roles: [
+          {
+            title: 'Parents of the Groom',
+            members: [{ name: 'Mr. Groom Senior' }, { name: 'Mrs. Groom Senior', relation: { en: 'Mother', tl: 'Ina' } }],
+          },
+          {
+            title: { en: 'Principal Sponsors', tl: 'Mga Ninong at Ninang' },
+            couples: [
+              { partners: [{ name: 'Sponsor One' }, { name: 'Sponsor Two' }] },
+              { partners: [{ name: 'Sponsor Three' }, { name: 'Sponsor Four' }] },
+            ],
+          },
+        ],
+      },
+      {
+        roles: [
+          {
+            title: 'Secondary Sponsors',
+            couples: [{ task: { en: 'Candle', tl: 'Kandila' }, partners: [{ name: 'Candle One' }, { name: 'Candle Two' }] }],
+          },
+          {
+            title: 'Bearers',
+            members: [{ task: { en: 'Ring Bearer', tl: 'Singsing' }, name: 'Ring Bearer', photo: '/entourage/ring.jpg' }],
+          },
+          { title: 'Little Bride', members: [] },
+        ],
+      },
+      { roles: [{ title: 'Flower Girls' }] },
+    ],
+  }),
+);
+
+vi.mock('../config/index.ts', async (importOriginal) => {
+  const actual = await importOriginal<typeof Config>();
+  return { ...actual, wedding: { ...actual.wedding, entourage } };
+});
+
+const t = translator('en');
+
+const entries = (role: string) =>
+  within(screen.getByRole('list', { name: role }))
+    .getAllByRole('listitem')
+    .map((item) => item.textContent);
+
+describe('EntouragePage', () => {
+  it('lists everyone from the wedding config under their role, leaving out empty roles', () => {
+    const { container } = renderWithProviders(<EntouragePage />);
+
+    expect(screen.getByRole('heading', { level: 2, name: t('entourage.title') })).toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent)).toEqual([
+      'Parents of the Groom',
+      'Principal Sponsors',
+      'Secondary Sponsors',
+      'Bearers',
+    ]);
+    // The last section has no one in it, so it doesn't leave an empty card behind
+    expect(container.querySelectorAll('.entourage-section')).toHaveLength(2);
+    expect(entries('Parents of the Groom')).toEqual(['Mr. Groom Senior', 'Mrs. Groom Senior (Mother)']);
+  });
+
+  it('keeps sponsor couples together on one line', () => {
+    renderWithProviders(<EntouragePage />);
+
+    expect(entries('Principal Sponsors')).toEqual(['Sponsor One & Sponsor Two', 'Sponsor Three & Sponsor Four']);
+  });
+
+  it('shows what sponsors and bearers do in the visitor’s language', () => {
+    const { container } = renderWithProviders(<EntouragePage />, { locale: 'tl' });
+
+    expect(entries('Mga Ninong at Ninang')).toHaveLength(2);
+    expect(entries('Secondary Sponsors')).toEqual(['Kandila: Candle One & Candle Two']);
+    expect(entries('Bearers')).toEqual(['Singsing: Ring Bearer']);
+    expect(container.querySelector('img.entourage-photo')).toHaveAttribute('alt', '');
+  });
+
+  it('prints the page', async () => {
+    const user = userEvent.setup();
+    const print = vi.spyOn(window, 'print').mockImplementation(() => {});
+    renderWithProviders(<EntouragePage />);
+
+    await user.click(screen.getByRole('button', { name: t('entourage.print') }));
+    expect(print).toHaveBeenCalledOnce();
+  });
+});
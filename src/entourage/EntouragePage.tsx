@@ -0,0 +1,38 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import EntourageRoleList from './EntourageRoleList.tsx';
+import { filledSections } from './roles.ts';
+
+/**
+ * Everyone standing with the couple, from `entourage` in the wedding config: one card per
+ * section on screen, and the two-column layout of the printed program when printed.
+ */
+const EntouragePage: React.FC = () => {
+  const { t } = useI18n();
+  const sections = filledSections(wedding.entourage);
+
+  return (
+    <section className="page-section entourage-page">
+      <h2 className="page-title">{t('entourage.title')}</h2>
+      <p className="page-description">
+        {t('entourage.description')}
+      </p>
+      <button type="button" className="map-button entourage-print" onClick={() => window.print()}>
+        {t('entourage.print')}
+      </button>
+
+      <div className="entourage-container">
+        {sections.map((roles, sectionIndex) => (
+          <div key={sectionIndex} className="entourage-section">
+            {roles.map((role, roleIndex) => (
+              <EntourageRoleList key={roleIndex} role={role} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default EntouragePage;
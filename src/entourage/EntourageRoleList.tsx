@@ -0,0 +1,56 @@
+import React, { useId } from 'react';
+import type { EntourageMember, EntourageRole } from '../config/schema.ts';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+
+const Member: React.FC<{ member: EntourageMember }> = ({ member }) => {
+  const { text } = useI18n();
+  return (
+    <span className="entourage-member">
+      {/* The name is right beside it, so the portrait needs no description of its own */}
+      {member.photo && <ResponsiveImage src={member.photo} alt="" sizes="3rem" className="entourage-photo" />}
+      <span className="entourage-name">
+        {member.name}
+        {member.relation && <small className="entourage-relation"> ({text(member.relation)})</small>}
+      </span>
+    </span>
+  );
+};
+
+const Task: React.FC<{ task: EntourageMember['task'] }> = ({ task }) => {
+  const { text } = useI18n();
+  return task ? <span className="entourage-task">{text(task)}: </span> : null;
+};
+
+/**
+ * One role of the entourage under its heading: people one per line, then couples side by side
+ * with what they do in front. The list is labelled by the heading for screen readers.
+ */
+const EntourageRoleList: React.FC<{ role: EntourageRole }> = ({ role }) => {
+  const { text } = useI18n();
+  const headingId = useId();
+
+  return (
+    <div className="entourage-role">
+      <h3 id={headingId}>{text(role.title)}</h3>
+      <ul className="entourage-list" aria-labelledby={headingId}>
+        {role.members?.map((member, index) => (
+          <li key={`member-${index}`} className="entourage-entry">
+            <Task task={member.task} />
+            <Member member={member} />
+          </li>
+        ))}
+        {role.couples?.map((couple, index) => (
+          <li key={`couple-${index}`} className="entourage-entry entourage-couple">
+            <Task task={couple.task} />
+            <Member member={couple.partners[0]} />
+            <span className="entourage-and"> &amp; </span>
+            <Member member={couple.partners[1]} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default EntourageRoleList;
@@ -0,0 +1,10 @@
+import type { Entourage, EntourageRole } from '../config/schema.ts';
+
+const hasPeople = (role: EntourageRole) => (role.members?.length ?? 0) > 0 || (role.couples?.length ?? 0) > 0;
+
+/**
+ * The entourage's sections with only the roles someone fills, dropping sections left empty.
+ * A role nobody fills, like a little bride the couple doesn't have, is not shown anywhere.
+ */
+export const filledSections = (entourage: Entourage): EntourageRole[][] =>
+  entourage.sections.map((section) => section.roles.filter(hasPeople)).filter((roles) => roles.length > 0);
@@ -0,0 +1,27 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import Footer from './Footer.tsx';
+
+describe('Footer', () => {
+  it('shows the current year and the credit', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2027-03-01T00:00:00Z'));
+    renderWithProviders(<Footer />);
+
+    expect(screen.getByRole('contentinfo')).toHaveTextContent('© 2027');
+    expect(screen.getByRole('contentinfo')).toHaveTextContent(wedding.footer.credit);
+  });
+
+  it('links to every social account, opening web pages in a new tab', () => {
+    renderWithProviders(<Footer />);
+
+    for (const social of wedding.footer.social) {
+      const link = screen.getAllByRole('link').find((element) => element.getAttribute('href') === social.url);
+      expect(link).toHaveAccessibleName();
+      if (social.type === 'email') expect(link).not.toHaveAttribute('target');
+      else expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import type { SocialLink } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+
+// Icons for the footer's social links, keyed by `footer.social[].type` in the config
+const SOCIAL_ICONS: Record<SocialLink['type'], { label: string; path: string }> = {
+  facebook: {
+    label: 'Facebook',
+    path: 'M12 2.04C6.5 2.04 2 6.54 2 12.04c0 4.98 3.65 9.13 8.43 9.87v-7.75H7.72V12.04h2.71V9.77c0-2.68 1.63-4.16 4.04-4.16 1.16 0 2.16.21 2.16.21v2.37h-1.2c-1.18 0-1.54.73-1.54 1.48v1.78h2.64l-.42 2.7H14.1V21.9c4.78-.74 8.43-4.89 8.43-9.87C22 6.54 17.5 2.04 12 2.04z',
+  },
+  messenger: {
+    label: 'Messenger',
+    path: 'M12 2C6.48 2 2 6.03 2 11.01c0 3.32 1.9 6.2 4.7 7.73l-.7 2.04 2.1-.64c.8.24 1.64.37 2.5.37 5.52 0 10-4.03 10-9.01S17.52 2 12 2zm0 16c-1.8 0-3.5-.47-5-1.3l-.6.18.3 1.05.7-.21c1.2-.36 2.4-.54 3.6-.54 4.41 0 8-3.13 8-7s-3.59-7-8-7-8 3.13-8 7c0 3.87 3.59 7 8 7zM10.5 8.5h3v2h-3v-2zm-3 0h2v2h-2v-2zm6 0h2v2h-2v-2z',
+  },
+  email: {
+    label: 'Email',
+    path: 'M20 4H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 4l-8 5-8-5V6l8 5 8-5v2z',
+  },
+};
+
+const Footer: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <footer className="footer-container">
+      
+      <p className="footer-text">
+        {t('footer.rights', {
+          year: new Date().getFullYear(),
+          title: wedding.site.title,
+          groom: wedding.couple.groom.firstName,
+          bride: wedding.couple.bride.firstName,
+        })}
+        <br />
+        {wedding.footer.credit}
+      </p>
+      <div className="social-icons">
+        {wedding.footer.social.map((link) => (
+          <a
+            key={link.url}
+            href={link.url}
+            {...(link.type === 'email' ? {} : { target: '_blank', rel: 'noopener noreferrer' })}
+            className="social-icon-link"
+            aria-label={SOCIAL_ICONS[link.type].label}
+          >
+            <svg className="social-icon-svg" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">
+              <path d={SOCIAL_ICONS[link.type].path}/>
+            </svg>
+          </a>
+        ))}
+      </div>
+    </footer>
+  );
+};
+
+export default Footer;
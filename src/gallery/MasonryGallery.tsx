@@ -0,0 +1,54 @@
+import React from 'react';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import Lightbox from '../lightbox/Lightbox.tsx';
+import type { LightboxItem } from '../lightbox/Lightbox.tsx';
+import { usePhotoFragment } from '../lightbox/usePhotoFragment.ts';
+
+export interface MasonryItem extends LightboxItem {
+  /** Size in pixels, so the grid can keep the photo's space before it loads. */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A masonry grid of photos; choosing one opens it in the lightbox. The open photo is kept in
+ * the URL fragment (`#photo-3`), so give each grid on a page its own `prefix`.
+ */
+const MasonryGallery: React.FC<{ items: MasonryItem[]; prefix?: string; label?: string }> = ({ items, prefix, label }) => {
+  const { t } = useI18n();
+  const photo = usePhotoFragment(items.length, prefix);
+
+  return (
+    <>
+      <div className="masonry-grid">
+        {items.map((item, idx) => (
+          <button
+            type="button"
+            key={item.src}
+            id={photo.idFor(idx)}
+            className="masonry-item"
+            onClick={() => photo.open(idx)}
+            aria-haspopup="dialog"
+            aria-label={t('gallery.open', { photo: item.alt })}
+          >
+            {/* Sized variants keep the grid to thumbnails; the lightbox loads the large ones */}
+            <ResponsiveImage
+              src={item.src}
+              alt={item.alt}
+              {...(item.width && item.height ? { width: item.width, height: item.height } : {})}
+              sizes="(min-width: 1200px) 25vw, (min-width: 768px) 33vw, 50vw"
+              className="masonry-img"
+            />
+          </button>
+        ))}
+      </div>
+
+      {photo.index !== null && (
+        <Lightbox items={items} index={photo.index} onNavigate={photo.show} onClose={photo.close} label={label} />
+      )}
+    </>
+  );
+};
+
+export default MasonryGallery;
@@ -0,0 +1,47 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import PrenupGallery from './PrenupGallery.tsx';
+import { albumPhotos } from './index.ts';
+
+const t = translator('en');
+const photos = albumPhotos(wedding.gallery.album);
+
+describe('PrenupGallery', () => {
+  it('shows every photo in the album as a button that opens the viewer', () => {
+    renderWithProviders(<PrenupGallery />, { phase: 'rsvp-open' });
+
+    expect(screen.getByRole('heading', { name: localize(wedding.gallery.title, 'en') })).toBeInTheDocument();
+    const buttons = screen.getAllByRole('button');
+    expect(buttons).toHaveLength(photos.length);
+    expect(buttons[0]).toHaveAttribute('aria-haspopup', 'dialog');
+    expect(buttons[0]).toHaveAttribute('id', 'photo-1');
+  });
+
+  it('opens a photo, moves between photos and closes with Escape', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<PrenupGallery />, { phase: 'rsvp-open' });
+    const thumbnail = screen.getAllByRole('button')[0];
+
+    await user.click(thumbnail);
+    const dialog = screen.getByRole('dialog', { name: t('lightbox.label') });
+    expect(within(dialog).getByText(t('lightbox.counter', { current: 1, total: photos.length }))).toBeInTheDocument();
+    expect(within(dialog).getByRole('button', { name: t('common.close') })).toHaveFocus();
+
+    await user.keyboard('{ArrowRight}');
+    expect(within(dialog).getByText(t('lightbox.counter', { current: 2, total: photos.length }))).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('opens the photo named in the URL', () => {
+    renderWithProviders(<PrenupGallery />, { phase: 'rsvp-open', route: '/gallery#photo-2' });
+    expect(
+      within(screen.getByRole('dialog')).getByText(t('lightbox.counter', { current: 2, total: photos.length })),
+    ).toBeInTheDocument();
+  });
+});
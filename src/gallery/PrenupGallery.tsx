@@ -0,0 +1,36 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { usePhase } from '../phases/context.ts';
+import MasonryGallery from './MasonryGallery.tsx';
+import { albumPhotos } from './index.ts';
+
+/**
+ * The Prenup Gallery page component.
+ * It displays a grid of photos and a modal for enlarging images.
+ */
+const PrenupGallery: React.FC = () => {
+  const { t, text } = useI18n();
+  const { phase } = usePhase();
+  // Once the official photos are in, they replace the prenup shoot
+  const official = phase === 'after' && wedding.gallery.officialAlbum ? wedding.gallery.officialAlbum : null;
+  const photos = albumPhotos(official ?? wedding.gallery.album);
+  const images = photos.map((photo, idx) => ({
+    src: photo.src,
+    alt: photo.alt
+      ? text(photo.alt)
+      : t('gallery.photoAlt', { couple: wedding.couple.displayName, number: idx + 1, total: photos.length }),
+    caption: photo.caption && text(photo.caption),
+  }));
+
+  return (
+    <section className="new-gallery" id="prenup-gallery">
+      <h2 className="gallery-title">{official ? t('gallery.officialTitle') : text(wedding.gallery.title)}</h2>
+      <p className="gallery-subtitle">{official ? t('gallery.officialSubtitle') : text(wedding.gallery.subtitle)}</p>
+
+      <MasonryGallery items={images} />
+    </section>
+  );
+};
+
+export default PrenupGallery;
@@ -0,0 +1,7 @@
+import manifest from 'virtual:gallery-manifest';
+import type { GalleryPhoto } from './types.ts';
+
+export type { GalleryManifest, GalleryPhoto, GallerySidecar } from './types.ts';
+
+/** Photos of one album, in display order; empty if the album doesn't exist. */
+export const albumPhotos = (album: string): GalleryPhoto[] => manifest[album] ?? [];
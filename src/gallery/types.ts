@@ -0,0 +1,23 @@
+import type { LocalizedText } from '../i18n/locales.ts';
+
+/** One photo in a gallery album, as measured at build time. */
+export interface GalleryPhoto {
+  /** File name inside the album folder. */
+  file: string;
+  /** Public URL of the original. */
+  src: string;
+  /** Displayed size in pixels, after EXIF rotation. */
+  width: number;
+  height: number;
+  alt?: LocalizedText;
+  caption?: LocalizedText;
+}
+
+/** Photos of every album (a folder in `public/` with a `gallery.json`), in display order. */
+export type GalleryManifest = Record<string, GalleryPhoto[]>;
+
+/** The sidecar `gallery.json` next to an album's photos. */
+export interface GallerySidecar {
+  /** Display order and text; photos not listed are appended in file-name order. */
+  photos: Array<{ file: string; alt?: LocalizedText; caption?: LocalizedText }>;
+}
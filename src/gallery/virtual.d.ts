@@ -0,0 +1,5 @@
+declare module 'virtual:gallery-manifest' {
+  /** Generated by `galleryManifestPlugin` from the album folders in `public/`. */
+  const manifest: import('./types.ts').GalleryManifest;
+  export default manifest;
+}
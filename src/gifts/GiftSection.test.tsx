@@ -0,0 +1,36 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import GiftSection from './GiftSection.tsx';
+
+const t = translator('en');
+const qrNames = wedding.gifts.qrCodes.map((qr) => localize(qr.alt, 'en'));
+
+describe('GiftSection', () => {
+  it('lists the reasons and the QR codes', () => {
+    renderWithProviders(<GiftSection />);
+
+    expect(screen.getByRole('heading', { name: t('gifts.title') })).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem')).toHaveLength(wedding.gifts.reasons.length);
+    for (const name of qrNames) {
+      expect(screen.getByRole('button', { name: t('gifts.enlarge', { name }) })).toBeInTheDocument();
+    }
+  });
+
+  it('enlarges a QR code and hands focus back when closed', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<GiftSection />);
+    const button = screen.getByRole('button', { name: t('gifts.enlarge', { name: qrNames[0] }) });
+
+    await user.click(button);
+    const dialog = screen.getByRole('dialog', { name: t('gifts.qrViewer') });
+    expect(within(dialog).getByRole('img', { name: qrNames[0] })).toBeInTheDocument();
+
+    await user.click(within(dialog).getByRole('button', { name: t('common.close') }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(button).toHaveFocus();
+  });
+});
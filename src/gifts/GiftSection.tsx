@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import Lightbox from '../lightbox/Lightbox.tsx';
+
+const GiftSection: React.FC = () => {
+  const { t, text } = useI18n();
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const qrCodes = wedding.gifts.qrCodes.map((qr) => ({ src: qr.src, alt: text(qr.alt), caption: text(qr.alt) }));
+
+  return (
+    <section className="gift-section" id="gifts">
+      <div className="gift-container">
+        <h2 className="gift-title">{t('gifts.title')}</h2>
+        <p className="gift-message">{text(wedding.gifts.message)}</p>
+        <div className="gift-reasons">
+          <p>{text(wedding.gifts.reasonsIntro)}</p>
+          <ul>
+            {wedding.gifts.reasons.map((reason, index) => (
+              <li key={index}><span className="emoji"></span> {text(reason)}</li>
+            ))}
+          </ul>
+        </div>
+        <div className="qr-codes">
+          <p className="qr-text">{text(wedding.gifts.qrText)}</p>
+          <div className="qr-code-grid">
+            {qrCodes.map((qr, index) => (
+              <div className="qr-code-item" key={qr.src}>
+                <button
+                  type="button"
+                  className="qr-code-button"
+                  onClick={() => setSelectedIndex(index)}
+                  aria-haspopup="dialog"
+                  aria-label={t('gifts.enlarge', { name: qr.alt })}
+                >
+                  <ResponsiveImage src={qr.src} alt={qr.alt} sizes="200px" className="qr-code-img" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {selectedIndex !== null && (
+        <Lightbox
+          items={qrCodes}
+          index={selectedIndex}
+          onNavigate={setSelectedIndex}
+          onClose={() => setSelectedIndex(null)}
+          label={t('gifts.qrViewer')}
+        />
+      )}
+    </section>
+  );
+};
+
+export default GiftSection;
@@ -0,0 +1,44 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import GuestbookSection from './GuestbookSection.tsx';
+import type { Wish } from './types.ts';
+
+const { listApproved } = vi.hoisted(() => ({ listApproved: vi.fn() }));
+
+vi.mock('./client.ts', () => ({ guestbookClient: { submit: vi.fn(), listApproved } }));
+
+const t = translator('en');
+
+const wishes: Wish[] = [
+  {
+    id: 'w2',
+    name: 'Tito Boy',
+    message: 'Mabuhay ang bagong kasal!',
+    stickers: ['cheers'],
+    photo: { src: '/api/wishes/w2/photo', width: 1280, height: 960 },
+    createdAt: '2026-01-31T11:00:00Z',
+  },
+  { id: 'w1', name: 'Tita Baby', message: 'Best wishes!', stickers: [], createdAt: '2026-01-31T10:00:00Z' },
+];
+
+describe('GuestbookSection', () => {
+  it('shows the approved wishes under the form', async () => {
+    listApproved.mockResolvedValue(wishes);
+    renderWithProviders(<GuestbookSection />);
+
+    expect(await screen.findByText('Mabuhay ang bagong kasal!')).toBeInTheDocument();
+    expect(screen.getByText(t('guestbook.from', { name: 'Tita Baby' }))).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: t('guestbook.sticker.cheers') })).toBeInTheDocument();
+    expect(screen.getByAltText(t('guestbook.photoAlt', { name: 'Tito Boy' }))).toHaveAttribute('src', '/api/wishes/w2/photo');
+    expect(screen.getByRole('button', { name: t('guestbook.submit') })).toBeInTheDocument();
+  });
+
+  it('invites the first wish while the guestbook is empty', async () => {
+    listApproved.mockResolvedValue([]);
+    renderWithProviders(<GuestbookSection />);
+
+    expect(await screen.findByText(t('guestbook.empty'))).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../i18n/context.ts';
+import WishCard from './WishCard.tsx';
+import WishForm from './WishForm.tsx';
+import { guestbookClient } from './client.ts';
+import type { Wish } from './types.ts';
+
+/**
+ * The guestbook on the home page: a form for a new wish and every wish the couple has
+ * approved, newest first. Hidden when the site has no backend to keep wishes.
+ */
+const GuestbookSection: React.FC = () => {
+  const { t } = useI18n();
+  const [wishes, setWishes] = useState<Wish[] | null>(null);
+
+  useEffect(() => {
+    if (!guestbookClient) return;
+    let cancelled = false;
+    guestbookClient
+      .listApproved()
+      .then((approved) => {
+        if (!cancelled) setWishes(approved);
+      })
+      .catch((error) => {
+        console.error('Could not load the guestbook:', error);
+        if (!cancelled) setWishes([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!guestbookClient) return null;
+
+  return (
+    <section className="page-section guestbook" id="guestbook">
+      <h2 className="page-title">{t('guestbook.title')}</h2>
+      <p className="page-description">{t('guestbook.intro')}</p>
+      <WishForm client={guestbookClient} />
+
+      {wishes && wishes.length === 0 && <p className="guestbook-empty">{t('guestbook.empty')}</p>}
+      {wishes && wishes.length > 0 && (
+        <ul className="guestbook-wishes">
+          {wishes.map((wish) => (
+            <li key={wish.id}>
+              <WishCard wish={wish} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default GuestbookSection;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useI18n } from '../i18n/context.ts';
+import { STICKERS } from './stickers.ts';
+import type { Wish } from './types.ts';
+
+/** One wish: its stickers, the message, the guest's name and their photo if they added one. */
+const WishCard: React.FC<{ wish: Wish; className?: string }> = ({ wish, className = '' }) => {
+  const { t } = useI18n();
+  const stickers = STICKERS.filter((sticker) => wish.stickers.includes(sticker.id));
+
+  return (
+    <figure className={`wish-card ${className}`}>
+      {wish.photo && (
+        <img
+          src={wish.photo.src}
+          alt={t('guestbook.photoAlt', { name: wish.name })}
+          width={wish.photo.width}
+          height={wish.photo.height}
+          loading="lazy"
+          className="wish-photo"
+        />
+      )}
+      {stickers.length > 0 && (
+        <p className="wish-stickers">
+          {stickers.map((sticker) => (
+            <span key={sticker.id} role="img" aria-label={t(`guestbook.sticker.${sticker.id}`)}>
+              {sticker.emoji}
+            </span>
+          ))}
+        </p>
+      )}
+      <blockquote className="wish-message">{wish.message}</blockquote>
+      <figcaption className="wish-name">{t('guestbook.from', { name: wish.name })}</figcaption>
+    </figure>
+  );
+};
+
+export default WishCard;
@@ -0,0 +1,105 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { preparePhoto } from '../photos/resize.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import WishForm from './WishForm.tsx';
+import type { GuestbookClient } from './types.ts';
+
+vi.mock('../photos/resize.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../photos/resize.ts')>()),
+  preparePhoto: vi.fn(),
+}));
+
+const t = translator('en');
+
+const mockClient = () => ({ submit: vi.fn(), listApproved: vi.fn() }) satisfies GuestbookClient;
+
+const fillIn = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.type(screen.getByLabelText(t('guestbook.name')), 'Tita Baby');
+  await user.type(screen.getByLabelText(t('guestbook.message')), 'Best wishes!');
+};
+
+describe('WishForm', () => {
+  it('sends the wish with the chosen stickers and thanks the guest', async () => {
+    const user = userEvent.setup();
+    const client = mockClient();
+    client.submit.mockResolvedValue({ ok: true, id: 'w1', status: 'pending' });
+    renderWithProviders(<WishForm client={client} />);
+
+    await fillIn(user);
+    await user.click(screen.getByRole('button', { name: t('guestbook.sticker.hearts') }));
+    await user.click(screen.getByRole('button', { name: t('guestbook.sticker.cheers') }));
+    await user.click(screen.getByRole('button', { name: t('guestbook.submit') }));
+
+    expect(client.submit).toHaveBeenCalledWith({
+      name: 'Tita Baby',
+      message: 'Best wishes!',
+      stickers: ['hearts', 'cheers'],
+      website: '',
+    });
+    expect(await screen.findByRole('status')).toHaveTextContent(t('guestbook.thanks'));
+    expect(screen.getByLabelText(t('guestbook.message'))).toHaveValue('');
+  });
+
+  it('allows three stickers at most', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<WishForm client={mockClient()} />);
+
+    for (const sticker of ['hearts', 'cheers', 'rings'] as const) {
+      await user.click(screen.getByRole('button', { name: t(`guestbook.sticker.${sticker}`) }));
+    }
+
+    expect(screen.getByRole('button', { name: t('guestbook.sticker.doves') })).toBeDisabled();
+    expect(screen.getByRole('button', { name: t('guestbook.sticker.hearts') })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('attaches a photo resized in the browser', async () => {
+    const user = userEvent.setup();
+    const client = mockClient();
+    const blob = new Blob(['jpeg'], { type: 'image/jpeg' });
+    vi.mocked(preparePhoto).mockResolvedValue({ blob, width: 1280, height: 960 });
+    client.submit.mockResolvedValue({ ok: true, id: 'w1', status: 'pending' });
+    renderWithProviders(<WishForm client={client} />);
+
+    await fillIn(user);
+    await user.upload(screen.getByLabelText(t('guestbook.photo')), new File(['pixels'], 'us.jpg', { type: 'image/jpeg' }));
+    expect(await screen.findByRole('button', { name: t('guestbook.removePhoto') })).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: t('guestbook.submit') }));
+
+    expect(preparePhoto).toHaveBeenCalledWith(expect.any(File), 1280);
+    expect(client.submit).toHaveBeenCalledWith(expect.objectContaining({ photo: { blob, width: 1280, height: 960 } }));
+  });
+
+  it('points out missing fields without sending anything', async () => {
+    const user = userEvent.setup();
+    const client = mockClient();
+    renderWithProviders(<WishForm client={client} />);
+
+    await user.type(screen.getByLabelText(t('guestbook.name')), 'T');
+    await user.type(screen.getByLabelText(t('guestbook.message')), ' ');
+    await user.click(screen.getByRole('button', { name: t('guestbook.submit') }));
+
+    expect(client.submit).not.toHaveBeenCalled();
+    expect(screen.getByText(t('guestbook.errors.name'))).toBeInTheDocument();
+    expect(screen.getByLabelText(t('guestbook.message'))).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByRole('alert')).toHaveTextContent(t('guestbook.invalid'));
+  });
+
+  it('asks the guest to wait when the server says they sent too many wishes', async () => {
+    const user = userEvent.setup();
+    const client = mockClient();
+    client.submit.mockRejectedValue(new RsvpRequestError('Too many', 429));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<WishForm client={client} />);
+
+    await fillIn(user);
+    await user.click(screen.getByRole('button', { name: t('guestbook.submit') }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(t('guestbook.tooMany'));
+    // Nothing is lost, so the guest can simply send it again later
+    expect(screen.getByLabelText(t('guestbook.message'))).toHaveValue('Best wishes!');
+  });
+});
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../i18n/context.ts';
+import { preparePhoto, UnreadablePhotoError } from '../photos/resize.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { MAX_STICKERS, STICKERS } from './stickers.ts';
+import type { GuestbookClient, WishFieldErrors, WishSubmission } from './types.ts';
+import { MAX_WISH_LENGTH, MAX_WISH_NAME_LENGTH, validateWish } from './validation.ts';
+
+// Plenty for a card on the wall, and small enough to send in the same request as the wish
+const WISH_PHOTO_EDGE = 1280;
+
+type WishPhotoDraft = NonNullable<WishSubmission['photo']> & { preview: string };
+
+/**
+ * The guestbook form: a name, a wish, up to three stickers and an optional photo.
+ * A hidden field catches bots; the server drops anything that fills it in.
+ */
+const WishForm: React.FC<{ client: GuestbookClient }> = ({ client }) => {
+  const { locale, t } = useI18n();
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const [stickers, setStickers] = useState<string[]>([]);
+  const [photo, setPhoto] = useState<WishPhotoDraft | null>(null);
+  const [website, setWebsite] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<WishFieldErrors>({});
+  const [status, setStatus] = useState<'idle' | 'preparing' | 'submitting' | 'sent' | 'invalid' | 'tooMany' | 'error'>('idle');
+
+  // The preview is an object URL; let it go when the photo changes or the form goes away
+  useEffect(() => () => {
+    if (photo) URL.revokeObjectURL(photo.preview);
+  }, [photo]);
+
+  const toggleSticker = (id: string) => {
+    setStickers((current) => (current.includes(id) ? current.filter((sticker) => sticker !== id) : [...current, id]));
+  };
+
+  const choosePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setStatus('preparing');
+    setFieldErrors((current) => ({ ...current, photo: undefined }));
+    try {
+      const prepared = await preparePhoto(file, WISH_PHOTO_EDGE);
+      setPhoto({ ...prepared, preview: URL.createObjectURL(prepared.blob) });
+    } catch (error) {
+      console.error(`Could not prepare ${file.name}:`, error);
+      setFieldErrors((current) => ({
+        ...current,
+        photo: error instanceof UnreadablePhotoError ? t('guestbook.photoUnreadable') : t('guestbook.error'),
+      }));
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const wish: WishSubmission = {
+      name,
+      message,
+      stickers,
+      ...(photo ? { photo: { blob: photo.blob, width: photo.width, height: photo.height } } : {}),
+      website,
+    };
+
+    const localErrors = validateWish(wish, locale);
+    setFieldErrors(localErrors);
+    if (Object.keys(localErrors).length > 0) {
+      setStatus('invalid');
+      return;
+    }
+
+    setStatus('submitting');
+    try {
+      const result = await client.submit(wish);
+      if (!result.ok) {
+        setFieldErrors(result.fieldErrors);
+        setStatus('invalid');
+        return;
+      }
+      setStatus('sent');
+      setMessage('');
+      setStickers([]);
+      setPhoto(null);
+    } catch (error) {
+      console.error('Wish could not be sent:', error);
+      setStatus(error instanceof RsvpRequestError && error.status === 429 ? 'tooMany' : 'error');
+    }
+  };
+
+  const describedBy = (field: keyof WishFieldErrors) => (fieldErrors[field] ? `wish-${field}-error` : undefined);
+
+  return (
+    <form onSubmit={handleSubmit} className="rsvp-form guestbook-form">
+      <div className="form-field">
+        <label htmlFor="wish-name" className="form-label">{t('guestbook.name')}</label>
+        <input
+          type="text"
+          id="wish-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_WISH_NAME_LENGTH}
+          autoComplete="name"
+          required
+          aria-invalid={fieldErrors.name ? 'true' : undefined}
+          aria-describedby={describedBy('name')}
+          className="form-input"
+        />
+        {fieldErrors.name && <p id="wish-name-error" className="field-error">{fieldErrors.name}</p>}
+      </div>
+
+      <div className="form-field">
+        <label htmlFor="wish-message" className="form-label">{t('guestbook.message')}</label>
+        <textarea
+          id="wish-message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          maxLength={MAX_WISH_LENGTH}
+          rows={4}
+          required
+          aria-invalid={fieldErrors.message ? 'true' : undefined}
+          aria-describedby={describedBy('message')}
+          className="form-textarea"
+        />
+        {fieldErrors.message && <p id="wish-message-error" className="field-error">{fieldErrors.message}</p>}
+      </div>
+
+      <fieldset className="form-field guestbook-stickers" aria-describedby={describedBy('stickers')}>
+        <legend className="form-label">{t('guestbook.stickers', { max: MAX_STICKERS })}</legend>
+        {STICKERS.map((sticker) => {
+          const selected = stickers.includes(sticker.id);
+          return (
+            <button
+              key={sticker.id}
+              type="button"
+              className={`guestbook-sticker ${selected ? 'active' : ''}`}
+              aria-pressed={selected}
+              aria-label={t(`guestbook.sticker.${sticker.id}`)}
+              disabled={!selected && stickers.length >= MAX_STICKERS}
+              onClick={() => toggleSticker(sticker.id)}
+            >
+              <span aria-hidden="true">{sticker.emoji}</span>
+            </button>
+          );
+        })}
+        {fieldErrors.stickers && <p id="wish-stickers-error" className="field-error">{fieldErrors.stickers}</p>}
+      </fieldset>
+
+      <div className="form-field">
+        {photo ? (
+          <div className="guestbook-photo-preview">
+            <img src={photo.preview} alt="" width={photo.width} height={photo.height} />
+            <button type="button" className="rsvp-link-button" onClick={() => setPhoto(null)}>
+              {t('guestbook.removePhoto')}
+            </button>
+          </div>
+        ) : (
+          <label className="map-button guestbook-photo-picker">
+            {t('guestbook.photo')}
+            <input
+              type="file"
+              accept="image/*"
+              className="sr-only"
+              aria-invalid={fieldErrors.photo ? 'true' : undefined}
+              aria-describedby={describedBy('photo')}
+              onChange={(e) => {
+                choosePhoto(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+        {fieldErrors.photo && <p id="wish-photo-error" className="field-error">{fieldErrors.photo}</p>}
+      </div>
+
+      {/* Hidden from people; bots that fill in every field give themselves away */}
+      <div className="guestbook-trap" aria-hidden="true">
+        <label htmlFor="wish-website">{t('guestbook.trap')}</label>
+        <input
+          type="text"
+          id="wish-website"
+          name="website"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+          tabIndex={-1}
+          autoComplete="off"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={status === 'submitting' || status === 'preparing'}
+        className={`submit-button ${status === 'submitting' ? 'submitting' : ''}`}
+      >
+        {status === 'submitting' ? t('guestbook.submitting') : t('guestbook.submit')}
+      </button>
+
+      {/* Always rendered, so screen readers announce the outcome when it appears */}
+      <div className="rsvp-status" role="status">
+        {status === 'sent' && <p className="success-message">{t('guestbook.thanks')}</p>}
+      </div>
+      <div className="rsvp-status" role="alert">
+        {status === 'invalid' && <p className="error-message">{t('guestbook.invalid')}</p>}
+        {status === 'tooMany' && <p className="error-message">{t('guestbook.tooMany')}</p>}
+        {status === 'error' && <p className="error-message">{t('guestbook.error')}</p>}
+      </div>
+    </form>
+  );
+};
+
+export default WishForm;
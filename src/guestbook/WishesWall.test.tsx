@@ -0,0 +1,47 @@
+import { act, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import WishesWall from './WishesWall.tsx';
+import type { Wish } from './types.ts';
+
+const { listApproved } = vi.hoisted(() => ({ listApproved: vi.fn() }));
+
+vi.mock('./client.ts', () => ({ guestbookClient: { submit: vi.fn(), listApproved } }));
+
+const t = translator('en');
+
+const wish = (id: string, message: string): Wish => ({ id, name: 'Guest', message, stickers: [], createdAt: '2026-01-31T10:00:00Z' });
+
+describe('WishesWall', () => {
+  it('shows one wish at a time and moves on to the next', async () => {
+    vi.useFakeTimers();
+    listApproved.mockResolvedValue([wish('w2', 'Second wish'), wish('w1', 'First wish')]);
+    renderWithProviders(<WishesWall />);
+    await act(async () => {});
+
+    expect(screen.getByText('Second wish')).toBeInTheDocument();
+    expect(screen.queryByText('First wish')).not.toBeInTheDocument();
+
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(screen.getByText('First wish')).toBeInTheDocument();
+
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(screen.getByText('Second wish')).toBeInTheDocument();
+  });
+
+  it('picks up wishes approved while it runs', async () => {
+    vi.useFakeTimers();
+    listApproved.mockResolvedValue([]);
+    renderWithProviders(<WishesWall />);
+    await act(async () => {});
+    expect(screen.getByText(t('guestbook.wall.empty'))).toBeInTheDocument();
+
+    listApproved.mockResolvedValue([wish('w1', 'Congratulations!')]);
+    await act(async () => {
+      vi.advanceTimersByTime(30_000);
+    });
+
+    expect(screen.getByText('Congratulations!')).toBeInTheDocument();
+  });
+});
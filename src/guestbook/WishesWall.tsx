@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import WishCard from './WishCard.tsx';
+import { guestbookClient } from './client.ts';
+import type { Wish } from './types.ts';
+
+const SLIDE_MS = 10_000;
+const REFRESH_MS = 30_000;
+
+/**
+ * The wishes wall at `/wall`, made for a projector at the reception: one approved wish at a
+ * time, in large type, cycling through them and picking up new ones as the couple approves them.
+ */
+const WishesWall: React.FC = () => {
+  const { t } = useI18n();
+  const [wishes, setWishes] = useState<Wish[]>([]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    if (!guestbookClient) return;
+    const client = guestbookClient;
+    let cancelled = false;
+    const refresh = () =>
+      client
+        .listApproved()
+        .then((approved) => {
+          if (!cancelled) setWishes(approved);
+        })
+        .catch((error) => console.error('Could not refresh the wishes wall:', error));
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (wishes.length < 2) return;
+    const timer = setInterval(() => setIndex((current) => current + 1), SLIDE_MS);
+    return () => clearInterval(timer);
+  }, [wishes.length]);
+
+  // The list grows while the wall runs, so wrap around whatever it holds now
+  const wish = wishes.length > 0 ? wishes[index % wishes.length] : null;
+
+  return (
+    <main className="wishes-wall">
+      <h1 className="wishes-wall-title">{t('guestbook.wall.title', { couple: wedding.couple.displayName })}</h1>
+      <div className="wishes-wall-stage">
+        {wish ? (
+          // A new key restarts the entrance animation for every wish
+          <WishCard key={wish.id} wish={wish} className="wishes-wall-card" />
+        ) : (
+          <p className="wishes-wall-empty">{t('guestbook.wall.empty')}</p>
+        )}
+      </div>
+      <p className="wishes-wall-leave">{t('guestbook.wall.leave', { url: `${window.location.host}/#guestbook` })}</p>
+    </main>
+  );
+};
+
+export default WishesWall;
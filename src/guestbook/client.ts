@@ -0,0 +1,4 @@
+import { createGuestbookClient } from './index.ts';
+
+// One guestbook for the whole site, or none when the site has no JSON API
+export const guestbookClient = createGuestbookClient();
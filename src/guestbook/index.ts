@@ -0,0 +1,26 @@
+import { usesRestBackend } from '../rsvp/backend.ts';
+import { RestGuestbookClient } from './restClient.ts';
+import type { GuestbookClient } from './types.ts';
+
+export type {
+  GuestbookClient,
+  ModeratedWish,
+  Wish,
+  WishFieldErrors,
+  WishPhoto,
+  WishRequest,
+  WishResult,
+  WishStatus,
+  WishSubmission,
+} from './types.ts';
+export { RestGuestbookClient } from './restClient.ts';
+export { isStickerId, MAX_STICKERS, STICKERS } from './stickers.ts';
+export type { StickerId } from './stickers.ts';
+export { MAX_WISH_LENGTH, MAX_WISH_NAME_LENGTH, validateWish } from './validation.ts';
+
+/**
+ * Wishes are stored and moderated by the JSON API (see `usesRestBackend`). Without it
+ * this is `null`: the guestbook stays hidden and RSVP messages go to the couple only.
+ */
+export const createGuestbookClient = (env: ImportMetaEnv = import.meta.env): GuestbookClient | null =>
+  usesRestBackend(env) ? new RestGuestbookClient(env.VITE_RSVP_API_URL || '/api') : null;
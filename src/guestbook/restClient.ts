@@ -0,0 +1,64 @@
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import type { GuestbookClient, Wish, WishFieldErrors, WishPhoto, WishRequest, WishResult, WishSubmission } from './types.ts';
+
+// Photo URLs are built here, relative to wherever the API is reached
+type WishJson = Omit<Wish, 'photo'> & { photo?: Omit<WishPhoto, 'src'> };
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In slices: spreading a whole photo into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Sends wishes to the JSON API (the reference server's `/wishes` routes) and reads the
+ * approved ones back. Expects `422 { errors }` on validation failure and `429` when one
+ * address sends too many wishes.
+ */
+export class RestGuestbookClient implements GuestbookClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async submit({ photo, ...wish }: WishSubmission): Promise<WishResult> {
+    const payload: WishRequest = photo
+      ? { ...wish, photo: { data: await toBase64(photo.blob), width: photo.width, height: photo.height } }
+      : wish;
+    const response = await fetch(`${this.baseUrl}/wishes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (response.status === 422) {
+      return { ok: false, fieldErrors: (body.errors ?? {}) as WishFieldErrors, message: body.message };
+    }
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `Wish request failed with status ${response.status}`, response.status);
+    }
+    return { ok: true, id: body.id, status: body.status };
+  }
+
+  async listApproved(): Promise<Wish[]> {
+    const response = await fetch(`${this.baseUrl}/wishes`);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `Wish request failed with status ${response.status}`, response.status);
+    }
+    return (body.wishes as WishJson[]).map(({ photo, ...wish }) => ({
+      ...wish,
+      ...(photo ? { photo: { ...photo, src: this.photoUrl(wish.id) } } : {}),
+    }));
+  }
+
+  photoUrl(id: string): string {
+    return `${this.baseUrl}/wishes/${encodeURIComponent(id)}/photo`;
+  }
+}
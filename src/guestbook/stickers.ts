@@ -0,0 +1,20 @@
+/**
+ * Stickers guests can add to a wish. Wishes store the ids, so the artwork can change
+ * without touching saved wishes; the names are read out by screen readers.
+ */
+export const STICKERS = [
+  { id: 'bouquet', emoji: '💐' },
+  { id: 'rings', emoji: '💍' },
+  { id: 'cheers', emoji: '🥂' },
+  { id: 'hearts', emoji: '💕' },
+  { id: 'party', emoji: '🎉' },
+  { id: 'doves', emoji: '🕊️' },
+  { id: 'sparkles', emoji: '✨' },
+  { id: 'blessing', emoji: '🙏' },
+] as const;
+
+export type StickerId = (typeof STICKERS)[number]['id'];
+
+export const MAX_STICKERS = 3;
+
+export const isStickerId = (value: unknown): value is StickerId => STICKERS.some((sticker) => sticker.id === value);
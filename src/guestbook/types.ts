@@ -0,0 +1,64 @@
+/**
+ * Guests' wishes for the couple, shared by the guestbook, the wishes wall, the couple's
+ * dashboard and the reference server.
+ */
+
+/** New wishes wait for the couple; hidden ones stay out of the guestbook but can be shown again. */
+export type WishStatus = 'pending' | 'approved' | 'hidden';
+
+/** A photo attached to a wish, already upright. */
+export interface WishPhoto {
+  /** URL of the image file. */
+  src: string;
+  width: number;
+  height: number;
+}
+
+/** A wish in the guestbook. */
+export interface Wish {
+  id: string;
+  name: string;
+  message: string;
+  /** Sticker ids from `STICKERS`, in the order the guest picked them. */
+  stickers: string[];
+  photo?: WishPhoto;
+  createdAt: string;
+}
+
+/** A wish as the couple sees it while moderating. */
+export interface ModeratedWish extends Wish {
+  status: WishStatus;
+}
+
+/** What a guest fills in. The photo is resized and re-encoded in the browser first. */
+export interface WishSubmission {
+  name: string;
+  message: string;
+  stickers: string[];
+  photo?: { blob: Blob; width: number; height: number };
+  /** A field people never see; anything in it means the form was filled in by a bot. */
+  website?: string;
+}
+
+/** The JSON body of `POST /wishes`: the submission with the photo as base64. */
+export interface WishRequest extends Omit<WishSubmission, 'photo'> {
+  photo?: { data: string; width: number; height: number };
+}
+
+export type WishField = 'name' | 'message' | 'stickers' | 'photo';
+
+/** Field-level error messages; absent keys are valid. */
+export type WishFieldErrors = Partial<Record<WishField, string>>;
+
+/**
+ * Resolves once the wish is stored, or with the server's field errors;
+ * rejects only when the request itself failed or was refused (e.g. too many wishes at once).
+ */
+export type WishResult = { ok: true; id: string; status: WishStatus } | { ok: false; fieldErrors: WishFieldErrors; message?: string };
+
+/** A backend that takes guests' wishes and serves the approved ones. */
+export interface GuestbookClient {
+  submit(wish: WishSubmission): Promise<WishResult>;
+  /** Approved wishes, newest first. */
+  listApproved(): Promise<Wish[]>;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { MAX_WISH_LENGTH, validateWish } from './validation.ts';
+
+const t = translator('en');
+
+const wish = { name: 'Tita Baby', message: 'Best wishes!', stickers: ['hearts', 'cheers'] };
+
+describe('validateWish', () => {
+  it('accepts a wish with known stickers', () => {
+    expect(validateWish(wish)).toEqual({});
+    expect(validateWish({ ...wish, stickers: undefined })).toEqual({});
+  });
+
+  it('needs a name and a message', () => {
+    expect(validateWish({ ...wish, name: ' A ', message: '   ' })).toEqual({
+      name: t('guestbook.errors.name'),
+      message: t('guestbook.errors.message'),
+    });
+  });
+
+  it('limits the length of the message', () => {
+    expect(validateWish({ ...wish, message: 'x'.repeat(MAX_WISH_LENGTH + 1) }).message).toBe(
+      t('guestbook.errors.messageTooLong', { max: MAX_WISH_LENGTH }),
+    );
+  });
+
+  it('only takes up to three different stickers from the list', () => {
+    expect(validateWish({ ...wish, stickers: ['unicorn'] }).stickers).toBe(t('guestbook.errors.stickers'));
+    expect(validateWish({ ...wish, stickers: ['hearts', 'hearts'] }).stickers).toBe(t('guestbook.errors.stickers'));
+    expect(validateWish({ ...wish, stickers: ['hearts', 'cheers', 'rings', 'doves'] }).stickers).toBe(
+      t('guestbook.errors.tooManyStickers', { max: 3 }),
+    );
+  });
+
+  it('answers in the guest’s language', () => {
+    expect(validateWish({ ...wish, name: '' }, 'tl').name).toBe(translator('tl')('guestbook.errors.name'));
+  });
+});
@@ -0,0 +1,44 @@
+import { DEFAULT_LOCALE } from '../i18n/locales.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { translator } from '../i18n/translate.ts';
+import { MAX_MESSAGE_LENGTH } from '../rsvp/validation.ts';
+import { isStickerId, MAX_STICKERS } from './stickers.ts';
+import type { WishFieldErrors, WishRequest } from './types.ts';
+
+export const MAX_WISH_NAME_LENGTH = 60;
+// An RSVP message can be posted here as it is
+export const MAX_WISH_LENGTH = MAX_MESSAGE_LENGTH;
+
+/**
+ * Validates a wish. Used by the guestbook form before sending and by the reference server
+ * before storing, so both report the same messages. The photo is checked by the server.
+ * @param {unknown} input - The wish to check; may come straight from a request body.
+ * @param {Locale} locale - Language of the messages; the server answers in English.
+ * @returns {WishFieldErrors} - An empty object when the wish is valid.
+ */
+export const validateWish = (input: unknown, locale: Locale = DEFAULT_LOCALE): WishFieldErrors => {
+  const t = translator(locale);
+  const errors: WishFieldErrors = {};
+  const wish = (typeof input === 'object' && input !== null ? input : {}) as Partial<Record<keyof WishRequest, unknown>>;
+
+  if (typeof wish.name !== 'string' || wish.name.trim().length < 2) {
+    errors.name = t('guestbook.errors.name');
+  } else if (wish.name.trim().length > MAX_WISH_NAME_LENGTH) {
+    errors.name = t('guestbook.errors.nameTooLong', { max: MAX_WISH_NAME_LENGTH });
+  }
+
+  if (typeof wish.message !== 'string' || wish.message.trim().length === 0) {
+    errors.message = t('guestbook.errors.message');
+  } else if (wish.message.trim().length > MAX_WISH_LENGTH) {
+    errors.message = t('guestbook.errors.messageTooLong', { max: MAX_WISH_LENGTH });
+  }
+
+  const stickers = wish.stickers ?? [];
+  if (!Array.isArray(stickers) || !stickers.every(isStickerId) || new Set(stickers).size !== stickers.length) {
+    errors.stickers = t('guestbook.errors.stickers');
+  } else if (stickers.length > MAX_STICKERS) {
+    errors.stickers = t('guestbook.errors.tooManyStickers', { max: MAX_STICKERS });
+  }
+
+  return errors;
+};
@@ -0,0 +1,68 @@
+import React, { useRef, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { useHousehold } from '../invite/context.ts';
+import { usePrefersReducedMotion } from '../motion/usePrefersReducedMotion.ts';
+import ParticleCanvas from '../particles/ParticleCanvas.tsx';
+import HeroBackground from './HeroBackground.tsx';
+
+const { groom, bride } = wedding.couple;
+
+/**
+ * The first screen of the home page: the couple's names and the date over the hero photo,
+ * slideshow or film, greeting invited households by name, with a cue to scroll on.
+ */
+const Hero: React.FC = () => {
+  const { t, text, formatDate } = useI18n();
+  const household = useHousehold();
+  const reducedMotion = usePrefersReducedMotion();
+  const section = useRef<HTMLElement>(null);
+  // Moving backgrounds need an off switch (WCAG 2.2.2); with reduced motion nothing moves
+  const [paused, setPaused] = useState(false);
+
+  const scrollOn = () => {
+    const next = section.current?.nextElementSibling;
+    next?.scrollIntoView({ behavior: reducedMotion ? 'auto' : 'smooth' });
+  };
+
+  return (
+    <section className="hero" ref={section}>
+      <HeroBackground paused={paused} />
+      <ParticleCanvas preset="hero" paused={paused} />
+
+      <div className="hero-content">
+        {household && <p className="hero-greeting">{t('common.greeting', { name: household.greeting })}</p>}
+        <h1 className="hero-title">
+          <span className="hero-name">{groom.firstName}</span>
+          <span className="hero-ampersand">&amp;</span>
+          <span className="hero-name">{bride.firstName}</span>
+        </h1>
+        {wedding.hero.tagline && <p className="hero-subtitle">{text(wedding.hero.tagline)}</p>}
+        <p className="hero-date">
+          <time dateTime={wedding.date}>{formatDate(wedding.date)}</time>
+        </p>
+      </div>
+
+      {!reducedMotion && (
+        <button
+          type="button"
+          className="hero-motion-toggle"
+          onClick={() => setPaused(!paused)}
+          aria-label={paused ? t('hero.resume') : t('hero.pause')}
+        >
+          <svg viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+            <path d={paused ? 'M8 5v14l11-7z' : 'M6 5h4v14H6zm8 0h4v14h-4z'} />
+          </svg>
+        </button>
+      )}
+
+      <button type="button" className="hero-scroll-cue" onClick={scrollOn} aria-label={t('hero.scroll')}>
+        <svg viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+          <path d="M6 9l6 6 6-6" />
+        </svg>
+      </button>
+    </section>
+  );
+};
+
+export default Hero;
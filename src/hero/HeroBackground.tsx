@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import { usePrefersReducedMotion } from '../motion/usePrefersReducedMotion.ts';
+
+const { images, video } = wedding.hero;
+const SLIDE_MS = (wedding.hero.slideSeconds ?? 6) * 1000;
+
+/**
+ * What sits behind the couple's names: the `hero.video` film if there is one, otherwise the
+ * `hero.images`, cross-fading when there are several. With reduced motion it is the first
+ * photo (or the video's poster), standing still; `paused` holds the film or slideshow.
+ */
+const HeroBackground: React.FC<{ paused: boolean }> = ({ paused }) => {
+  const { text } = useI18n();
+  const reducedMotion = usePrefersReducedMotion();
+  const film = useRef<HTMLVideoElement>(null);
+  const [slide, setSlide] = useState(0);
+  const slideshow = !video && images.length > 1 && !reducedMotion;
+
+  useEffect(() => {
+    if (!slideshow || paused) return;
+    const timer = setInterval(() => setSlide((current) => (current + 1) % images.length), SLIDE_MS);
+    return () => clearInterval(timer);
+  }, [slideshow, paused]);
+
+  useEffect(() => {
+    if (paused) film.current?.pause();
+    // Muted, so browsers let it play without a tap
+    else film.current?.play().catch(() => {});
+  }, [paused]);
+
+  if (video && !reducedMotion) {
+    return (
+      <div className="hero-background">
+        <video
+          ref={film}
+          className="hero-video"
+          src={video.src}
+          poster={video.poster ?? images[0].src}
+          autoPlay
+          muted
+          loop
+          playsInline
+          aria-hidden="true"
+        />
+      </div>
+    );
+  }
+
+  const shown = slideshow ? images : images.slice(0, 1);
+  const still = video && reducedMotion ? video.poster : undefined;
+  return (
+    <div className="hero-background">
+      {still ? (
+        <ResponsiveImage src={still} alt="" sizes="100vw" loading="eager" className="hero-slide active" />
+      ) : (
+        shown.map((image, index) => (
+          <ResponsiveImage
+            key={image.src}
+            src={image.src}
+            alt={index === slide ? text(image.alt) : ''}
+            sizes="100vw"
+            // The first photo is the page's largest paint; the rest can wait their turn
+            loading={index === 0 ? 'eager' : 'lazy'}
+            fetchPriority={index === 0 ? 'high' : undefined}
+            className={`hero-slide ${index === slide ? 'active' : ''}`}
+            aria-hidden={index === slide ? undefined : true}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default HeroBackground;
@@ -0,0 +1,81 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { HOME_SECTIONS, PHASES } from '../phases/phases.ts';
+import type { HomeSection } from '../phases/phases.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import HomePage from './HomePage.tsx';
+
+vi.mock('../rsvp/client.ts', () => ({
+  rsvpClient: { submit: vi.fn(), getInvite: vi.fn() },
+}));
+
+vi.mock('../photos/client.ts', () => ({
+  photoClient: { upload: vi.fn(), listApproved: vi.fn(() => Promise.resolve([])) },
+}));
+
+vi.mock('../guestbook/client.ts', () => ({
+  guestbookClient: { submit: vi.fn(), listApproved: vi.fn(() => Promise.resolve([])) },
+}));
+
+vi.mock('../seating/client.ts', () => ({
+  seatingClient: { findTable: vi.fn() },
+}));
+
+const t = translator('en');
+
+// The root element each section renders
+const SELECTORS: Record<HomeSection, string> = {
+  invite: '.invite-section',
+  countdown: '.countdown-section',
+  findTable: '#find-table',
+  story: '.about-us-section',
+  gallery: '#prenup-gallery',
+  guestAlbum: '#guest-album',
+  guestbook: '#guestbook',
+  video: '#video',
+  location: '#location',
+  dresscode: '#dresscode',
+  rsvp: '#rsvp.page-section:not(.rsvp-closed-notice)',
+  rsvpClosed: '.rsvp-closed-notice',
+  gifts: '#gifts',
+};
+
+const sectionOrder = (container: HTMLElement): HomeSection[] =>
+  [...container.children].flatMap((element) => {
+    const section = (Object.keys(SELECTORS) as HomeSection[]).find((key) => element.matches(SELECTORS[key]));
+    return section ? [section] : [];
+  });
+
+describe('HomePage', () => {
+  it.each(PHASES)('shows the %s sections in order between the hero and the footer', (phase) => {
+    const { container } = renderWithProviders(<HomePage />, { phase });
+
+    expect(container.firstElementChild).toHaveClass('hero');
+    expect(container.lastElementChild?.tagName).toBe('FOOTER');
+    // The film section leaves itself out when the config has no video
+    expect(sectionOrder(container)).toEqual(HOME_SECTIONS[phase].filter((section) => section !== 'video' || wedding.video));
+  });
+
+  it('greets the household the invite was sent to', () => {
+    renderWithProviders(<HomePage />, {
+      phase: 'rsvp-open',
+      invite: {
+        status: 'found',
+        code: 'BARONDA',
+        household: { code: 'BARONDA', greeting: 'The Baronda Family', names: ['Ana Baronda'], maxGuests: 1 },
+      },
+    });
+
+    expect(screen.getAllByText(t('common.greeting', { name: 'The Baronda Family' })).length).toBeGreaterThan(0);
+    expect(screen.getByText(t('rsvp.allowanceOne'))).toBeInTheDocument();
+  });
+
+  it('names the couple in the page heading', () => {
+    renderWithProviders(<HomePage />, { phase: 'rsvp-open' });
+    const heading = screen.getByRole('heading', { level: 1 });
+    expect(heading).toHaveTextContent(wedding.couple.groom.firstName);
+    expect(heading).toHaveTextContent(wedding.couple.bride.firstName);
+  });
+});
@@ -0,0 +1,113 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import CountdownSection from '../countdown/CountdownSection.tsx';
+import DresscodePage from '../dresscode/DresscodePage.tsx';
+import Footer from '../footer/Footer.tsx';
+import PrenupGallery from '../gallery/PrenupGallery.tsx';
+import GiftSection from '../gifts/GiftSection.tsx';
+import GuestbookSection from '../guestbook/GuestbookSection.tsx';
+import Hero from '../hero/Hero.tsx';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import { useHousehold } from '../invite/context.ts';
+import LocationSlider from '../location/LocationSlider.tsx';
+import { useIntersectionObserver } from '../motion/useIntersectionObserver.ts';
+import { usePhase } from '../phases/context.ts';
+import { HOME_SECTIONS } from '../phases/phases.ts';
+import type { HomeSection } from '../phases/phases.ts';
+import GuestAlbum from '../photos/GuestAlbum.tsx';
+import RsvpClosedNotice from '../rsvp/RsvpClosedNotice.tsx';
+import RsvpPage from '../rsvp/RsvpPage.tsx';
+import FindTableSection from '../seating/FindTableSection.tsx';
+import VideoSection from '../video/VideoSection.tsx';
+
+const HomePage: React.FC = () => {
+  const { t, text, formatDate } = useI18n();
+  const household = useHousehold();
+  const [ref1, isInView1] = useIntersectionObserver<HTMLElement>({ threshold: 0.1 });
+  const [ref3, isInView3] = useIntersectionObserver<HTMLElement>({ threshold: 0.1 });
+  const { phase } = usePhase();
+
+  // Every section the home page can show; the phase decides which, and in what order
+  const sections: Record<HomeSection, React.ReactNode> = {
+    invite: (
+      <section className="invite-section" ref={ref1}>
+        <div className={`invite-container ${isInView1 ? 'fade-in' : ''}`}>
+          <div className="invite-message">
+            <p className="invite-text-date">{formatDate(wedding.date)}</p>
+            {household && <p className="invite-greeting">{t('common.greeting', { name: household.greeting })}</p>}
+            <h2 className="invite-title">{text(wedding.invite.title)}</h2>
+            <p className="invite-text-body">{text(wedding.invite.body)}</p>
+          </div>
+
+          {/* Neon-light Gallery moved inside the invite section */}
+          <div className="photo-gallery">
+            {wedding.invite.photos.map((photo) => (
+              <div className="photo-card" key={photo.src}>
+                <ResponsiveImage
+                  src={photo.src}
+                  alt={text(photo.alt)}
+                  sizes="(max-width: 768px) 100px, 250px"
+                  className="photo-image"
+                />
+                <div className="photo-caption">
+                  <h3>{text(photo.title)}</h3>
+                  <p>{text(photo.subtitle)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+        </div>
+      </section>
+    ),
+    countdown: <CountdownSection />,
+    findTable: <FindTableSection />,
+    story: (
+      <section className="about-us-section" ref={ref3}>
+        <div className={`about-us-content ${isInView3 ? 'fade-in' : ''}`}>
+          <div className="about-us-text-container">
+            <h2 className="about-us-title">{text(wedding.story.title)}</h2>
+            <p className="about-us-text-body">{text(wedding.story.body)}</p>
+          </div>
+          <div className="about-us-image-container">
+            <ResponsiveImage
+              className="about-us-image"
+              src={wedding.story.image.src}
+              alt={text(wedding.story.image.alt)}
+              sizes="(max-width: 768px) 100vw, 400px"
+            />
+            {/* The floating heart decoration */}
+            {wedding.decorations?.story && (
+              <div className="heart-decoration-container">
+                <ResponsiveImage src={wedding.decorations.story} alt="" sizes="10rem" className="heart-decoration" />
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+    ),
+    gallery: <PrenupGallery />,
+    guestAlbum: <GuestAlbum />,
+    guestbook: <GuestbookSection />,
+    video: <VideoSection />,
+    location: <LocationSlider />,
+    dresscode: <DresscodePage />,
+    rsvp: <RsvpPage />,
+    rsvpClosed: <RsvpClosedNotice />,
+    gifts: <GiftSection />,
+  };
+
+  return (
+    <>
+      <Hero />
+      {HOME_SECTIONS[phase].map((section) => (
+        <React.Fragment key={section}>{sections[section]}</React.Fragment>
+      ))}
+         {/* Footer Section */}
+         <Footer />
+    </>
+  );
+};
+
+export default HomePage;
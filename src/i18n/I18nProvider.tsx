@@ -0,0 +1,40 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createI18n, I18nContext } from './context.ts';
+import { DEFAULT_LOCALE, isLocale, LOCALE_TAGS } from './locales.ts';
+import type { Locale } from './locales.ts';
+
+const STORAGE_KEY = 'ej-wedding:locale';
+
+// A saved choice wins; otherwise Filipino browsers start in Filipino
+const initialLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage may be unavailable (private mode); fall through to the browser language
+  }
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return preferred.some((tag) => /^(fil|tl)\b/i.test(tag)) ? 'tl' : DEFAULT_LOCALE;
+};
+
+/**
+ * Holds the visitor's language, remembers it between visits and keeps `<html lang>` in step.
+ */
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALE_TAGS[locale];
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+      // Not remembering the choice is fine
+    }
+  }, [locale]);
+
+  const i18n = useMemo(() => createI18n(locale, setLocale), [locale]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
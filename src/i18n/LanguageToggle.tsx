@@ -0,0 +1,29 @@
+import React from 'react';
+import { useI18n } from './context.ts';
+import { LOCALE_NAMES, LOCALES } from './locales.ts';
+
+/**
+ * Switches the site between the supported languages.
+ */
+const LanguageToggle: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="language-toggle" role="group" aria-label={t('nav.language')}>
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          className={`language-option ${option === locale ? 'active' : ''}`}
+          aria-pressed={option === locale}
+          onClick={() => setLocale(option)}
+        >
+          {LOCALE_NAMES[option]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageToggle;
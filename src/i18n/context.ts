@@ -0,0 +1,41 @@
+import { createContext, useContext } from 'react';
+import { wedding } from '../config/index.ts';
+import { formatLongDate, formatTime } from '../config/format.ts';
+import { DEFAULT_LOCALE, LOCALE_TAGS } from './locales.ts';
+import type { Locale, LocalizedText } from './locales.ts';
+import { localize, translator } from './translate.ts';
+import type { Translate } from './translate.ts';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  /** Catalog copy, e.g. `t('rsvp.replyBy', { date })`. */
+  t: Translate;
+  /** Config copy in the current language. */
+  text: (value: LocalizedText) => string;
+  /** A config date (`"2026-01-31"`) as a long date. */
+  formatDate: (date: string) => string;
+  /** A config time (`"15:00"`) in the locale's clock style. */
+  formatTime: (time: string) => string;
+  /** A moment as a date and time in the wedding's time zone. */
+  formatDateTime: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+/** Builds the i18n helpers for a locale; shared by the provider and the default context. */
+export const createI18n = (locale: Locale, setLocale: (locale: Locale) => void = () => {}): I18n => {
+  const tag = LOCALE_TAGS[locale];
+  return {
+    locale,
+    setLocale,
+    t: translator(locale),
+    text: (value) => localize(value, locale),
+    formatDate: (date) => formatLongDate(date, tag),
+    formatTime: (time) => formatTime(time, tag),
+    formatDateTime: (date, options = { dateStyle: 'long', timeStyle: 'short' }) =>
+      new Intl.DateTimeFormat(tag, { timeZone: wedding.timeZone, ...options }).format(date),
+  };
+};
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,6 @@
+export { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, LOCALE_TAGS, isLocale } from './locales.ts';
+export type { Locale, LocalizedText } from './locales.ts';
+export { CATALOGS, localize, translator } from './translate.ts';
+export type { MessageKey, MessageParams, Messages, Translate } from './translate.ts';
+export { I18nContext, createI18n, useI18n } from './context.ts';
+export type { I18n } from './context.ts';
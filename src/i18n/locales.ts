@@ -0,0 +1,25 @@
+export const LOCALES = ['en', 'tl'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** BCP 47 tags handed to `Intl` for dates, times and numbers. */
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-PH',
+  tl: 'fil-PH',
+};
+
+/** How each language names itself in the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  tl: 'Filipino',
+};
+
+/**
+ * Copy in the wedding config: either one string used in every language (names, places)
+ * or one string per locale.
+ */
+export type LocalizedText = string | Record<Locale, string>;
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
@@ -0,0 +1,319 @@
+/**
+ * English copy for every component. This catalog defines the keys: other locales are typed
+ * as `Messages`, so a missing or misspelled key fails `tsc -b` and with it `npm run build`.
+ * `{name}` placeholders are filled in by `t(key, { name })`.
+ */
+const en = {
+  nav: {
+    home: 'Home',
+    prenup: 'Prenup',
+    location: 'Location',
+    entourage: 'Entourage',
+    dresscode: 'Dresscode',
+    rsvp: 'RSVP',
+    openMenu: 'Open main menu',
+    closeMenu: 'Close main menu',
+    language: 'Language',
+    label: 'Main',
+    skip: 'Skip to main content',
+  },
+  common: {
+    greeting: 'Dear {name},',
+    videoUnsupported: 'Your browser does not support the video tag.',
+    close: 'Close',
+    table: 'Table {table}',
+  },
+  hero: {
+    scroll: 'Scroll to the rest of the page',
+    pause: 'Pause the animation',
+    resume: 'Play the animation',
+  },
+  countdown: {
+    when: '{date} at {time}',
+    days: 'Days',
+    hours: 'Hours',
+    minutes: 'Mins',
+    seconds: 'Secs',
+    live: 'Happening now!',
+    now: 'Now: {item}',
+    marriedToday: 'Just married!',
+    marriedOne: 'Married for 1 day',
+    marriedMany: 'Married for {count} days',
+  },
+  gallery: {
+    photoAlt: '{couple}, photo {number} of {total}',
+    open: 'Open {photo} in the photo viewer',
+    officialTitle: 'Our Wedding Day',
+    officialSubtitle: 'Photos from the celebration',
+  },
+  photos: {
+    albumTitle: 'Guest Album',
+    albumSubtitle: 'The day through our guests’ eyes',
+    empty: 'No photos yet. Be the first to share one!',
+    share: 'Share your photos',
+    photoAlt: 'Photo by {name}, {number} of {total}',
+    photoAltAnonymous: 'Guest photo {number} of {total}',
+    viewer: 'Guest photos',
+    upload: {
+      title: 'Share Your Photos',
+      intro: 'Took pictures today? Add them to our Guest Album. They appear there once we have had a look.',
+      name: 'Your name (optional)',
+      choose: 'Choose photos',
+      unavailable: 'Photo uploads aren’t available on this site.',
+      waiting: 'Waiting',
+      preparing: 'Preparing…',
+      uploading: 'Uploading…',
+      done: 'Uploaded',
+      failed: 'Failed',
+      unreadable: 'This file couldn’t be opened as a photo.',
+      error: 'The upload didn’t go through.',
+      tooMany: 'Lots of photos have come in just now. Please wait a few minutes and try again.',
+      retry: 'Try again',
+      progress: '{done} of {total} photos uploaded',
+      thanks: 'Thank you! Your photos will appear in the Guest Album once approved.',
+      viewAlbum: 'See the Guest Album',
+    },
+  },
+  guestbook: {
+    title: 'Guestbook',
+    intro: 'Leave a wish for the newlyweds. It appears here once they have read it.',
+    name: 'Your name',
+    message: 'Your wish',
+    stickers: 'Add up to {max} stickers (optional)',
+    photo: 'Add a photo (optional)',
+    removePhoto: 'Remove photo',
+    trap: 'Leave this field empty',
+    submit: 'Send wish',
+    submitting: 'Sending…',
+    thanks: 'Thank you! Your wish will appear here once the couple has read it.',
+    invalid: 'Please check the highlighted fields and try again.',
+    tooMany: 'You have sent a lot of wishes. Please wait a few minutes and try again.',
+    error: 'Your wish could not be sent. Please try again.',
+    photoUnreadable: 'This file couldn’t be opened as a photo.',
+    empty: 'No wishes yet. Be the first!',
+    from: '– {name}',
+    photoAlt: 'Photo from {name}',
+    sticker: {
+      bouquet: 'Bouquet',
+      rings: 'Rings',
+      cheers: 'Cheers',
+      hearts: 'Hearts',
+      party: 'Party',
+      doves: 'Doves',
+      sparkles: 'Sparkles',
+      blessing: 'Blessing',
+    },
+    wall: {
+      title: 'Wishes for {couple}',
+      leave: 'Leave yours at {url}',
+      empty: 'Wishes will appear here as guests send them.',
+    },
+    errors: {
+      name: 'Please enter your name.',
+      nameTooLong: 'Name must be {max} characters or fewer.',
+      message: 'Please write your wish.',
+      messageTooLong: 'Please keep your wish under {max} characters.',
+      stickers: 'Please choose stickers from the list.',
+      tooManyStickers: 'Please choose up to {max} stickers.',
+    },
+  },
+  music: {
+    label: 'Music',
+    play: 'Play music',
+    pause: 'Pause music',
+    previous: 'Previous song',
+    next: 'Next song',
+    volume: 'Volume',
+    playlist: 'Playlist',
+    more: 'Volume and playlist',
+    byArtist: '{title} – {artist}',
+    tapToStart: 'Tap to start music',
+    noThanks: 'No music, thanks',
+  },
+  lightbox: {
+    label: 'Photo viewer',
+    counter: '{current} / {total}',
+    previous: 'Previous photo',
+    next: 'Next photo',
+  },
+  location: {
+    title: 'Our Wedding Venues',
+    description: 'Join us as we celebrate our union at these beautiful locations.',
+    venueTime: '{type} Time: {time}',
+    viewMap: 'View on Google Maps',
+  },
+  map: {
+    title: 'Getting There',
+    label: 'Map of the venues, parking and landmarks',
+    sketchLabel: 'Sketch map of the venues, parking and landmarks',
+    sketchNote: 'Sketch – roads not shown',
+    offline: 'The live map could not load, so this is a simplified version. The directions links below still work.',
+    routeDriving: 'From {from} to {to} by car.',
+    routeWalking: 'From {from} to {to} on foot.',
+    routeMinutes: 'About {minutes} minutes.',
+    openIn: 'Directions:',
+    directionsIn: 'Directions to {place} in {app}',
+  },
+  calendar: {
+    add: 'Add to calendar',
+    ics: 'Apple Calendar or Outlook (.ics file)',
+    google: 'Google Calendar',
+    outlook: 'Outlook.com',
+    addTo: 'Add {event} to {calendar}',
+    eventTitle: '{couple} Wedding – {event}',
+    map: 'Map: {url}',
+  },
+  entourage: {
+    title: 'The Wedding Entourage',
+    description:
+      'We are so grateful for the love and support of these amazing people who will be standing by our side on our special day.',
+    print: 'Print the entourage',
+  },
+  seating: {
+    title: 'Find Your Table',
+    intro: 'Type your name as it is on your RSVP to see where you are seated.',
+    name: 'Your name',
+    submit: 'Find my table',
+    searching: 'Searching…',
+    found: 'You are at',
+    noMatch: "We couldn't find that name. Try it as it is on your RSVP, or ask our coordinators at the entrance.",
+    tooShort: 'Please type at least {min} letters of your name.',
+    tooMany: 'That is a lot of searches. Please wait a few minutes and try again.',
+    error: "We couldn't look up the seating just now. Please ask our coordinators at the entrance.",
+    map: 'Floor map of {venue}',
+    mapWithTable: 'Floor map of {venue}, with table {table} highlighted',
+  },
+  dresscode: {
+    title: 'Dress Code',
+    palette: 'Our Color Palette',
+  },
+  rsvp: {
+    title: 'RSVP',
+    intro: 'Please let us know if you can join us by filling out the form below.',
+    allowanceOne: 'We have reserved 1 seat in your honor.',
+    allowanceMany: 'We have reserved {count} seats in your honor.',
+    unknownInvite: "We couldn't find your invitation link, but you can still RSVP below.",
+    withoutInvite: 'RSVP without the invitation link',
+    replyBy: 'Kindly reply by {date}.',
+    closed: 'RSVPs are now closed. Please message the couple directly for any changes.',
+    viewReply: 'See the RSVP you sent',
+    fullName: 'Full Name',
+    contact: 'Contact Number',
+    attending: 'Will you be attending?',
+    yes: 'Yes',
+    no: 'No',
+    guests: 'How many guests, including you, will be attending?',
+    message: 'Message for the couple (optional)',
+    shareMessage: 'Also post my message in the guestbook',
+    submit: 'Submit RSVP',
+    save: 'Save changes',
+    submitting: 'Submitting...',
+    cancel: 'Cancel',
+    success: "Thank you for your RSVP! We can't wait to celebrate with you.",
+    sent: "Your RSVP has been sent. If you don't hear from us, please message the couple to confirm.",
+    invalid: 'Please check the highlighted fields and try again.',
+    notSaved: 'Your RSVP could not be saved.',
+    error: 'Something went wrong. Please try again.',
+    attendee: {
+      legend: 'Guest {number}',
+      legendYou: 'Guest {number} (you)',
+      name: 'Name',
+      ageGroup: 'Age group',
+      adult: 'Adult',
+      child: 'Child (12 and under)',
+      entree: 'Entrée',
+      chooseEntree: 'Choose an entrée',
+      allergies: 'Allergies (optional)',
+      allergiesPlaceholder: 'e.g. peanuts, shellfish',
+      dietaryNotes: 'Dietary notes (optional)',
+      dietaryNotesPlaceholder: 'e.g. halal, no pork, low sodium',
+      venues: 'Joining us at',
+    },
+    summary: {
+      title: 'Your RSVP',
+      updated: 'Last updated {date}',
+      changedOnce: 'changed once',
+      changedMany: 'changed {count} times',
+      name: 'Name',
+      contact: 'Contact Number',
+      attending: 'Attending',
+      attendingOne: 'Yes, 1 guest',
+      attendingMany: 'Yes, {count} guests',
+      notAttending: 'No',
+      message: 'Message',
+      adult: 'adult',
+      child: 'child',
+      allergies: 'allergies: {allergies}',
+      only: '{venues} only',
+      edit: 'Change my RSVP',
+    },
+    lookup: {
+      toggle: 'Already sent your RSVP? Find it here',
+      byInvite: 'Load the RSVP for my invitation',
+      contact: 'Contact number you used',
+      sendCode: 'Send me a code',
+      code: '6-digit code',
+      find: 'Find my RSVP',
+      differentNumber: 'Use a different number',
+      notFound: "We don't have an RSVP for your invitation yet.",
+      codeSent: 'If we have an RSVP for this number, we sent it a 6-digit code.',
+      badCode: "That code didn't work. Please check it or request a new one.",
+      tooMany: 'Please wait a minute before trying again.',
+    },
+    errors: {
+      guestName: "Please enter this guest's name.",
+      name: 'Please enter your full name.',
+      nameTooLong: 'Name must be 120 characters or fewer.',
+      ageGroup: 'Please choose adult or child.',
+      entree: 'Please choose an entrée.',
+      entreeAdultsOnly: '{entree} is only available for adults.',
+      entreeChildrenOnly: '{entree} is only available for children.',
+      noteTooLong: 'Please keep this under {max} characters.',
+      venues: 'Please choose where this guest will join us.',
+      contact: 'Please enter a valid contact number.',
+      attending: 'Please tell us whether you will attend.',
+      guests: 'Please choose between 1 and {max} guests.',
+      allowanceOne: 'Your invitation is for 1 guest.',
+      allowanceMany: 'Your invitation is for up to {max} guests.',
+      guestList: 'Invalid guest list.',
+      messageTooLong: 'Message must be {max} characters or fewer.',
+      inviteCode: "We couldn't find this invitation anymore.",
+    },
+  },
+  print: {
+    print: 'Print',
+    back: 'Back to the website',
+    hint: 'Prints on {paper} paper. Turn off headers and footers in the print dialog.',
+    program: 'Wedding Program',
+    orderOfEvents: 'Order of Events',
+    siteQr: 'Scan to visit our website',
+    inviteQr: 'Scan for your invitation and RSVP',
+  },
+  gifts: {
+    title: 'Gifts for the Couple',
+    qrViewer: 'QR codes',
+    enlarge: 'Enlarge {name}',
+  },
+  phases: {
+    preview: 'Previewing the site as: {phase}',
+    exit: 'Exit preview',
+    names: {
+      'rsvp-open': 'RSVPs open',
+      'rsvp-closed': 'RSVPs closed',
+      'day-of': 'Wedding day',
+      after: 'After the wedding',
+    },
+  },
+  notFound: {
+    title: 'Page not found',
+    body: "We couldn't find the page you were looking for. It may have moved, or the link may be mistyped.",
+    home: 'Back to the celebration',
+  },
+  footer: {
+    rights: '© {year} {title}. All Rights Reserved. {groom} and {bride} Wedding.',
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,315 @@
+import type { Messages } from './en.ts';
+
+/** Filipino copy. Typed as `Messages`, so it must cover every key in `en.ts`. */
+const tl: Messages = {
+  nav: {
+    home: 'Home',
+    prenup: 'Prenup',
+    location: 'Lokasyon',
+    entourage: 'Entourage',
+    dresscode: 'Kasuotan',
+    rsvp: 'RSVP',
+    openMenu: 'Buksan ang menu',
+    closeMenu: 'Isara ang menu',
+    language: 'Wika',
+    label: 'Pangunahin',
+    skip: 'Lumaktaw sa pangunahing nilalaman',
+  },
+  common: {
+    greeting: 'Mahal naming {name},',
+    videoUnsupported: 'Hindi sinusuportahan ng iyong browser ang video.',
+    close: 'Isara',
+    table: 'Mesa {table}',
+  },
+  hero: {
+    scroll: 'Mag-scroll sa natitirang bahagi ng pahina',
+    pause: 'Ihinto ang animation',
+    resume: 'Ituloy ang animation',
+  },
+  countdown: {
+    when: '{date}, {time}',
+    days: 'Araw',
+    hours: 'Oras',
+    minutes: 'Minuto',
+    seconds: 'Segundo',
+    live: 'Nagaganap na ngayon!',
+    now: 'Ngayon: {item}',
+    marriedToday: 'Bagong kasal!',
+    marriedOne: 'Isang araw nang kasal',
+    marriedMany: '{count} araw nang kasal',
+  },
+  gallery: {
+    photoAlt: '{couple}, larawan {number} sa {total}',
+    open: 'Buksan ang {photo} sa tagatingin ng larawan',
+    officialTitle: 'Ang Araw ng Aming Kasal',
+    officialSubtitle: 'Mga larawan mula sa pagdiriwang',
+  },
+  photos: {
+    albumTitle: 'Album ng mga Bisita',
+    albumSubtitle: 'Ang araw sa mata ng aming mga bisita',
+    empty: 'Wala pang larawan. Ikaw na ang unang magbahagi!',
+    share: 'Ibahagi ang iyong mga larawan',
+    photoAlt: 'Larawan ni {name}, {number} sa {total}',
+    photoAltAnonymous: 'Larawan ng bisita {number} sa {total}',
+    viewer: 'Mga larawan ng bisita',
+    upload: {
+      title: 'Ibahagi ang Iyong mga Larawan',
+      intro: 'May mga kuha ka ngayong araw? Idagdag ang mga ito sa aming Album ng mga Bisita. Lalabas ang mga ito roon kapag natingnan na namin.',
+      name: 'Iyong pangalan (opsyonal)',
+      choose: 'Pumili ng mga larawan',
+      unavailable: 'Hindi available ang pag-upload ng larawan sa site na ito.',
+      waiting: 'Naghihintay',
+      preparing: 'Inihahanda…',
+      uploading: 'Ina-upload…',
+      done: 'Na-upload na',
+      failed: 'Hindi nagtagumpay',
+      unreadable: 'Hindi mabuksan ang file na ito bilang larawan.',
+      error: 'Hindi natuloy ang pag-upload.',
+      tooMany: 'Napakaraming larawan ang dumating ngayon lang. Maghintay ng ilang minuto at subukang muli.',
+      retry: 'Subukang muli',
+      progress: '{done} sa {total} larawan ang na-upload',
+      thanks: 'Salamat! Lalabas ang iyong mga larawan sa Album ng mga Bisita kapag naaprubahan na.',
+      viewAlbum: 'Tingnan ang Album ng mga Bisita',
+    },
+  },
+  guestbook: {
+    title: 'Guestbook',
+    intro: 'Mag-iwan ng pagbati para sa bagong kasal. Lalabas ito rito kapag nabasa na nila.',
+    name: 'Iyong pangalan',
+    message: 'Iyong pagbati',
+    stickers: 'Magdagdag ng hanggang {max} sticker (opsyonal)',
+    photo: 'Magdagdag ng larawan (opsyonal)',
+    removePhoto: 'Alisin ang larawan',
+    trap: 'Huwag sagutan ang field na ito',
+    submit: 'Ipadala ang pagbati',
+    submitting: 'Ipinapadala…',
+    thanks: 'Salamat! Lalabas dito ang iyong pagbati kapag nabasa na ito ng ikakasal.',
+    invalid: 'Pakisuri ang mga naka-highlight na field at subukang muli.',
+    tooMany: 'Marami ka nang naipadalang pagbati. Maghintay ng ilang minuto at subukang muli.',
+    error: 'Hindi naipadala ang iyong pagbati. Pakisubukang muli.',
+    photoUnreadable: 'Hindi mabuksan ang file na ito bilang larawan.',
+    empty: 'Wala pang pagbati. Ikaw na ang mauna!',
+    from: '– {name}',
+    photoAlt: 'Larawan mula kay {name}',
+    sticker: {
+      bouquet: 'Bulaklak',
+      rings: 'Singsing',
+      cheers: 'Tagay',
+      hearts: 'Mga puso',
+      party: 'Kasiyahan',
+      doves: 'Mga kalapati',
+      sparkles: 'Kislap',
+      blessing: 'Pagpapala',
+    },
+    wall: {
+      title: 'Mga pagbati para kina {couple}',
+      leave: 'Mag-iwan ng sa iyo sa {url}',
+      empty: 'Lalabas dito ang mga pagbati habang ipinapadala ng mga bisita.',
+    },
+    errors: {
+      name: 'Pakilagay ang iyong pangalan.',
+      nameTooLong: 'Ang pangalan ay dapat hindi hihigit sa {max} titik.',
+      message: 'Pakisulat ang iyong pagbati.',
+      messageTooLong: 'Panatilihing mas maikli sa {max} titik ang iyong pagbati.',
+      stickers: 'Pumili ng mga sticker mula sa listahan.',
+      tooManyStickers: 'Pumili ng hanggang {max} sticker.',
+    },
+  },
+  music: {
+    label: 'Musika',
+    play: 'I-play ang musika',
+    pause: 'I-pause ang musika',
+    previous: 'Nakaraang kanta',
+    next: 'Susunod na kanta',
+    volume: 'Lakas ng tunog',
+    playlist: 'Listahan ng kanta',
+    more: 'Lakas ng tunog at listahan ng kanta',
+    byArtist: '{title} – {artist}',
+    tapToStart: 'I-tap para magpatugtog',
+    noThanks: 'Huwag nang magpatugtog',
+  },
+  lightbox: {
+    label: 'Tagatingin ng larawan',
+    counter: '{current} / {total}',
+    previous: 'Nakaraang larawan',
+    next: 'Susunod na larawan',
+  },
+  location: {
+    title: 'Mga Lugar ng Aming Kasal',
+    description: 'Samahan kami sa pagdiriwang ng aming pag-iisang dibdib sa magagandang lugar na ito.',
+    venueTime: 'Oras ng {type}: {time}',
+    viewMap: 'Tingnan sa Google Maps',
+  },
+  map: {
+    title: 'Paano Makarating',
+    label: 'Mapa ng mga lugar, paradahan at palatandaan',
+    sketchLabel: 'Guhit-mapa ng mga lugar, paradahan at palatandaan',
+    sketchNote: 'Guhit lamang – hindi kasama ang mga kalsada',
+    offline: 'Hindi ma-load ang mapa, kaya ito ang pinasimpleng bersyon. Gumagana pa rin ang mga link ng direksyon sa ibaba.',
+    routeDriving: 'Mula {from} hanggang {to} sakay ng sasakyan.',
+    routeWalking: 'Mula {from} hanggang {to} nang naglalakad.',
+    routeMinutes: 'Mga {minutes} minuto.',
+    openIn: 'Direksyon:',
+    directionsIn: 'Direksyon papuntang {place} sa {app}',
+  },
+  calendar: {
+    add: 'Idagdag sa kalendaryo',
+    ics: 'Apple Calendar o Outlook (.ics na file)',
+    google: 'Google Calendar',
+    outlook: 'Outlook.com',
+    addTo: 'Idagdag ang {event} sa {calendar}',
+    eventTitle: 'Kasal nina {couple} – {event}',
+    map: 'Mapa: {url}',
+  },
+  entourage: {
+    title: 'Ang Entourage ng Kasal',
+    description:
+      'Lubos kaming nagpapasalamat sa pagmamahal at suporta ng mga kahanga-hangang taong ito na makakasama namin sa aming espesyal na araw.',
+    print: 'I-print ang entourage',
+  },
+  seating: {
+    title: 'Hanapin ang Iyong Mesa',
+    intro: 'I-type ang iyong pangalan gaya ng nasa RSVP mo para makita kung saan ka nakaupo.',
+    name: 'Iyong pangalan',
+    submit: 'Hanapin ang mesa ko',
+    searching: 'Hinahanap…',
+    found: 'Nakaupo ka sa',
+    noMatch: 'Hindi namin nahanap ang pangalang iyan. Subukan ito gaya ng nasa RSVP mo, o magtanong sa aming mga coordinator sa pasukan.',
+    tooShort: 'Mag-type ng hindi bababa sa {min} titik ng iyong pangalan.',
+    tooMany: 'Marami ka nang hinanap. Maghintay ng ilang minuto at subukang muli.',
+    error: 'Hindi namin matingnan ang mga upuan ngayon. Magtanong sa aming mga coordinator sa pasukan.',
+    map: 'Mapa ng {venue}',
+    mapWithTable: 'Mapa ng {venue}, nakatampok ang mesa {table}',
+  },
+  dresscode: {
+    title: 'Kasuotan',
+    palette: 'Aming mga Kulay',
+  },
+  rsvp: {
+    title: 'RSVP',
+    intro: 'Ipaalam po sa amin kung makakadalo kayo sa pamamagitan ng pagsagot sa form sa ibaba.',
+    allowanceOne: 'Naglaan kami ng 1 upuan para sa inyo.',
+    allowanceMany: 'Naglaan kami ng {count} upuan para sa inyo.',
+    unknownInvite: 'Hindi namin mahanap ang inyong imbitasyon, pero maaari pa rin kayong mag-RSVP sa ibaba.',
+    withoutInvite: 'Mag-RSVP nang walang link ng imbitasyon',
+    replyBy: 'Mangyaring sumagot bago ang {date}.',
+    closed: 'Sarado na ang RSVP. Para sa anumang pagbabago, mangyaring direktang mag-message sa ikakasal.',
+    viewReply: 'Tingnan ang ipinadala mong RSVP',
+    fullName: 'Buong Pangalan',
+    contact: 'Numero ng Telepono',
+    attending: 'Makakadalo po ba kayo?',
+    yes: 'Oo',
+    no: 'Hindi',
+    guests: 'Ilan kayong dadalo, kasama ka?',
+    message: 'Mensahe para sa ikakasal (opsyonal)',
+    shareMessage: 'I-post din ang aking mensahe sa guestbook',
+    submit: 'Ipadala ang RSVP',
+    save: 'I-save ang mga pagbabago',
+    submitting: 'Ipinapadala...',
+    cancel: 'Kanselahin',
+    success: 'Salamat sa inyong RSVP! Sabik na kaming makasama kayo sa pagdiriwang.',
+    sent: 'Naipadala na ang inyong RSVP. Kung wala kayong matanggap na sagot, mangyaring mag-message sa ikakasal para makumpirma.',
+    invalid: 'Pakisuri ang mga naka-highlight na sagot at subukang muli.',
+    notSaved: 'Hindi ma-save ang inyong RSVP.',
+    error: 'May nangyaring mali. Pakisubukang muli.',
+    attendee: {
+      legend: 'Bisita {number}',
+      legendYou: 'Bisita {number} (ikaw)',
+      name: 'Pangalan',
+      ageGroup: 'Edad',
+      adult: 'Matanda',
+      child: 'Bata (12 pababa)',
+      entree: 'Ulam',
+      chooseEntree: 'Pumili ng ulam',
+      allergies: 'Mga allergy (opsyonal)',
+      allergiesPlaceholder: 'hal. mani, hipon',
+      dietaryNotes: 'Iba pang paalala sa pagkain (opsyonal)',
+      dietaryNotesPlaceholder: 'hal. halal, walang baboy, mababa sa asin',
+      venues: 'Makakasama namin sa',
+    },
+    summary: {
+      title: 'Ang Inyong RSVP',
+      updated: 'Huling binago noong {date}',
+      changedOnce: 'binago nang isang beses',
+      changedMany: 'binago nang {count} beses',
+      name: 'Pangalan',
+      contact: 'Numero ng Telepono',
+      attending: 'Dadalo',
+      attendingOne: 'Oo, 1 bisita',
+      attendingMany: 'Oo, {count} bisita',
+      notAttending: 'Hindi',
+      message: 'Mensahe',
+      adult: 'matanda',
+      child: 'bata',
+      allergies: 'allergy: {allergies}',
+      only: '{venues} lamang',
+      edit: 'Baguhin ang aking RSVP',
+    },
+    lookup: {
+      toggle: 'Nakapagpadala na ng RSVP? Hanapin ito rito',
+      byInvite: 'Buksan ang RSVP para sa aking imbitasyon',
+      contact: 'Numerong ginamit mo',
+      sendCode: 'Padalhan ako ng code',
+      code: '6-digit na code',
+      find: 'Hanapin ang aking RSVP',
+      differentNumber: 'Gumamit ng ibang numero',
+      notFound: 'Wala pa kaming RSVP para sa inyong imbitasyon.',
+      codeSent: 'Kung may RSVP kami para sa numerong ito, pinadalhan namin ito ng 6-digit na code.',
+      badCode: 'Hindi gumana ang code. Pakisuri ito o humingi ng bago.',
+      tooMany: 'Pakihintay muna ng isang minuto bago subukang muli.',
+    },
+    errors: {
+      guestName: 'Pakilagay ang pangalan ng bisitang ito.',
+      name: 'Pakilagay ang inyong buong pangalan.',
+      nameTooLong: 'Ang pangalan ay dapat hindi hihigit sa 120 titik.',
+      ageGroup: 'Pumili ng matanda o bata.',
+      entree: 'Pumili ng ulam.',
+      entreeAdultsOnly: 'Ang {entree} ay para lamang sa matatanda.',
+      entreeChildrenOnly: 'Ang {entree} ay para lamang sa mga bata.',
+      noteTooLong: 'Pakipaikli ito sa {max} titik pababa.',
+      venues: 'Pakipili kung saan makakasama ang bisitang ito.',
+      contact: 'Pakilagay ang tamang numero ng telepono.',
+      attending: 'Ipaalam po sa amin kung kayo ay dadalo.',
+      guests: 'Pumili mula 1 hanggang {max} bisita.',
+      allowanceOne: 'Ang inyong imbitasyon ay para sa 1 bisita.',
+      allowanceMany: 'Ang inyong imbitasyon ay para sa hanggang {max} bisita.',
+      guestList: 'Hindi wasto ang listahan ng bisita.',
+      messageTooLong: 'Ang mensahe ay dapat hindi hihigit sa {max} titik.',
+      inviteCode: 'Hindi na namin mahanap ang imbitasyong ito.',
+    },
+  },
+  print: {
+    print: 'I-print',
+    back: 'Bumalik sa website',
+    hint: 'Ipi-print sa papel na {paper}. Patayin ang headers at footers sa print dialog.',
+    program: 'Programa ng Kasal',
+    orderOfEvents: 'Daloy ng Programa',
+    siteQr: 'I-scan para bisitahin ang aming website',
+    inviteQr: 'I-scan para sa inyong imbitasyon at RSVP',
+  },
+  gifts: {
+    title: 'Regalo para sa Ikakasal',
+    qrViewer: 'Mga QR code',
+    enlarge: 'Palakihin ang {name}',
+  },
+  phases: {
+    preview: 'Sinisilip ang site bilang: {phase}',
+    exit: 'Ihinto ang pagsilip',
+    names: {
+      'rsvp-open': 'Bukas ang RSVP',
+      'rsvp-closed': 'Sarado na ang RSVP',
+      'day-of': 'Araw ng kasal',
+      after: 'Pagkatapos ng kasal',
+    },
+  },
+  notFound: {
+    title: 'Hindi mahanap ang pahina',
+    body: 'Hindi namin mahanap ang pahinang hinahanap mo. Maaaring nailipat ito o mali ang pagkaka-type ng link.',
+    home: 'Bumalik sa pagdiriwang',
+  },
+  footer: {
+    rights: '© {year} {title}. Nakalaan ang lahat ng karapatan. Kasal nina {groom} at {bride}.',
+  },
+};
+
+export default tl;
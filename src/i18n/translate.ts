@@ -0,0 +1,41 @@
+import en from './messages/en.ts';
+import type { Messages } from './messages/en.ts';
+import tl from './messages/tl.ts';
+import { DEFAULT_LOCALE } from './locales.ts';
+import type { Locale, LocalizedText } from './locales.ts';
+
+export type { Messages };
+
+// Dotted paths to every string in the catalog, e.g. 'rsvp.lookup.toggle'
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${Paths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = Paths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const CATALOGS: Record<Locale, Messages> = { en, tl };
+
+const lookup = (messages: Messages, key: MessageKey): string | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[part] : undefined),
+    messages,
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Creates `t(key, params)` for a locale. Unknown keys fall back to English, then to the
+ * key itself, so a gap shows up on screen instead of throwing.
+ */
+export const translator = (locale: Locale): Translate => (key, params = {}) => {
+  const template = lookup(CATALOGS[locale], key) ?? lookup(CATALOGS[DEFAULT_LOCALE], key) ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+/** Picks the locale's version of a config string. */
+export const localize = (text: LocalizedText, locale: Locale): string =>
+  typeof text === 'string' ? text : text[locale] || text[DEFAULT_LOCALE];
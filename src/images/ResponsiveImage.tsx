@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { imageSet } from './index.ts';
+
+/**
+ * An `<img>` for a file in `public/` that lets the browser pick the smallest AVIF or WebP
+ * variant for the slot it fills, described by `sizes`, with a blurred placeholder painted
+ * until it loads. Images without variants (remote URLs) render as a plain `<img>`.
+ */
+const ResponsiveImage: React.FC<
+  Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'> & {
+    src: string;
+    alt: string;
+    /** Rendered width of the image, as in the `sizes` attribute, e.g. `(max-width: 768px) 100vw, 400px`. */
+    sizes: string;
+  }
+> = ({ src, alt, sizes, loading = 'lazy', style, onLoad, ...rest }) => {
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const set = imageSet(src);
+
+  if (!set) return <img src={src} alt={alt} loading={loading} style={style} onLoad={onLoad} {...rest} />;
+
+  // Transparent images would show the placeholder through, so it goes once the photo is in
+  const placeholder =
+    loadedSrc === src ? undefined : { backgroundImage: `url("${set.placeholder}")`, backgroundSize: 'cover' };
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={set.srcSet.avif} sizes={sizes} />
+      <source type="image/webp" srcSet={set.srcSet.webp} sizes={sizes} />
+      <img
+        src={set.fallback}
+        alt={alt}
+        width={set.width}
+        height={set.height}
+        loading={loading}
+        decoding="async"
+        style={{ ...placeholder, ...style }}
+        onLoad={(event) => {
+          setLoadedSrc(src);
+          onLoad?.(event);
+        }}
+        {...rest}
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
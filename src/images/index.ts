@@ -0,0 +1,22 @@
+import manifest from 'virtual:image-manifest';
+import type { ResponsiveImageSet } from './types.ts';
+
+export { IMAGE_FORMATS } from './types.ts';
+export type { ImageFormat, ImageManifest, ResponsiveImageSet } from './types.ts';
+
+/** The variants of a public image, or `undefined` for remote URLs and files the pipeline skipped. */
+export const imageSet = (src: string): ResponsiveImageSet | undefined => manifest[src];
+
+/**
+ * Starts downloading the variant the browser would pick for `src` at `sizes`,
+ * so it shows instantly when rendered later.
+ */
+export const preloadImage = (src: string, sizes: string): void => {
+  const set = imageSet(src);
+  const image = new Image();
+  if (set) {
+    image.sizes = sizes;
+    image.srcset = set.srcSet.webp;
+  }
+  image.src = set?.fallback ?? src;
+};
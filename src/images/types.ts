@@ -0,0 +1,20 @@
+/** Modern formats every image is encoded to, in the order browsers should try them. */
+export const IMAGE_FORMATS = ['avif', 'webp'] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/** The build-time variants of one image in `public/`. */
+export interface ResponsiveImageSet {
+  /** Displayed size of the original in pixels, after EXIF rotation. */
+  width: number;
+  height: number;
+  /** A few-pixel, blurred WebP as a data URI, painted until the photo arrives. */
+  placeholder: string;
+  /** JPEG (or PNG, if the original has transparency) for browsers without AVIF/WebP. */
+  fallback: string;
+  /** A `srcset` per format, narrowest first. */
+  srcSet: Record<ImageFormat, string>;
+}
+
+/** Keyed by the image's public URL, e.g. `/prenup/prenup1.jpeg`. */
+export type ImageManifest = Record<string, ResponsiveImageSet>;
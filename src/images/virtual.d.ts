@@ -0,0 +1,5 @@
+declare module 'virtual:image-manifest' {
+  /** Generated by `responsiveImagesPlugin` from the images in `public/`. */
+  const manifest: import('./types.ts').ImageManifest;
+  export default manifest;
+}
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { InviteContext } from './context.ts';
+import type { InviteState } from './context.ts';
+import { readInviteCode } from './inviteCode.ts';
+import type { RsvpClient } from '../rsvp/types.ts';
+
+/**
+ * Resolves the invite code in the current URL once and shares the household with the page.
+ */
+const InviteProvider: React.FC<{ client: RsvpClient; children: React.ReactNode }> = ({ client, children }) => {
+  const [invite, setInvite] = useState<InviteState>(() => {
+    const code = readInviteCode(window.location);
+    return code ? { status: 'loading', code } : { status: 'none' };
+  });
+
+  const code = invite.status === 'none' ? null : invite.code;
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+
+    client
+      .getInvite(code)
+      .then((household) => {
+        if (cancelled) return;
+        setInvite(household ? { status: 'found', code, household } : { status: 'unknown', code });
+      })
+      .catch((error) => {
+        console.error('Invite lookup failed:', error);
+        if (!cancelled) setInvite({ status: 'unknown', code });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, code]);
+
+  return <InviteContext.Provider value={invite}>{children}</InviteContext.Provider>;
+};
+
+export default InviteProvider;
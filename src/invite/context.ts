@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { Household } from '../rsvp/types.ts';
+
+/**
+ * What we know about the visitor's invitation.
+ * `none` means they arrived without a code; `unknown` means the code didn't resolve
+ * (typo, revoked, or the lookup failed) and the site falls back to the generic experience.
+ */
+export type InviteState =
+  | { status: 'none' }
+  | { status: 'loading'; code: string }
+  | { status: 'found'; code: string; household: Household }
+  | { status: 'unknown'; code: string };
+
+export const InviteContext = createContext<InviteState>({ status: 'none' });
+
+export const useInvite = (): InviteState => useContext(InviteContext);
+
+/** The household for the current visitor, once resolved. */
+export const useHousehold = (): Household | null => {
+  const invite = useInvite();
+  return invite.status === 'found' ? invite.household : null;
+};
@@ -0,0 +1,29 @@
+const INVITE_CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+const INVITE_PATH_PATTERN = /^\/i\/([^/]+)\/?$/;
+
+/**
+ * Normalizes a code typed or pasted by a guest ("abc-123 " -> "ABC123").
+ * @returns {string | null} - The canonical code, or `null` if it can't be a valid code.
+ */
+export const normalizeInviteCode = (raw: string | null | undefined): string | null => {
+  if (!raw) return null;
+  const code = raw.toUpperCase().replace(/[\s-]/g, '');
+  return INVITE_CODE_PATTERN.test(code) ? code : null;
+};
+
+/**
+ * Reads the invite code from either `?invite=ABC123` or an `/i/ABC123` path.
+ */
+export const readInviteCode = (location: { pathname: string; search: string }): string | null => {
+  const fromQuery = new URLSearchParams(location.search).get('invite');
+  if (fromQuery) return normalizeInviteCode(fromQuery);
+
+  const match = INVITE_PATH_PATTERN.exec(location.pathname);
+  if (!match) return null;
+  try {
+    return normalizeInviteCode(decodeURIComponent(match[1]));
+  } catch {
+    // A broken escape such as `/i/%E0%A4` can't be a code
+    return null;
+  }
+};
@@ -0,0 +1,18 @@
+// Slow enough that trying every possible code against a downloaded list takes far too long,
+// quick enough for the one code a guest's browser checks
+const ITERATIONS = 100_000;
+
+/**
+ * A salted PBKDF2-SHA-256 of an invite code, in hex. Builds without a server look invites up
+ * by this, so the list shipped to the browser doesn't spell out every code.
+ */
+export const hashInviteCode = async (code: string, salt: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(code), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations: ITERATIONS },
+    key,
+    256,
+  );
+  return [...new Uint8Array(bits)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
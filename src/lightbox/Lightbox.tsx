@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useI18n } from '../i18n/context.ts';
+import { preloadImage } from '../images/index.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import { clampZoom, distance, MIN_ZOOM, swipeAction, trapFocus, wrapIndex } from './gestures.ts';
+import type { Point } from './gestures.ts';
+
+export interface LightboxItem {
+  src: string;
+  alt: string;
+  caption?: string;
+}
+
+type Gesture =
+  | { kind: 'swipe'; start: Point; last: Point }
+  | { kind: 'pan'; start: Point; origin: Point }
+  | { kind: 'pinch'; startDistance: number; startScale: number };
+
+// The photo fills at most the viewport; `sizes` picks the variant for that
+const VIEWPORT = '100vw';
+
+const touchPoint = (touch: React.Touch): Point => ({ x: touch.clientX, y: touch.clientY });
+
+/**
+ * A full-screen viewer for a list of images: arrow keys, buttons and swipes move between
+ * them, pinch, double-tap or ctrl+wheel zooms, Escape or a downward swipe closes.
+ * It is controlled: the parent owns the open index (e.g. in the URL) and renders it only while open.
+ */
+const Lightbox: React.FC<{
+  items: LightboxItem[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+  /** Accessible name of the dialog. */
+  label?: string;
+}> = ({ items, index, onNavigate, onClose, label }) => {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const lastTap = useRef(0);
+  const [zoom, setZoom] = useState({ scale: MIN_ZOOM, x: 0, y: 0 });
+
+  const item = items[index];
+  const hasSiblings = items.length > 1;
+  const isZoomed = zoom.scale > MIN_ZOOM;
+
+  // Every photo starts unzoomed
+  useEffect(() => {
+    setZoom({ scale: MIN_ZOOM, x: 0, y: 0 });
+  }, [index]);
+
+  // Lock page scroll while open and hand focus back to whatever opened us
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    const previousFocus = document.activeElement as HTMLElement | null;
+    document.body.style.overflow = 'hidden';
+    closeRef.current?.focus();
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previousFocus?.focus?.();
+    };
+  }, []);
+
+  // Warm the cache so the neighbours appear instantly
+  useEffect(() => {
+    if (!hasSiblings) return;
+    for (const step of [1, -1]) {
+      preloadImage(items[wrapIndex(index, step, items.length)].src, VIEWPORT);
+    }
+  }, [items, index, hasSiblings]);
+
+  const go = (step: number) => {
+    if (hasSiblings) onNavigate(wrapIndex(index, step, items.length));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      go(1);
+    } else if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      go(-1);
+    } else if (event.key === 'Tab' && dialogRef.current && trapFocus(dialogRef.current, event.nativeEvent)) {
+      event.preventDefault();
+    }
+  };
+
+  const toggleZoom = () => setZoom((current) => (current.scale > MIN_ZOOM ? { scale: MIN_ZOOM, x: 0, y: 0 } : { ...current, scale: 2 }));
+
+  const handleTouchStart = (event: React.TouchEvent) => {
+    const touches = event.touches;
+    if (touches.length === 2) {
+      gesture.current = {
+        kind: 'pinch',
+        startDistance: distance(touchPoint(touches[0]), touchPoint(touches[1])),
+        startScale: zoom.scale,
+      };
+    } else if (touches.length === 1) {
+      const start = touchPoint(touches[0]);
+      gesture.current = isZoomed ? { kind: 'pan', start, origin: { x: zoom.x, y: zoom.y } } : { kind: 'swipe', start, last: start };
+    }
+  };
+
+  const handleTouchMove = (event: React.TouchEvent) => {
+    const current = gesture.current;
+    const touches = event.touches;
+    if (current?.kind === 'pinch' && touches.length === 2) {
+      const scale = clampZoom((current.startScale * distance(touchPoint(touches[0]), touchPoint(touches[1]))) / current.startDistance);
+      setZoom((previous) => (scale === MIN_ZOOM ? { scale, x: 0, y: 0 } : { ...previous, scale }));
+    } else if (current?.kind === 'pan' && touches.length === 1) {
+      const point = touchPoint(touches[0]);
+      setZoom((previous) => ({
+        ...previous,
+        x: current.origin.x + point.x - current.start.x,
+        y: current.origin.y + point.y - current.start.y,
+      }));
+    } else if (current?.kind === 'swipe' && touches.length === 1) {
+      current.last = touchPoint(touches[0]);
+    }
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    const current = gesture.current;
+    if (event.touches.length > 0) return;
+    gesture.current = null;
+    if (current?.kind !== 'swipe') return;
+
+    const action = swipeAction(current.start, current.last);
+    if (action === 'next') go(1);
+    else if (action === 'previous') go(-1);
+    else if (action === 'close') onClose();
+    else if (distance(current.start, current.last) < 10) {
+      // Two quick taps zoom in or out
+      const now = Date.now();
+      if (now - lastTap.current < 300) toggleZoom();
+      lastTap.current = now;
+    }
+  };
+
+  const handleWheel = (event: React.WheelEvent) => {
+    // Trackpad pinches arrive as ctrl+wheel
+    if (!event.ctrlKey) return;
+    const scale = clampZoom(zoom.scale * (event.deltaY < 0 ? 1.1 : 0.9));
+    setZoom((previous) => (scale === MIN_ZOOM ? { scale, x: 0, y: 0 } : { ...previous, scale }));
+  };
+
+  if (!item) return null;
+
+  return createPortal(
+    <div className="lightbox-overlay" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        className="lightbox"
+        role="dialog"
+        aria-modal="true"
+        aria-label={label ?? t('lightbox.label')}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="lightbox-toolbar">
+          {hasSiblings && (
+            <span className="lightbox-counter" aria-live="polite">
+              {t('lightbox.counter', { current: index + 1, total: items.length })}
+            </span>
+          )}
+          <button ref={closeRef} type="button" className="lightbox-close" onClick={onClose} aria-label={t('common.close')}>
+            ✕
+          </button>
+        </div>
+
+        <div
+          className={`lightbox-stage ${isZoomed ? 'zoomed' : ''}`}
+          onTouchStart={handleTouchStart}
+          onTouchMove={handleTouchMove}
+          onTouchEnd={handleTouchEnd}
+          onTouchCancel={() => (gesture.current = null)}
+          onWheel={handleWheel}
+          onDoubleClick={toggleZoom}
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <ResponsiveImage
+            key={item.src}
+            src={item.src}
+            alt={item.alt}
+            sizes={VIEWPORT}
+            loading="eager"
+            className="lightbox-image"
+            draggable={false}
+            style={{ transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }}
+          />
+        </div>
+
+        {item.caption && <p className="lightbox-caption">{item.caption}</p>}
+
+        {hasSiblings && (
+          <>
+            <button type="button" className="lightbox-nav previous" onClick={() => go(-1)} aria-label={t('lightbox.previous')}>
+              ‹
+            </button>
+            <button type="button" className="lightbox-nav next" onClick={() => go(1)} aria-label={t('lightbox.next')}>
+              ›
+            </button>
+          </>
+        )}
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default Lightbox;
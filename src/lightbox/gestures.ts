@@ -0,0 +1,59 @@
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+// A horizontal drag shorter than this is treated as a tap
+const SWIPE_DISTANCE = 50;
+// Dragging down this far dismisses the lightbox
+const DISMISS_DISTANCE = 100;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const clampZoom = (scale: number): number => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+export const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Classifies a finished one-finger drag on an unzoomed photo.
+ * `next`/`previous` follow the finger (swiping left shows the next photo).
+ */
+export const swipeAction = (start: Point, end: Point): 'next' | 'previous' | 'close' | null => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  if (Math.abs(dx) > Math.abs(dy)) {
+    if (dx <= -SWIPE_DISTANCE) return 'next';
+    if (dx >= SWIPE_DISTANCE) return 'previous';
+  } else if (dy >= DISMISS_DISTANCE) {
+    return 'close';
+  }
+  return null;
+};
+
+/** Moves an index by `step`, wrapping around both ends of the list. */
+export const wrapIndex = (index: number, step: number, count: number): number => (index + step + count) % count;
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select, textarea, [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keeps Tab and Shift+Tab inside `container`.
+ * @returns {boolean} - Whether focus was moved (and the key press should be cancelled).
+ */
+export const trapFocus = (container: HTMLElement, event: KeyboardEvent): boolean => {
+  const focusable = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+  if (focusable.length === 0) return false;
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+
+  if (event.shiftKey && (active === first || !container.contains(active))) {
+    last.focus();
+    return true;
+  }
+  if (!event.shiftKey && (active === last || !container.contains(active))) {
+    first.focus();
+    return true;
+  }
+  return false;
+};
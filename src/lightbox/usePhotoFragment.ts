@@ -0,0 +1,45 @@
+import { useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import type { ScrollState } from '../routing/ScrollToHash.tsx';
+
+const PRESERVE_SCROLL: ScrollState = { preserveScroll: true };
+
+/**
+ * Keeps the open photo in the URL fragment (`#photo-3`), so a picture can be shared and
+ * the browser's Back button closes the viewer.
+ * @param {number} count - Number of photos; fragments outside the list are ignored.
+ * @param {string} prefix - Fragment prefix, also used for the thumbnails' ids.
+ * @returns {object} - The open index (or `null`) and functions to open, move and close.
+ */
+export const usePhotoFragment = (count: number, prefix = 'photo') => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Whether we pushed the history entry, in which case closing can simply go back
+  const pushed = useRef(false);
+
+  const match = new RegExp(`^#${prefix}-(\\d+)$`).exec(location.hash);
+  const number = match ? Number(match[1]) : 0;
+  const index = number >= 1 && number <= count ? number - 1 : null;
+
+  const to = (hash: string) => ({ pathname: location.pathname, search: location.search, hash });
+
+  const open = (next: number) => {
+    pushed.current = true;
+    navigate(to(`#${prefix}-${next + 1}`), { state: PRESERVE_SCROLL });
+  };
+
+  const show = (next: number) => {
+    navigate(to(`#${prefix}-${next + 1}`), { replace: true, state: PRESERVE_SCROLL });
+  };
+
+  const close = () => {
+    if (pushed.current) {
+      pushed.current = false;
+      navigate(-1);
+    } else {
+      navigate(to(''), { replace: true, state: PRESERVE_SCROLL });
+    }
+  };
+
+  return { index, open, show, close, idFor: (i: number) => `${prefix}-${i + 1}` };
+};
@@ -0,0 +1,35 @@
+import { screen, within } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import LocationSlider from './LocationSlider.tsx';
+
+const t = translator('en');
+
+describe('LocationSlider', () => {
+  it('shows every venue with a map link', () => {
+    renderWithProviders(<LocationSlider />, { phase: 'rsvp-open' });
+
+    for (const venue of wedding.venues) {
+      const card = screen.getByRole('heading', { level: 4, name: venue.name }).closest('.location-card') as HTMLElement;
+      expect(within(card).getByText(venue.address)).toBeInTheDocument();
+      expect(within(card).getByRole('link', { name: t('location.viewMap') })).toHaveAttribute('href', venue.mapUrl);
+    }
+  });
+
+  it('lists the program and marks the item under way on the day', () => {
+    const { container } = renderWithProviders(<LocationSlider />, { phase: 'day-of' });
+    const items = container.querySelectorAll('.timeline-item');
+
+    expect(items).toHaveLength(wedding.timeline.items.length);
+    expect(items[0]).toHaveTextContent(localize(wedding.timeline.items[0].label, 'en'));
+    expect(items[0]).toHaveAttribute('aria-current', 'time');
+    expect(container.querySelectorAll('[aria-current]')).toHaveLength(1);
+  });
+
+  it('marks nothing before the wedding day', () => {
+    const { container } = renderWithProviders(<LocationSlider />, { phase: 'rsvp-open' });
+    expect(container.querySelectorAll('[aria-current]')).toHaveLength(0);
+  });
+});
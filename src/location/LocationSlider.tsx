@@ -0,0 +1,80 @@
+import React from 'react';
+import AddToCalendar from '../calendar/AddToCalendar.tsx';
+import { wedding } from '../config/index.ts';
+import { useWeddingClock } from '../countdown/useWeddingClock.ts';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import DirectionsLinks from '../maps/DirectionsLinks.tsx';
+import VenueMap from '../maps/VenueMap.tsx';
+
+const LocationSlider: React.FC = () => {
+  const { t, text, formatTime } = useI18n();
+  const { currentItem } = useWeddingClock();
+  return (
+    <section className="location-section" id="location">
+      <div className="location-container">
+        <h2 className="location-title">{t('location.title')}</h2>
+        <p className="location-description">
+          {t('location.description')}
+        </p>
+
+        <div className="location-grid">
+          {wedding.venues.map((venue) => (
+            <div className="location-card" key={venue.id}>
+              <h3 className="venue-type">{text(venue.type)}</h3>
+              {venue.image && (
+                <ResponsiveImage
+                  src={venue.image}
+                  alt={venue.name}
+                  sizes="(max-width: 768px) 100vw, 50vw"
+                  className="venue-image"
+                />
+              )}
+              <h4 className="venue-name">{venue.name}</h4>
+              <p className="venue-address">{venue.address}</p>
+              {venue.time && (
+                <p className="venue-time">{t('location.venueTime', { type: text(venue.type), time: formatTime(venue.time) })}</p>
+              )}
+              <a
+                href={venue.mapUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="map-button"
+              >
+                {t('location.viewMap')}
+              </a>
+              {venue.coordinates && <DirectionsLinks to={venue.coordinates} place={venue.name} />}
+            </div>
+          ))}
+        </div>
+
+        <VenueMap />
+
+        {/* Program Flow */}
+      {/* Program Flow Timeline */}
+<div className="program-flow">
+  <h3 className="program-title">{text(wedding.timeline.title)}</h3>
+  <p className="program-subtitle">{text(wedding.timeline.subtitle)}</p>
+
+  <div className="timeline">
+    {wedding.timeline.items.map((item, index) => (
+      <div
+        className={`timeline-item ${index === currentItem ? 'current' : ''}`}
+        key={item.time}
+        aria-current={index === currentItem ? 'time' : undefined}
+      >
+        <span className="timeline-time">{formatTime(item.time)}</span>
+        <span className="timeline-dot"></span>
+        <span className="timeline-event">{text(item.label)}</span>
+      </div>
+    ))}
+  </div>
+  <AddToCalendar />
+</div>
+
+      </div>
+    </section>
+  );
+};
+
+export default LocationSlider;
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { Coordinates } from '../config/schema.ts';
+import { useI18n } from '../i18n/context.ts';
+import { appleMapsUrl, googleMapsUrl, wazeUrl } from './links.ts';
+import type { TravelMode } from './links.ts';
+
+interface DirectionsLinksProps {
+  to: Coordinates;
+  /** Start of the route; the guest's own location when left out. */
+  from?: Coordinates;
+  mode?: TravelMode;
+  /** Where the directions lead, for screen readers: "Directions to {place} in Waze". */
+  place: string;
+}
+
+/** "Open in Waze / Google Maps / Apple Maps" links with directions to `to`. */
+const DirectionsLinks: React.FC<DirectionsLinksProps> = ({ to, from, mode = 'driving', place }) => {
+  const { t } = useI18n();
+  const apps = [
+    // Waze only drives, and always from where the guest is
+    ...(mode === 'driving' ? [{ name: 'Waze', href: wazeUrl(to) }] : []),
+    { name: 'Google Maps', href: googleMapsUrl(to, from, mode) },
+    { name: 'Apple Maps', href: appleMapsUrl(to, from, mode) },
+  ];
+  return (
+    <div className="directions-links">
+      <span className="directions-links-label">{t('map.openIn')}</span>
+      {apps.map((app) => (
+        <a
+          key={app.name}
+          href={app.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          aria-label={t('map.directionsIn', { place, app: app.name })}
+        >
+          {app.name}
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export default DirectionsLinks;
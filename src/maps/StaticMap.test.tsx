@@ -0,0 +1,72 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import type * as Config from '../config/index.ts';
+import type { VenueMap } from '../config/schema.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import { mapPins, mapRoute } from './features.ts';
+import StaticMap from './StaticMap.tsx';
+
+const config = vi.hoisted(() => ({ map: undefined as VenueMap | undefined }));
+
+vi.mock('../config/index.ts', async (importOriginal) => {
+  const actual = await importOriginal<typeof Config>();
+  config.map = actual.wedding.map;
+  return {
+    ...actual,
+    wedding: {
+      ...actual.wedding,
+      get map() {
+        return config.map;
+      },
+    },
+  };
+});
+
+const t = translator('en');
+const pins = mapPins(wedding, 'en');
+const route = mapRoute(wedding, pins);
+
+// Where each pin is drawn, from its `translate(x y)`
+const pinPositions = (container: HTMLElement) =>
+  [...container.querySelectorAll('g.venue-map-pin')].map((pin) =>
+    (pin.getAttribute('transform')?.match(/[\d.]+/g) ?? []).map(Number),
+  );
+
+describe('StaticMap', () => {
+  it('sketches every pin and the route to scale inside the map', () => {
+    const { container } = renderWithProviders(<StaticMap pins={pins} route={route} />);
+
+    const sketch = screen.getByRole('img', { name: t('map.sketchLabel') });
+    expect(sketch).toHaveAttribute('viewBox', '0 0 640 400');
+    expect(pinPositions(container)).toHaveLength(pins.length);
+    for (const [x, y] of pinPositions(container)) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(640);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(400);
+    }
+    expect(container.querySelector('polyline.venue-map-route-driving')?.getAttribute('points')?.split(' ')).toHaveLength(
+      route!.path.length,
+    );
+  });
+
+  it('names only the venues on the sketch', () => {
+    const { container } = renderWithProviders(<StaticMap pins={pins} route={null} />);
+
+    expect([...container.querySelectorAll('.venue-map-sketch-label')].map((label) => label.textContent)).toEqual(
+      pins.filter((pin) => pin.kind === 'venue').map((pin) => pin.name),
+    );
+    expect(container.querySelector('polyline')).toBeNull();
+    expect(screen.getByText(t('map.sketchNote'))).toBeInTheDocument();
+  });
+
+  it('shows the couple’s own map image instead when the config has one', () => {
+    config.map = { ...config.map!, staticImage: { src: '/maps/venues.png', alt: { en: 'Map to the venues', tl: 'Mapa' } } };
+    renderWithProviders(<StaticMap pins={pins} route={route} />);
+
+    expect(screen.getByRole('img', { name: 'Map to the venues' })).toHaveAttribute('src', '/maps/venues.png');
+    expect(screen.queryByRole('img', { name: t('map.sketchLabel') })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import { mapPoints } from './features.ts';
+import type { MapPin, MapRoute } from './features.ts';
+import { fitProjection } from './projection.ts';
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const PADDING = 48;
+const PIN_RADIUS = 15;
+
+interface StaticMapProps {
+  pins: MapPin[];
+  route: MapRoute | null;
+}
+
+/**
+ * The map without tiles: `map.staticImage` when the config has one, otherwise a sketch of the
+ * pins and route drawn to scale. Needs no network, so it is what offline guests see.
+ */
+const StaticMap: React.FC<StaticMapProps> = ({ pins, route }) => {
+  const { t, text } = useI18n();
+  const staticImage = wedding.map?.staticImage;
+
+  if (staticImage) {
+    return (
+      <ResponsiveImage
+        src={staticImage.src}
+        alt={text(staticImage.alt)}
+        sizes="(max-width: 1000px) 100vw, 1000px"
+        className="venue-map-static"
+      />
+    );
+  }
+
+  const project = fitProjection(mapPoints(pins, route), WIDTH, HEIGHT, PADDING);
+  const path = route?.path.map((coordinates) => {
+    const { x, y } = project(coordinates);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg
+      className="venue-map-static venue-map-sketch"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label={t('map.sketchLabel')}
+    >
+      <rect width={WIDTH} height={HEIGHT} className="venue-map-sketch-ground" />
+      {route && path && (
+        <polyline points={path.join(' ')} className={`venue-map-route venue-map-route-${route.mode}`} />
+      )}
+      {pins.map((pin) => {
+        const { x, y } = project(pin.coordinates);
+        return (
+          <g key={pin.id} className={`venue-map-pin venue-map-pin-${pin.kind}`} transform={`translate(${x.toFixed(1)} ${y.toFixed(1)})`}>
+            <circle r={PIN_RADIUS} />
+            <text className="venue-map-pin-symbol" textAnchor="middle" dominantBaseline="central">
+              {pin.symbol}
+            </text>
+            {pin.kind === 'venue' && (
+              <text className="venue-map-sketch-label" y={PIN_RADIUS + 16} textAnchor="middle">
+                {pin.name}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <text className="venue-map-sketch-note" x={WIDTH - 12} y={HEIGHT - 12} textAnchor="end">
+        {t('map.sketchNote')}
+      </text>
+    </svg>
+  );
+};
+
+export default StaticMap;
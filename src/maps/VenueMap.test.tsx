@@ -0,0 +1,91 @@
+import { act, screen, waitFor, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import { mapPins, mapRoute } from './features.ts';
+import type { MapCallbacks } from './leafletMap.ts';
+import VenueMap from './VenueMap.tsx';
+
+const { createVenueMap, remove } = vi.hoisted(() => {
+  const remove = vi.fn();
+  return { remove, createVenueMap: vi.fn<(...args: unknown[]) => { remove: () => void }>(() => ({ remove })) };
+});
+
+vi.mock('./leafletMap.ts', () => ({ createVenueMap }));
+
+const t = translator('en');
+const pins = mapPins(wedding, 'en');
+const route = mapRoute(wedding, pins)!;
+
+/** Waits for Leaflet to be asked for the map, and returns how the map reports back. */
+const leafletCallbacks = async (): Promise<MapCallbacks> => {
+  await waitFor(() => expect(createVenueMap).toHaveBeenCalled());
+  return createVenueMap.mock.calls[0][3] as MapCallbacks;
+};
+
+describe('VenueMap', () => {
+  it('shows the live map once its tiles draw, with every pin in the legend', async () => {
+    renderWithProviders(<VenueMap />);
+    const region = screen.getByRole('region', { name: t('map.label') });
+    expect(region).toHaveAttribute('aria-busy', 'true');
+
+    const { onReady } = await leafletCallbacks();
+    expect(createVenueMap).toHaveBeenCalledWith(region, pins, route, expect.anything());
+    act(onReady);
+
+    expect(region).toHaveAttribute('aria-busy', 'false');
+    const legend = screen.getByRole('list');
+    expect(within(legend).getAllByRole('listitem').map((item) => item.querySelector('strong')?.textContent)).toEqual(
+      pins.map((pin) => pin.name),
+    );
+    expect(screen.queryByText(t('map.offline'))).not.toBeInTheDocument();
+  });
+
+  it('describes the route between the venues, with directions along it', () => {
+    renderWithProviders(<VenueMap />);
+
+    expect(
+      screen.getByText(
+        `${t('map.routeDriving', { from: route.from.name, to: route.to.name })} ${t('map.routeMinutes', { minutes: route.minutes! })}`,
+      ),
+    ).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: t('map.directionsIn', { place: route.to.name, app: 'Waze' }) })).toBeInTheDocument();
+  });
+
+  it('swaps in the sketch when the tiles don’t load', async () => {
+    renderWithProviders(<VenueMap />);
+    const { onFail } = await leafletCallbacks();
+    act(onFail);
+
+    expect(screen.getByRole('img', { name: t('map.sketchLabel') })).toBeInTheDocument();
+    expect(screen.getByText(t('map.offline'))).toBeInTheDocument();
+    expect(screen.queryByRole('region', { name: t('map.label') })).not.toBeInTheDocument();
+    expect(remove).toHaveBeenCalledOnce();
+  });
+
+  it('shows the sketch without trying the live map while offline', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    renderWithProviders(<VenueMap />);
+
+    expect(screen.getByRole('img', { name: t('map.sketchLabel') })).toBeInTheDocument();
+    expect(createVenueMap).not.toHaveBeenCalled();
+  });
+
+  it('shows the sketch when Leaflet fails to start', async () => {
+    createVenueMap.mockImplementation(() => {
+      throw new Error('Map container not found');
+    });
+    renderWithProviders(<VenueMap />);
+
+    expect(await screen.findByRole('img', { name: t('map.sketchLabel') })).toBeInTheDocument();
+  });
+
+  it('lets go of the live map when the section goes away', async () => {
+    const { unmount } = renderWithProviders(<VenueMap />);
+    await leafletCallbacks();
+    unmount();
+
+    expect(remove).toHaveBeenCalledOnce();
+  });
+});
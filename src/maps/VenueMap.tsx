@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import DirectionsLinks from './DirectionsLinks.tsx';
+import { mapPins, mapRoute } from './features.ts';
+import StaticMap from './StaticMap.tsx';
+
+type MapStatus = 'loading' | 'ready' | 'fallback';
+
+/**
+ * The venues, parking and landmarks on an OpenStreetMap map, with the route between the
+ * venues and directions to follow it. Leaflet loads only once the section renders; offline,
+ * or when the tiles don't load, the static map takes its place.
+ */
+const VenueMap: React.FC = () => {
+  const { t, locale } = useI18n();
+  const pins = useMemo(() => mapPins(wedding, locale), [locale]);
+  const route = useMemo(() => mapRoute(wedding, pins), [pins]);
+  const container = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<MapStatus>(() => (navigator.onLine ? 'loading' : 'fallback'));
+  const failed = status === 'fallback';
+
+  useEffect(() => {
+    const element = container.current;
+    if (failed || !element || pins.length === 0) return;
+    let cancelled = false;
+    let remove = () => {};
+    import('./leafletMap.ts')
+      .then(({ createVenueMap }) => {
+        if (cancelled) return;
+        const map = createVenueMap(element, pins, route, {
+          onReady: () => setStatus('ready'),
+          onFail: () => setStatus('fallback'),
+        });
+        remove = () => map.remove();
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('fallback');
+      });
+    return () => {
+      cancelled = true;
+      remove();
+    };
+  }, [failed, pins, route]);
+
+  if (pins.length === 0) return null;
+
+  return (
+    <div className="venue-map">
+      <h3 className="venue-map-title">{t('map.title')}</h3>
+      <div className={`venue-map-frame ${status}`}>
+        {failed ? (
+          <StaticMap pins={pins} route={route} />
+        ) : (
+          <div
+            ref={container}
+            className="venue-map-canvas"
+            role="region"
+            aria-label={t('map.label')}
+            aria-busy={status === 'loading'}
+          />
+        )}
+      </div>
+      {failed && <p className="venue-map-offline">{t('map.offline')}</p>}
+
+      <ul className="venue-map-legend">
+        {pins.map((pin) => (
+          <li key={pin.id} className={`venue-map-legend-item ${pin.kind}`}>
+            <span className={`venue-map-pin venue-map-pin-${pin.kind}`} aria-hidden="true">
+              <span className="venue-map-pin-symbol">{pin.symbol}</span>
+            </span>
+            <span>
+              <strong>{pin.name}</strong>
+              {pin.note && <span className="venue-map-legend-note">{pin.note}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {route && (
+        <div className="venue-map-route-info">
+          <p>
+            {t(route.mode === 'walking' ? 'map.routeWalking' : 'map.routeDriving', {
+              from: route.from.name,
+              to: route.to.name,
+            })}
+            {route.minutes !== undefined && ` ${t('map.routeMinutes', { minutes: route.minutes })}`}
+          </p>
+          <DirectionsLinks
+            to={route.to.coordinates}
+            from={route.from.coordinates}
+            mode={route.mode}
+            place={route.to.name}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VenueMap;
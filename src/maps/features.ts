@@ -0,0 +1,63 @@
+import type { Coordinates, WeddingConfig } from '../config/schema.ts';
+import { localize } from '../i18n/translate.ts';
+import type { Locale } from '../i18n/locales.ts';
+import type { TravelMode } from './links.ts';
+
+export type PinKind = 'venue' | 'parking' | 'landmark';
+
+export interface MapPin {
+  id: string;
+  kind: PinKind;
+  name: string;
+  /** What the pin shows: the venue's number, "P" for parking, a star for landmarks. */
+  symbol: string;
+  note?: string;
+  coordinates: Coordinates;
+}
+
+export interface MapRoute {
+  mode: TravelMode;
+  minutes?: number;
+  from: MapPin;
+  to: MapPin;
+  path: Coordinates[];
+}
+
+const SYMBOLS: Record<Exclude<PinKind, 'venue'>, string> = { parking: 'P', landmark: '★' };
+
+/** Venues with coordinates, numbered in config order, then the parking and landmark points. */
+export const mapPins = (config: WeddingConfig, locale: Locale): MapPin[] => {
+  const venues = config.venues.flatMap(({ coordinates, ...venue }) => (coordinates ? [{ ...venue, coordinates }] : []));
+  return [
+    ...venues.map((venue, index) => ({
+      id: venue.id,
+      kind: 'venue' as const,
+      name: venue.name,
+      symbol: String(index + 1),
+      note: localize(venue.type, locale),
+      coordinates: venue.coordinates,
+    })),
+    ...(config.map?.points ?? []).map((point, index) => ({
+      id: `${point.kind}-${index}`,
+      kind: point.kind,
+      name: localize(point.name, locale),
+      symbol: SYMBOLS[point.kind],
+      note: point.note && localize(point.note, locale),
+      coordinates: point.coordinates,
+    })),
+  ];
+};
+
+/** The route between the first two pinned venues, when the config draws one. */
+export const mapRoute = (config: WeddingConfig, pins: MapPin[]): MapRoute | null => {
+  const venues = pins.filter((pin) => pin.kind === 'venue');
+  const route = config.map?.route;
+  if (!route || venues.length < 2) return null;
+  return { mode: route.mode, minutes: route.minutes, from: venues[0], to: venues[1], path: route.path };
+};
+
+/** Every point the map has to show: the pins and the route's bends. */
+export const mapPoints = (pins: MapPin[], route: MapRoute | null): Coordinates[] => [
+  ...pins.map((pin) => pin.coordinates),
+  ...(route?.path ?? []),
+];
@@ -0,0 +1,6 @@
+export { mapPins, mapPoints, mapRoute } from './features.ts';
+export type { MapPin, MapRoute, PinKind } from './features.ts';
+export { appleMapsUrl, googleMapsUrl, wazeUrl } from './links.ts';
+export type { TravelMode } from './links.ts';
+export { fitProjection } from './projection.ts';
+export type { Point } from './projection.ts';
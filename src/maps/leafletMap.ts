@@ -0,0 +1,96 @@
+import { divIcon, latLngBounds, map as createLeafletMap, marker, polyline, tileLayer } from 'leaflet';
+import type { LatLngTuple, Map } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { Coordinates } from '../config/schema.ts';
+import { mapPoints } from './features.ts';
+import type { MapPin, MapRoute } from './features.ts';
+
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// A few failed tiles are normal on a bad connection; this many before any loads means none will
+const TILE_ERRORS = 4;
+// Give up on slow networks rather than show a grey box
+const TILE_TIMEOUT_MS = 10_000;
+
+const latLng = ({ lat, lng }: Coordinates): LatLngTuple => [lat, lng];
+
+// Built from text nodes: names and notes come from the config
+const element = (tag: string, className: string, text: string): HTMLElement => {
+  const node = document.createElement(tag);
+  node.className = className;
+  node.textContent = text;
+  return node;
+};
+
+const popup = (pin: MapPin): HTMLElement => {
+  const content = document.createElement('div');
+  content.append(element('strong', 'venue-map-popup-name', pin.name));
+  if (pin.note) content.append(element('p', 'venue-map-popup-note', pin.note));
+  return content;
+};
+
+export interface MapCallbacks {
+  /** The first tile has drawn. */
+  onReady: () => void;
+  /** Tiles aren't loading; show the static map instead. */
+  onFail: () => void;
+}
+
+/**
+ * Draws the pins and route on OpenStreetMap tiles in `container`. Call `remove()` on the
+ * result to tear it down. Scroll-wheel zoom is off so the page scrolls past the map.
+ */
+export const createVenueMap = (
+  container: HTMLElement,
+  pins: MapPin[],
+  route: MapRoute | null,
+  { onReady, onFail }: MapCallbacks,
+): Map => {
+  const map = createLeafletMap(container, { scrollWheelZoom: false });
+
+  let loaded = false;
+  let errors = 0;
+  const timeout = setTimeout(() => {
+    if (!loaded) onFail();
+  }, TILE_TIMEOUT_MS);
+  map.on('unload', () => clearTimeout(timeout));
+
+  tileLayer(TILE_URL, { maxZoom: 19, attribution: ATTRIBUTION })
+    .on('tileload', () => {
+      if (loaded) return;
+      loaded = true;
+      clearTimeout(timeout);
+      onReady();
+    })
+    .on('tileerror', () => {
+      errors += 1;
+      if (!loaded && errors === TILE_ERRORS) onFail();
+    })
+    .addTo(map);
+
+  if (route) {
+    polyline(route.path.map(latLng), {
+      className: `venue-map-route venue-map-route-${route.mode}`,
+      interactive: false,
+    }).addTo(map);
+  }
+
+  for (const pin of pins) {
+    marker(latLng(pin.coordinates), {
+      icon: divIcon({
+        className: `venue-map-pin venue-map-pin-${pin.kind}`,
+        html: element('span', 'venue-map-pin-symbol', pin.symbol),
+        iconSize: [30, 30],
+        popupAnchor: [0, -15],
+      }),
+      title: pin.name,
+      alt: pin.name,
+    })
+      .bindPopup(popup(pin))
+      .addTo(map);
+  }
+
+  map.fitBounds(latLngBounds(mapPoints(pins, route).map(latLng)), { padding: [32, 32] });
+  return map;
+};
@@ -0,0 +1,23 @@
+import type { Coordinates } from '../config/schema.ts';
+
+export type TravelMode = 'driving' | 'walking';
+
+const point = ({ lat, lng }: Coordinates): string => `${lat},${lng}`;
+
+/** Waze navigation to `to` from wherever the guest is. Waze only does driving directions. */
+export const wazeUrl = (to: Coordinates): string =>
+  `https://waze.com/ul?${new URLSearchParams({ ll: point(to), navigate: 'yes' })}`;
+
+/** Google Maps directions; without `from` they start at the guest's location. */
+export const googleMapsUrl = (to: Coordinates, from?: Coordinates, mode: TravelMode = 'driving'): string => {
+  const params = new URLSearchParams({ api: '1', destination: point(to), travelmode: mode });
+  if (from) params.set('origin', point(from));
+  return `https://www.google.com/maps/dir/?${params}`;
+};
+
+/** Apple Maps directions; opens the Maps app on Apple devices and the web map elsewhere. */
+export const appleMapsUrl = (to: Coordinates, from?: Coordinates, mode: TravelMode = 'driving'): string => {
+  const params = new URLSearchParams({ daddr: point(to), dirflg: mode === 'walking' ? 'w' : 'd' });
+  if (from) params.set('saddr', point(from));
+  return `https://maps.apple.com/?${params}`;
+};
@@ -0,0 +1,46 @@
+import type { Coordinates } from '../config/schema.ts';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Web Mercator, the projection map tiles use, scaled so the world is 1 unit wide
+const mercator = ({ lat, lng }: Coordinates): Point => {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: (lng + 180) / 360,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+  };
+};
+
+/**
+ * Projects `points` into a `width` × `height` box with `padding` on every side, keeping the
+ * map's proportions. Returns a function that places any coordinate in the same box.
+ */
+export const fitProjection = (
+  points: Coordinates[],
+  width: number,
+  height: number,
+  padding: number,
+): ((coordinates: Coordinates) => Point) => {
+  const projected = points.map(mercator);
+  const xs = projected.map((point) => point.x);
+  const ys = projected.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  // A lone point (or a straight line) has no extent to fit along that axis
+  const scale = Math.min(
+    spanX > 0 ? (width - 2 * padding) / spanX : Infinity,
+    spanY > 0 ? (height - 2 * padding) / spanY : Infinity,
+  );
+  const fitted = Number.isFinite(scale) ? scale : 1;
+  const centreX = minX + spanX / 2;
+  const centreY = minY + spanY / 2;
+  return (coordinates) => {
+    const { x, y } = mercator(coordinates);
+    return { x: width / 2 + (x - centreX) * fitted, y: height / 2 + (y - centreY) * fitted };
+  };
+};
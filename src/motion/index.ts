@@ -0,0 +1,2 @@
+export { useIntersectionObserver } from './useIntersectionObserver.ts';
+export { usePrefersReducedMotion } from './usePrefersReducedMotion.ts';
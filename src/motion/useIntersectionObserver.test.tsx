@@ -0,0 +1,50 @@
+import { act, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { MockIntersectionObserver } from '../test/observers.ts';
+import { useIntersectionObserver } from './useIntersectionObserver.ts';
+
+const OPTIONS = { threshold: 0.5 };
+
+const Watched: React.FC = () => {
+  const [ref, isInView] = useIntersectionObserver<HTMLDivElement>(OPTIONS);
+  return (
+    <div ref={ref} data-testid="watched">
+      {isInView ? 'visible' : 'hidden'}
+    </div>
+  );
+};
+
+describe('useIntersectionObserver', () => {
+  it('observes the element with the given options', () => {
+    render(<Watched />);
+    const [observer] = MockIntersectionObserver.watching(screen.getByTestId('watched'));
+    expect(observer).toBeDefined();
+    expect(observer.thresholds).toEqual([0.5]);
+    expect(screen.getByTestId('watched')).toHaveTextContent('hidden');
+  });
+
+  it('stays hidden while the element is off screen', () => {
+    render(<Watched />);
+    const [observer] = MockIntersectionObserver.watching(screen.getByTestId('watched'));
+    act(() => observer.trigger(false));
+    expect(screen.getByTestId('watched')).toHaveTextContent('hidden');
+  });
+
+  it('reports the element once it scrolls into view and stops watching it', () => {
+    render(<Watched />);
+    const element = screen.getByTestId('watched');
+    const [observer] = MockIntersectionObserver.watching(element);
+
+    act(() => observer.trigger(true));
+    expect(element).toHaveTextContent('visible');
+    expect(observer.observed.has(element)).toBe(false);
+  });
+
+  it('stops watching when the component unmounts', () => {
+    const { unmount } = render(<Watched />);
+    const element = screen.getByTestId('watched');
+    unmount();
+    expect(MockIntersectionObserver.watching(element)).toEqual([]);
+  });
+});
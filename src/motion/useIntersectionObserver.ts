@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Ref } from 'react';
+
+/**
+ * A custom React Hook to create a fade-in-on-scroll effect using IntersectionObserver.
+ * It's now explicitly typed to work with HTMLElement refs, preventing a type mismatch error.
+ * @param {object} options - Options for the IntersectionObserver.
+ * @returns {Array} - An array containing a ref to attach to the element and a boolean for visibility.
+ */
+export const useIntersectionObserver = <T extends HTMLElement>(options: IntersectionObserverInit): [Ref<T>, boolean] => {
+  const [isInView, setIsInView] = useState(false);
+  const elementRef = useRef<T>(null);
+
+  useEffect(() => {
+    // Correctly destructuring the entry from the observer's callback argument
+    const observer = new IntersectionObserver(([entry]) => {
+      // Update our state when the observer detects a change in visibility
+      if (entry.isIntersecting) {
+        setIsInView(true);
+        // We can stop observing once the element has faded in
+        observer.unobserve(entry.target);
+      }
+    }, options);
+
+    const currentElement = elementRef.current;
+    if (currentElement) {
+      observer.observe(currentElement);
+    }
+
+    return () => {
+      // Correcting the cleanup function to use a stable variable
+      if (currentElement) {
+        observer.unobserve(currentElement);
+      }
+    };
+  }, [options]);
+
+  // The hook now returns the ref directly, compatible with a Ref<T>
+  return [elementRef as Ref<T>, isInView];
+};
@@ -0,0 +1,188 @@
+import { act, fireEvent, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import type * as Config from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import MusicPlayer from './MusicPlayer.tsx';
+import MusicProvider from './MusicProvider.tsx';
+import { loadMusicSettings, saveMusicSettings } from './settings.ts';
+
+vi.mock('../config/index.ts', async (importOriginal) => {
+  const actual = await importOriginal<typeof Config>();
+  return {
+    ...actual,
+    wedding: {
+      ...actual.wedding,
+      music: {
+        tracks: [
+          { src: '/audio/first-dance.mp3', title: 'First Dance', artist: 'The Band' },
+          { src: '/audio/processional.mp3', title: 'Processional' },
+          { src: '/audio/recessional.mp3', title: 'Recessional' },
+        ],
+        volume: 0.5,
+      },
+    },
+  };
+});
+
+const t = translator('en');
+
+/** Makes `play()` and `pause()` report back as a real audio element does, optionally refusing to start. */
+const fakePlayback = ({ allowed = true } = {}) => {
+  const play = vi.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+    if (!allowed) return Promise.reject(new DOMException('Needs a tap first', 'NotAllowedError'));
+    this.dispatchEvent(new Event('play'));
+    return Promise.resolve();
+  });
+  const pause = vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(function (this: HTMLMediaElement) {
+    this.dispatchEvent(new Event('pause'));
+  });
+  return {
+    play,
+    pause,
+    allow: () => {
+      allowed = true;
+    },
+  };
+};
+
+const renderPlayer = (extra?: React.ReactNode) => {
+  const result = renderWithProviders(
+    <MusicProvider>
+      <MusicPlayer />
+      {extra}
+    </MusicProvider>,
+  );
+  return { ...result, audio: () => result.container.querySelector('audio') as HTMLAudioElement };
+};
+
+const openPanel = () => userEvent.click(screen.getByTitle(t('music.more')));
+
+describe('MusicPlayer', () => {
+  it('hides when there is nothing to play', () => {
+    const { container } = renderWithProviders(<MusicPlayer />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('starts the first song on arrival and lets the guest pause it', async () => {
+    const { play, pause } = fakePlayback();
+    const { audio } = renderPlayer();
+
+    expect(audio()).toHaveAttribute('src', '/audio/first-dance.mp3');
+    expect(play).toHaveBeenCalled();
+    expect(screen.getByText('First Dance – The Band')).toBeInTheDocument();
+
+    await userEvent.click(await screen.findByRole('button', { name: t('music.pause') }));
+    expect(pause).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: t('music.play') })).toBeInTheDocument();
+    expect(loadMusicSettings()).toMatchObject({ playing: false, track: 0 });
+  });
+
+  it('asks for a tap when the browser won’t start the music', async () => {
+    const playback = fakePlayback({ allowed: false });
+    renderPlayer();
+
+    const prompt = await screen.findByRole('button', { name: t('music.tapToStart') });
+    playback.allow();
+    await userEvent.click(prompt);
+
+    expect(screen.queryByRole('button', { name: t('music.tapToStart') })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: t('music.pause') })).toBeInTheDocument();
+  });
+
+  it('remembers when the guest would rather have no music', async () => {
+    fakePlayback({ allowed: false });
+    renderPlayer();
+
+    await userEvent.click(await screen.findByRole('button', { name: t('music.noThanks') }));
+
+    expect(screen.queryByRole('button', { name: t('music.tapToStart') })).not.toBeInTheDocument();
+    expect(loadMusicSettings()).toMatchObject({ playing: false });
+  });
+
+  it('moves through the playlist from the panel', async () => {
+    fakePlayback();
+    const { audio } = renderPlayer();
+    await openPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: t('music.next') }));
+    expect(audio()).toHaveAttribute('src', '/audio/processional.mp3');
+
+    await userEvent.click(screen.getByRole('button', { name: t('music.previous') }));
+    await userEvent.click(screen.getByRole('button', { name: t('music.previous') }));
+    expect(audio()).toHaveAttribute('src', '/audio/recessional.mp3');
+
+    const playlist = screen.getByRole('list', { name: t('music.playlist') });
+    await userEvent.click(within(playlist).getByRole('button', { name: 'Processional' }));
+    expect(within(playlist).getByRole('button', { name: 'Processional' })).toHaveAttribute('aria-current', 'true');
+    expect(audio()).toHaveAttribute('src', '/audio/processional.mp3');
+  });
+
+  it('plays the next song when one ends, and skips songs that won’t load', () => {
+    fakePlayback();
+    const { audio } = renderPlayer();
+
+    fireEvent.ended(audio());
+    expect(audio()).toHaveAttribute('src', '/audio/processional.mp3');
+    fireEvent.error(audio());
+    expect(audio()).toHaveAttribute('src', '/audio/recessional.mp3');
+  });
+
+  it('hides once none of the songs load', () => {
+    fakePlayback();
+    const { audio } = renderPlayer();
+
+    for (let song = 0; song < 3; song += 1) fireEvent.error(audio());
+
+    expect(screen.queryByRole('complementary', { name: t('music.label') })).not.toBeInTheDocument();
+  });
+
+  it('sets the volume and carries on where the guest left off', async () => {
+    saveMusicSettings({ playing: true, track: 2, volume: 0.8, position: 42 });
+    fakePlayback();
+    const { audio } = renderPlayer();
+
+    expect(audio()).toHaveAttribute('src', '/audio/recessional.mp3');
+    expect(audio().volume).toBe(0.8);
+    fireEvent.loadedMetadata(audio());
+    expect(audio().currentTime).toBe(42);
+
+    await openPanel();
+    fireEvent.change(screen.getByRole('slider', { name: t('music.volume') }), { target: { value: '0.25' } });
+    expect(audio().volume).toBe(0.25);
+    await waitFor(() => expect(loadMusicSettings()).toMatchObject({ track: 2, volume: 0.25 }));
+  });
+
+  it('stays quiet on arrival when the guest turned it off last time', () => {
+    saveMusicSettings({ playing: false, track: 0, volume: 0.5, position: 0 });
+    const { play } = fakePlayback();
+    renderPlayer();
+
+    expect(play).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: t('music.play') })).toBeInTheDocument();
+  });
+
+  it('pauses for a film with sound, but not for a muted background one', () => {
+    const { pause } = fakePlayback();
+    const { container } = renderPlayer(
+      <>
+        <video muted />
+        <video />
+      </>,
+    );
+    const [background, film] = container.querySelectorAll('video');
+
+    act(() => {
+      background.dispatchEvent(new Event('play'));
+    });
+    expect(pause).not.toHaveBeenCalled();
+
+    act(() => {
+      film.dispatchEvent(new Event('play'));
+    });
+    expect(pause).toHaveBeenCalledOnce();
+    expect(screen.getByRole('button', { name: t('music.play') })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,125 @@
+import React, { useId, useState } from 'react';
+import { useI18n } from '../i18n/context.ts';
+import { useMusic } from './context.ts';
+
+const ICONS = {
+  play: 'M8 5v14l11-7z',
+  pause: 'M6 5h4v14H6zm8 0h4v14h-4z',
+  previous: 'M6 6h2v12H6zm3.5 6 8.5 6V6z',
+  next: 'M16 6h2v12h-2zM6 18l8.5-6L6 6z',
+  note: 'M12 3v10.55A4 4 0 1 0 14 17V7h4V3z',
+};
+
+const icon = (name: keyof typeof ICONS) => (
+  <svg className="music-icon" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+    <path d={ICONS[name]} />
+  </svg>
+);
+
+/**
+ * The floating music control in the corner of every page: play/pause and the song title,
+ * opening onto previous/next, volume and the playlist. Offers "tap to start music" when the
+ * browser blocks playback, and hides when there is no music to play.
+ */
+const MusicPlayer: React.FC = () => {
+  const { t } = useI18n();
+  const music = useMusic();
+  const [open, setOpen] = useState(false);
+  const panelId = useId();
+
+  if (!music.available) return null;
+
+  const current = music.tracks[music.track];
+  const title = current.artist ? t('music.byArtist', { title: current.title, artist: current.artist }) : current.title;
+
+  return (
+    <aside
+      className={`music-player ${open ? 'open' : ''}`}
+      aria-label={t('music.label')}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') setOpen(false);
+      }}
+    >
+      {music.blocked && (
+        <div className="music-prompt">
+          <button type="button" className="music-prompt-start" onClick={music.play}>
+            {icon('note')}
+            {t('music.tapToStart')}
+          </button>
+          <button type="button" className="music-prompt-dismiss" onClick={music.dismiss} aria-label={t('music.noThanks')}>
+            ×
+          </button>
+        </div>
+      )}
+
+      {open && (
+        <div id={panelId} className="music-panel">
+          {music.tracks.length > 1 && (
+            <div className="music-skip">
+              <button type="button" onClick={music.previous} aria-label={t('music.previous')}>
+                {icon('previous')}
+              </button>
+              <button type="button" onClick={music.next} aria-label={t('music.next')}>
+                {icon('next')}
+              </button>
+            </div>
+          )}
+          <label className="music-volume">
+            <span>{t('music.volume')}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={music.volume}
+              onChange={(event) => music.setVolume(Number(event.target.value))}
+            />
+          </label>
+          {music.tracks.length > 1 && (
+            <ol className="music-playlist" aria-label={t('music.playlist')}>
+              {music.tracks.map((track, index) => (
+                <li key={track.src}>
+                  <button
+                    type="button"
+                    onClick={() => music.select(index)}
+                    aria-current={index === music.track ? 'true' : undefined}
+                  >
+                    {track.artist ? t('music.byArtist', { title: track.title, artist: track.artist }) : track.title}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      <div className="music-bar">
+        <button
+          type="button"
+          className="music-toggle"
+          onClick={music.playing ? music.pause : music.play}
+          aria-label={music.playing ? t('music.pause') : t('music.play')}
+        >
+          {icon(music.playing ? 'pause' : 'play')}
+        </button>
+        <button
+          type="button"
+          className="music-title"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          aria-controls={panelId}
+          title={t('music.more')}
+        >
+          <span className={`music-equalizer ${music.playing ? 'playing' : ''}`} aria-hidden="true">
+            <span />
+            <span />
+            <span />
+          </span>
+          <span className="music-title-text">{title}</span>
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default MusicPlayer;
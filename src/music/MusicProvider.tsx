@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { MusicContext } from './context.ts';
+import type { MusicState } from './context.ts';
+import { loadMusicSettings, saveMusicSettings } from './settings.ts';
+
+const TRACKS = wedding.music?.tracks ?? [];
+const DEFAULT_VOLUME = wedding.music?.volume ?? 0.5;
+
+// The next track `by` steps from `from` that isn't in `skip`, wrapping round; null if there is none
+const step = (from: number, by: 1 | -1, skip: number[]): number | null => {
+  for (let offset = 1; offset <= TRACKS.length; offset++) {
+    const candidate = (((from + by * offset) % TRACKS.length) + TRACKS.length) % TRACKS.length;
+    if (!skip.includes(candidate)) return candidate;
+  }
+  return null;
+};
+
+/**
+ * Owns the site's one `<audio>` element. It sits above the routes, so the music carries on
+ * across pages, and it remembers between visits whether the guest left it playing, the song,
+ * where it was and the volume. Music is on until the guest turns it off; when the browser
+ * won't start it without a tap, `blocked` asks the player to show a prompt.
+ */
+const MusicProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const audio = useRef<HTMLAudioElement>(null);
+  const [saved] = useState(loadMusicSettings);
+  const [track, setTrack] = useState(() => (saved.track !== undefined && saved.track < TRACKS.length ? saved.track : 0));
+  const [volume, setVolume] = useState(saved.volume ?? DEFAULT_VOLUME);
+  const [playing, setPlaying] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+  const [failed, setFailed] = useState<number[]>([]);
+  // What the guest asked for, as opposed to `playing`, what the audio element is doing
+  const [wanted, setWantedState] = useState(saved.playing ?? true);
+  const wantedRef = useRef(wanted);
+  const resumeAt = useRef(saved.track === track ? (saved.position ?? 0) : 0);
+
+  const setWanted = useCallback((value: boolean) => {
+    wantedRef.current = value;
+    setWantedState(value);
+  }, []);
+
+  const start = useCallback(() => {
+    audio.current?.play().then(
+      () => setBlocked(false),
+      (error: unknown) => {
+        // Browsers refuse sound until the visitor has interacted with the page
+        if (error instanceof DOMException && error.name === 'NotAllowedError') setBlocked(true);
+      },
+    );
+  }, []);
+
+  const goTo = useCallback(
+    (next: number | null) => {
+      if (next === null) return;
+      if (next !== track) {
+        setTrack(next);
+      } else if (audio.current) {
+        // A playlist of one starts over
+        audio.current.currentTime = 0;
+        if (wantedRef.current) start();
+      }
+    },
+    [start, track],
+  );
+
+  // A new track (or the first one, on arrival) plays if the guest wants music
+  useEffect(() => {
+    if (wantedRef.current) start();
+  }, [start, track]);
+
+  useEffect(() => {
+    if (audio.current) audio.current.volume = volume;
+  }, [volume]);
+
+  useEffect(() => {
+    const save = () => saveMusicSettings({ playing: wanted, track, volume, position: audio.current?.currentTime ?? 0 });
+    save();
+    window.addEventListener('pagehide', save);
+    return () => window.removeEventListener('pagehide', save);
+  }, [wanted, track, volume]);
+
+  // Another video or audio starting (the VideoSection film) pauses the music; muted ones like
+  // the hero's background film don't. `play` doesn't bubble, so this listens while capturing.
+  // The guest's choice stays on for their next visit.
+  useEffect(() => {
+    const onPlay = (event: Event) => {
+      const media = event.target;
+      if (media instanceof HTMLMediaElement && media !== audio.current && !media.muted) audio.current?.pause();
+    };
+    document.addEventListener('play', onPlay, true);
+    return () => document.removeEventListener('play', onPlay, true);
+  }, []);
+
+  const onLoadedMetadata = () => {
+    if (audio.current && resumeAt.current > 0) audio.current.currentTime = resumeAt.current;
+    resumeAt.current = 0;
+  };
+
+  const onError = () => {
+    const skip = [...failed, track];
+    setFailed(skip);
+    goTo(step(track, 1, skip));
+  };
+
+  const music = useMemo<MusicState>(
+    () => ({
+      tracks: TRACKS,
+      available: failed.length < TRACKS.length,
+      track,
+      playing,
+      blocked,
+      volume,
+      play: () => {
+        setWanted(true);
+        start();
+      },
+      pause: () => {
+        setWanted(false);
+        audio.current?.pause();
+      },
+      select: (index) => {
+        setWanted(true);
+        if (index === track) start();
+        else setTrack(index);
+      },
+      next: () => goTo(step(track, 1, failed)),
+      previous: () => goTo(step(track, -1, failed)),
+      setVolume,
+      dismiss: () => {
+        setWanted(false);
+        setBlocked(false);
+      },
+    }),
+    [blocked, failed, goTo, playing, setWanted, start, track, volume],
+  );
+
+  return (
+    <MusicContext.Provider value={music}>
+      {TRACKS.length > 0 && (
+        <audio
+          ref={audio}
+          src={TRACKS[track].src}
+          preload="metadata"
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => goTo(step(track, 1, failed))}
+          onError={onError}
+          onLoadedMetadata={onLoadedMetadata}
+        />
+      )}
+      {children}
+    </MusicContext.Provider>
+  );
+};
+
+export default MusicProvider;
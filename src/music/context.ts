@@ -0,0 +1,43 @@
+import { createContext, useContext } from 'react';
+import type { MusicTrack } from '../config/schema.ts';
+
+export interface MusicState {
+  /** The playlist from the config. */
+  tracks: MusicTrack[];
+  /** False when there is nothing to play: no playlist, or none of its files load. */
+  available: boolean;
+  /** Index into `tracks` of the current song. */
+  track: number;
+  playing: boolean;
+  /** The guest wants music but the browser won't start it until they tap something. */
+  blocked: boolean;
+  volume: number;
+  play: () => void;
+  pause: () => void;
+  select: (track: number) => void;
+  next: () => void;
+  previous: () => void;
+  setVolume: (volume: number) => void;
+  /** Turns the music off from the "tap to start" prompt, and keeps it off on later visits. */
+  dismiss: () => void;
+}
+
+const noop = () => {};
+
+export const MusicContext = createContext<MusicState>({
+  tracks: [],
+  available: false,
+  track: 0,
+  playing: false,
+  blocked: false,
+  volume: 1,
+  play: noop,
+  pause: noop,
+  select: noop,
+  next: noop,
+  previous: noop,
+  setVolume: noop,
+  dismiss: noop,
+});
+
+export const useMusic = (): MusicState => useContext(MusicContext);
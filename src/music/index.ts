@@ -0,0 +1,4 @@
+export { MusicContext, useMusic } from './context.ts';
+export type { MusicState } from './context.ts';
+export { loadMusicSettings, saveMusicSettings } from './settings.ts';
+export type { MusicSettings } from './settings.ts';
@@ -0,0 +1,34 @@
+const STORAGE_KEY = 'ej-wedding:music';
+
+/** What a browser remembers about the music between visits. */
+export interface MusicSettings {
+  /** Whether the guest left the music on. */
+  playing: boolean;
+  track: number;
+  volume: number;
+  /** Seconds into `track`, so a reload carries on where it was. */
+  position: number;
+}
+
+export const loadMusicSettings = (): Partial<MusicSettings> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return {};
+    return {
+      playing: typeof saved.playing === 'boolean' ? saved.playing : undefined,
+      track: Number.isInteger(saved.track) && saved.track >= 0 ? saved.track : undefined,
+      volume: typeof saved.volume === 'number' && saved.volume >= 0 && saved.volume <= 1 ? saved.volume : undefined,
+      position: typeof saved.position === 'number' && saved.position >= 0 ? saved.position : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
+
+export const saveMusicSettings = (settings: MusicSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing can refuse storage; the music just starts fresh next time
+  }
+};
@@ -0,0 +1,100 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+import { Route, Routes, useLocation } from 'react-router-dom';
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import type { RenderOptions } from '../test/render.tsx';
+import Navbar from './Navbar.tsx';
+
+const t = translator('en');
+
+// Shows where the router is, so tests can follow the links
+const CurrentLocation: React.FC = () => {
+  const location = useLocation();
+  return <output data-testid="location">{`${location.pathname}${location.hash}`}</output>;
+};
+
+const renderNavbar = (options?: RenderOptions) =>
+  renderWithProviders(
+    <>
+      <Navbar />
+      <Routes>
+        <Route path="*" element={<CurrentLocation />} />
+      </Routes>
+    </>,
+    options,
+  );
+
+const desktopLinks = () => within(screen.getByRole('navigation')).getAllByRole('link');
+const mobileMenu = () => document.getElementById('mobile-menu') as HTMLElement;
+
+describe('Navbar', () => {
+  it('links to every section while RSVPs are open', () => {
+    renderNavbar({ phase: 'rsvp-open' });
+    const names = within(screen.getByRole('navigation', { name: t('nav.label') }))
+      .getAllByRole('link')
+      .map((link) => link.textContent);
+
+    expect(names).toContain(wedding.couple.displayName);
+    for (const label of ['home', 'prenup', 'location', 'entourage', 'dresscode', 'rsvp'] as const) {
+      expect(names).toContain(t(`nav.${label}`));
+    }
+  });
+
+  it('drops the RSVP and dress code links after the wedding', () => {
+    renderNavbar({ phase: 'after' });
+    const names = desktopLinks().map((link) => link.textContent);
+
+    expect(names).not.toContain(t('nav.rsvp'));
+    expect(names).not.toContain(t('nav.dresscode'));
+    expect(names).toContain(t('nav.entourage'));
+  });
+
+  it('navigates to pages and sections', async () => {
+    const user = userEvent.setup();
+    renderNavbar({ phase: 'rsvp-open' });
+    const desktop = screen.getByRole('navigation').querySelector('.nav-links-desktop') as HTMLElement;
+
+    await user.click(within(desktop).getByRole('link', { name: t('nav.entourage') }));
+    expect(screen.getByTestId('location')).toHaveTextContent('/entourage');
+
+    await user.click(within(desktop).getByRole('link', { name: t('nav.rsvp') }));
+    expect(screen.getByTestId('location')).toHaveTextContent('/#rsvp');
+
+    await user.click(screen.getByRole('link', { name: wedding.couple.displayName }));
+    expect(screen.getByTestId('location')).toHaveTextContent(/^\/$/);
+  });
+
+  it('opens the mobile menu and closes it after a link is followed', async () => {
+    const user = userEvent.setup();
+    renderNavbar({ phase: 'rsvp-open' });
+    const toggle = screen.getByRole('button', { name: t('nav.openMenu') });
+
+    expect(mobileMenu()).toHaveClass('hidden');
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(toggle).toHaveAccessibleName(t('nav.closeMenu'));
+    expect(mobileMenu()).toHaveClass('show');
+
+    await user.click(within(mobileMenu()).getByRole('link', { name: t('nav.location') }));
+    expect(screen.getByTestId('location')).toHaveTextContent('/#location');
+    expect(mobileMenu()).toHaveClass('hidden');
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('closes the mobile menu on Escape and returns focus to the toggle', async () => {
+    const user = userEvent.setup();
+    renderNavbar({ phase: 'rsvp-open' });
+    const toggle = screen.getByRole('button', { name: t('nav.openMenu') });
+
+    await user.click(toggle);
+    within(mobileMenu()).getAllByRole('link')[0].focus();
+    await user.keyboard('{Escape}');
+
+    expect(mobileMenu()).toHaveClass('hidden');
+    expect(toggle).toHaveFocus();
+  });
+});
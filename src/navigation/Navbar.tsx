@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { wedding } from '../config/index.ts';
+import LanguageToggle from '../i18n/LanguageToggle.tsx';
+import { useI18n } from '../i18n/context.ts';
+import ResponsiveImage from '../images/ResponsiveImage.tsx';
+import { usePhase } from '../phases/context.ts';
+import { NAV_LINKS } from './links.ts';
+
+/**
+ * The Navbar component for the wedding website.
+ * It provides navigation links and a responsive menu.
+ */
+const Navbar: React.FC = () => {
+  const { t } = useI18n();
+  const { phase } = usePhase();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuButton = useRef<HTMLButtonElement>(null);
+  const links = NAV_LINKS.filter((link) => !link.phases || link.phases.includes(phase));
+
+  const toggleMenu = () => {
+    setIsOpen(!isOpen);
+  };
+
+  const closeMenu = () => setIsOpen(false); // Close the mobile menu after clicking
+
+  return (
+    <nav
+      className="navbar"
+      aria-label={t('nav.label')}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape' && isOpen) {
+          closeMenu();
+          menuButton.current?.focus();
+        }
+      }}
+    >
+      <LanguageToggle />
+      <div className="navbar-content">
+        {/* Mobile Menu Button */}
+        <div className="mobile-menu-button-container">
+          <button
+            ref={menuButton}
+            onClick={toggleMenu}
+            type="button"
+            className="mobile-menu-button"
+            aria-controls="mobile-menu"
+            aria-expanded={isOpen ? 'true' : 'false'}
+          >
+            <span className="sr-only">{isOpen ? t('nav.closeMenu') : t('nav.openMenu')}</span>
+            <svg className={`icon-hamburger ${isOpen ? 'hidden' : 'block'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+            <svg className={`icon-close ${isOpen ? 'block' : 'hidden'}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Brand Name - Top Row on Desktop */}
+        <div className="navbar-top">
+          <div className="navbar-brand">
+            <Link to="/" onClick={closeMenu} className="brand-link">
+              {wedding.couple.displayName}
+            </Link>
+          </div>
+        </div>
+
+        {/* Navigation Links and Decorations - Bottom Row on Desktop */}
+        <div className="navbar-bottom">
+          {/* Left decoration image */}
+          {wedding.decorations?.navLeft && (
+            <div className="nav-decoration-left">
+              <ResponsiveImage src={wedding.decorations.navLeft} alt="" sizes="25vw" loading="eager" />
+            </div>
+          )}
+
+          {/* Desktop Navigation Links */}
+          <div className="nav-links-desktop">
+            {links.map((link) => (
+              <Link key={link.to} to={link.to} className={`nav-link ${link.isRsvp ? 'rsvp-button' : ''}`}>
+                {t(link.label)}
+              </Link>
+            ))}
+          </div>
+
+          {/* Right decoration image */}
+          {wedding.decorations?.navRight && (
+            <div className="nav-decoration-right">
+              <ResponsiveImage src={wedding.decorations.navRight} alt="" sizes="30vw" loading="eager" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Mobile Menu Dropdown */}
+      <div className={`mobile-menu ${isOpen ? 'show' : 'hidden'}`} id="mobile-menu">
+        {links.map((link) => (
+          <Link
+            key={link.to}
+            to={link.to}
+            onClick={closeMenu}
+            className={`mobile-menu-link ${link.isRsvp ? 'rsvp-button-mobile' : ''}`}
+          >
+            {t(link.label)}
+          </Link>
+        ))}
+      </div>
+    </nav>
+  );
+};
+
+export default Navbar;
@@ -0,0 +1,12 @@
+import type { MessageKey } from '../i18n/translate.ts';
+import type { Phase } from '../phases/phases.ts';
+
+// `phases` limits a link to the phases whose home page has its section
+export const NAV_LINKS: Array<{ to: string; label: MessageKey; isRsvp?: boolean; phases?: Phase[] }> = [
+  { to: '/', label: 'nav.home' },
+  { to: '/#prenup-gallery', label: 'nav.prenup' },
+  { to: '/#location', label: 'nav.location' },
+  { to: '/entourage', label: 'nav.entourage' },
+  { to: '/#dresscode', label: 'nav.dresscode', phases: ['rsvp-open', 'rsvp-closed', 'day-of'] },
+  { to: '/#rsvp', label: 'nav.rsvp', isRsvp: true, phases: ['rsvp-open', 'rsvp-closed'] },
+];
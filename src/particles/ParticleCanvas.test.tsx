@@ -0,0 +1,52 @@
+import { render } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import ParticleCanvas from './ParticleCanvas.tsx';
+import { PARTICLE_PRESETS } from './presets.ts';
+
+const { createParticleEngine, destroy } = vi.hoisted(() => {
+  const destroy = vi.fn();
+  return { destroy, createParticleEngine: vi.fn(() => ({ destroy })) };
+});
+
+vi.mock('./engine.ts', () => ({ createParticleEngine }));
+
+const preferReducedMotion = () => {
+  vi.spyOn(window, 'matchMedia').mockImplementation(
+    (query) => ({ matches: query === '(prefers-reduced-motion: reduce)', addEventListener: () => {}, removeEventListener: () => {} }) as unknown as MediaQueryList,
+  );
+};
+
+describe('ParticleCanvas', () => {
+  it('animates its preset, with any changes, on a canvas hidden from assistive tech', () => {
+    const options = { density: 2 };
+    const { container } = render(<ParticleCanvas preset="hero" options={options} />);
+    const canvas = container.querySelector('canvas');
+
+    expect(canvas).toHaveAttribute('aria-hidden', 'true');
+    expect(canvas).toHaveClass('particle-canvas');
+    expect(createParticleEngine).toHaveBeenCalledWith(canvas, { ...PARTICLE_PRESETS.hero, density: 2 }, true);
+  });
+
+  it('holds still while paused, starting over when it resumes', () => {
+    const { rerender } = render(<ParticleCanvas preset="dresscode" paused />);
+    expect(createParticleEngine).toHaveBeenLastCalledWith(expect.any(HTMLCanvasElement), PARTICLE_PRESETS.dresscode, false);
+
+    rerender(<ParticleCanvas preset="dresscode" />);
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(createParticleEngine).toHaveBeenLastCalledWith(expect.any(HTMLCanvasElement), PARTICLE_PRESETS.dresscode, true);
+  });
+
+  it('holds still for visitors who prefer reduced motion', () => {
+    preferReducedMotion();
+    render(<ParticleCanvas preset="hero" />);
+
+    expect(createParticleEngine).toHaveBeenCalledWith(expect.any(HTMLCanvasElement), PARTICLE_PRESETS.hero, false);
+  });
+
+  it('stops the engine when it goes away', () => {
+    const { unmount } = render(<ParticleCanvas preset="hero" />);
+    unmount();
+
+    expect(destroy).toHaveBeenCalledOnce();
+  });
+});
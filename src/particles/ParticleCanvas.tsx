@@ -0,0 +1,34 @@
+import React, { useEffect, useRef } from 'react';
+import { usePrefersReducedMotion } from '../motion/usePrefersReducedMotion.ts';
+import { createParticleEngine } from './engine.ts';
+import type { ParticleOptions } from './engine.ts';
+import { PARTICLE_PRESETS } from './presets.ts';
+import type { ParticlePreset } from './presets.ts';
+
+interface ParticleCanvasProps {
+  preset: ParticlePreset;
+  /** Changes to the preset. Keep the object stable: a new one restarts the particles. */
+  options?: Partial<ParticleOptions>;
+  /** Holds the particles still, e.g. when the visitor pauses the page's animation. */
+  paused?: boolean;
+  className?: string;
+}
+
+/**
+ * A decorative canvas of particles filling its positioned parent. Stands still for visitors
+ * who prefer reduced motion.
+ */
+const ParticleCanvas: React.FC<ParticleCanvasProps> = ({ preset, options, paused = false, className = 'particle-canvas' }) => {
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const reducedMotion = usePrefersReducedMotion();
+
+  useEffect(() => {
+    if (!canvas.current) return;
+    const engine = createParticleEngine(canvas.current, { ...PARTICLE_PRESETS[preset], ...options }, !reducedMotion && !paused);
+    return engine.destroy;
+  }, [preset, options, paused, reducedMotion]);
+
+  return <canvas ref={canvas} className={className} aria-hidden="true" />;
+};
+
+export default ParticleCanvas;
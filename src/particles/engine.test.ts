@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockIntersectionObserver, MockResizeObserver } from '../test/observers.ts';
+import { createParticleEngine } from './engine.ts';
+import type { ParticleOptions } from './engine.ts';
+
+const OPTIONS: ParticleOptions = {
+  shapes: ['dot'],
+  colors: ['#f74e92'],
+  density: 1000,
+  maxParticles: 4,
+  size: [4, 4],
+  speed: [100, 100],
+  motion: 'wander',
+  opacity: [1, 1],
+  spin: 0,
+};
+
+/** A canvas whose box the test sets, with a context that records where the last frame drew each particle. */
+const fakeCanvas = () => {
+  const canvas = document.createElement('canvas');
+  const box = { width: 0, height: 0 };
+  Object.defineProperty(canvas, 'clientWidth', { get: () => box.width });
+  Object.defineProperty(canvas, 'clientHeight', { get: () => box.height });
+
+  const drawn: Array<[number, number]> = [];
+  const properties: Record<PropertyKey, unknown> = {};
+  const ctx = new Proxy(properties, {
+    get: (target, key) => {
+      if (key === 'clearRect') return () => drawn.splice(0);
+      if (key === 'translate') return (x: number, y: number) => drawn.push([x, y]);
+      return key in target ? target[key] : () => {};
+    },
+  });
+  canvas.getContext = (() => ctx) as unknown as typeof canvas.getContext;
+
+  const resizeTo = (width: number, height: number) => {
+    Object.assign(box, { width, height });
+    MockResizeObserver.watching(canvas).forEach((observer) => observer.trigger());
+  };
+  const show = () => MockIntersectionObserver.watching(canvas).forEach((observer) => observer.trigger(true));
+  return { canvas, drawn, resizeTo, show };
+};
+
+const runFrames = (count: number) => {
+  for (let frame = 0; frame < count; frame += 1) vi.advanceTimersToNextFrame();
+};
+
+const hideTab = (hidden: boolean) => {
+  if (hidden) Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+  else Reflect.deleteProperty(document, 'visibilityState');
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('createParticleEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    hideTab(false);
+  });
+
+  it('draws one still frame, again on each resize, when it isn’t animating', () => {
+    const { canvas, drawn, resizeTo, show } = fakeCanvas();
+    const engine = createParticleEngine(canvas, OPTIONS, false);
+    resizeTo(400, 400);
+    show();
+    const still = [...drawn];
+
+    runFrames(30);
+    expect(still).toHaveLength(4);
+    expect(drawn).toEqual(still);
+
+    resizeTo(200, 200);
+    expect(canvas.width).toBe(200);
+    expect(drawn).toHaveLength(4);
+    engine.destroy();
+  });
+
+  it('moves the particles only while the canvas is on screen and the tab is visible', () => {
+    const { canvas, drawn, resizeTo, show } = fakeCanvas();
+    const engine = createParticleEngine(canvas, OPTIONS, true);
+    resizeTo(400, 400);
+    const first = [...drawn];
+
+    runFrames(10);
+    expect(drawn).toEqual(first);
+
+    show();
+    runFrames(10);
+    expect(drawn).not.toEqual(first);
+
+    hideTab(true);
+    const hidden = [...drawn];
+    runFrames(10);
+    expect(drawn).toEqual(hidden);
+
+    hideTab(false);
+    runFrames(10);
+    expect(drawn).not.toEqual(hidden);
+    engine.destroy();
+  });
+
+  it('thins the particles out when drawing them takes too long', () => {
+    const { canvas, drawn, resizeTo, show } = fakeCanvas();
+    const engine = createParticleEngine(canvas, { ...OPTIONS, maxParticles: 40 }, true);
+    resizeTo(400, 400);
+    show();
+    // Every frame's drawing takes 10 ms, more than the engine allows itself
+    let now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => (now += 10));
+
+    runFrames(31);
+
+    expect(drawn).toHaveLength(30);
+    engine.destroy();
+  });
+
+  it('stops and lets go of the canvas when destroyed', () => {
+    const { canvas, drawn, resizeTo, show } = fakeCanvas();
+    const engine = createParticleEngine(canvas, OPTIONS, true);
+    resizeTo(400, 400);
+    show();
+    runFrames(2);
+
+    engine.destroy();
+    const last = [...drawn];
+    runFrames(10);
+
+    expect(drawn).toEqual(last);
+    expect(MockResizeObserver.watching(canvas)).toEqual([]);
+    expect(MockIntersectionObserver.watching(canvas)).toEqual([]);
+  });
+
+  it('brings wandering particles back inside a canvas that shrank under them', () => {
+    // Every particle starts at (50, 50), heading down and to the right
+    vi.spyOn(Math, 'random').mockReturnValue(0.125);
+    const { canvas, drawn, resizeTo, show } = fakeCanvas();
+    const engine = createParticleEngine(canvas, OPTIONS, true);
+    resizeTo(400, 400);
+    show();
+
+    resizeTo(20, 20);
+    runFrames(60);
+
+    expect(drawn).toHaveLength(4);
+    for (const [x, y] of drawn) {
+      // A frame's step can carry a particle just past the edge before it turns
+      expect(x).toBeGreaterThan(-2);
+      expect(x).toBeLessThan(22);
+      expect(y).toBeGreaterThan(-2);
+      expect(y).toBeLessThan(22);
+    }
+    engine.destroy();
+  });
+});
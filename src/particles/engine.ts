@@ -0,0 +1,193 @@
+import { drawShape } from './shapes.ts';
+import type { ParticleShape } from './shapes.ts';
+
+export interface ParticleOptions {
+  /** Picked at random for each particle. */
+  shapes: ParticleShape[];
+  colors: string[];
+  /** Particles per 10,000 CSS pixels of canvas, up to `maxParticles`. */
+  density: number;
+  maxParticles: number;
+  /** Smallest and largest size, in CSS pixels across. */
+  size: [number, number];
+  /** Slowest and fastest speed, in CSS pixels per second. */
+  speed: [number, number];
+  /** Wander and bounce off the edges, or drift up or down and come round again. */
+  motion: 'wander' | 'rise' | 'fall';
+  opacity: [number, number];
+  /** Fastest spin, in turns per second. */
+  spin: number;
+}
+
+export interface ParticleEngine {
+  /** Stops the animation and lets go of the canvas and observers. */
+  destroy: () => void;
+}
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  rotation: number;
+  spin: number;
+  shape: ParticleShape;
+  color: string;
+  opacity: number;
+  /** Phase of the sideways sway of rising and falling particles. */
+  sway: number;
+}
+
+// Sharper than this costs fill rate without looking any different
+const MAX_PIXEL_RATIO = 2;
+// Time the particles may take from each ~16 ms frame; over it, the engine thins them out
+const FRAME_BUDGET_MS = 4;
+const BUDGET_SAMPLE_FRAMES = 30;
+const MIN_PARTICLES = 8;
+// After a pause, carry on from where things were rather than jump
+const MAX_STEP_S = 0.1;
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const spawn = (options: ParticleOptions, width: number, height: number): Particle => {
+  const speed = between(options.speed);
+  const angle = Math.random() * Math.PI * 2;
+  const vertical = options.motion === 'rise' ? -1 : options.motion === 'fall' ? 1 : 0;
+  return {
+    x: Math.random() * width,
+    y: Math.random() * height,
+    vx: vertical ? 0 : Math.cos(angle) * speed,
+    vy: vertical ? vertical * speed : Math.sin(angle) * speed,
+    size: between(options.size),
+    rotation: Math.random() * Math.PI * 2,
+    spin: (Math.random() * 2 - 1) * options.spin * Math.PI * 2,
+    shape: pick(options.shapes),
+    color: pick(options.colors),
+    opacity: between(options.opacity),
+    sway: Math.random() * Math.PI * 2,
+  };
+};
+
+const move = (particle: Particle, motion: ParticleOptions['motion'], width: number, height: number, step: number) => {
+  particle.rotation += particle.spin * step;
+  if (motion === 'wander') {
+    particle.x += particle.vx * step;
+    particle.y += particle.vy * step;
+    // Head back inside rather than flip, so a particle left outside by a shrinking canvas can't
+    // turn back and forth at the edge forever
+    if (particle.x < 0) particle.vx = Math.abs(particle.vx);
+    if (particle.x > width) particle.vx = -Math.abs(particle.vx);
+    if (particle.y < 0) particle.vy = Math.abs(particle.vy);
+    if (particle.y > height) particle.vy = -Math.abs(particle.vy);
+    return;
+  }
+  particle.sway += step;
+  particle.x += Math.sin(particle.sway) * particle.size * step;
+  particle.y += particle.vy * step;
+  const margin = particle.size;
+  if (particle.y < -margin) particle.y = height + margin;
+  if (particle.y > height + margin) particle.y = -margin;
+  if (particle.x < -margin) particle.x = width + margin;
+  if (particle.x > width + margin) particle.x = -margin;
+};
+
+/**
+ * Animates particles on `canvas`, sized to the canvas's own box at the screen's pixel ratio.
+ * It runs only while the canvas is on screen and the tab is visible, and thins the particles
+ * out if drawing them takes more than its share of the frame. With `animate` off it draws a
+ * single still frame (redrawn on resize), for visitors who prefer reduced motion.
+ */
+export const createParticleEngine = (
+  canvas: HTMLCanvasElement,
+  options: ParticleOptions,
+  animate: boolean,
+): ParticleEngine => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { destroy: () => {} };
+
+  let width = 0;
+  let height = 0;
+  let particles: Particle[] = [];
+  let limit = options.maxParticles;
+  let frame = 0;
+  let last = 0;
+  let onScreen = false;
+  let budgetFrames = 0;
+  let budgetTime = 0;
+
+  const draw = () => {
+    ctx.clearRect(0, 0, width, height);
+    for (const particle of particles) {
+      ctx.globalAlpha = particle.opacity;
+      ctx.fillStyle = particle.color;
+      drawShape(ctx, particle.shape, particle.x, particle.y, particle.size, particle.rotation);
+    }
+  };
+
+  const resize = () => {
+    width = canvas.clientWidth;
+    height = canvas.clientHeight;
+    const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    const count = Math.min(limit, Math.round(((width * height) / 10_000) * options.density));
+    particles = particles.slice(0, count);
+    while (particles.length < count) particles.push(spawn(options, width, height));
+    draw();
+  };
+
+  const tick = (now: number) => {
+    const step = last ? Math.min((now - last) / 1000, MAX_STEP_S) : 0;
+    last = now;
+    const started = performance.now();
+    for (const particle of particles) move(particle, options.motion, width, height, step);
+    draw();
+
+    budgetTime += performance.now() - started;
+    budgetFrames += 1;
+    if (budgetFrames === BUDGET_SAMPLE_FRAMES) {
+      if (budgetTime / budgetFrames > FRAME_BUDGET_MS && particles.length > MIN_PARTICLES) {
+        limit = Math.max(MIN_PARTICLES, Math.floor(particles.length * 0.75));
+        particles = particles.slice(0, limit);
+      }
+      budgetFrames = 0;
+      budgetTime = 0;
+    }
+    frame = requestAnimationFrame(tick);
+  };
+
+  const update = () => {
+    const running = frame !== 0;
+    const shouldRun = animate && onScreen && document.visibilityState === 'visible';
+    if (shouldRun && !running) {
+      last = 0;
+      frame = requestAnimationFrame(tick);
+    } else if (!shouldRun && running) {
+      cancelAnimationFrame(frame);
+      frame = 0;
+    }
+  };
+
+  const resizeObserver = new ResizeObserver(resize);
+  resizeObserver.observe(canvas);
+  const intersectionObserver = new IntersectionObserver(([entry]) => {
+    onScreen = entry.isIntersecting;
+    update();
+  });
+  intersectionObserver.observe(canvas);
+  document.addEventListener('visibilitychange', update);
+
+  return {
+    destroy: () => {
+      cancelAnimationFrame(frame);
+      frame = 0;
+      resizeObserver.disconnect();
+      intersectionObserver.disconnect();
+      document.removeEventListener('visibilitychange', update);
+    },
+  };
+};
@@ -0,0 +1,6 @@
+export { createParticleEngine } from './engine.ts';
+export type { ParticleEngine, ParticleOptions } from './engine.ts';
+export { PARTICLE_PRESETS } from './presets.ts';
+export type { ParticlePreset } from './presets.ts';
+export { drawShape, PARTICLE_SHAPES } from './shapes.ts';
+export type { ParticleShape } from './shapes.ts';
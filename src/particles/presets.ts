@@ -0,0 +1,31 @@
+import type { ParticleOptions } from './engine.ts';
+
+/** The looks the site uses; a `ParticleCanvas` can override any option of its preset. */
+export const PARTICLE_PRESETS = {
+  // White specks and glints drifting over the hero photo
+  hero: {
+    shapes: ['dot', 'dot', 'sparkle'],
+    colors: ['#ffffff'],
+    density: 1.1,
+    maxParticles: 160,
+    size: [2, 12],
+    speed: [10, 60],
+    motion: 'wander',
+    opacity: [0.3, 0.7],
+    spin: 0.2,
+  },
+  // Petals and hearts rising through the dress code section
+  dresscode: {
+    shapes: ['petal', 'petal', 'heart'],
+    colors: ['#9333ea', '#c084fc', '#e9a8c9'],
+    density: 0.5,
+    maxParticles: 50,
+    size: [6, 14],
+    speed: [20, 50],
+    motion: 'rise',
+    opacity: [0.4, 0.9],
+    spin: 0.15,
+  },
+} satisfies Record<string, ParticleOptions>;
+
+export type ParticlePreset = keyof typeof PARTICLE_PRESETS;
@@ -0,0 +1,46 @@
+export const PARTICLE_SHAPES = ['dot', 'petal', 'heart', 'sparkle'] as const;
+
+export type ParticleShape = (typeof PARTICLE_SHAPES)[number];
+
+// Each traces a shape one unit across, centred on the origin; the engine scales and rotates it
+const TRACES: Record<ParticleShape, (ctx: CanvasRenderingContext2D) => void> = {
+  dot: (ctx) => ctx.arc(0, 0, 0.5, 0, Math.PI * 2),
+  petal: (ctx) => {
+    ctx.moveTo(0, -0.5);
+    ctx.quadraticCurveTo(0.45, 0, 0, 0.5);
+    ctx.quadraticCurveTo(-0.45, 0, 0, -0.5);
+  },
+  heart: (ctx) => {
+    ctx.moveTo(0, -0.25);
+    ctx.bezierCurveTo(0, -0.55, -0.5, -0.55, -0.5, -0.25);
+    ctx.bezierCurveTo(-0.5, 0.05, 0, 0.3, 0, 0.5);
+    ctx.bezierCurveTo(0, 0.3, 0.5, 0.05, 0.5, -0.25);
+    ctx.bezierCurveTo(0.5, -0.55, 0, -0.55, 0, -0.25);
+  },
+  sparkle: (ctx) => {
+    ctx.moveTo(0, -0.5);
+    ctx.quadraticCurveTo(0, 0, 0.5, 0);
+    ctx.quadraticCurveTo(0, 0, 0, 0.5);
+    ctx.quadraticCurveTo(0, 0, -0.5, 0);
+    ctx.quadraticCurveTo(0, 0, 0, -0.5);
+  },
+};
+
+/** Fills `shape`, `size` CSS pixels across, centred on (`x`, `y`) and turned by `rotation` radians. */
+export const drawShape = (
+  ctx: CanvasRenderingContext2D,
+  shape: ParticleShape,
+  x: number,
+  y: number,
+  size: number,
+  rotation: number,
+) => {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(rotation);
+  ctx.scale(size, size);
+  ctx.beginPath();
+  TRACES[shape](ctx);
+  ctx.fill();
+  ctx.restore();
+};
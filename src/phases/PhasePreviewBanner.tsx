@@ -0,0 +1,30 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useI18n } from '../i18n/context.ts';
+import { usePhase } from './context.ts';
+
+/** A strip across the top while a phase is being previewed, so nobody mistakes it for the live site. */
+const PhasePreviewBanner: React.FC = () => {
+  const { t } = useI18n();
+  const { phase, previewAt, exitPreview } = usePhase();
+  const { pathname, hash } = useLocation();
+  const navigate = useNavigate();
+
+  if (!previewAt) return null;
+
+  const exit = () => {
+    exitPreview();
+    navigate({ pathname, hash }, { replace: true });
+  };
+
+  return (
+    <div className="phase-preview-banner" role="status">
+      <span>{t('phases.preview', { phase: t(`phases.names.${phase}` as const) })}</span>
+      <button type="button" onClick={exit}>
+        {t('phases.exit')}
+      </button>
+    </div>
+  );
+};
+
+export default PhasePreviewBanner;
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { wedding } from '../config/index.ts';
+import { PhaseContext } from './context.ts';
+import type { PhaseState } from './context.ts';
+import { isPhase, nextPhaseChange, phaseAt, previewInstant } from './phases.ts';
+import type { Phase } from './phases.ts';
+
+const STORAGE_KEY = 'ej-wedding:phase-preview';
+// setTimeout fires immediately for delays past ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const loadPreview = (): Phase | null => {
+  try {
+    const saved = sessionStorage.getItem(STORAGE_KEY);
+    return isPhase(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const savePreview = (phase: Phase | null) => {
+  try {
+    if (phase) sessionStorage.setItem(STORAGE_KEY, phase);
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Without storage the preview lasts until the next page without ?phase=
+  }
+};
+
+/**
+ * Tracks the site's phase, moving on by itself when a boundary passes. `?phase=rsvp-closed`
+ * (or any other phase) previews one for the rest of the visit; `?phase=` with anything else
+ * ends the preview.
+ */
+const PhaseProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const param = new URLSearchParams(useLocation().search).get('phase');
+  const [preview, setPreview] = useState<Phase | null>(() => (param === null ? loadPreview() : isPhase(param) ? param : null));
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (param === null) return;
+    const next = isPhase(param) ? param : null;
+    savePreview(next);
+    setPreview(next);
+  }, [param]);
+
+  // Wake up when the next phase starts
+  useEffect(() => {
+    const next = nextPhaseChange(now, wedding);
+    if (!next) return;
+    const timer = setTimeout(() => setNow(new Date()), Math.min(next.getTime() - now.getTime(), MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  }, [now]);
+
+  const state = useMemo<PhaseState>(
+    () => ({
+      phase: preview ?? phaseAt(now, wedding),
+      previewAt: preview ? previewInstant(preview, wedding) : null,
+      exitPreview: () => {
+        savePreview(null);
+        setPreview(null);
+      },
+    }),
+    [preview, now],
+  );
+
+  return <PhaseContext.Provider value={state}>{children}</PhaseContext.Provider>;
+};
+
+export default PhaseProvider;
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { wedding } from '../config/index.ts';
+import { phaseAt } from './phases.ts';
+import type { Phase } from './phases.ts';
+
+export interface PhaseState {
+  phase: Phase;
+  /** Set while previewing a phase (`?phase=after`): the moment everything should act as if it is. */
+  previewAt: Date | null;
+  /** Ends a preview and returns to the real phase. */
+  exitPreview: () => void;
+}
+
+export const PhaseContext = createContext<PhaseState>({
+  phase: phaseAt(new Date(), wedding),
+  previewAt: null,
+  exitPreview: () => {},
+});
+
+export const usePhase = (): PhaseState => useContext(PhaseContext);
@@ -0,0 +1,4 @@
+export { HOME_SECTIONS, isPhase, nextPhaseChange, PHASES, phaseAt, phaseStarts, previewInstant } from './phases.ts';
+export type { HomeSection, Phase } from './phases.ts';
+export { PhaseContext, usePhase } from './context.ts';
+export type { PhaseState } from './context.ts';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import type { WeddingConfig } from '../config/index.ts';
+import { nextPhaseChange, phaseAt, PHASES, previewInstant } from './phases.ts';
+
+// RSVPs close on 10 January; the ceremony is at 15:00 and the reception ends at 22:00 on 31 January (Manila)
+const config: WeddingConfig = {
+  ...wedding,
+  date: '2026-01-31',
+  timeZone: 'Asia/Manila',
+  rsvp: { ...wedding.rsvp, deadline: '2026-01-10T23:59:59+08:00' },
+  venues: [
+    { ...wedding.venues[0], time: '15:00', endTime: '17:00' },
+    { ...wedding.venues[1], time: '17:30', endTime: '22:00' },
+  ],
+};
+
+describe('phaseAt', () => {
+  it.each([
+    ['2025-12-01T00:00:00+08:00', 'rsvp-open'],
+    ['2026-01-10T23:59:59+08:00', 'rsvp-open'],
+    ['2026-01-11T00:00:00+08:00', 'rsvp-closed'],
+    ['2026-01-30T23:59:59+08:00', 'rsvp-closed'],
+    ['2026-01-31T00:00:00+08:00', 'day-of'],
+    ['2026-01-31T21:59:59+08:00', 'day-of'],
+    ['2026-01-31T22:00:00+08:00', 'after'],
+  ])('at %s is %s', (instant, phase) => {
+    expect(phaseAt(new Date(instant), config)).toBe(phase);
+  });
+});
+
+describe('nextPhaseChange', () => {
+  it('is the start of the following phase', () => {
+    expect(nextPhaseChange(new Date('2026-01-05T00:00:00Z'), config)).toEqual(new Date('2026-01-10T15:59:59.001Z'));
+    expect(nextPhaseChange(new Date('2026-01-31T01:00:00Z'), config)).toEqual(new Date('2026-01-31T14:00:00Z'));
+  });
+
+  it('is null once the wedding is over', () => {
+    expect(nextPhaseChange(new Date('2026-02-01T00:00:00Z'), config)).toBeNull();
+  });
+});
+
+describe('previewInstant', () => {
+  it.each(PHASES)('falls inside %s', (phase) => {
+    expect(phaseAt(previewInstant(phase, config), config)).toBe(phase);
+  });
+
+  it('previews the wedding day from the start of the ceremony', () => {
+    expect(previewInstant('day-of', config)).toEqual(new Date('2026-01-31T07:00:00Z'));
+  });
+});
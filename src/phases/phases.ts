@@ -0,0 +1,81 @@
+import { zonedDateTime } from '../calendar/zoned.ts';
+import type { WeddingConfig } from '../config/schema.ts';
+import { celebrationWindow } from '../countdown/clock.ts';
+
+/**
+ * Where the site is in the wedding's life: taking RSVPs, past the RSVP deadline, the wedding
+ * day itself (from midnight in the venues' time zone), and after the reception has ended.
+ */
+export const PHASES = ['rsvp-open', 'rsvp-closed', 'day-of', 'after'] as const;
+
+export type Phase = (typeof PHASES)[number];
+
+export const isPhase = (value: unknown): value is Phase => PHASES.includes(value as Phase);
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** When each phase after the first begins, from `rsvp.deadline`, `date` and the venue times. */
+export const phaseStarts = (config: WeddingConfig): Record<Exclude<Phase, 'rsvp-open'>, Date> => ({
+  // The deadline is the last moment RSVPs are accepted
+  'rsvp-closed': new Date(new Date(config.rsvp.deadline).getTime() + 1),
+  'day-of': zonedDateTime(config.date, '00:00', config.timeZone),
+  after: celebrationWindow(config).end,
+});
+
+export const phaseAt = (now: Date, config: WeddingConfig): Phase => {
+  const starts = phaseStarts(config);
+  if (now >= starts.after) return 'after';
+  if (now >= starts['day-of']) return 'day-of';
+  if (now >= starts['rsvp-closed']) return 'rsvp-closed';
+  return 'rsvp-open';
+};
+
+/** The next moment the phase changes, or `null` once the site is in its last phase. */
+export const nextPhaseChange = (now: Date, config: WeddingConfig): Date | null => {
+  const upcoming = Object.values(phaseStarts(config)).filter((start) => start > now);
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming.map((start) => start.getTime()))) : null;
+};
+
+/**
+ * A moment that falls in `phase`, used to preview it: the countdown, timeline and RSVP form
+ * then behave as they will at that time. The wedding-day preview is the start of the ceremony.
+ */
+export const previewInstant = (phase: Phase, config: WeddingConfig): Date => {
+  const starts = phaseStarts(config);
+  switch (phase) {
+    case 'rsvp-open':
+      return new Date(starts['rsvp-closed'].getTime() - DAY_MS);
+    case 'rsvp-closed':
+      return new Date(Math.max(starts['rsvp-closed'].getTime(), starts['day-of'].getTime() - DAY_MS));
+    case 'day-of':
+      return celebrationWindow(config).start;
+    case 'after':
+      return new Date(starts.after.getTime() + DAY_MS);
+  }
+};
+
+/** The home page's sections. The hero always comes first and the footer last. */
+export type HomeSection =
+  | 'invite'
+  | 'countdown'
+  | 'findTable'
+  | 'story'
+  | 'gallery'
+  | 'guestAlbum'
+  | 'guestbook'
+  | 'video'
+  | 'location'
+  | 'dresscode'
+  | 'rsvp'
+  | 'rsvpClosed'
+  | 'gifts';
+
+/** What the home page shows in each phase, in order. */
+export const HOME_SECTIONS: Record<Phase, HomeSection[]> = {
+  'rsvp-open': ['invite', 'countdown', 'story', 'gallery', 'video', 'location', 'dresscode', 'rsvp', 'guestbook', 'gifts'],
+  'rsvp-closed': ['invite', 'countdown', 'story', 'gallery', 'video', 'location', 'dresscode', 'rsvpClosed', 'guestbook', 'gifts'],
+  // Guests on their way need the schedule and directions, at the door their table, and at the reception a place for their photos and wishes
+  'day-of': ['countdown', 'location', 'findTable', 'guestAlbum', 'guestbook', 'dresscode', 'invite', 'gifts', 'story', 'gallery', 'video'],
+  // The thank-you note, then the photos and video; nothing left to prepare for
+  after: ['countdown', 'gallery', 'guestAlbum', 'video', 'guestbook', 'story', 'invite'],
+};
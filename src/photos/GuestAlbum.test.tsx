@@ -0,0 +1,49 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import GuestAlbum from './GuestAlbum.tsx';
+import type { GuestPhoto } from './types.ts';
+
+const { listApproved } = vi.hoisted(() => ({ listApproved: vi.fn() }));
+
+vi.mock('./client.ts', () => ({ photoClient: { upload: vi.fn(), listApproved } }));
+
+const t = translator('en');
+
+const photos: GuestPhoto[] = [
+  { id: 'a', src: '/api/photos/a', width: 2048, height: 1536, uploader: 'Tita Baby', uploadedAt: '2026-01-31T10:00:00Z' },
+  { id: 'b', src: '/api/photos/b', width: 1536, height: 2048, uploadedAt: '2026-01-31T10:05:00Z' },
+];
+
+describe('GuestAlbum', () => {
+  it('shows the approved photos, credited to the guests who shared them', async () => {
+    listApproved.mockResolvedValue(photos);
+    renderWithProviders(<GuestAlbum />);
+
+    expect(await screen.findByAltText(t('photos.photoAlt', { name: 'Tita Baby', number: 1, total: 2 }))).toHaveAttribute(
+      'src',
+      '/api/photos/a',
+    );
+    expect(screen.getByAltText(t('photos.photoAltAnonymous', { number: 2, total: 2 }))).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: t('photos.share') })).toHaveAttribute('href', '/upload');
+  });
+
+  it('opens a photo in the viewer', async () => {
+    const user = userEvent.setup();
+    listApproved.mockResolvedValue(photos);
+    renderWithProviders(<GuestAlbum />);
+
+    await user.click(await screen.findByRole('button', { name: /Guest photo 2 of 2/ }));
+
+    expect(screen.getByRole('dialog', { name: t('photos.viewer') })).toBeInTheDocument();
+  });
+
+  it('invites guests to share the first photo while the album is empty', async () => {
+    listApproved.mockResolvedValue([]);
+    renderWithProviders(<GuestAlbum />);
+
+    expect(await screen.findByText(t('photos.empty'))).toBeInTheDocument();
+  });
+});
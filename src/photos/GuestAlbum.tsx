@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import MasonryGallery from '../gallery/MasonryGallery.tsx';
+import { useI18n } from '../i18n/context.ts';
+import { photoClient } from './client.ts';
+import type { GuestPhoto } from './types.ts';
+
+/**
+ * The photos guests shared on the day, once the couple has approved them, in the same
+ * masonry grid as the couple's own album. Hidden when the site can't take uploads.
+ */
+const GuestAlbum: React.FC = () => {
+  const { t } = useI18n();
+  const [photos, setPhotos] = useState<GuestPhoto[] | null>(null);
+
+  useEffect(() => {
+    if (!photoClient) return;
+    let cancelled = false;
+    photoClient
+      .listApproved()
+      .then((approved) => {
+        if (!cancelled) setPhotos(approved);
+      })
+      .catch((error) => {
+        console.error('Could not load the Guest Album:', error);
+        if (!cancelled) setPhotos([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!photoClient) return null;
+
+  const items = (photos ?? []).map((photo, index) => {
+    const position = { number: index + 1, total: photos?.length ?? 0 };
+    const alt = photo.uploader
+      ? t('photos.photoAlt', { name: photo.uploader, ...position })
+      : t('photos.photoAltAnonymous', position);
+    return { src: photo.src, alt, caption: photo.uploader, width: photo.width, height: photo.height };
+  });
+
+  return (
+    <section className="new-gallery guest-album" id="guest-album">
+      <h2 className="gallery-title">{t('photos.albumTitle')}</h2>
+      <p className="gallery-subtitle">{t('photos.albumSubtitle')}</p>
+      <Link to="/upload" className="map-button guest-album-share">{t('photos.share')}</Link>
+
+      {photos && photos.length === 0 && <p className="guest-album-empty">{t('photos.empty')}</p>}
+      {items.length > 0 && <MasonryGallery items={items} prefix="guest-photo" label={t('photos.viewer')} />}
+    </section>
+  );
+};
+
+export default GuestAlbum;
@@ -0,0 +1,97 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import { preparePhoto, UnreadablePhotoError } from './resize.ts';
+import UploadPage from './UploadPage.tsx';
+import { loadUploaderName } from './uploader.ts';
+
+const { upload } = vi.hoisted(() => ({ upload: vi.fn() }));
+
+vi.mock('./client.ts', () => ({ photoClient: { upload, listApproved: vi.fn() } }));
+
+vi.mock('./resize.ts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./resize.ts')>()),
+  preparePhoto: vi.fn(),
+}));
+
+const t = translator('en');
+
+const photo = (name: string) => new File(['pixels'], name, { type: 'image/jpeg' });
+const prepared = { blob: new Blob(['jpeg'], { type: 'image/jpeg' }), width: 2048, height: 1536 };
+
+const item = (name: string) => screen.getByText(name).closest('li') as HTMLElement;
+
+describe('UploadPage', () => {
+  beforeEach(() => {
+    vi.mocked(preparePhoto).mockResolvedValue(prepared);
+    upload.mockResolvedValue({ id: 'p1', status: 'pending' });
+  });
+
+  it('uploads every chosen photo with the guest’s name and remembers the name', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<UploadPage />);
+
+    await user.type(screen.getByLabelText(t('photos.upload.name')), ' Tita Baby ');
+    await user.upload(screen.getByLabelText(t('photos.upload.choose')), [photo('one.jpg'), photo('two.jpg')]);
+
+    expect(await screen.findByText(t('photos.upload.thanks'), { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent(t('photos.upload.progress', { done: 2, total: 2 }));
+    expect(upload).toHaveBeenCalledTimes(2);
+    expect(upload).toHaveBeenCalledWith({ ...prepared, uploader: 'Tita Baby' });
+    expect(within(item('one.jpg')).getByText(t('photos.upload.done'))).toBeInTheDocument();
+    expect(loadUploaderName()).toBe('Tita Baby');
+  });
+
+  it('sends photos without a name anonymously', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<UploadPage />);
+
+    await user.upload(screen.getByLabelText(t('photos.upload.choose')), photo('one.jpg'));
+
+    await screen.findByText(t('photos.upload.thanks'), { exact: false });
+    expect(upload).toHaveBeenCalledWith({ ...prepared, uploader: undefined });
+  });
+
+  it('lets the guest retry a photo that failed to upload', async () => {
+    const user = userEvent.setup();
+    upload.mockRejectedValueOnce(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<UploadPage />);
+
+    await user.upload(screen.getByLabelText(t('photos.upload.choose')), photo('one.jpg'));
+
+    expect(await within(item('one.jpg')).findByText(t('photos.upload.error'))).toBeInTheDocument();
+    expect(screen.queryByText(t('photos.upload.thanks'), { exact: false })).not.toBeInTheDocument();
+
+    await user.click(within(item('one.jpg')).getByRole('button', { name: t('photos.upload.retry') }));
+
+    expect(await within(item('one.jpg')).findByText(t('photos.upload.done'))).toBeInTheDocument();
+    expect(upload).toHaveBeenCalledTimes(2);
+  });
+
+  it('explains when a file is not a photo the browser can open', async () => {
+    const user = userEvent.setup();
+    vi.mocked(preparePhoto).mockRejectedValue(new UnreadablePhotoError('scan.heic'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<UploadPage />);
+
+    await user.upload(screen.getByLabelText(t('photos.upload.choose')), photo('scan.heic'));
+
+    expect(await within(item('scan.heic')).findByText(t('photos.upload.unreadable'))).toBeInTheDocument();
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('asks the guest to wait when the server has had too many photos', async () => {
+    const user = userEvent.setup();
+    upload.mockRejectedValueOnce(new RsvpRequestError('Too many', 429));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<UploadPage />);
+
+    await user.upload(screen.getByLabelText(t('photos.upload.choose')), photo('one.jpg'));
+
+    expect(await within(item('one.jpg')).findByText(t('photos.upload.tooMany'))).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,143 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useI18n } from '../i18n/context.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { photoClient } from './client.ts';
+import { preparePhoto, UnreadablePhotoError } from './resize.ts';
+import { loadUploaderName, saveUploaderName } from './uploader.ts';
+
+type UploadStatus = 'waiting' | 'preparing' | 'uploading' | 'done' | 'failed';
+
+interface QueuedPhoto {
+  id: number;
+  file: File;
+  status: UploadStatus;
+  error?: string;
+}
+
+/**
+ * Where the QR code at the reception leads: guests pick any number of photos, which are
+ * turned upright, resized in the browser and sent one at a time for the couple to approve.
+ */
+const UploadPage: React.FC = () => {
+  const { t } = useI18n();
+  const [uploader, setUploader] = useState(loadUploaderName);
+  const [queue, setQueue] = useState<QueuedPhoto[]>([]);
+  const nextId = useRef(0);
+  // Read when each photo starts; editing the name mustn't restart an upload
+  const uploaderRef = useRef(uploader);
+  uploaderRef.current = uploader;
+
+  const update = useCallback((id: number, changes: Partial<QueuedPhoto>) => {
+    setQueue((current) => current.map((photo) => (photo.id === id ? { ...photo, ...changes } : photo)));
+  }, []);
+
+  // One photo at a time, so a phone never holds more than one decoded image
+  const busy = queue.some((photo) => photo.status === 'preparing' || photo.status === 'uploading');
+  const next = busy ? undefined : queue.find((photo) => photo.status === 'waiting');
+
+  useEffect(() => {
+    if (!next || !photoClient) return;
+    const client = photoClient;
+    const send = async () => {
+      update(next.id, { status: 'preparing', error: undefined });
+      try {
+        const prepared = await preparePhoto(next.file);
+        update(next.id, { status: 'uploading' });
+        await client.upload({ ...prepared, uploader: uploaderRef.current.trim() || undefined });
+        update(next.id, { status: 'done' });
+      } catch (error) {
+        console.error(`Could not upload ${next.file.name}:`, error);
+        update(next.id, {
+          status: 'failed',
+          error:
+            error instanceof UnreadablePhotoError
+              ? t('photos.upload.unreadable')
+              : error instanceof RsvpRequestError && error.status === 429
+                ? t('photos.upload.tooMany')
+                : t('photos.upload.error'),
+        });
+      }
+    };
+    send();
+  }, [next, t, update]);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    saveUploaderName(uploader.trim());
+    const added = [...files].map((file) => ({ id: nextId.current++, file, status: 'waiting' as const }));
+    setQueue((current) => [...current, ...added]);
+  };
+
+  const done = queue.filter((photo) => photo.status === 'done').length;
+  const finished = queue.length > 0 && queue.every((photo) => photo.status === 'done' || photo.status === 'failed');
+
+  return (
+    <section className="page-section upload-page">
+      <h2 className="page-title">{t('photos.upload.title')}</h2>
+      <p className="page-description">{t('photos.upload.intro')}</p>
+
+      {!photoClient ? (
+        <p className="rsvp-allowance">{t('photos.upload.unavailable')}</p>
+      ) : (
+        <div className="rsvp-form upload-form">
+          <div className="form-field">
+            <label htmlFor="uploader" className="form-label">{t('photos.upload.name')}</label>
+            <input
+              type="text"
+              id="uploader"
+              value={uploader}
+              onChange={(e) => setUploader(e.target.value)}
+              maxLength={60}
+              autoComplete="name"
+              className="form-input"
+            />
+          </div>
+
+          <label className="submit-button upload-picker">
+            {t('photos.upload.choose')}
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="sr-only"
+              onChange={(e) => {
+                addFiles(e.target.files);
+                // Allow picking the same photo again after a failure
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {queue.length > 0 && (
+            <ul className="upload-queue">
+              {queue.map((photo) => (
+                <li key={photo.id} className={`upload-item upload-${photo.status}`}>
+                  <span className="upload-name">{photo.file.name}</span>
+                  <span className="upload-status">{photo.error ?? t(`photos.upload.${photo.status}`)}</span>
+                  {photo.status === 'failed' && (
+                    <button type="button" className="rsvp-link-button" onClick={() => update(photo.id, { status: 'waiting' })}>
+                      {t('photos.upload.retry')}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Always rendered, so screen readers hear the progress */}
+          <div className="rsvp-status" role="status">
+            {queue.length > 0 && <p>{t('photos.upload.progress', { done, total: queue.length })}</p>}
+            {finished && done > 0 && (
+              <p className="success-message">
+                {t('photos.upload.thanks')} <Link to="/#guest-album">{t('photos.upload.viewAlbum')}</Link>
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default UploadPage;
@@ -0,0 +1,4 @@
+import { createPhotoClient } from './index.ts';
+
+// One photo backend for the whole site, or none when the site has no JSON API
+export const photoClient = createPhotoClient();
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { exifOrientation } from './exif.ts';
+
+/** A JPEG header with an EXIF block holding just the orientation tag, as phones write it. */
+const jpegWithOrientation = (orientation: number, little: boolean): ArrayBuffer => {
+  const bytes = new DataView(new ArrayBuffer(40));
+  bytes.setUint16(0, 0xffd8); // SOI
+  bytes.setUint16(2, 0xffe1); // APP1
+  bytes.setUint16(4, 34); // segment size
+  bytes.setUint32(6, 0x45786966); // "Exif"
+  bytes.setUint16(10, 0);
+  const tiff = 12;
+  bytes.setUint16(tiff, little ? 0x4949 : 0x4d4d);
+  bytes.setUint16(tiff + 2, 42, little);
+  bytes.setUint32(tiff + 4, 8, little); // first IFD right after the header
+  bytes.setUint16(tiff + 8, 1, little); // one entry
+  bytes.setUint16(tiff + 10, 0x0112, little);
+  bytes.setUint16(tiff + 12, 3, little); // SHORT
+  bytes.setUint32(tiff + 14, 1, little);
+  bytes.setUint16(tiff + 18, orientation, little);
+  return bytes.buffer;
+};
+
+describe('exifOrientation', () => {
+  it('reads the orientation in either byte order', () => {
+    expect(exifOrientation(jpegWithOrientation(6, true))).toBe(6);
+    expect(exifOrientation(jpegWithOrientation(8, false))).toBe(8);
+  });
+
+  it('treats out-of-range values as upright', () => {
+    expect(exifOrientation(jpegWithOrientation(9, true))).toBe(1);
+  });
+
+  it('treats files that are not JPEGs, or have no EXIF, as upright', () => {
+    expect(exifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+    expect(exifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]).buffer)).toBe(1);
+  });
+
+  it('treats a truncated header as upright', () => {
+    expect(exifOrientation(jpegWithOrientation(6, true).slice(0, 24))).toBe(1);
+  });
+});
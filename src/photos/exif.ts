@@ -0,0 +1,51 @@
+/**
+ * Reads the EXIF orientation of a JPEG: how the camera was held, from 1 (upright) to 8.
+ * Phones store the sensor's pixels as they come and record the rotation here.
+ */
+const SOI = 0xffd8;
+const APP1 = 0xffe1;
+const SOS = 0xffda;
+const ORIENTATION_TAG = 0x0112;
+
+/**
+ * How much of the start of a file to read for its EXIF block. The block is at most 64 KB, but
+ * other segments such as the JFIF header can come before it.
+ */
+export const EXIF_BYTES = 128 * 1024;
+
+/**
+ * @param {ArrayBuffer} buffer - The start of the file, `EXIF_BYTES` of it or more.
+ * @returns {number} - The orientation, or 1 when the file has none or isn't a JPEG.
+ */
+export const exifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== SOI) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === SOS) return 1;
+      const size = view.getUint16(offset + 2);
+
+      // "Exif\0\0", then a TIFF header saying which byte order the rest uses
+      if (marker === APP1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+            const orientation = view.getUint16(entry + 8, little);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + size;
+    }
+  } catch {
+    // A truncated or malformed header reads past the end; treat the photo as upright
+  }
+  return 1;
+};
@@ -0,0 +1,17 @@
+import { usesRestBackend } from '../rsvp/backend.ts';
+import { RestPhotoClient } from './restClient.ts';
+import type { PhotoClient } from './types.ts';
+
+export type { GuestPhoto, ModeratedPhoto, PhotoClient, PhotoStatus, PhotoUpload } from './types.ts';
+export { RestPhotoClient } from './restClient.ts';
+export { exifOrientation } from './exif.ts';
+export { fitWithin, MAX_EDGE, orientationTransform, orientedSize, preparePhoto, UnreadablePhotoError } from './resize.ts';
+export type { Size } from './resize.ts';
+export { loadUploaderName, saveUploaderName } from './uploader.ts';
+
+/**
+ * Guests' photos need somewhere to go, so uploads and the Guest Album only exist with the
+ * JSON API (see `usesRestBackend`). Without it this is `null` and both stay hidden.
+ */
+export const createPhotoClient = (env: ImportMetaEnv = import.meta.env): PhotoClient | null =>
+  usesRestBackend(env) ? new RestPhotoClient(env.VITE_RSVP_API_URL || '/api') : null;
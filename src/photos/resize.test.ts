@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { fitWithin, orientationTransform, orientedSize } from './resize.ts';
+
+/** Where the transform sends the point (x, y). */
+const apply = ([a, b, c, d, e, f]: number[], x: number, y: number) => [a * x + c * y + e, b * x + d * y + f];
+
+describe('orientedSize', () => {
+  it('swaps width and height for the quarter turns', () => {
+    expect(orientedSize({ width: 4000, height: 3000 }, 6)).toEqual({ width: 3000, height: 4000 });
+    expect(orientedSize({ width: 4000, height: 3000 }, 3)).toEqual({ width: 4000, height: 3000 });
+  });
+});
+
+describe('fitWithin', () => {
+  it('scales the longer edge down to the limit', () => {
+    expect(fitWithin({ width: 4032, height: 3024 }, 2048)).toEqual({ width: 2048, height: 1536 });
+    expect(fitWithin({ width: 3024, height: 4032 }, 2048)).toEqual({ width: 1536, height: 2048 });
+  });
+
+  it('leaves smaller photos alone', () => {
+    expect(fitWithin({ width: 800, height: 600 }, 2048)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe('orientationTransform', () => {
+  it('keeps every corner of the stored image on the upright canvas', () => {
+    const width = 4;
+    const height = 3;
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      const size = orientedSize({ width, height }, orientation);
+      const transform = orientationTransform(orientation, width, height);
+      for (const [x, y] of [[0, 0], [width, 0], [0, height], [width, height]]) {
+        const [u, v] = apply(transform, x, y);
+        expect(u).toBeGreaterThanOrEqual(0);
+        expect(u).toBeLessThanOrEqual(size.width);
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThanOrEqual(size.height);
+      }
+    }
+  });
+
+  it('turns a photo taken in portrait (orientation 6) a quarter clockwise', () => {
+    // The stored top-left corner ends up at the top right
+    expect(apply(orientationTransform(6, 4, 3), 0, 0)).toEqual([3, 0]);
+  });
+});
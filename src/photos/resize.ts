@@ -0,0 +1,100 @@
+import { EXIF_BYTES, exifOrientation } from './exif.ts';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** What the browser sends: small enough for a phone on venue Wi-Fi, sharp enough to print. */
+export const MAX_EDGE = 2048;
+export const JPEG_QUALITY = 0.85;
+
+/** Thrown when a file can't be decoded as an image, e.g. HEIC on a desktop browser. */
+export class UnreadablePhotoError extends Error {
+  constructor(fileName: string) {
+    super(`Could not read ${fileName} as an image.`);
+    this.name = 'UnreadablePhotoError';
+  }
+}
+
+/** Orientations 5–8 turn the picture a quarter, so width and height swap. */
+export const orientedSize = ({ width, height }: Size, orientation: number): Size =>
+  orientation >= 5 ? { width: height, height: width } : { width, height };
+
+/** `size` scaled down so its longer edge is at most `maxEdge`; smaller photos are left alone. */
+export const fitWithin = ({ width, height }: Size, maxEdge: number): Size => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * The canvas transform that draws a stored `width` × `height` image upright for `orientation`.
+ * @returns {number[]} - The arguments for `setTransform(a, b, c, d, e, f)`.
+ */
+export const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+/**
+ * Current browsers turn photos upright themselves when decoding them; the ones that support
+ * `image-orientation: from-image` are those. Older ones hand over the sensor's pixels as stored.
+ */
+const browserAppliesOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+const loadImage = async (file: File): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } catch {
+    throw new UnreadablePhotoError(file.name);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const toBlob = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the photo.'))), 'image/jpeg', quality),
+  );
+
+/**
+ * Gets a photo ready to upload: turned upright, scaled to `maxEdge` and re-encoded as JPEG,
+ * which also drops the rest of its EXIF data (including the location).
+ */
+export const preparePhoto = async (file: File, maxEdge = MAX_EDGE, quality = JPEG_QUALITY): Promise<Size & { blob: Blob }> => {
+  const stored = file.type === 'image/jpeg' ? exifOrientation(await file.slice(0, EXIF_BYTES).arrayBuffer()) : 1;
+  const image = await loadImage(file);
+  const orientation = browserAppliesOrientation() ? 1 : stored;
+
+  const upright = orientedSize({ width: image.naturalWidth, height: image.naturalHeight }, orientation);
+  const target = fitWithin(upright, maxEdge);
+  const scale = target.width / upright.width;
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not resize the photo.');
+  // JPEG has no transparency; give see-through PNGs a white background instead of black
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, target.width, target.height);
+  ctx.setTransform(...orientationTransform(orientation, drawWidth, drawHeight));
+  ctx.drawImage(image, 0, 0, drawWidth, drawHeight);
+
+  return { blob: await toBlob(canvas, quality), ...target };
+};
@@ -0,0 +1,42 @@
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import type { GuestPhoto, PhotoClient, PhotoStatus, PhotoUpload } from './types.ts';
+
+/**
+ * Sends guests' photos to the JSON API (the reference server's `/photos` routes) and reads
+ * the approved ones back. Image URLs are built from the API's base URL.
+ */
+export class RestPhotoClient implements PhotoClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async upload({ blob, width, height, uploader }: PhotoUpload): Promise<{ id: string; status: PhotoStatus }> {
+    const params = new URLSearchParams({ width: String(width), height: String(height) });
+    if (uploader) params.set('uploader', uploader);
+    const response = await fetch(`${this.baseUrl}/photos?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+      body: blob,
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `Photo upload failed with status ${response.status}`, response.status);
+    }
+    return body as { id: string; status: PhotoStatus };
+  }
+
+  async listApproved(): Promise<GuestPhoto[]> {
+    const response = await fetch(`${this.baseUrl}/photos`);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `Photo request failed with status ${response.status}`, response.status);
+    }
+    return (body.photos as Array<Omit<GuestPhoto, 'src'>>).map((photo) => ({ ...photo, src: this.photoUrl(photo.id) }));
+  }
+
+  photoUrl(id: string): string {
+    return `${this.baseUrl}/photos/${encodeURIComponent(id)}`;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Guests' photos from the wedding day, shared by the upload page, the Guest Album,
+ * the couple's dashboard and the reference server.
+ */
+
+/** New uploads wait for the couple; only approved photos appear in the Guest Album. */
+export type PhotoStatus = 'pending' | 'approved' | 'rejected';
+
+/** A photo in the Guest Album. */
+export interface GuestPhoto {
+  id: string;
+  /** URL of the image file. */
+  src: string;
+  /** Size in pixels, already upright. */
+  width: number;
+  height: number;
+  /** The name the guest gave, if any. */
+  uploader?: string;
+  uploadedAt: string;
+}
+
+/** A guest photo as the couple sees it while moderating. */
+export interface ModeratedPhoto extends GuestPhoto {
+  status: PhotoStatus;
+}
+
+/** One photo ready to send: resized, upright and re-encoded in the browser. */
+export interface PhotoUpload {
+  blob: Blob;
+  width: number;
+  height: number;
+  uploader?: string;
+}
+
+/** A backend that takes guests' photos and serves the approved ones. */
+export interface PhotoClient {
+  /** Resolves once the photo is stored; it stays `pending` until the couple approves it. */
+  upload(photo: PhotoUpload): Promise<{ id: string; status: PhotoStatus }>;
+  /** Approved photos, oldest first. */
+  listApproved(): Promise<GuestPhoto[]>;
+}
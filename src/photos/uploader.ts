@@ -0,0 +1,19 @@
+const STORAGE_KEY = 'ej-wedding:uploader';
+
+/** The name a guest gave on their last upload, so the next batch is credited the same way. */
+export const loadUploaderName = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveUploaderName = (name: string) => {
+  try {
+    if (name) localStorage.setItem(STORAGE_KEY, name);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private browsing can refuse storage; the guest just types their name again
+  }
+};
@@ -0,0 +1,40 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import InvitationCard from './InvitationCard.tsx';
+import { inviteLink, siteLink } from './links.ts';
+
+const t = translator('en');
+
+const household = { code: 'ABC123', greeting: 'The Baronda Family', names: ['Venancio Baronda', 'Eva Baronda'], maxGuests: 2 };
+
+describe('InvitationCard', () => {
+  it('points the generic invitation at the website', () => {
+    renderWithProviders(<InvitationCard />);
+
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent(wedding.couple.groom.fullName);
+    expect(screen.getByRole('img', { name: t('print.siteQr') })).toBeInTheDocument();
+    expect(screen.getByText(siteLink())).toBeInTheDocument();
+    for (const venue of wedding.venues) expect(screen.getByText(venue.name, { exact: false })).toBeInTheDocument();
+  });
+
+  it('greets an invited household and links to their own invitation', () => {
+    renderWithProviders(<InvitationCard />, { invite: { status: 'found', code: household.code, household } });
+
+    expect(screen.getByText(t('common.greeting', { name: household.greeting }))).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: t('print.inviteQr') })).toBeInTheDocument();
+    expect(screen.getByText(inviteLink('ABC123'))).toBeInTheDocument();
+  });
+
+  it('prints from the toolbar', async () => {
+    const user = userEvent.setup();
+    const print = vi.spyOn(window, 'print').mockImplementation(() => {});
+    renderWithProviders(<InvitationCard />);
+
+    await user.click(screen.getByRole('button', { name: t('print.print') }));
+    expect(print).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { useInvite } from '../invite/context.ts';
+import { RSVP_DEADLINE } from '../rsvp/deadline.ts';
+import { inviteLink, siteLink } from './links.ts';
+import PaletteSwatches from './PaletteSwatches.tsx';
+import PrintLayout from './PrintLayout.tsx';
+import PrintVenues from './PrintVenues.tsx';
+import QrCode from './QrCode.tsx';
+
+/**
+ * A one-page A5 invitation at `/print/invitation`. Opened with a household's code
+ * (`?invite=ABC123`) it greets them and its QR code is their personal invite link;
+ * without one it is the generic invitation pointing at the website.
+ */
+const InvitationCard: React.FC = () => {
+  const { t, text, formatDate, formatDateTime } = useI18n();
+  const invite = useInvite();
+  const { couple } = wedding;
+
+  const household = invite.status === 'found' ? invite.household : null;
+  const link = household ? inviteLink(household.code) : siteLink();
+  const qrLabel = household ? t('print.inviteQr') : t('print.siteQr');
+
+  return (
+    <main>
+      <PrintLayout paper="A5" className="invitation-card" actions={<Link to="/" className="rsvp-link-button">{t('print.back')}</Link>}>
+        <section className="print-page" aria-busy={invite.status === 'loading'}>
+          {household && <p className="print-greeting">{t('common.greeting', { name: household.greeting })}</p>}
+          <p className="print-eyebrow">{text(wedding.invite.title)}</p>
+          <h1 className="print-couple">
+            {couple.groom.fullName}
+            <span className="print-amp">&amp;</span>
+            {couple.bride.fullName}
+          </h1>
+          <p>{text(wedding.invite.body)}</p>
+          <p className="print-date">{formatDate(wedding.date)}</p>
+          <PrintVenues level="h2" />
+          <p className="print-muted">{text(wedding.dressCode.paletteNote)}</p>
+          <PaletteSwatches />
+          <div className="print-qr">
+            <QrCode value={link} label={qrLabel} className="print-qr-code" />
+            <p>{qrLabel}</p>
+            <p className="print-muted">{link}</p>
+          </div>
+          <p>{t('rsvp.replyBy', { date: formatDateTime(RSVP_DEADLINE, { dateStyle: 'long' }) })}</p>
+        </section>
+      </PrintLayout>
+    </main>
+  );
+};
+
+export default InvitationCard;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+
+/** The dress code palette as labelled swatches, printed in colour even where backgrounds are off. */
+const PaletteSwatches: React.FC = () => {
+  const { text } = useI18n();
+  return (
+    <ul className="print-palette">
+      {wedding.dressCode.palette.map((swatch) => (
+        <li key={swatch.color}>
+          <span className="print-swatch" style={{ backgroundColor: swatch.color }} />
+          {text(swatch.name)}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PaletteSwatches;
@@ -0,0 +1,19 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import PlaceCards from './PlaceCards.tsx';
+import type { PlaceCardGuest } from './PlaceCards.tsx';
+
+describe('PlaceCards', () => {
+  it('fills A4 sheets ten cards at a time, with the table once a guest is seated', () => {
+    const guests: PlaceCardGuest[] = Array.from({ length: 12 }, (_, index) => ({ name: `Guest ${index + 1}` }));
+    guests[0] = { name: 'Guest 1', table: '4' };
+    const { container } = renderWithProviders(<PlaceCards guests={guests} />);
+
+    expect(container.querySelectorAll('.place-card-sheet')).toHaveLength(2);
+    expect(container.querySelectorAll('.place-card')).toHaveLength(12);
+    expect(screen.getByText('Guest 12')).toBeInTheDocument();
+    expect(screen.getAllByText(translator('en')('common.table', { table: '4' }))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,40 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+
+/** One guest's place card; the table appears once the guest has been seated. */
+export interface PlaceCardGuest {
+  name: string;
+  table?: string;
+}
+
+// Two columns of five 90 × 50 mm cards fill an A4 sheet inside its margins
+const CARDS_PER_SHEET = 10;
+
+/** Place cards on A4 sheets with dashed cut lines, in the order given. */
+const PlaceCards: React.FC<{ guests: PlaceCardGuest[] }> = ({ guests }) => {
+  const { t, formatDate } = useI18n();
+  const sheets = Array.from({ length: Math.ceil(guests.length / CARDS_PER_SHEET) }, (_, index) =>
+    guests.slice(index * CARDS_PER_SHEET, (index + 1) * CARDS_PER_SHEET),
+  );
+
+  return (
+    <>
+      {sheets.map((sheet, sheetIndex) => (
+        <section key={sheetIndex} className="print-page place-card-sheet">
+          {sheet.map((guest, index) => (
+            <div key={index} className="place-card">
+              <p className="place-card-couple">
+                {wedding.couple.displayName} · {formatDate(wedding.date)}
+              </p>
+              <p className="place-card-name">{guest.name}</p>
+              {guest.table && <p className="place-card-table">{t('common.table', { table: guest.table })}</p>}
+            </div>
+          ))}
+        </section>
+      ))}
+    </>
+  );
+};
+
+export default PlaceCards;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { useI18n } from '../i18n/context.ts';
+
+/** Paper sizes the print stylesheet has `@page` rules for. */
+export type Paper = 'A4' | 'A5';
+
+/**
+ * A printable document previewed as sheets of paper. The toolbar, with the print button and
+ * whatever `actions` the page adds, stays off the paper; each `.print-page` child starts a sheet.
+ */
+const PrintLayout: React.FC<{ paper: Paper; className?: string; actions?: React.ReactNode; children: React.ReactNode }> = ({
+  paper,
+  className = '',
+  actions,
+  children,
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className="print-layout">
+      <div className="print-toolbar">
+        <button type="button" className="submit-button" onClick={() => window.print()}>
+          {t('print.print')}
+        </button>
+        {actions}
+        <p className="print-hint">{t('print.hint', { paper })}</p>
+      </div>
+      <div className={`print-document print-${paper.toLowerCase()} ${className}`}>{children}</div>
+    </div>
+  );
+};
+
+export default PrintLayout;
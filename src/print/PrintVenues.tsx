@@ -0,0 +1,24 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+
+/** Each venue with what happens there, its start time and address, under headings of `level`. */
+const PrintVenues: React.FC<{ level: 'h2' | 'h3' }> = ({ level: Heading }) => {
+  const { text, formatTime } = useI18n();
+  return (
+    <ul className="print-venues">
+      {wedding.venues.map((venue) => (
+        <li key={venue.id}>
+          <Heading>{text(venue.type)}</Heading>
+          <p>
+            {venue.time && <strong>{formatTime(venue.time)} · </strong>}
+            {venue.name}
+          </p>
+          <p className="print-muted">{venue.address}</p>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PrintVenues;
@@ -0,0 +1,34 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { formatTime } from '../config/format.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { LOCALE_TAGS } from '../i18n/locales.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import ProgramBooklet from './ProgramBooklet.tsx';
+
+describe('ProgramBooklet', () => {
+  it('builds the program from the wedding config', () => {
+    const { container } = renderWithProviders(<ProgramBooklet />);
+    const t = translator('en');
+
+    expect(container.querySelectorAll('.print-page')).toHaveLength(4);
+    expect(screen.getByText(t('print.program'))).toBeInTheDocument();
+    for (const item of wedding.timeline.items) {
+      expect(screen.getByText(localize(item.label, 'en'))).toBeInTheDocument();
+    }
+    expect(screen.getAllByText(formatTime(wedding.timeline.items[0].time, LOCALE_TAGS.en)).length).toBeGreaterThan(0);
+    expect(screen.getByRole('list', { name: 'Principal Sponsors' })).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Little Bride' })).not.toBeInTheDocument();
+    for (const swatch of wedding.dressCode.palette) {
+      expect(screen.getByText(localize(swatch.name, 'en'))).toBeInTheDocument();
+    }
+  });
+
+  it('follows the visitor’s language', () => {
+    renderWithProviders(<ProgramBooklet />, { locale: 'tl' });
+
+    expect(screen.getByRole('heading', { level: 2, name: translator('tl')('print.orderOfEvents') })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: translator('tl')('print.siteQr') })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { wedding } from '../config/index.ts';
+import EntourageRoleList from '../entourage/EntourageRoleList.tsx';
+import { filledSections } from '../entourage/roles.ts';
+import { useI18n } from '../i18n/context.ts';
+import { siteLink } from './links.ts';
+import PaletteSwatches from './PaletteSwatches.tsx';
+import PrintLayout from './PrintLayout.tsx';
+import PrintVenues from './PrintVenues.tsx';
+import QrCode from './QrCode.tsx';
+
+/**
+ * The ceremony program at `/print/program`, as A5 pages in reading order: the cover, the venues
+ * and order of events, the entourage, and the dress code with a code to the website on the back.
+ * Everything comes from the wedding config, so the printed program matches the site.
+ */
+const ProgramBooklet: React.FC = () => {
+  const { t, text, formatDate, formatTime } = useI18n();
+  const { couple, venues, timeline, dressCode } = wedding;
+
+  return (
+    <main>
+      <PrintLayout paper="A5" className="program-booklet" actions={<Link to="/" className="rsvp-link-button">{t('print.back')}</Link>}>
+        <section className="print-page print-cover">
+          <p className="print-eyebrow">{t('print.program')}</p>
+          <h1 className="print-couple">
+            {couple.groom.fullName}
+            <span className="print-amp">&amp;</span>
+            {couple.bride.fullName}
+          </h1>
+          <p className="print-date">{formatDate(wedding.date)}</p>
+          <p>{venues[0].name}</p>
+        </section>
+
+        <section className="print-page">
+          <h2>{t('print.orderOfEvents')}</h2>
+          <PrintVenues level="h3" />
+          <h3>{text(timeline.title)}</h3>
+          <ol className="print-timeline">
+            {timeline.items.map((item) => (
+              <li key={item.time}>
+                <span className="print-time">{formatTime(item.time)}</span>
+                <span>{text(item.label)}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        <section className="print-page print-entourage">
+          <h2>{t('entourage.title')}</h2>
+          {filledSections(wedding.entourage).map((roles, sectionIndex) => (
+            <div key={sectionIndex} className="entourage-section">
+              {roles.map((role, roleIndex) => (
+                <EntourageRoleList key={roleIndex} role={role} />
+              ))}
+            </div>
+          ))}
+        </section>
+
+        <section className="print-page print-back">
+          <h2>{t('dresscode.title')}</h2>
+          <p>{text(dressCode.description)}</p>
+          <p className="print-muted">{text(dressCode.paletteNote)}</p>
+          <PaletteSwatches />
+          <div className="print-qr">
+            <QrCode value={siteLink()} label={t('print.siteQr')} className="print-qr-code" />
+            <p>{t('print.siteQr')}</p>
+            <p className="print-muted">{siteLink()}</p>
+          </div>
+        </section>
+      </PrintLayout>
+    </main>
+  );
+};
+
+export default ProgramBooklet;
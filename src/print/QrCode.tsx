@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { qrMatrix, qrPath } from './qrCode.ts';
+
+// The blank border scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+/** A QR code for `value` as inline SVG, so it stays sharp at any print size. */
+const QrCode: React.FC<{ value: string; label: string; className?: string }> = ({ value, label, className }) => {
+  const matrix = useMemo(() => qrMatrix(value), [value]);
+  const size = matrix.length + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      className={className}
+      viewBox={`${-QUIET_ZONE} ${-QUIET_ZONE} ${size} ${size}`}
+      role="img"
+      aria-label={label}
+      shapeRendering="crispEdges"
+    >
+      <rect x={-QUIET_ZONE} y={-QUIET_ZONE} width={size} height={size} fill="#fff" />
+      <path d={qrPath(matrix)} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
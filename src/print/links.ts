@@ -0,0 +1,9 @@
+import { wedding } from '../config/index.ts';
+
+const siteUrl = wedding.site.url.replace(/\/+$/, '');
+
+/** The site's home page, printed as a QR code on the generic invitation. */
+export const siteLink = (): string => `${siteUrl}/`;
+
+/** A household's personal invite link, which greets them and opens their RSVP. */
+export const inviteLink = (code: string): string => `${siteUrl}/i/${encodeURIComponent(code)}`;
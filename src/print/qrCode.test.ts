@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { qrMatrix, qrPath } from './qrCode.ts';
+
+// The 7 × 7 finder pattern in three corners: a dark ring, a light ring and a dark 3 × 3 centre
+const finderAt = (matrix: boolean[][], top: number, left: number) =>
+  Array.from({ length: 7 }, (_, row) =>
+    Array.from({ length: 7 }, (_, col) => matrix[top + row][left + col]),
+  );
+
+const FINDER = Array.from({ length: 7 }, (_, row) =>
+  Array.from({ length: 7 }, (_, col) => {
+    const ring = Math.max(Math.abs(row - 3), Math.abs(col - 3));
+    return ring !== 2;
+  }),
+);
+
+describe('qrMatrix', () => {
+  it('builds a square code with finder patterns in three corners', () => {
+    const matrix = qrMatrix('https://example.com/i/ABC123');
+    const size = matrix.length;
+
+    // Versions grow by four modules from 21
+    expect((size - 21) % 4).toBe(0);
+    expect(matrix.every((row) => row.length === size)).toBe(true);
+    expect(finderAt(matrix, 0, 0)).toEqual(FINDER);
+    expect(finderAt(matrix, 0, size - 7)).toEqual(FINDER);
+    expect(finderAt(matrix, size - 7, 0)).toEqual(FINDER);
+  });
+
+  it('grows with the data', () => {
+    expect(qrMatrix(`https://example.com/${'x'.repeat(200)}`).length).toBeGreaterThan(qrMatrix('https://example.com/').length);
+  });
+});
+
+describe('qrPath', () => {
+  it('draws one unit square per dark module', () => {
+    expect(qrPath([[true, false], [false, true]])).toBe('M0 0h1v1h-1zM1 1h1v1h-1z');
+  });
+});
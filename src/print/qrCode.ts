@@ -0,0 +1,22 @@
+import qrcode from 'qrcode-generator';
+
+/**
+ * The modules of a QR code for `data`, row by row; `true` is dark. The version grows with the
+ * data, and medium error correction keeps a printed code readable with a crease or a smudge.
+ */
+export const qrMatrix = (data: string): boolean[][] => {
+  const code = qrcode(0, 'M');
+  code.addData(data);
+  code.make();
+  const size = code.getModuleCount();
+  return Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, col) => code.isDark(row, col)));
+};
+
+/**
+ * An SVG path drawing every dark module as a unit square, for a `viewBox` of the matrix size.
+ * One path keeps the markup small and prints without hairline gaps between modules.
+ */
+export const qrPath = (matrix: boolean[][]): string =>
+  matrix
+    .flatMap((cells, row) => cells.map((dark, col) => (dark ? `M${col} ${row}h1v1h-1z` : '')))
+    .join('');
@@ -0,0 +1,21 @@
+import { screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import NotFoundPage from './NotFoundPage.tsx';
+
+const t = translator('en');
+
+describe('NotFoundPage', () => {
+  it('says the page is missing and links back home', () => {
+    renderWithProviders(<NotFoundPage />, { route: '/no-such-page' });
+
+    expect(screen.getByRole('heading', { name: t('notFound.title') })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: t('notFound.home') })).toHaveAttribute('href', '/');
+  });
+
+  it('follows the visitor’s language', () => {
+    renderWithProviders(<NotFoundPage />, { locale: 'tl' });
+    expect(screen.getByRole('heading', { name: translator('tl')('notFound.title') })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useI18n } from '../i18n/context.ts';
+
+/**
+ * Shown for any path that doesn't match a page.
+ */
+const NotFoundPage: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <section className="page-section not-found">
+      <h2 className="page-title">{t('notFound.title')}</h2>
+      <p className="page-description">
+        {t('notFound.body')}
+      </p>
+      <Link to="/" className="map-button">{t('notFound.home')}</Link>
+    </section>
+  );
+};
+
+export default NotFoundPage;
@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+// Old shared links used ids that don't exist on the page
+const HASH_ALIASES: Record<string, string> = {
+  prenup: 'prenup-gallery',
+  home: 'top',
+};
+
+// A shared link can carry a broken escape such as `#100%`; use such a fragment as it is
+const decodeFragment = (fragment: string): string => {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+};
+
+/** Navigation state for URL changes that shouldn't move the page, e.g. a lightbox's photo fragment. */
+export interface ScrollState {
+  preserveScroll?: boolean;
+}
+
+/**
+ * Scrolls to the section named in the URL fragment after every navigation, or to the top
+ * when there is none. Sections may not be rendered yet on the first frames after a route
+ * change, so the lookup is retried for a short while.
+ */
+const ScrollToHash: React.FC = () => {
+  const { pathname, hash, key, state } = useLocation();
+  const navigationType = useNavigationType();
+  const preserveScroll = (state as ScrollState | null)?.preserveScroll === true;
+
+  useEffect(() => {
+    // Back/forward without a fragment: the browser restores the previous position itself
+    if (preserveScroll || (navigationType === 'POP' && !hash)) return;
+
+    const raw = decodeFragment(hash.slice(1));
+    const id = HASH_ALIASES[raw] ?? raw;
+    if (!id || id === 'top') {
+      window.scrollTo({ top: 0 });
+      return;
+    }
+
+    let frame = 0;
+    let attempts = 0;
+    const scrollToTarget = () => {
+      const target = document.getElementById(id);
+      if (target) {
+        target.scrollIntoView({ behavior: 'smooth' });
+      } else if (attempts++ < 120) {
+        frame = requestAnimationFrame(scrollToTarget);
+      }
+    };
+    scrollToTarget();
+
+    return () => cancelAnimationFrame(frame);
+  }, [pathname, hash, key, preserveScroll, navigationType]);
+
+  return null;
+};
+
+export default ScrollToHash;
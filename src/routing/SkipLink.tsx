@@ -0,0 +1,28 @@
+import React from 'react';
+import { useI18n } from '../i18n/context.ts';
+
+/**
+ * "Skip to main content", the first stop for keyboard users: hidden until focused, it moves
+ * focus past the navigation to the element with id `target`. It leaves the URL alone, since
+ * fragments there choose a section or photo.
+ */
+const SkipLink: React.FC<{ target: string }> = ({ target }) => {
+  const { t } = useI18n();
+  return (
+    <a
+      className="skip-link"
+      href={`#${target}`}
+      onClick={(event) => {
+        const element = document.getElementById(target);
+        if (!element) return;
+        event.preventDefault();
+        element.focus();
+        element.scrollIntoView();
+      }}
+    >
+      {t('nav.skip')}
+    </a>
+  );
+};
+
+export default SkipLink;
@@ -0,0 +1,65 @@
+import { fireEvent, screen, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import AttendeeFields from './AttendeeFields.tsx';
+import { emptyAttendee } from './attendees.ts';
+import { ENTREE_OPTIONS } from './menu.ts';
+
+const t = translator('en');
+
+describe('AttendeeFields', () => {
+  it('labels the first row as the guest replying', () => {
+    renderWithProviders(<AttendeeFields index={0} attendee={emptyAttendee('Maria')} onChange={() => {}} />);
+    expect(screen.getByRole('group', { name: t('rsvp.attendee.legendYou', { number: 1 }) })).toBeInTheDocument();
+    expect(screen.getByLabelText(t('rsvp.attendee.name'))).toHaveValue('Maria');
+  });
+
+  it('only offers the entrées for the attendee’s age group', () => {
+    const { rerender } = renderWithProviders(
+      <AttendeeFields index={1} attendee={emptyAttendee()} onChange={() => {}} />,
+    );
+    const offered = () =>
+      within(screen.getByLabelText(t('rsvp.attendee.entree')))
+        .getAllByRole('option')
+        .slice(1)
+        .map((option) => option.getAttribute('value'));
+
+    expect(offered()).toEqual(ENTREE_OPTIONS.filter((option) => option.ageGroup !== 'child').map((option) => option.id));
+    rerender(<AttendeeFields index={1} attendee={{ ...emptyAttendee(), ageGroup: 'child' }} onChange={() => {}} />);
+    expect(offered()).toEqual(ENTREE_OPTIONS.filter((option) => option.ageGroup !== 'adult').map((option) => option.id));
+  });
+
+  it('drops an entrée that the new age group can’t have', () => {
+    const onChange = vi.fn();
+    renderWithProviders(
+      <AttendeeFields index={1} attendee={{ ...emptyAttendee('Lito'), entree: 'kids', ageGroup: 'child' }} onChange={onChange} />,
+    );
+
+    fireEvent.change(screen.getByLabelText(t('rsvp.attendee.ageGroup')), { target: { value: 'adult' } });
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ ageGroup: 'adult', entree: '' }));
+  });
+
+  it('lets a guest skip one of the venues', () => {
+    const onChange = vi.fn();
+    renderWithProviders(<AttendeeFields index={1} attendee={emptyAttendee('Lito')} onChange={onChange} />);
+
+    const venues = screen.getByRole('group', { name: t('rsvp.attendee.venues') });
+    fireEvent.click(within(venues).getByRole('checkbox', { name: 'Ceremony' }));
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ venues: ['reception'] }));
+  });
+
+  it('ties each error to its field', () => {
+    renderWithProviders(
+      <AttendeeFields
+        index={2}
+        attendee={emptyAttendee()}
+        errors={{ name: t('rsvp.errors.guestName') }}
+        onChange={() => {}}
+      />,
+    );
+    const name = screen.getByLabelText(t('rsvp.attendee.name'));
+    expect(name).toHaveAttribute('aria-invalid', 'true');
+    expect(name).toHaveAccessibleDescription(t('rsvp.errors.guestName'));
+  });
+});
@@ -0,0 +1,147 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { attendeeVenues } from './attendees.ts';
+import { entreeOptionsFor } from './menu.ts';
+import type { Attendee, AttendeeErrors } from './types.ts';
+
+/**
+ * The details of one attending guest: name, age group, entrée, which venues they will be at
+ * (asked only when there is more than one) and dietary needs.
+ */
+const AttendeeFields: React.FC<{
+  index: number;
+  attendee: Attendee;
+  errors?: AttendeeErrors;
+  onChange: (attendee: Attendee) => void;
+}> = ({ index, attendee, errors = {}, onChange }) => {
+  const { t, text } = useI18n();
+  const id = `attendee-${index}`;
+  const entrees = entreeOptionsFor(attendee.ageGroup);
+  const venues = attendeeVenues(attendee);
+
+  const update = (changes: Partial<Attendee>) => {
+    const next = { ...attendee, ...changes };
+    // Drop an entrée that isn't offered for the new age group
+    if (!entreeOptionsFor(next.ageGroup).some((option) => option.id === next.entree)) {
+      next.entree = '';
+    }
+    onChange(next);
+  };
+
+  const describedBy = (field: keyof Attendee) => (errors[field] ? `${id}-${field}-error` : undefined);
+
+  return (
+    <fieldset className="attendee-card">
+      <legend className="attendee-legend">
+        {t(index === 0 ? 'rsvp.attendee.legendYou' : 'rsvp.attendee.legend', { number: index + 1 })}
+      </legend>
+
+      <div className="form-field">
+        <label htmlFor={`${id}-name`} className="form-label">{t('rsvp.attendee.name')}</label>
+        <input
+          type="text"
+          id={`${id}-name`}
+          value={attendee.name}
+          onChange={(e) => update({ name: e.target.value })}
+          required
+          aria-invalid={errors.name ? 'true' : undefined}
+          aria-describedby={describedBy('name')}
+          className="form-input"
+        />
+        {errors.name && <p id={`${id}-name-error`} className="field-error">{errors.name}</p>}
+      </div>
+
+      <div className="attendee-row">
+        <div className="form-field">
+          <label htmlFor={`${id}-age`} className="form-label">{t('rsvp.attendee.ageGroup')}</label>
+          <select
+            id={`${id}-age`}
+            value={attendee.ageGroup}
+            onChange={(e) => update({ ageGroup: e.target.value as Attendee['ageGroup'] })}
+            aria-invalid={errors.ageGroup ? 'true' : undefined}
+            aria-describedby={describedBy('ageGroup')}
+            className="form-input"
+          >
+            <option value="adult">{t('rsvp.attendee.adult')}</option>
+            <option value="child">{t('rsvp.attendee.child')}</option>
+          </select>
+          {errors.ageGroup && <p id={`${id}-ageGroup-error`} className="field-error">{errors.ageGroup}</p>}
+        </div>
+
+        <div className="form-field">
+          <label htmlFor={`${id}-entree`} className="form-label">{t('rsvp.attendee.entree')}</label>
+          <select
+            id={`${id}-entree`}
+            value={attendee.entree}
+            onChange={(e) => update({ entree: e.target.value })}
+            required
+            aria-invalid={errors.entree ? 'true' : undefined}
+            aria-describedby={describedBy('entree')}
+            className="form-input"
+          >
+            <option value="" disabled>{t('rsvp.attendee.chooseEntree')}</option>
+            {entrees.map((option) => (
+              <option key={option.id} value={option.id}>{text(option.label)}</option>
+            ))}
+          </select>
+          {errors.entree && <p id={`${id}-entree-error`} className="field-error">{errors.entree}</p>}
+        </div>
+      </div>
+
+      {wedding.venues.length > 1 && (
+        <fieldset className="form-field attendee-venues" aria-describedby={describedBy('venues')}>
+          <legend className="form-label">{t('rsvp.attendee.venues')}</legend>
+          <div className="radio-group">
+            {wedding.venues.map((venue) => (
+              <label key={venue.id} className="attendee-venue">
+                <input
+                  type="checkbox"
+                  className="radio-input"
+                  checked={venues.includes(venue.id)}
+                  onChange={(e) =>
+                    update({ venues: e.target.checked ? [...venues, venue.id] : venues.filter((venueId) => venueId !== venue.id) })
+                  }
+                />
+                {text(venue.type)}
+              </label>
+            ))}
+          </div>
+          {errors.venues && <p id={`${id}-venues-error`} className="field-error">{errors.venues}</p>}
+        </fieldset>
+      )}
+
+      <div className="form-field">
+        <label htmlFor={`${id}-allergies`} className="form-label">{t('rsvp.attendee.allergies')}</label>
+        <input
+          type="text"
+          id={`${id}-allergies`}
+          value={attendee.allergies}
+          onChange={(e) => update({ allergies: e.target.value })}
+          placeholder={t('rsvp.attendee.allergiesPlaceholder')}
+          aria-invalid={errors.allergies ? 'true' : undefined}
+          aria-describedby={describedBy('allergies')}
+          className="form-input"
+        />
+        {errors.allergies && <p id={`${id}-allergies-error`} className="field-error">{errors.allergies}</p>}
+      </div>
+
+      <div className="form-field">
+        <label htmlFor={`${id}-dietary`} className="form-label">{t('rsvp.attendee.dietaryNotes')}</label>
+        <input
+          type="text"
+          id={`${id}-dietary`}
+          value={attendee.dietaryNotes}
+          onChange={(e) => update({ dietaryNotes: e.target.value })}
+          placeholder={t('rsvp.attendee.dietaryNotesPlaceholder')}
+          aria-invalid={errors.dietaryNotes ? 'true' : undefined}
+          aria-describedby={describedBy('dietaryNotes')}
+          className="form-input"
+        />
+        {errors.dietaryNotes && <p id={`${id}-dietaryNotes-error`} className="field-error">{errors.dietaryNotes}</p>}
+      </div>
+    </fieldset>
+  );
+};
+
+export default AttendeeFields;
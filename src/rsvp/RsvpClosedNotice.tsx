@@ -0,0 +1,22 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useI18n } from '../i18n/context.ts';
+
+/**
+ * Takes the RSVP form's place on the home page once the deadline has passed.
+ * The RSVP page still shows guests the reply they sent from this device.
+ */
+const RsvpClosedNotice: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <section className="page-section rsvp-closed-notice" id="rsvp">
+      <h2 className="page-title">{t('rsvp.title')}</h2>
+      <p className="page-description">{t('rsvp.closed')}</p>
+      <Link to="/rsvp" className="map-button">
+        {t('rsvp.viewReply')}
+      </Link>
+    </section>
+  );
+};
+
+export default RsvpClosedNotice;
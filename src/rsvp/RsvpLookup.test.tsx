@@ -0,0 +1,95 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import { RsvpRequestError } from './restClient.ts';
+import RsvpLookup from './RsvpLookup.tsx';
+import type { RsvpEditor, RsvpRecord } from './types.ts';
+
+const t = translator('en');
+
+const record = { id: 'r1', token: 'secret', version: 1, updatedAt: '2026-01-05T02:00:00Z' } as RsvpRecord;
+
+const mockEditor = (): { [K in keyof RsvpEditor]: ReturnType<typeof vi.fn> } & RsvpEditor => ({
+  getRsvp: vi.fn(),
+  findByInvite: vi.fn(),
+  requestLookupCode: vi.fn().mockResolvedValue(undefined),
+  verifyLookupCode: vi.fn(),
+  update: vi.fn(),
+});
+
+describe('RsvpLookup', () => {
+  it('finds the RSVP with a one-time code sent to the contact number', async () => {
+    const user = userEvent.setup();
+    const editor = mockEditor();
+    editor.verifyLookupCode.mockResolvedValue(record);
+    const onFound = vi.fn();
+    renderWithProviders(<RsvpLookup editor={editor} onFound={onFound} />);
+
+    await user.click(screen.getByText(t('rsvp.lookup.toggle')));
+    await user.type(screen.getByLabelText(t('rsvp.lookup.contact')), '0917 123 4567');
+    await user.click(screen.getByRole('button', { name: t('rsvp.lookup.sendCode') }));
+
+    expect(editor.requestLookupCode).toHaveBeenCalledWith('0917 123 4567');
+    expect(await screen.findByRole('status')).toHaveTextContent(t('rsvp.lookup.codeSent'));
+
+    await user.type(screen.getByLabelText(t('rsvp.lookup.code')), '123456');
+    await user.click(screen.getByRole('button', { name: t('rsvp.lookup.find') }));
+
+    expect(editor.verifyLookupCode).toHaveBeenCalledWith('0917 123 4567', '123456');
+    expect(onFound).toHaveBeenCalledWith(record);
+  });
+
+  it('says so when the code is wrong', async () => {
+    const user = userEvent.setup();
+    const editor = mockEditor();
+    editor.verifyLookupCode.mockResolvedValue(null);
+    const onFound = vi.fn();
+    renderWithProviders(<RsvpLookup editor={editor} onFound={onFound} />);
+
+    await user.click(screen.getByText(t('rsvp.lookup.toggle')));
+    await user.type(screen.getByLabelText(t('rsvp.lookup.contact')), '0917 123 4567');
+    await user.click(screen.getByRole('button', { name: t('rsvp.lookup.sendCode') }));
+    await user.type(await screen.findByLabelText(t('rsvp.lookup.code')), '000000');
+    await user.click(screen.getByRole('button', { name: t('rsvp.lookup.find') }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(t('rsvp.lookup.badCode'));
+    expect(onFound).not.toHaveBeenCalled();
+  });
+
+  it('loads the RSVP for the visitor’s invite code', async () => {
+    const user = userEvent.setup();
+    const editor = mockEditor();
+    editor.findByInvite.mockResolvedValueOnce(null).mockResolvedValueOnce(record);
+    const onFound = vi.fn();
+    renderWithProviders(<RsvpLookup editor={editor} inviteCode="BARONDA" onFound={onFound} />);
+
+    await user.click(screen.getByText(t('rsvp.lookup.toggle')));
+    await user.click(screen.getByRole('button', { name: t('rsvp.lookup.byInvite') }));
+    expect(await screen.findByRole('status')).toHaveTextContent(t('rsvp.lookup.notFound'));
+
+    await user.click(screen.getByRole('button', { name: t('rsvp.lookup.byInvite') }));
+    expect(editor.findByInvite).toHaveBeenLastCalledWith('BARONDA');
+    expect(onFound).toHaveBeenCalledWith(record);
+  });
+
+  it.each([
+    ['a code was just sent', new RsvpRequestError('A code was just sent. Please wait a minute before asking again.', 429), 'rsvp.lookup.tooMany'],
+    ['the number is not one', new RsvpRequestError('Please enter the contact number you used.', 422), 'rsvp.errors.contact'],
+    ['the connection drops', new TypeError('Failed to fetch'), 'rsvp.error'],
+  ] as const)('explains in the guest’s language when %s', async (_, error, key) => {
+    const user = userEvent.setup();
+    const tl = translator('tl');
+    const editor = mockEditor();
+    editor.requestLookupCode.mockRejectedValue(error);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<RsvpLookup editor={editor} onFound={vi.fn()} />, { locale: 'tl' });
+
+    await user.click(screen.getByText(tl('rsvp.lookup.toggle')));
+    await user.type(screen.getByLabelText(tl('rsvp.lookup.contact')), '0917 123 4567');
+    await user.click(screen.getByRole('button', { name: tl('rsvp.lookup.sendCode') }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(tl(key));
+  });
+});
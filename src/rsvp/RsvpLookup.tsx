@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/context.ts';
+import { RsvpRequestError } from './restClient.ts';
+import type { RsvpEditor, RsvpRecord } from './types.ts';
+
+/**
+ * Lets a returning guest find the RSVP they sent, either through their invite code
+ * or with their contact number and a one-time code.
+ */
+const RsvpLookup: React.FC<{ editor: RsvpEditor; inviteCode?: string; onFound: (record: RsvpRecord) => void }> = ({
+  editor,
+  inviteCode,
+  onFound,
+}) => {
+  const [contact, setContact] = useState('');
+  const [code, setCode] = useState('');
+  const [step, setStep] = useState<'contact' | 'code'>('contact');
+  const [status, setStatus] = useState<'idle' | 'working'>('idle');
+  const [notice, setNotice] = useState<{ kind: 'info' | 'error'; text: string } | null>(null);
+  const { t } = useI18n();
+
+  const run = async (action: () => Promise<void>) => {
+    setStatus('working');
+    setNotice(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('RSVP lookup failed:', error);
+      // The server's messages are in English only, and a lost connection reads "Failed to fetch"
+      const status = error instanceof RsvpRequestError ? error.status : undefined;
+      const text = status === 429 ? t('rsvp.lookup.tooMany') : status === 422 ? t('rsvp.errors.contact') : t('rsvp.error');
+      setNotice({ kind: 'error', text });
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const findByInvite = (code: string) =>
+    run(async () => {
+      const record = await editor.findByInvite(code);
+      if (record) onFound(record);
+      else setNotice({ kind: 'info', text: t('rsvp.lookup.notFound') });
+    });
+
+  const requestCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      await editor.requestLookupCode(contact);
+      setStep('code');
+      setNotice({ kind: 'info', text: t('rsvp.lookup.codeSent') });
+    });
+  };
+
+  const verifyCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const record = await editor.verifyLookupCode(contact, code);
+      if (record) onFound(record);
+      else setNotice({ kind: 'error', text: t('rsvp.lookup.badCode') });
+    });
+  };
+
+  return (
+    <details className="rsvp-lookup">
+      <summary className="rsvp-lookup-toggle">{t('rsvp.lookup.toggle')}</summary>
+
+      {inviteCode && (
+        <button type="button" className="map-button" onClick={() => findByInvite(inviteCode)} disabled={status === 'working'}>
+          {t('rsvp.lookup.byInvite')}
+        </button>
+      )}
+
+      {step === 'contact' ? (
+        <form onSubmit={requestCode} className="rsvp-lookup-form">
+          <label htmlFor="lookup-contact" className="form-label">{t('rsvp.lookup.contact')}</label>
+          <input
+            type="tel"
+            id="lookup-contact"
+            value={contact}
+            onChange={(e) => setContact(e.target.value)}
+            required
+            className="form-input"
+          />
+          <button type="submit" className="map-button" disabled={status === 'working'}>{t('rsvp.lookup.sendCode')}</button>
+        </form>
+      ) : (
+        <form onSubmit={verifyCode} className="rsvp-lookup-form">
+          <label htmlFor="lookup-code" className="form-label">{t('rsvp.lookup.code')}</label>
+          <input
+            type="text"
+            id="lookup-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            className="form-input"
+          />
+          <button type="submit" className="map-button" disabled={status === 'working'}>{t('rsvp.lookup.find')}</button>
+          <button type="button" className="rsvp-link-button" onClick={() => setStep('contact')}>
+            {t('rsvp.lookup.differentNumber')}
+          </button>
+        </form>
+      )}
+
+      <div role="status">
+        {notice?.kind === 'info' && <p className="rsvp-lookup-notice">{notice.text}</p>}
+      </div>
+      <div role="alert">
+        {notice?.kind === 'error' && <p className="field-error">{notice.text}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default RsvpLookup;
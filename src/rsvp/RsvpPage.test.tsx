@@ -0,0 +1,219 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import RsvpPage from './RsvpPage.tsx';
+import { rsvpClient } from './client.ts';
+import type { Household } from './types.ts';
+
+// A backend without lookups or edits, like the Google Forms adapter
+vi.mock('./client.ts', () => ({
+  rsvpClient: { submit: vi.fn(), getInvite: vi.fn() },
+}));
+
+const { postWish } = vi.hoisted(() => ({ postWish: vi.fn() }));
+
+vi.mock('../guestbook/client.ts', () => ({
+  guestbookClient: { submit: postWish, listApproved: vi.fn() },
+}));
+
+const submit = vi.mocked(rsvpClient.submit);
+const t = translator('en');
+
+const household: Household = {
+  code: 'BARONDA',
+  greeting: 'The Baronda Family',
+  names: ['Ana Baronda', 'Ben Baronda'],
+  maxGuests: 2,
+};
+
+const fillIn = async (user: ReturnType<typeof userEvent.setup>, { contact = '0917 123 4567' } = {}) => {
+  await user.type(screen.getByLabelText(t('rsvp.fullName')), 'Maria Clara');
+  await user.type(screen.getByLabelText(t('rsvp.contact')), contact);
+  await user.selectOptions(screen.getByLabelText(t('rsvp.attendee.entree')), 'chicken');
+};
+
+describe('RsvpPage', () => {
+  beforeEach(() => {
+    submit.mockReset();
+  });
+
+  it('sends the reply and thanks the guest once the backend confirms it', async () => {
+    const user = userEvent.setup();
+    submit.mockResolvedValue({ ok: true, confirmed: true });
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user);
+    await user.type(screen.getByLabelText(t('rsvp.message')), 'See you there!');
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(submit).toHaveBeenCalledWith({
+      name: 'Maria Clara',
+      contact: '0917 123 4567',
+      attending: true,
+      attendees: [
+        {
+          name: 'Maria Clara',
+          ageGroup: 'adult',
+          entree: 'chicken',
+          allergies: '',
+          dietaryNotes: '',
+          venues: ['ceremony', 'reception'],
+        },
+      ],
+      message: 'See you there!',
+      inviteCode: undefined,
+    });
+    expect(await screen.findByRole('status')).toHaveTextContent(t('rsvp.success'));
+    // The form starts over for the next guest on this device
+    expect(screen.getByLabelText(t('rsvp.fullName'))).toHaveValue('');
+  });
+
+  it('posts the message in the guestbook only when the guest asks to', async () => {
+    const user = userEvent.setup();
+    postWish.mockResolvedValue({ ok: true, id: 'w1', status: 'pending' });
+    submit.mockResolvedValue({ ok: true, confirmed: true });
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user);
+    await user.type(screen.getByLabelText(t('rsvp.message')), 'Congratulations!');
+    await user.click(screen.getByRole('checkbox', { name: t('rsvp.shareMessage') }));
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    await screen.findByText(t('rsvp.success'));
+    expect(postWish).toHaveBeenCalledWith({ name: 'Maria Clara', message: 'Congratulations!', stickers: [] });
+
+    await fillIn(user);
+    await user.type(screen.getByLabelText(t('rsvp.message')), 'Just for you two');
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(postWish).toHaveBeenCalledTimes(1);
+  });
+
+  it('only says the reply was sent when the backend can’t confirm it', async () => {
+    const user = userEvent.setup();
+    submit.mockResolvedValue({ ok: true, confirmed: false });
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user);
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(t('rsvp.sent'));
+  });
+
+  it('sends no attendees when the guest declines', async () => {
+    const user = userEvent.setup();
+    submit.mockResolvedValue({ ok: true, confirmed: true });
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await user.type(screen.getByLabelText(t('rsvp.fullName')), 'Maria Clara');
+    await user.type(screen.getByLabelText(t('rsvp.contact')), '0917 123 4567');
+    await user.click(screen.getByRole('radio', { name: t('rsvp.no') }));
+    expect(screen.queryByLabelText(t('rsvp.guests'))).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(submit).toHaveBeenCalledWith(expect.objectContaining({ attending: false, attendees: [] }));
+  });
+
+  it('points out mistakes without calling the backend', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user, { contact: 'call me' });
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(submit).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent(t('rsvp.invalid'));
+    const contact = screen.getByLabelText(t('rsvp.contact'));
+    expect(contact).toHaveAttribute('aria-invalid', 'true');
+    expect(contact).toHaveAccessibleDescription(t('rsvp.errors.contact'));
+  });
+
+  it('shows the field errors the backend sends back', async () => {
+    const user = userEvent.setup();
+    submit.mockResolvedValue({ ok: false, fieldErrors: { name: 'We already have an RSVP under this name.' } });
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user);
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(await screen.findByText('We already have an RSVP under this name.')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent(t('rsvp.invalid'));
+    expect(screen.getByLabelText(t('rsvp.fullName'))).toHaveValue('Maria Clara');
+  });
+
+  it('passes on a refusal from the backend', async () => {
+    const user = userEvent.setup();
+    submit.mockResolvedValue({ ok: false, fieldErrors: {}, message: 'RSVPs closed yesterday.' });
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user);
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('RSVPs closed yesterday.');
+  });
+
+  it('asks the guest to try again when the request fails', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    submit.mockRejectedValue(new Error('Network down'));
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-open' });
+
+    await fillIn(user);
+    await user.click(screen.getByRole('button', { name: t('rsvp.submit') }));
+
+    expect(await screen.findByText(t('rsvp.error'))).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: t('rsvp.submit') })).toBeEnabled();
+    expect(screen.getByLabelText(t('rsvp.fullName'))).toHaveValue('Maria Clara');
+  });
+
+  it('prefills the household and limits the party to its seats', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<RsvpPage />, {
+      phase: 'rsvp-open',
+      invite: { status: 'found', code: household.code, household },
+    });
+
+    expect(screen.getByText(t('rsvp.allowanceMany', { count: 2 }))).toBeInTheDocument();
+    expect(screen.getByLabelText(t('rsvp.fullName'))).toHaveValue('Ana Baronda');
+    const guests = screen.getByLabelText(t('rsvp.guests'));
+    expect(within(guests).getAllByRole('option').map((option) => option.textContent)).toEqual(['1', '2']);
+
+    await user.selectOptions(guests, '2');
+    expect(screen.getAllByLabelText(t('rsvp.attendee.name')).map((input) => (input as HTMLInputElement).value)).toEqual([
+      'Ana Baronda',
+      'Ben Baronda',
+    ]);
+  });
+
+  it('offers to reply without an invitation the server no longer knows', async () => {
+    const user = userEvent.setup();
+    const tl = translator('tl');
+    submit.mockResolvedValue({
+      ok: false,
+      fieldErrors: { inviteCode: "We couldn't find that invitation." },
+      message: 'Please correct the highlighted fields.',
+    });
+    renderWithProviders(<RsvpPage />, {
+      phase: 'rsvp-open',
+      invite: { status: 'found', code: household.code, household },
+      locale: 'tl',
+    });
+
+    await user.type(screen.getByLabelText(tl('rsvp.contact')), '0917 123 4567');
+    await user.selectOptions(screen.getByLabelText(tl('rsvp.attendee.entree')), 'chicken');
+    await user.click(screen.getByRole('button', { name: tl('rsvp.submit') }));
+
+    expect(await screen.findByText(tl('rsvp.errors.inviteCode'), { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: tl('rsvp.withoutInvite') })).toHaveAttribute('href', '/rsvp');
+  });
+
+  it('hides the form once RSVPs have closed', () => {
+    renderWithProviders(<RsvpPage />, { phase: 'rsvp-closed' });
+
+    expect(screen.getByText(t('rsvp.closed'))).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: t('rsvp.submit') })).not.toBeInTheDocument();
+  });
+});
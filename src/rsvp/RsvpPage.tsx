@@ -0,0 +1,357 @@
+import React, { useEffect, useState } from 'react';
+import { guestbookClient } from '../guestbook/client.ts';
+import { useI18n } from '../i18n/context.ts';
+import { useInvite } from '../invite/context.ts';
+import { usePhase } from '../phases/context.ts';
+import AttendeeFields from './AttendeeFields.tsx';
+import RsvpLookup from './RsvpLookup.tsx';
+import RsvpSummary from './RsvpSummary.tsx';
+import { emptyAttendee, resizeAttendees } from './attendees.ts';
+import { rsvpClient } from './client.ts';
+import { isRsvpOpen, RSVP_DEADLINE } from './deadline.ts';
+import { isRsvpEditor } from './index.ts';
+import { clearTicket, loadTicket, saveTicket } from './ticket.ts';
+import type { Attendee, RsvpFieldErrors, RsvpRecord, RsvpSubmission } from './types.ts';
+import { hasErrors, MAX_GUESTS, validateRsvp } from './validation.ts';
+
+const RsvpPage: React.FC = () => {
+  const { locale, t, formatDateTime } = useI18n();
+  const invite = useInvite();
+  const household = invite.status === 'found' ? invite.household : null;
+  const maxGuests = household?.maxGuests ?? MAX_GUESTS;
+
+  const [name, setName] = useState('');
+  const [contact, setContact] = useState('');
+  const [isAttending, setIsAttending] = useState(true);
+  const [attendees, setAttendees] = useState<Attendee[]>(() => [emptyAttendee()]);
+  const [message, setMessage] = useState('');
+  const [shareMessage, setShareMessage] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<RsvpFieldErrors>({});
+  const [submissionStatus, setSubmissionStatus] = useState<
+    'idle' | 'submitting' | 'success' | 'sent' | 'invalid' | 'closed' | 'error'
+  >('idle');
+  const [serverMessage, setServerMessage] = useState<string | undefined>();
+  const [record, setRecord] = useState<RsvpRecord | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { previewAt } = usePhase();
+  const isOpen = isRsvpOpen(previewAt ?? undefined);
+  const editor = isRsvpEditor(rsvpClient) ? rsvpClient : null;
+
+  // A guest returning on the same device sees the RSVP they already sent
+  useEffect(() => {
+    const ticket = loadTicket();
+    if (!editor || !ticket) return;
+    editor
+      .getRsvp(ticket.id, ticket.token)
+      .then((found) => {
+        if (found) setRecord(found);
+        else clearTicket();
+      })
+      .catch((error) => console.error('Could not load saved RSVP:', error));
+  }, [editor]);
+
+  const showRecord = (found: RsvpRecord) => {
+    saveTicket(found);
+    setRecord(found);
+    setIsEditing(false);
+    setFieldErrors({});
+  };
+
+  // Loads the saved answers back into the form
+  const startEditing = () => {
+    if (!record) return;
+    const { rsvp } = record;
+    setName(rsvp.name);
+    setContact(rsvp.contact);
+    setIsAttending(rsvp.attending);
+    setAttendees(rsvp.attendees.length > 0 ? rsvp.attendees : [emptyAttendee(rsvp.name)]);
+    setMessage(rsvp.message);
+    setSubmissionStatus('idle');
+    setIsEditing(true);
+  };
+
+  // Prefill the household's names and keep the guest count within their allowance
+  useEffect(() => {
+    if (!household) return;
+    setName((current) => current || household.names[0] || '');
+    setAttendees((current) =>
+      current
+        .slice(0, household.maxGuests)
+        .map((attendee, index) => (attendee.name ? attendee : { ...attendee, name: household.names[index] ?? '' })),
+    );
+  }, [household]);
+
+  // The first attendee is the guest replying, so their name follows the main field until edited
+  const handleNameChange = (value: string) => {
+    setAttendees((current) =>
+      current[0] && current[0].name === name ? [{ ...current[0], name: value }, ...current.slice(1)] : current,
+    );
+    setName(value);
+  };
+
+  const handleGuestCountChange = (count: number) => {
+    setAttendees((current) => resizeAttendees(current, count, household?.names));
+  };
+
+  const handleAttendeeChange = (index: number, attendee: Attendee) => {
+    setAttendees((current) => current.map((existing, i) => (i === index ? attendee : existing)));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const rsvp: RsvpSubmission = {
+      name,
+      contact,
+      attending: isAttending,
+      attendees: isAttending ? attendees : [],
+      message,
+      inviteCode: household?.code,
+    };
+
+    // Check locally first so obvious mistakes don't need a round trip
+    const localErrors = validateRsvp(rsvp, { maxGuests, locale });
+    setFieldErrors(localErrors);
+    if (hasErrors(localErrors)) {
+      setSubmissionStatus('invalid');
+      return;
+    }
+
+    setSubmissionStatus('submitting');
+    try {
+      const result = editor && record && isEditing
+        ? await editor.update(record.id, record.token, rsvp)
+        : await rsvpClient.submit(rsvp);
+
+      if (!result.ok) {
+        // The server answers in English; say the invitation is gone in the guest's language
+        setFieldErrors(
+          result.fieldErrors.inviteCode ? { ...result.fieldErrors, inviteCode: t('rsvp.errors.inviteCode') } : result.fieldErrors,
+        );
+        setServerMessage(result.message);
+        setSubmissionStatus(hasErrors(result.fieldErrors) ? 'invalid' : 'closed');
+        return;
+      }
+
+      // The RSVP is saved either way; the wish waits for the couple like any other
+      if (shareMessage && guestbookClient && rsvp.message.trim()) {
+        guestbookClient
+          .submit({ name: rsvp.name, message: rsvp.message, stickers: [] })
+          .catch((error) => console.error('Could not post the RSVP message to the guestbook:', error));
+        setShareMessage(false);
+      }
+
+      // Only a confirmed save is reported as received; Google Forms can't tell us
+      setSubmissionStatus(result.confirmed ? 'success' : 'sent');
+      if (result.record) {
+        showRecord(result.record);
+        return;
+      }
+      setName(household?.names[0] ?? '');
+      setContact('');
+      setAttendees([emptyAttendee(household?.names[0])]);
+      setIsAttending(true);
+      setMessage('');
+    } catch (error) {
+      console.error('RSVP submission failed:', error);
+      setSubmissionStatus('error');
+    }
+  };
+
+  return (
+    <section className="page-section" id="rsvp">
+      <h2 className="page-title">{t('rsvp.title')}</h2>
+      <p className="page-description">
+        {t('rsvp.intro')}
+      </p>
+      {household && (
+        <p className="rsvp-allowance">
+          {household.maxGuests === 1
+            ? t('rsvp.allowanceOne')
+            : t('rsvp.allowanceMany', { count: household.maxGuests })}
+        </p>
+      )}
+      {invite.status === 'unknown' && (
+        <p className="rsvp-allowance">
+          {t('rsvp.unknownInvite')}
+        </p>
+      )}
+      <p className="rsvp-allowance">
+        {isOpen
+          ? t('rsvp.replyBy', { date: formatDateTime(RSVP_DEADLINE, { dateStyle: 'long' }) })
+          : t('rsvp.closed')}
+      </p>
+
+      {record && !isEditing && (
+        <>
+          <RsvpSummary record={record} canEdit={isOpen} onEdit={startEditing} />
+        </>
+      )}
+
+      {isOpen && !record && editor && (
+        <RsvpLookup editor={editor} inviteCode={household?.code} onFound={showRecord} />
+      )}
+
+      {isOpen && (!record || isEditing) && (
+        <form onSubmit={handleSubmit} className="rsvp-form">
+          {/* Full Name */}
+          <div className="form-field">
+            <label htmlFor="name" className="form-label">{t('rsvp.fullName')}</label>
+            <input
+              type="text"
+              id="name"
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              required
+              aria-invalid={fieldErrors.name ? 'true' : undefined}
+              aria-describedby={fieldErrors.name ? 'name-error' : undefined}
+              className="form-input"
+            />
+            {fieldErrors.name && <p id="name-error" className="field-error">{fieldErrors.name}</p>}
+          </div>
+
+          {/* Contact Number */}
+          <div className="form-field">
+            <label htmlFor="contact" className="form-label">{t('rsvp.contact')}</label>
+            <input
+              type="tel"
+              id="contact"
+              value={contact}
+              onChange={(e) => setContact(e.target.value)}
+              required
+              aria-invalid={fieldErrors.contact ? 'true' : undefined}
+              aria-describedby={fieldErrors.contact ? 'contact-error' : undefined}
+              className="form-input"
+            />
+            {fieldErrors.contact && <p id="contact-error" className="field-error">{fieldErrors.contact}</p>}
+          </div>
+
+          {/* Attending */}
+          <div className="form-field">
+            <label className="form-label">{t('rsvp.attending')}</label>
+            <div className="radio-group">
+              <label>
+                <input
+                  type="radio"
+                  name="attending"
+                  value="yes"
+                  checked={isAttending === true}
+                  onChange={() => setIsAttending(true)}
+                  className="radio-input"
+                />{' '}
+                {t('rsvp.yes')}
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  name="attending"
+                  value="no"
+                  checked={isAttending === false}
+                  onChange={() => setIsAttending(false)}
+                  className="radio-input"
+                />{' '}
+                {t('rsvp.no')}
+              </label>
+            </div>
+            {fieldErrors.attending && <p className="field-error">{fieldErrors.attending}</p>}
+          </div>
+
+          {/* Guests */}
+          {isAttending && (
+            <div className="form-field">
+              <label htmlFor="guests" className="form-label">
+                {t('rsvp.guests')}
+              </label>
+              <select
+                id="guests"
+                value={attendees.length}
+                onChange={(e) => handleGuestCountChange(Number(e.target.value))}
+                required={isAttending}
+                aria-invalid={fieldErrors.guests ? 'true' : undefined}
+                aria-describedby={fieldErrors.guests ? 'guests-error' : undefined}
+                className="form-input"
+              >
+                {[...Array(maxGuests).keys()].map((num) => (
+                  <option key={num + 1} value={num + 1}>
+                    {num + 1}
+                  </option>
+                ))}
+              </select>
+              {fieldErrors.guests && <p id="guests-error" className="field-error">{fieldErrors.guests}</p>}
+            </div>
+          )}
+
+          {/* One row per attendee for the caterer */}
+          {isAttending && attendees.map((attendee, index) => (
+            <AttendeeFields
+              key={index}
+              index={index}
+              attendee={attendee}
+              errors={fieldErrors.attendees?.[index] ?? undefined}
+              onChange={(updated) => handleAttendeeChange(index, updated)}
+            />
+          ))}
+
+          {/* Message */}
+          <div className="form-field">
+            <label htmlFor="message" className="form-label">
+              {t('rsvp.message')}
+            </label>
+            <textarea
+              id="message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={4}
+              aria-invalid={fieldErrors.message ? 'true' : undefined}
+              aria-describedby={fieldErrors.message ? 'message-error' : undefined}
+              className="form-textarea"
+            />
+            {fieldErrors.message && <p id="message-error" className="field-error">{fieldErrors.message}</p>}
+            {guestbookClient && (
+              <label className="rsvp-share-message">
+                <input type="checkbox" checked={shareMessage} onChange={(e) => setShareMessage(e.target.checked)} />
+                {t('rsvp.shareMessage')}
+              </label>
+            )}
+          </div>
+
+          {/* A full page load drops the code from the address, so the guest can reply without it */}
+          {fieldErrors.inviteCode && (
+            <p className="field-error">
+              {fieldErrors.inviteCode} <a href="/rsvp">{t('rsvp.withoutInvite')}</a>
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={submissionStatus === 'submitting'}
+            className={`submit-button ${
+              submissionStatus === 'submitting' ? 'submitting' : ''
+            }`}
+          >
+            {submissionStatus === 'submitting' ? t('rsvp.submitting') : isEditing ? t('rsvp.save') : t('rsvp.submit')}
+          </button>
+          {isEditing && (
+            <button type="button" className="rsvp-link-button" onClick={() => setIsEditing(false)}>
+              {t('rsvp.cancel')}
+            </button>
+          )}
+        </form>
+      )}
+
+      {/* Always rendered, so screen readers announce the outcome when it appears */}
+      <div className="rsvp-status" role="status">
+        {submissionStatus === 'success' && <p className="success-message">{t('rsvp.success')}</p>}
+        {submissionStatus === 'sent' && <p className="success-message">{t('rsvp.sent')}</p>}
+      </div>
+      <div className="rsvp-status" role="alert">
+        {submissionStatus === 'invalid' && <p className="error-message">{t('rsvp.invalid')}</p>}
+        {submissionStatus === 'closed' && <p className="error-message">{serverMessage ?? t('rsvp.notSaved')}</p>}
+        {submissionStatus === 'error' && <p className="error-message">{t('rsvp.error')}</p>}
+      </div>
+    </section>
+  );
+};
+
+export default RsvpPage;
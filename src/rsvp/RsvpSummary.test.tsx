@@ -0,0 +1,62 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import RsvpSummary from './RsvpSummary.tsx';
+import { entreeLabel } from './menu.ts';
+import type { RsvpRecord } from './types.ts';
+
+const t = translator('en');
+
+const record: RsvpRecord = {
+  id: 'r1',
+  token: 'secret',
+  version: 3,
+  updatedAt: '2026-01-05T02:00:00Z',
+  rsvp: {
+    name: 'Maria Clara',
+    contact: '0917 123 4567',
+    attending: true,
+    attendees: [
+      { name: 'Maria Clara', ageGroup: 'adult', entree: 'chicken', allergies: 'peanuts', dietaryNotes: '' },
+      { name: 'Lito Clara', ageGroup: 'child', entree: 'kids', allergies: '', dietaryNotes: 'No pork' },
+    ],
+    message: 'See you!',
+  },
+};
+
+describe('RsvpSummary', () => {
+  it('shows the saved answers and how often they changed', () => {
+    renderWithProviders(<RsvpSummary record={record} canEdit onEdit={() => {}} />);
+
+    expect(screen.getByText(new RegExp(t('rsvp.summary.changedMany', { count: 2 })))).toBeInTheDocument();
+    expect(screen.getByText(t('rsvp.summary.attendingMany', { count: 2 }))).toBeInTheDocument();
+    expect(screen.getByText('See you!')).toBeInTheDocument();
+
+    const [maria, lito] = screen.getAllByRole('listitem');
+    expect(maria).toHaveTextContent(`Maria Clara (adult) – ${entreeLabel('chicken')}; allergies: peanuts`);
+    expect(lito).toHaveTextContent(`Lito Clara (child) – ${entreeLabel('kids')}; No pork`);
+  });
+
+  it('shows a declined RSVP without a guest list', () => {
+    const declined = { ...record, version: 1, rsvp: { ...record.rsvp, attending: false, attendees: [], message: '' } };
+    renderWithProviders(<RsvpSummary record={declined} canEdit onEdit={() => {}} />);
+
+    expect(screen.getByText(t('rsvp.summary.notAttending'))).toBeInTheDocument();
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+    expect(screen.queryByText(t('rsvp.summary.message'))).not.toBeInTheDocument();
+  });
+
+  it('offers changes only while RSVPs are open', async () => {
+    const user = userEvent.setup();
+    const onEdit = vi.fn();
+    const { rerender } = renderWithProviders(<RsvpSummary record={record} canEdit onEdit={onEdit} />);
+
+    await user.click(screen.getByRole('button', { name: t('rsvp.summary.edit') }));
+    expect(onEdit).toHaveBeenCalledOnce();
+
+    rerender(<RsvpSummary record={record} canEdit={false} onEdit={onEdit} />);
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useI18n } from '../i18n/context.ts';
+import { attendeeVenueTypes, isPartOfDay } from './attendees.ts';
+import { entreeLabel } from './menu.ts';
+import type { RsvpRecord } from './types.ts';
+
+/**
+ * Read-only view of a saved RSVP, shown after submitting or finding it again.
+ */
+const RsvpSummary: React.FC<{ record: RsvpRecord; canEdit: boolean; onEdit: () => void }> = ({ record, canEdit, onEdit }) => {
+  const { locale, t, formatDateTime } = useI18n();
+  const { rsvp } = record;
+  const changes = record.version - 1;
+
+  return (
+    <div className="rsvp-summary">
+      <h3 className="rsvp-summary-title">{t('rsvp.summary.title')}</h3>
+      <p className="rsvp-summary-meta">
+        {t('rsvp.summary.updated', { date: formatDateTime(new Date(record.updatedAt)) })}
+        {changes > 0 && ` · ${changes === 1 ? t('rsvp.summary.changedOnce') : t('rsvp.summary.changedMany', { count: changes })}`}
+      </p>
+      <dl className="rsvp-summary-list">
+        <dt>{t('rsvp.summary.name')}</dt>
+        <dd>{rsvp.name}</dd>
+        <dt>{t('rsvp.summary.contact')}</dt>
+        <dd>{rsvp.contact}</dd>
+        <dt>{t('rsvp.summary.attending')}</dt>
+        <dd>
+          {!rsvp.attending
+            ? t('rsvp.summary.notAttending')
+            : rsvp.attendees.length === 1
+              ? t('rsvp.summary.attendingOne')
+              : t('rsvp.summary.attendingMany', { count: rsvp.attendees.length })}
+        </dd>
+        {rsvp.message && (
+          <>
+            <dt>{t('rsvp.summary.message')}</dt>
+            <dd>{rsvp.message}</dd>
+          </>
+        )}
+      </dl>
+      {rsvp.attending && (
+        <ul className="rsvp-summary-attendees">
+          {rsvp.attendees.map((attendee, index) => (
+            <li key={index}>
+              <strong>{attendee.name}</strong> ({t(`rsvp.summary.${attendee.ageGroup}`)}) – {entreeLabel(attendee.entree, locale)}
+              {attendee.allergies && `; ${t('rsvp.summary.allergies', { allergies: attendee.allergies })}`}
+              {attendee.dietaryNotes && `; ${attendee.dietaryNotes}`}
+              {isPartOfDay(attendee) && `; ${t('rsvp.summary.only', { venues: attendeeVenueTypes(attendee, locale) })}`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canEdit && (
+        <button type="button" className="submit-button" onClick={onEdit}>
+          {t('rsvp.summary.edit')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RsvpSummary;
@@ -0,0 +1,58 @@
+import { wedding } from '../config/index.ts';
+import { DEFAULT_LOCALE } from '../i18n/locales.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { localize } from '../i18n/translate.ts';
+import { entreeLabel } from './menu.ts';
+import type { Attendee } from './types.ts';
+
+const VENUE_IDS = wedding.venues.map((venue) => venue.id);
+
+export const emptyAttendee = (name = ''): Attendee => ({
+  name,
+  ageGroup: 'adult',
+  entree: '',
+  allergies: '',
+  dietaryNotes: '',
+  venues: [...VENUE_IDS],
+});
+
+/** The venues a guest will be at, in the order of the day; every venue for RSVPs that didn't say. */
+export const attendeeVenues = (attendee: Pick<Attendee, 'venues'>): string[] =>
+  attendee.venues ? VENUE_IDS.filter((id) => attendee.venues?.includes(id)) : VENUE_IDS;
+
+/** Whether a guest will be at only some of the venues. */
+export const isPartOfDay = (attendee: Pick<Attendee, 'venues'>): boolean => attendeeVenues(attendee).length < VENUE_IDS.length;
+
+/** The kinds of venue a guest will be at, e.g. "Ceremony, Reception". */
+export const attendeeVenueTypes = (attendee: Pick<Attendee, 'venues'>, locale: Locale = DEFAULT_LOCALE): string =>
+  wedding.venues
+    .filter((venue) => attendeeVenues(attendee).includes(venue.id))
+    .map((venue) => localize(venue.type, locale))
+    .join(', ');
+
+/**
+ * Grows or shrinks the attendee list to `count` rows, keeping what was already typed.
+ * New rows take their name from `names` (e.g. the invited household) when available.
+ */
+export const resizeAttendees = (attendees: Attendee[], count: number, names: string[] = []): Attendee[] => {
+  if (attendees.length >= count) return attendees.slice(0, count);
+  const added = Array.from({ length: count - attendees.length }, (_, i) =>
+    emptyAttendee(names[attendees.length + i] ?? ''),
+  );
+  return [...attendees, ...added];
+};
+
+/** One line per attendee, for backends that only take free text. */
+export const summarizeAttendees = (attendees: Attendee[]): string =>
+  attendees
+    .map((attendee, index) => {
+      const details = [
+        attendee.ageGroup === 'child' ? 'child' : 'adult',
+        entreeLabel(attendee.entree),
+        attendee.allergies && `allergies: ${attendee.allergies}`,
+        attendee.dietaryNotes && `notes: ${attendee.dietaryNotes}`,
+        isPartOfDay(attendee) && `only: ${attendeeVenueTypes(attendee)}`,
+      ].filter(Boolean);
+      return `${index + 1}. ${attendee.name} (${details.join('; ')})`;
+    })
+    .join('\n');
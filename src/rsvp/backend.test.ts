@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { usesRestBackend } from './backend.ts';
+
+const { googleForm } = wedding.rsvp;
+
+describe('usesRestBackend', () => {
+  afterEach(() => {
+    wedding.rsvp.googleForm = googleForm;
+  });
+
+  it('follows VITE_RSVP_BACKEND when there is a Google Form', () => {
+    expect(usesRestBackend({ VITE_RSVP_BACKEND: 'rest' } as ImportMetaEnv)).toBe(true);
+    expect(usesRestBackend({} as ImportMetaEnv)).toBe(false);
+  });
+
+  it('uses the JSON API when there is no Google Form to post to', () => {
+    wedding.rsvp.googleForm = undefined;
+    expect(usesRestBackend({} as ImportMetaEnv)).toBe(true);
+  });
+});
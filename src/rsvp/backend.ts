@@ -0,0 +1,9 @@
+import { wedding } from '../config/index.ts';
+
+/**
+ * Whether the site talks to the JSON API: with `VITE_RSVP_BACKEND=rest`, or when the wedding
+ * config has no Google Form to post RSVPs to. The guestbook, guest photos, "Find your table"
+ * and the dashboard all need it.
+ */
+export const usesRestBackend = (env: ImportMetaEnv = import.meta.env): boolean =>
+  env.VITE_RSVP_BACKEND === 'rest' || !wedding.rsvp.googleForm;
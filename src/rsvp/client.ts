@@ -0,0 +1,4 @@
+import { createRsvpClient } from './index.ts';
+
+// One RSVP backend for the whole site, chosen from the build environment
+export const rsvpClient = createRsvpClient();
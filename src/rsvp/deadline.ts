@@ -0,0 +1,7 @@
+import { wedding } from '../config/index.ts';
+
+/** Last moment RSVPs can be sent or changed, from `rsvp.deadline` in the wedding config. */
+export const RSVP_DEADLINE = new Date(wedding.rsvp.deadline);
+
+export const isRsvpOpen = (now: Date = new Date(), deadline: Date = RSVP_DEADLINE): boolean =>
+  now.getTime() <= deadline.getTime();
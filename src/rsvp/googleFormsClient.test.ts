@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { hashInviteCode } from '../invite/inviteHash.ts';
+import { GoogleFormsRsvpClient } from './googleFormsClient.ts';
+import type { GoogleFormsFieldMap } from './googleFormsClient.ts';
+
+const fields: GoogleFormsFieldMap = {
+  name: 'entry.1',
+  contact: 'entry.2',
+  attending: 'entry.3',
+  guests: 'entry.4',
+  message: 'entry.5',
+  attendees: 'entry.6',
+};
+
+describe('GoogleFormsRsvpClient', () => {
+  it('finds an invite by the hash of its code', async () => {
+    const salt = 'a1b2c3';
+    const invites = { [await hashInviteCode('ABC123', salt)]: { greeting: 'The Baronda Family', maxGuests: 2 } };
+    const client = new GoogleFormsRsvpClient('https://docs.google.com/forms/x', fields, async () => ({ salt, invites }));
+
+    expect(await client.getInvite('ABC123')).toEqual({
+      code: 'ABC123',
+      greeting: 'The Baronda Family',
+      names: [],
+      maxGuests: 2,
+    });
+    expect(await client.getInvite('ZZZ999')).toBeNull();
+  });
+
+  it('sends each guest as a line of text, with the venues of one who skips part of the day', async () => {
+    const fetch = vi.fn(() => Promise.resolve(new Response()));
+    vi.stubGlobal('fetch', fetch);
+    const client = new GoogleFormsRsvpClient('https://docs.google.com/forms/x', fields, async () => ({ salt: '', invites: {} }));
+
+    await client.submit({
+      name: 'Maria Clara',
+      contact: '0917 123 4567',
+      attending: true,
+      attendees: [
+        { name: 'Maria Clara', ageGroup: 'adult', entree: 'chicken', allergies: '', dietaryNotes: '' },
+        { name: 'Lito', ageGroup: 'child', entree: 'kids', allergies: '', dietaryNotes: '', venues: ['reception'] },
+      ],
+      message: '',
+    });
+
+    const body = (fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body as FormData;
+    expect(body.get('entry.4')).toBe('2');
+    expect(body.get('entry.6')).toBe("1. Maria Clara (adult; Chicken Galantina)\n2. Lito (child; Kids' Plate; only: Reception)");
+  });
+});
@@ -0,0 +1,74 @@
+import { hashInviteCode } from '../invite/inviteHash.ts';
+import { summarizeAttendees } from './attendees.ts';
+import type { Household, RsvpClient, RsvpResult, RsvpSubmission } from './types.ts';
+
+/**
+ * Maps each RSVP field to the `entry.*` id of the matching Google Form question.
+ * Optional fields are left out of the post when the form has no question for them.
+ */
+export type GoogleFormsFieldMap = Record<'name' | 'contact' | 'attending' | 'guests' | 'message', string> & {
+  inviteCode?: string;
+  /** A paragraph question for the attendee list; without it the list is appended to the message. */
+  attendees?: string;
+};
+
+/** Each household's greeting and seat count, keyed by `hashInviteCode` of its code with `salt`. */
+export interface InviteIndex {
+  salt: string;
+  invites: Record<string, Pick<Household, 'greeting' | 'maxGuests'>>;
+}
+
+/** Loads the invite list lazily so it stays out of the main bundle. */
+export type InviteLoader = () => Promise<InviteIndex>;
+
+/**
+ * Posts RSVPs to a Google Form.
+ * Google Forms does not allow CORS, so the request is sent with `mode: 'no-cors'` and the
+ * response is opaque: a resolved fetch only means the request left the browser.
+ */
+export class GoogleFormsRsvpClient implements RsvpClient {
+  private readonly formUrl: string;
+  private readonly fields: GoogleFormsFieldMap;
+  private readonly loadInvites: InviteLoader;
+
+  constructor(formUrl: string, fields: GoogleFormsFieldMap, loadInvites: InviteLoader = async () => ({ salt: '', invites: {} })) {
+    this.formUrl = formUrl;
+    this.fields = fields;
+    this.loadInvites = loadInvites;
+  }
+
+  async submit(rsvp: RsvpSubmission): Promise<RsvpResult> {
+    const formData = new FormData();
+    formData.append(this.fields.name, rsvp.name);
+    formData.append(this.fields.contact, rsvp.contact);
+    formData.append(this.fields.attending, rsvp.attending ? 'Yes' : 'No');
+    formData.append(this.fields.guests, rsvp.attendees.length.toString());
+
+    const attendeeSummary = summarizeAttendees(rsvp.attendees);
+    if (this.fields.attendees) {
+      formData.append(this.fields.attendees, attendeeSummary);
+      formData.append(this.fields.message, rsvp.message);
+    } else {
+      formData.append(this.fields.message, [rsvp.message, attendeeSummary].filter(Boolean).join('\n\n'));
+    }
+    if (this.fields.inviteCode && rsvp.inviteCode) {
+      formData.append(this.fields.inviteCode, rsvp.inviteCode);
+    }
+
+    await fetch(this.formUrl, {
+      method: 'POST',
+      mode: 'no-cors',
+      body: formData,
+    });
+
+    return { ok: true, confirmed: false };
+  }
+
+  // Without a server the invite list ships with the site, so it only holds hashed codes and no names
+  async getInvite(code: string): Promise<Household | null> {
+    const { salt, invites } = await this.loadInvites();
+    const hash = await hashInviteCode(code, salt);
+    const invite = Object.hasOwn(invites, hash) ? invites[hash] : undefined;
+    return invite ? { code, names: [], ...invite } : null;
+  }
+}
@@ -0,0 +1,55 @@
+import { usesRestBackend } from './backend.ts';
+import { GoogleFormsRsvpClient } from './googleFormsClient.ts';
+import { RestRsvpClient } from './restClient.ts';
+import { wedding } from '../config/index.ts';
+import type { RsvpClient, RsvpEditor } from './types.ts';
+
+export type {
+  AgeGroup,
+  Attendee,
+  AttendeeErrors,
+  Household,
+  RsvpClient,
+  RsvpEditor,
+  RsvpField,
+  RsvpFieldErrors,
+  RsvpRecord,
+  RsvpResult,
+  RsvpSubmission,
+} from './types.ts';
+export { usesRestBackend } from './backend.ts';
+export { GoogleFormsRsvpClient } from './googleFormsClient.ts';
+export { RestRsvpClient, RsvpRequestError } from './restClient.ts';
+export { validateRsvp, validateAttendee, hasErrors, MAX_GUESTS } from './validation.ts';
+export {
+  attendeeVenues,
+  attendeeVenueTypes,
+  emptyAttendee,
+  isPartOfDay,
+  resizeAttendees,
+  summarizeAttendees,
+} from './attendees.ts';
+export { RSVP_DEADLINE, isRsvpOpen } from './deadline.ts';
+export { loadTicket, saveTicket, clearTicket } from './ticket.ts';
+export { ENTREE_OPTIONS, entreeOptionsFor, entreeLabel } from './menu.ts';
+
+/** Whether the backend can hand RSVPs back for review and changes. */
+export const isRsvpEditor = (client: RsvpClient): client is RsvpClient & RsvpEditor =>
+  typeof (client as Partial<RsvpEditor>).update === 'function';
+
+/**
+ * Picks the RSVP backend from the Vite environment.
+ * `VITE_RSVP_BACKEND=rest`, or a config without a Google Form, uses the JSON API at
+ * `VITE_RSVP_API_URL` (default `/api`); otherwise RSVPs are posted to the Google Form.
+ */
+export const createRsvpClient = (env: ImportMetaEnv = import.meta.env): RsvpClient => {
+  const { googleForm } = wedding.rsvp;
+  if (googleForm && !usesRestBackend(env)) {
+    return new GoogleFormsRsvpClient(
+      googleForm.url,
+      googleForm.fields,
+      async () => (await import('virtual:invites')).default,
+    );
+  }
+  return new RestRsvpClient(env.VITE_RSVP_API_URL || '/api');
+};
@@ -0,0 +1,19 @@
+import { wedding } from '../config/index.ts';
+import type { EntreeOption } from '../config/index.ts';
+import { DEFAULT_LOCALE } from '../i18n/locales.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { localize } from '../i18n/translate.ts';
+import type { AgeGroup } from './types.ts';
+
+export type { EntreeOption };
+
+export const ENTREE_OPTIONS: EntreeOption[] = wedding.rsvp.menu;
+
+export const entreeOptionsFor = (ageGroup: AgeGroup): EntreeOption[] =>
+  ENTREE_OPTIONS.filter((option) => !option.ageGroup || option.ageGroup === ageGroup);
+
+/** The entrée's name for guests; the couple's exports and form backends stay in English. */
+export const entreeLabel = (id: string, locale: Locale = DEFAULT_LOCALE): string => {
+  const option = ENTREE_OPTIONS.find((entry) => entry.id === id);
+  return option ? localize(option.label, locale) : id;
+};
@@ -0,0 +1,104 @@
+import type {
+  Household,
+  RsvpClient,
+  RsvpEditor,
+  RsvpFieldErrors,
+  RsvpRecord,
+  RsvpResult,
+  RsvpSubmission,
+} from './types.ts';
+
+/**
+ * Thrown when the RSVP API answers with something other than success or a validation error.
+ */
+export class RsvpRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RsvpRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Talks to a JSON RSVP API such as the bundled reference server (`npm run server`).
+ * Expects the stored record on success, `422 { errors }` on validation failure and
+ * `403 { message }` once RSVPs are closed.
+ */
+export class RestRsvpClient implements RsvpClient, RsvpEditor {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  submit(rsvp: RsvpSubmission): Promise<RsvpResult> {
+    return this.save('POST', '/rsvps', rsvp);
+  }
+
+  update(id: string, token: string, rsvp: RsvpSubmission): Promise<RsvpResult> {
+    return this.save('PUT', `/rsvps/${encodeURIComponent(id)}`, rsvp, token);
+  }
+
+  async getInvite(code: string): Promise<Household | null> {
+    return this.getOrNull<Household>(`/invites/${encodeURIComponent(code)}`);
+  }
+
+  getRsvp(id: string, token: string): Promise<RsvpRecord | null> {
+    return this.getOrNull<RsvpRecord>(`/rsvps/${encodeURIComponent(id)}`, token);
+  }
+
+  findByInvite(code: string): Promise<RsvpRecord | null> {
+    return this.getOrNull<RsvpRecord>(`/rsvps/by-invite/${encodeURIComponent(code)}`);
+  }
+
+  async requestLookupCode(contact: string): Promise<void> {
+    const response = await this.request('POST', '/rsvps/lookup/code', { contact });
+    if (!response.ok) throw await this.toError(response);
+  }
+
+  async verifyLookupCode(contact: string, code: string): Promise<RsvpRecord | null> {
+    const response = await this.request('POST', '/rsvps/lookup/verify', { contact, code });
+    if (response.status === 404) return null;
+    if (!response.ok) throw await this.toError(response);
+    return (await response.json()) as RsvpRecord;
+  }
+
+  private request(method: string, path: string, body?: unknown, token?: string): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  private async save(method: string, path: string, rsvp: RsvpSubmission, token?: string): Promise<RsvpResult> {
+    const response = await this.request(method, path, rsvp, token);
+    const body = await response.json().catch(() => ({}));
+
+    if (response.status === 422 || response.status === 403) {
+      return { ok: false, fieldErrors: (body.errors ?? {}) as RsvpFieldErrors, message: body.message };
+    }
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `RSVP request failed with status ${response.status}`, response.status);
+    }
+
+    return { ok: true, confirmed: true, record: body as RsvpRecord };
+  }
+
+  private async getOrNull<T>(path: string, token?: string): Promise<T | null> {
+    const response = await this.request('GET', path, undefined, token);
+    if (response.status === 404) return null;
+    if (!response.ok) throw await this.toError(response);
+    return (await response.json()) as T;
+  }
+
+  private async toError(response: Response): Promise<RsvpRequestError> {
+    const body = await response.json().catch(() => ({}));
+    return new RsvpRequestError(body.message ?? `RSVP request failed with status ${response.status}`, response.status);
+  }
+}
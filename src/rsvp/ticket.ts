@@ -0,0 +1,32 @@
+const STORAGE_KEY = 'ej-wedding:rsvp';
+
+/** What a browser remembers about the RSVP it sent, so the guest can come back to it. */
+export interface RsvpTicket {
+  id: string;
+  token: string;
+}
+
+export const loadTicket = (): RsvpTicket | null => {
+  try {
+    const ticket = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return ticket && typeof ticket.id === 'string' && typeof ticket.token === 'string' ? ticket : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTicket = (ticket: RsvpTicket) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ id: ticket.id, token: ticket.token }));
+  } catch {
+    // Private browsing can refuse storage; the guest can still look the RSVP up again
+  }
+};
+
+export const clearTicket = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
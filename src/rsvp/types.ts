@@ -0,0 +1,107 @@
+/**
+ * The RSVP data model shared by the form, the client adapters and the reference server.
+ */
+export type AgeGroup = 'adult' | 'child';
+
+/** One person in the party, as the caterer needs them. */
+export interface Attendee {
+  name: string;
+  ageGroup: AgeGroup;
+  /** Id of the chosen entrée from the menu; empty until picked. */
+  entree: string;
+  allergies: string;
+  dietaryNotes: string;
+  /**
+   * Ids of the venues this guest will be at. RSVPs sent before the form asked have none;
+   * those guests count at every venue.
+   */
+  venues?: string[];
+}
+
+export interface RsvpSubmission {
+  name: string;
+  contact: string;
+  attending: boolean;
+  /** Everyone attending, including the guest replying. Empty when declining. */
+  attendees: Attendee[];
+  message: string;
+  /** The invite code the guest arrived with, if any. */
+  inviteCode?: string;
+}
+
+export type AttendeeField = keyof Attendee;
+
+/** Field name -> problem for a single attendee row. */
+export type AttendeeErrors = Partial<Record<AttendeeField, string>>;
+
+/**
+ * Field name -> human readable problem, as returned by validation.
+ * `guests` describes the size of the party; `attendees` is indexed like the submitted rows.
+ */
+export interface RsvpFieldErrors {
+  name?: string;
+  contact?: string;
+  attending?: string;
+  guests?: string;
+  attendees?: Array<AttendeeErrors | undefined | null>;
+  message?: string;
+  inviteCode?: string;
+}
+
+export type RsvpField = keyof RsvpFieldErrors;
+
+/**
+ * An invited household, resolved from a personal invite code.
+ * `maxGuests` is the number of seats reserved for the household, including the guest replying.
+ */
+export interface Household {
+  code: string;
+  /** How the household is addressed on the site, e.g. "The Baronda Family". */
+  greeting: string;
+  names: string[];
+  maxGuests: number;
+}
+
+/**
+ * A stored RSVP as returned to the guest who sent it.
+ * `token` authorizes later edits; `version` counts every change since the first reply.
+ */
+export interface RsvpRecord {
+  id: string;
+  token: string;
+  version: number;
+  updatedAt: string;
+  rsvp: RsvpSubmission;
+}
+
+/**
+ * The outcome of a submission.
+ * `confirmed` is only true when the backend acknowledged that the RSVP was stored;
+ * fire-and-forget backends such as Google Forms can only report that the request was sent.
+ */
+export type RsvpResult =
+  | { ok: true; confirmed: boolean; record?: RsvpRecord }
+  | { ok: false; fieldErrors: RsvpFieldErrors; message?: string };
+
+/**
+ * A pluggable RSVP backend. Adapters resolve with a result for anything the backend
+ * answered (including validation failures) and reject only when the request itself failed.
+ */
+export interface RsvpClient {
+  submit(rsvp: RsvpSubmission): Promise<RsvpResult>;
+  /** Resolves an invite code to its household, or `null` when the code is unknown. */
+  getInvite(code: string): Promise<Household | null>;
+}
+
+/**
+ * Backends that keep RSVPs can also hand them back for review and changes.
+ * Lookups resolve `null` when nothing matches or the credentials are wrong.
+ */
+export interface RsvpEditor {
+  getRsvp(id: string, token: string): Promise<RsvpRecord | null>;
+  findByInvite(code: string): Promise<RsvpRecord | null>;
+  /** Sends a one-time code to the contact number, if it has an RSVP. */
+  requestLookupCode(contact: string): Promise<void>;
+  verifyLookupCode(contact: string, code: string): Promise<RsvpRecord | null>;
+  update(id: string, token: string, rsvp: RsvpSubmission): Promise<RsvpResult>;
+}
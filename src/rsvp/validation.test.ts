@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { translator } from '../i18n/translate.ts';
+import type { RsvpSubmission } from './types.ts';
+import { hasErrors, MAX_MESSAGE_LENGTH, normalizeContact, validateAttendee, validateRsvp } from './validation.ts';
+
+const t = translator('en');
+
+const valid: RsvpSubmission = {
+  name: 'Maria Clara',
+  contact: '+63 917 123 4567',
+  attending: true,
+  attendees: [{ name: 'Maria Clara', ageGroup: 'adult', entree: 'chicken', allergies: '', dietaryNotes: '' }],
+  message: '',
+};
+
+describe('validateRsvp', () => {
+  it('accepts a complete reply', () => {
+    expect(validateRsvp(valid)).toEqual({});
+    expect(hasErrors(validateRsvp(valid))).toBe(false);
+  });
+
+  it('accepts a decline without attendees', () => {
+    expect(validateRsvp({ ...valid, attending: false, attendees: [] })).toEqual({});
+  });
+
+  it.each(['0917-123-4567', '044 791 0000', '+1 212 555 0100'])('accepts the contact number %s', (contact) => {
+    expect(validateRsvp({ ...valid, contact }).contact).toBeUndefined();
+  });
+
+  it.each(['', 'call me', '12', '09171234567890123456789'])('rejects the contact number "%s"', (contact) => {
+    expect(validateRsvp({ ...valid, contact }).contact).toBe(t('rsvp.errors.contact'));
+  });
+
+  it('keeps the party within the household’s seats', () => {
+    const attendees = [valid.attendees[0], { ...valid.attendees[0], name: 'Ibarra' }];
+    expect(validateRsvp({ ...valid, attendees }, { maxGuests: 1 }).guests).toBe(t('rsvp.errors.allowanceOne'));
+    expect(validateRsvp({ ...valid, attendees }, { maxGuests: 2 }).guests).toBeUndefined();
+    expect(validateRsvp({ ...valid, attendees: [] }).guests).toBeDefined();
+  });
+
+  it('reports problems per attendee, in the same positions', () => {
+    const attendees = [valid.attendees[0], { ...valid.attendees[0], name: '', entree: '' }];
+    expect(validateRsvp({ ...valid, attendees }, { maxGuests: 2 }).attendees).toEqual([
+      undefined,
+      { name: t('rsvp.errors.guestName'), entree: t('rsvp.errors.entree') },
+    ]);
+  });
+
+  it('limits the message length', () => {
+    expect(validateRsvp({ ...valid, message: 'x'.repeat(MAX_MESSAGE_LENGTH) }).message).toBeUndefined();
+    expect(validateRsvp({ ...valid, message: 'x'.repeat(MAX_MESSAGE_LENGTH + 1) }).message).toBeDefined();
+  });
+
+  it('rejects anything that isn’t an RSVP', () => {
+    expect(Object.keys(validateRsvp(null))).toEqual(['name', 'contact', 'attending']);
+  });
+
+  it('answers in the requested language', () => {
+    expect(validateRsvp({ ...valid, name: '' }, { locale: 'tl' }).name).toBe(translator('tl')('rsvp.errors.name'));
+  });
+});
+
+describe('validateAttendee', () => {
+  it('keeps children’s and adults’ entrées apart', () => {
+    expect(validateAttendee({ ...valid.attendees[0], entree: 'kids' })?.entree).toMatch(/only available for children/);
+    expect(validateAttendee({ ...valid.attendees[0], ageGroup: 'child', entree: 'kids' })).toBeUndefined();
+  });
+
+  it('needs at least one of the wedding’s venues when the guest chose', () => {
+    expect(validateAttendee({ ...valid.attendees[0], venues: ['reception'] })).toBeUndefined();
+    expect(validateAttendee({ ...valid.attendees[0], venues: [] })?.venues).toBe(t('rsvp.errors.venues'));
+    expect(validateAttendee({ ...valid.attendees[0], venues: ['afterparty'] })?.venues).toBe(t('rsvp.errors.venues'));
+  });
+});
+
+describe('normalizeContact', () => {
+  it('reduces local and international forms to the same digits', () => {
+    expect(normalizeContact('+63 917 123 4567')).toBe('09171234567');
+    expect(normalizeContact('0917-123-4567')).toBe('09171234567');
+  });
+});
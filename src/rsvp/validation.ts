@@ -0,0 +1,134 @@
+import { wedding } from '../config/index.ts';
+import { DEFAULT_LOCALE } from '../i18n/locales.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { localize, translator } from '../i18n/translate.ts';
+import { ENTREE_OPTIONS } from './menu.ts';
+import type { AttendeeErrors, RsvpFieldErrors, RsvpSubmission } from './types.ts';
+
+export const MAX_GUESTS = wedding.rsvp.maxGuests;
+export const MAX_MESSAGE_LENGTH = 1000;
+export const MAX_NOTE_LENGTH = 300;
+
+// Loose on purpose: local (09xx), international (+63 9xx) and landline numbers with separators.
+const CONTACT_PATTERN = /^\+?[0-9][0-9\s\-()]{6,19}$/;
+
+/**
+ * Validates one attendee row.
+ * @param {Locale} locale - Language of the messages.
+ * @returns {AttendeeErrors | undefined} - `undefined` when the row is valid.
+ */
+export const validateAttendee = (input: unknown, locale: Locale = DEFAULT_LOCALE): AttendeeErrors | undefined => {
+  const t = translator(locale);
+  const errors: AttendeeErrors = {};
+  const attendee = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+
+  if (typeof attendee.name !== 'string' || attendee.name.trim().length < 2) {
+    errors.name = t('rsvp.errors.guestName');
+  } else if (attendee.name.trim().length > 120) {
+    errors.name = t('rsvp.errors.nameTooLong');
+  }
+
+  if (attendee.ageGroup !== 'adult' && attendee.ageGroup !== 'child') {
+    errors.ageGroup = t('rsvp.errors.ageGroup');
+  }
+
+  const entree = ENTREE_OPTIONS.find((option) => option.id === attendee.entree);
+  if (!entree) {
+    errors.entree = t('rsvp.errors.entree');
+  } else if (entree.ageGroup && entree.ageGroup !== attendee.ageGroup) {
+    errors.entree = t(entree.ageGroup === 'child' ? 'rsvp.errors.entreeChildrenOnly' : 'rsvp.errors.entreeAdultsOnly', {
+      entree: localize(entree.label, locale),
+    });
+  }
+
+  // Missing on RSVPs sent before the form asked; when given, it names at least one of the venues
+  if (attendee.venues !== undefined) {
+    const venues = attendee.venues;
+    if (!Array.isArray(venues) || venues.length === 0 || !venues.every((id) => wedding.venues.some((venue) => venue.id === id))) {
+      errors.venues = t('rsvp.errors.venues');
+    }
+  }
+
+  for (const field of ['allergies', 'dietaryNotes'] as const) {
+    const value = attendee[field];
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_NOTE_LENGTH)) {
+      errors[field] = t('rsvp.errors.noteTooLong', { max: MAX_NOTE_LENGTH });
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? errors : undefined;
+};
+
+export interface RsvpValidationOptions {
+  /** Seat allowance of the guest's household; defaults to MAX_GUESTS. */
+  maxGuests?: number;
+  /** Language of the messages; the server answers in English. */
+  locale?: Locale;
+}
+
+/**
+ * Validates an RSVP. Used by the form before submitting and by the reference server
+ * before storing, so both report the same field-level messages.
+ * @param {unknown} input - The submission to check; may come straight from a request body.
+ * @param {RsvpValidationOptions} options - Limits that depend on the guest's invitation.
+ * @returns {RsvpFieldErrors} - An empty object when the submission is valid.
+ */
+export const validateRsvp = (input: unknown, options: RsvpValidationOptions = {}): RsvpFieldErrors => {
+  const maxGuests = options.maxGuests ?? MAX_GUESTS;
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const t = translator(locale);
+  const errors: RsvpFieldErrors = {};
+  const rsvp = (typeof input === 'object' && input !== null ? input : {}) as Partial<Record<keyof RsvpSubmission, unknown>>;
+
+  if (typeof rsvp.name !== 'string' || rsvp.name.trim().length < 2) {
+    errors.name = t('rsvp.errors.name');
+  } else if (rsvp.name.trim().length > 120) {
+    errors.name = t('rsvp.errors.nameTooLong');
+  }
+
+  if (typeof rsvp.contact !== 'string' || !CONTACT_PATTERN.test(rsvp.contact.trim())) {
+    errors.contact = t('rsvp.errors.contact');
+  }
+
+  if (typeof rsvp.attending !== 'boolean') {
+    errors.attending = t('rsvp.errors.attending');
+  }
+
+  if (rsvp.attending === true) {
+    if (!Array.isArray(rsvp.attendees) || rsvp.attendees.length < 1) {
+      errors.guests = t('rsvp.errors.guests', { max: maxGuests });
+    } else if (rsvp.attendees.length > maxGuests) {
+      errors.guests = maxGuests === 1
+        ? t('rsvp.errors.allowanceOne')
+        : t('rsvp.errors.allowanceMany', { max: maxGuests });
+    } else {
+      const attendeeErrors = rsvp.attendees.map((attendee) => validateAttendee(attendee, locale));
+      if (attendeeErrors.some(Boolean)) {
+        errors.attendees = attendeeErrors;
+      }
+    }
+  } else if (rsvp.attendees !== undefined && !Array.isArray(rsvp.attendees)) {
+    errors.guests = t('rsvp.errors.guestList');
+  }
+
+  if (rsvp.message !== undefined && (typeof rsvp.message !== 'string' || rsvp.message.length > MAX_MESSAGE_LENGTH)) {
+    errors.message = t('rsvp.errors.messageTooLong', { max: MAX_MESSAGE_LENGTH });
+  }
+
+  if (rsvp.inviteCode !== undefined && typeof rsvp.inviteCode !== 'string') {
+    errors.inviteCode = t('rsvp.errors.inviteCode');
+  }
+
+  return errors;
+};
+
+/**
+ * Reduces a contact number to comparable digits, so "+63 917 123 4567" and
+ * "0917-123-4567" refer to the same guest.
+ */
+export const normalizeContact = (contact: string): string => {
+  const digits = contact.replace(/\D/g, '');
+  return digits.startsWith('63') && digits.length === 12 ? `0${digits.slice(2)}` : digits;
+};
+
+export const hasErrors = (errors: RsvpFieldErrors): boolean => Object.keys(errors).length > 0;
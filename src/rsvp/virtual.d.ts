@@ -0,0 +1,5 @@
+declare module 'virtual:invites' {
+  /** Generated by `invitesPlugin` from `src/data/households.json`. */
+  const invites: import('./googleFormsClient.ts').InviteIndex;
+  export default invites;
+}
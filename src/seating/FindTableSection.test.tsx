@@ -0,0 +1,81 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { wedding } from '../config/index.ts';
+import { translator } from '../i18n/translate.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import FindTableSection from './FindTableSection.tsx';
+import type { TableLookup } from './types.ts';
+
+const { findTable } = vi.hoisted(() => ({ findTable: vi.fn() }));
+
+vi.mock('./client.ts', () => ({ seatingClient: { findTable } }));
+
+const t = translator('en');
+const venue = wedding.venues.find((item) => item.id === wedding.seating?.venueId)?.name ?? '';
+
+const lookup: TableLookup = {
+  matches: [
+    { name: 'Ana Baronda', tableId: 't1', table: '5' },
+    { name: 'Ana Cruz', tableId: 't2', table: 'Family' },
+  ],
+  tables: [
+    { id: 't1', name: '5', x: 20, y: 40 },
+    { id: 't2', name: 'Family', x: 60, y: 40 },
+  ],
+};
+
+const search = async (name: string) => {
+  const user = userEvent.setup();
+  await user.type(screen.getByLabelText(t('seating.name')), name);
+  await user.click(screen.getByRole('button', { name: t('seating.submit') }));
+  return user;
+};
+
+describe('FindTableSection', () => {
+  it('shows the guest their table on the floor map', async () => {
+    findTable.mockResolvedValue(lookup);
+    renderWithProviders(<FindTableSection />, { phase: 'day-of' });
+
+    const user = await search('ana');
+
+    expect(findTable).toHaveBeenCalledWith('ana');
+    expect(await screen.findByText(t('common.table', { table: '5' }))).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: t('seating.mapWithTable', { venue, table: '5' }) })).toBeInTheDocument();
+
+    // Another guest with the same first name picks their own line
+    await user.click(screen.getByRole('button', { name: /Ana Cruz/ }));
+    expect(screen.getByRole('button', { name: /Ana Cruz/ })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('img', { name: t('seating.mapWithTable', { venue, table: 'Family' }) })).toBeInTheDocument();
+  });
+
+  it('asks for more of the name before searching', async () => {
+    renderWithProviders(<FindTableSection />);
+
+    await search('A. n');
+
+    expect(screen.getByText(t('seating.tooShort', { min: 3 }))).toBeInTheDocument();
+    expect(findTable).not.toHaveBeenCalled();
+  });
+
+  it('says so when no one by that name is seated', async () => {
+    findTable.mockResolvedValue({ matches: [], tables: lookup.tables });
+    renderWithProviders(<FindTableSection />);
+
+    await search('Zenaida');
+
+    expect(await screen.findByText(t('seating.noMatch'))).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: t('seating.map', { venue }) })).toBeInTheDocument();
+  });
+
+  it('asks the guest to wait after too many searches', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    findTable.mockRejectedValue(new RsvpRequestError('Too many', 429));
+    renderWithProviders(<FindTableSection />);
+
+    await search('Ana Baronda');
+
+    expect(await screen.findByText(t('seating.tooMany'))).toBeInTheDocument();
+  });
+});
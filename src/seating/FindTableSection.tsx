@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import FloorMap from './FloorMap.tsx';
+import { seatingClient } from './client.ts';
+import { MIN_SEARCH_LENGTH, normalizeName } from './plan.ts';
+import type { TableLookup } from './types.ts';
+
+const venueName = (wedding.venues.find((venue) => venue.id === wedding.seating?.venueId) ?? wedding.venues[wedding.venues.length - 1]).name;
+
+/**
+ * "Find your table" on the wedding day: a guest types their name and sees their table on the
+ * floor map. When several seated guests match, each can be picked to show their table.
+ * Hidden when the site has no backend to keep the seating plan.
+ */
+const FindTableSection: React.FC = () => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState<'idle' | 'searching' | 'done' | 'tooShort' | 'tooMany' | 'error'>('idle');
+  const [lookup, setLookup] = useState<TableLookup | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (!seatingClient) return null;
+  const client = seatingClient;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (normalizeName(name).replace(/ /g, '').length < MIN_SEARCH_LENGTH) {
+      setStatus('tooShort');
+      return;
+    }
+    setStatus('searching');
+    try {
+      const result = await client.findTable(name);
+      setLookup(result);
+      setSelected(result.matches[0]?.tableId ?? null);
+      setStatus('done');
+    } catch (error) {
+      console.error('Table lookup failed:', error);
+      setStatus(error instanceof RsvpRequestError && error.status === 429 ? 'tooMany' : 'error');
+    }
+  };
+
+  const matches = status === 'done' ? (lookup?.matches ?? []) : [];
+  const highlighted = lookup?.tables.find((table) => table.id === selected);
+
+  return (
+    <section className="page-section find-table" id="find-table">
+      <h2 className="page-title">{t('seating.title')}</h2>
+      <p className="page-description">{t('seating.intro')}</p>
+
+      <form onSubmit={handleSubmit} className="rsvp-form find-table-form">
+        <div className="form-field">
+          <label htmlFor="find-table-name" className="form-label">{t('seating.name')}</label>
+          <input
+            type="search"
+            id="find-table-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoComplete="name"
+            required
+            className="form-input"
+          />
+        </div>
+        <button type="submit" disabled={status === 'searching'} className="submit-button">
+          {status === 'searching' ? t('seating.searching') : t('seating.submit')}
+        </button>
+      </form>
+
+      {/* Always rendered, so screen readers announce the outcome when it appears */}
+      <div className="rsvp-status" role="status">
+        {matches.length > 0 && (
+          <ul className="find-table-matches">
+            {matches.map((match) => (
+              <li key={`${match.tableId}:${match.name}`}>
+                <button
+                  type="button"
+                  className={`find-table-match ${match.tableId === selected ? 'active' : ''}`}
+                  aria-pressed={match.tableId === selected}
+                  onClick={() => setSelected(match.tableId)}
+                >
+                  {match.name} · {t('seating.found')} <strong>{t('common.table', { table: match.table })}</strong>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {status === 'done' && matches.length === 0 && <p className="find-table-none">{t('seating.noMatch')}</p>}
+      </div>
+      <div className="rsvp-status" role="alert">
+        {status === 'tooShort' && <p className="error-message">{t('seating.tooShort', { min: MIN_SEARCH_LENGTH })}</p>}
+        {status === 'tooMany' && <p className="error-message">{t('seating.tooMany')}</p>}
+        {status === 'error' && <p className="error-message">{t('seating.error')}</p>}
+      </div>
+
+      {lookup && lookup.tables.length > 0 && (
+        <FloorMap
+          tables={lookup.tables}
+          highlight={highlighted?.id}
+          label={
+            highlighted
+              ? t('seating.mapWithTable', { venue: venueName, table: highlighted.name })
+              : t('seating.map', { venue: venueName })
+          }
+        />
+      )}
+    </section>
+  );
+};
+
+export default FindTableSection;
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+import type { FloorTable } from './types.ts';
+
+// The map is drawn 100 wide and 70 high; positions are percentages of each
+const WIDTH = 100;
+const HEIGHT = 70;
+const TABLE_RADIUS = 4.5;
+const KEY_STEP = 2;
+
+const clamp = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+
+interface FloorMapProps {
+  tables: FloorTable[];
+  /** The table to point out, e.g. the one a guest just looked up. */
+  highlight?: string;
+  /** Lets the couple drag tables (or move them with the arrow keys) to where they stand. */
+  onMove?: (tableId: string, x: number, y: number) => void;
+  /** Id of the text telling the couple how to move tables. */
+  moveHintId?: string;
+  label: string;
+}
+
+/**
+ * The reception hall from above: the landmarks from `seating.landmarks` in the config and
+ * every table, with one highlighted.
+ */
+const FloorMap: React.FC<FloorMapProps> = ({ tables, highlight, onMove, moveHintId, label }) => {
+  const { t, text } = useI18n();
+  const svg = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+
+  const moveTo = (event: React.PointerEvent) => {
+    if (!dragging || !onMove || !svg.current) return;
+    const box = svg.current.getBoundingClientRect();
+    onMove(dragging, clamp(((event.clientX - box.left) / box.width) * 100), clamp(((event.clientY - box.top) / box.height) * 100));
+  };
+
+  const nudge = (table: FloorTable, event: React.KeyboardEvent) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0],
+      ArrowRight: [KEY_STEP, 0],
+      ArrowUp: [0, -KEY_STEP],
+      ArrowDown: [0, KEY_STEP],
+    };
+    const step = steps[event.key];
+    if (!step || !onMove) return;
+    event.preventDefault();
+    onMove(table.id, clamp(table.x + step[0]), clamp(table.y + step[1]));
+  };
+
+  return (
+    <svg
+      ref={svg}
+      className={`floor-map ${onMove ? 'editable' : ''}`}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role={onMove ? 'group' : 'img'}
+      aria-label={label}
+      onPointerMove={moveTo}
+      onPointerUp={() => setDragging(null)}
+      onPointerCancel={() => setDragging(null)}
+    >
+      <rect className="floor-map-room" x="0.5" y="0.5" width={WIDTH - 1} height={HEIGHT - 1} rx="2" />
+      {wedding.seating?.landmarks.map((landmark, index) => (
+        <text
+          key={index}
+          className="floor-map-landmark"
+          x={landmark.x}
+          y={(landmark.y / 100) * HEIGHT}
+          textAnchor="middle"
+          dominantBaseline="middle"
+        >
+          {text(landmark.label)}
+        </text>
+      ))}
+      {tables.map((table) => (
+        <g
+          key={table.id}
+          className={`floor-map-table ${table.id === highlight ? 'highlight' : ''}`}
+          transform={`translate(${table.x} ${(table.y / 100) * HEIGHT})`}
+          {...(onMove
+            ? {
+                tabIndex: 0,
+                role: 'button',
+                'aria-label': t('common.table', { table: table.name }),
+                'aria-describedby': moveHintId,
+                onPointerDown: (event: React.PointerEvent) => {
+                  event.currentTarget.setPointerCapture?.(event.pointerId);
+                  setDragging(table.id);
+                },
+                onKeyDown: (event: React.KeyboardEvent) => nudge(table, event),
+              }
+            : {})}
+        >
+          <circle r={TABLE_RADIUS} />
+          <text textAnchor="middle" dominantBaseline="central">
+            {table.name}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default FloorMap;
@@ -0,0 +1,4 @@
+import { createSeatingClient } from './index.ts';
+
+// One lookup for the whole site, or none when the site has no JSON API
+export const seatingClient = createSeatingClient();
@@ -0,0 +1,36 @@
+import { usesRestBackend } from '../rsvp/backend.ts';
+import { RestSeatingClient } from './restClient.ts';
+import type { SeatingClient } from './types.ts';
+
+export type {
+  FloorTable,
+  SeatingClient,
+  SeatingGuest,
+  SeatingPlan,
+  SeatingTable,
+  SeatingWarnings,
+  TableLookup,
+  TableMatch,
+} from './types.ts';
+export { RestSeatingClient } from './restClient.ts';
+export {
+  addTable,
+  findGuests,
+  guestKey,
+  MAX_TABLE_CAPACITY,
+  MAX_TABLE_NAME_LENGTH,
+  MIN_SEARCH_LENGTH,
+  removeTable,
+  seatGuest,
+  seatingWarnings,
+  tableOf,
+  updateTable,
+  validateSeatingPlan,
+} from './plan.ts';
+
+/**
+ * The seating plan lives with the RSVPs in the JSON API (see `usesRestBackend`). Without
+ * it this is `null` and "Find your table" stays hidden.
+ */
+export const createSeatingClient = (env: ImportMetaEnv = import.meta.env): SeatingClient | null =>
+  usesRestBackend(env) ? new RestSeatingClient(env.VITE_RSVP_API_URL || '/api') : null;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { addTable, findGuests, MAX_MATCHES, removeTable, seatGuest, seatingWarnings, validateSeatingPlan } from './plan.ts';
+import type { SeatingPlan } from './types.ts';
+
+const ana = { rsvpId: 'r1', name: 'Ana Baronda' };
+const ben = { rsvpId: 'r1', name: 'Benjie Baronda' };
+const mavi = { rsvpId: 'r2', name: 'Ma. Victoria Peñaflor' };
+
+const plan: SeatingPlan = {
+  tables: [
+    { id: 't1', name: '1', capacity: 1, guests: [ana, ben], x: 20, y: 40 },
+    { id: 't2', name: 'Family', capacity: 8, guests: [mavi], x: 60, y: 40 },
+  ],
+};
+
+describe('seatingWarnings', () => {
+  it('finds full tables, guests without a seat and seats of guests no longer coming', () => {
+    const lena = { rsvpId: 'r3', name: 'Lena Cruz' };
+    const warnings = seatingWarnings(plan, [ana, ben, lena]);
+
+    expect(warnings.overCapacity.map((table) => table.id)).toEqual(['t1']);
+    expect(warnings.unseated).toEqual([lena]);
+    expect(warnings.stale).toEqual([mavi]);
+  });
+
+  it('tells apart guests with the same name on different RSVPs', () => {
+    const otherAna = { rsvpId: 'r9', name: 'Ana Baronda' };
+    expect(seatingWarnings(plan, [ana, ben, mavi, otherAna]).unseated).toEqual([otherAna]);
+  });
+});
+
+describe('seatGuest', () => {
+  it('moves a guest from one table to another', () => {
+    const moved = seatGuest(plan, ben, 't2');
+    expect(moved.tables[0].guests).toEqual([ana]);
+    expect(moved.tables[1].guests).toEqual([mavi, ben]);
+  });
+
+  it('takes a guest off every table', () => {
+    expect(seatGuest(plan, ana, null).tables.flatMap((table) => table.guests)).toEqual([ben, mavi]);
+  });
+
+  it('leaves the plan it was given alone', () => {
+    seatGuest(plan, ana, 't2');
+    expect(plan.tables[0].guests).toEqual([ana, ben]);
+  });
+});
+
+describe('addTable and removeTable', () => {
+  it('numbers a new table after the highest number so far', () => {
+    const added = addTable(plan, 't3').tables[2];
+    expect(added).toMatchObject({ id: 't3', name: '2', guests: [] });
+    expect(validateSeatingPlan(addTable(plan, 't3'))).toEqual([]);
+  });
+
+  it('sends the guests of a removed table back to the unseated list', () => {
+    expect(seatingWarnings(removeTable(plan, 't1'), [ana, ben, mavi]).unseated).toEqual([ana, ben]);
+  });
+});
+
+describe('findGuests', () => {
+  it('matches the start of each word, ignoring case, accents and punctuation', () => {
+    expect(findGuests(plan, 'ma victoria penaflor')).toEqual([{ name: mavi.name, tableId: 't2', table: 'Family' }]);
+    expect(findGuests(plan, 'BARON')).toEqual([
+      { name: ana.name, tableId: 't1', table: '1' },
+      { name: ben.name, tableId: 't1', table: '1' },
+    ]);
+    expect(findGuests(plan, 'ana bar').map((match) => match.name)).toEqual([ana.name]);
+    expect(findGuests(plan, 'aronda')).toEqual([]);
+  });
+
+  it('needs three letters and returns only a handful of guests', () => {
+    expect(findGuests(plan, ' a. n ')).toEqual([]);
+    const crowded: SeatingPlan = {
+      tables: [{ ...plan.tables[1], guests: Array.from({ length: 8 }, (_, i) => ({ rsvpId: `r${i}`, name: `Ana Cruz ${i}` })) }],
+    };
+    expect(findGuests(crowded, 'ana')).toHaveLength(MAX_MATCHES);
+  });
+});
+
+describe('validateSeatingPlan', () => {
+  it('accepts a plan the planner made', () => {
+    expect(validateSeatingPlan(plan)).toEqual([]);
+    expect(validateSeatingPlan({ tables: [] })).toEqual([]);
+  });
+
+  it('rejects anything without a list of tables', () => {
+    expect(validateSeatingPlan(null)).toEqual(['The plan needs a list of tables.']);
+    expect(validateSeatingPlan({ tables: 'all' })).toEqual(['The plan needs a list of tables.']);
+  });
+
+  it('explains each problem by table', () => {
+    const errors = validateSeatingPlan({
+      tables: [
+        { ...plan.tables[0], capacity: 0, x: 120 },
+        { ...plan.tables[1], id: 't1', name: ' ', guests: [ana, { name: 'No RSVP' }] },
+      ],
+    });
+    expect(errors).toEqual([
+      'Table 1 needs between 1 and 30 seats.',
+      'Table 1 is off the floor map.',
+      'Table #2 needs its own id.',
+      'Table #2 needs a name of up to 40 characters.',
+      'Ana Baronda is seated twice.',
+      'Table #2 has a guest without a name or RSVP.',
+    ]);
+  });
+});
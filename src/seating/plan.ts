@@ -0,0 +1,139 @@
+import type { SeatingGuest, SeatingPlan, SeatingTable, SeatingWarnings, TableMatch } from './types.ts';
+
+export const MAX_TABLE_NAME_LENGTH = 40;
+export const MAX_TABLE_CAPACITY = 30;
+export const DEFAULT_TABLE_CAPACITY = 10;
+// Short searches would list half the guests to anyone who asks
+export const MIN_SEARCH_LENGTH = 3;
+export const MAX_MATCHES = 5;
+
+// New tables are laid out in rows below the stage until the couple drags them into place
+const GRID_COLUMNS = 5;
+
+/** Identifies a guest across reloads: the same name can appear on two RSVPs. */
+export const guestKey = (guest: SeatingGuest): string => `${guest.rsvpId}:${guest.name}`;
+
+/** Lower case, without accents or punctuation, so "Ma. Victoria" finds "ma victoria". */
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Over-full tables, attending guests without a seat, and seats held by guests who are no
+ * longer attending. `guests` is everyone on an attending RSVP.
+ */
+export const seatingWarnings = (plan: SeatingPlan, guests: SeatingGuest[]): SeatingWarnings => {
+  const attending = new Set(guests.map(guestKey));
+  const seated = new Set(plan.tables.flatMap((table) => table.guests.map(guestKey)));
+  return {
+    overCapacity: plan.tables.filter((table) => table.guests.length > table.capacity),
+    unseated: guests.filter((guest) => !seated.has(guestKey(guest))),
+    stale: plan.tables.flatMap((table) => table.guests.filter((guest) => !attending.has(guestKey(guest)))),
+  };
+};
+
+/** The table a guest sits at, if any. */
+export const tableOf = (plan: SeatingPlan, guest: SeatingGuest): SeatingTable | undefined =>
+  plan.tables.find((table) => table.guests.some((seated) => guestKey(seated) === guestKey(guest)));
+
+/** Moves `guest` to the end of table `tableId`, or off every table when `tableId` is `null`. */
+export const seatGuest = (plan: SeatingPlan, guest: SeatingGuest, tableId: string | null): SeatingPlan => ({
+  ...plan,
+  tables: plan.tables.map((table) => {
+    const others = table.guests.filter((seated) => guestKey(seated) !== guestKey(guest));
+    return { ...table, guests: table.id === tableId ? [...others, guest] : others };
+  }),
+});
+
+/** Adds an empty table named after the highest-numbered one, in the next free spot of the grid. */
+export const addTable = (plan: SeatingPlan, id: string): SeatingPlan => {
+  const numbers = plan.tables.map((table) => Number(table.name)).filter(Number.isInteger);
+  const index = plan.tables.length;
+  const table: SeatingTable = {
+    id,
+    name: String(Math.max(0, ...numbers) + 1),
+    capacity: DEFAULT_TABLE_CAPACITY,
+    guests: [],
+    x: 14 + (index % GRID_COLUMNS) * 18,
+    y: Math.min(90, 30 + Math.floor(index / GRID_COLUMNS) * 18),
+  };
+  return { ...plan, tables: [...plan.tables, table] };
+};
+
+export const updateTable = (
+  plan: SeatingPlan,
+  tableId: string,
+  changes: Partial<Pick<SeatingTable, 'name' | 'capacity' | 'x' | 'y'>>,
+): SeatingPlan => ({
+  ...plan,
+  tables: plan.tables.map((table) => (table.id === tableId ? { ...table, ...changes } : table)),
+});
+
+/** Drops a table; its guests go back to the unseated list. */
+export const removeTable = (plan: SeatingPlan, tableId: string): SeatingPlan => ({
+  ...plan,
+  tables: plan.tables.filter((table) => table.id !== tableId),
+});
+
+/**
+ * Seated guests for "Find your table": every word typed must start a word of the guest's name,
+ * so "ana bar" finds "Ana Baronda" but "a" finds no one.
+ */
+export const findGuests = (plan: SeatingPlan, query: string): TableMatch[] => {
+  const words = normalizeName(query).split(' ').filter(Boolean);
+  if (words.join('').length < MIN_SEARCH_LENGTH) return [];
+  return plan.tables
+    .flatMap((table) => table.guests.map((guest) => ({ name: guest.name, tableId: table.id, table: table.name })))
+    .filter((match) => {
+      const nameWords = normalizeName(match.name).split(' ');
+      return words.every((word) => nameWords.some((nameWord) => nameWord.startsWith(word)));
+    })
+    .slice(0, MAX_MATCHES);
+};
+
+const isPercent = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100;
+
+/**
+ * Checks a plan sent by the planner before the server stores it.
+ * @returns {string[]} - One problem per line; empty when the plan can be saved.
+ */
+export const validateSeatingPlan = (input: unknown): string[] => {
+  const plan = (typeof input === 'object' && input !== null ? input : {}) as { tables?: unknown };
+  if (!Array.isArray(plan.tables)) return ['The plan needs a list of tables.'];
+
+  const errors: string[] = [];
+  const tableIds = new Set<string>();
+  const seated = new Set<string>();
+  plan.tables.forEach((value: unknown, index) => {
+    const table = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof SeatingTable, unknown>>;
+    const label = typeof table.name === 'string' && table.name.trim() ? `Table ${table.name.trim()}` : `Table #${index + 1}`;
+
+    if (typeof table.id !== 'string' || !table.id || tableIds.has(table.id)) errors.push(`${label} needs its own id.`);
+    else tableIds.add(table.id);
+    if (typeof table.name !== 'string' || !table.name.trim() || table.name.trim().length > MAX_TABLE_NAME_LENGTH) {
+      errors.push(`${label} needs a name of up to ${MAX_TABLE_NAME_LENGTH} characters.`);
+    }
+    if (!Number.isInteger(table.capacity) || (table.capacity as number) < 1 || (table.capacity as number) > MAX_TABLE_CAPACITY) {
+      errors.push(`${label} needs between 1 and ${MAX_TABLE_CAPACITY} seats.`);
+    }
+    if (!isPercent(table.x) || !isPercent(table.y)) errors.push(`${label} is off the floor map.`);
+    if (!Array.isArray(table.guests)) {
+      errors.push(`${label} needs a list of guests.`);
+      return;
+    }
+    for (const guest of table.guests as Array<Partial<SeatingGuest> | null>) {
+      if (typeof guest?.rsvpId !== 'string' || typeof guest.name !== 'string' || !guest.name.trim()) {
+        errors.push(`${label} has a guest without a name or RSVP.`);
+      } else if (seated.has(guestKey(guest as SeatingGuest))) {
+        errors.push(`${guest.name} is seated twice.`);
+      } else {
+        seated.add(guestKey(guest as SeatingGuest));
+      }
+    }
+  });
+  return errors;
+};
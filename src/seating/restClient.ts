@@ -0,0 +1,23 @@
+import { RsvpRequestError } from '../rsvp/restClient.ts';
+import type { SeatingClient, TableLookup } from './types.ts';
+
+/**
+ * Looks guests up in the seating plan through the JSON API (the reference server's
+ * `/seating` route). Expects `429` when one address searches too often.
+ */
+export class RestSeatingClient implements SeatingClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async findTable(name: string): Promise<TableLookup> {
+    const response = await fetch(`${this.baseUrl}/seating?name=${encodeURIComponent(name)}`);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new RsvpRequestError(body.message ?? `Seating request failed with status ${response.status}`, response.status);
+    }
+    return body as TableLookup;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Reception seating, shared by the couple's planner, "Find your table" and the reference server.
+ */
+
+/** A guest who can be seated: one attendee of an attending RSVP, by the name they gave. */
+export interface SeatingGuest {
+  rsvpId: string;
+  name: string;
+}
+
+export interface SeatingTable {
+  id: string;
+  /** Shown to guests as "Table {name}", e.g. "5" or "Family". */
+  name: string;
+  capacity: number;
+  guests: SeatingGuest[];
+  /** Centre of the table on the floor map, in percent of the map's width and height. */
+  x: number;
+  y: number;
+}
+
+export interface SeatingPlan {
+  tables: SeatingTable[];
+  updatedAt?: string;
+}
+
+/** A table on the public floor map; guests' names are not part of it. */
+export type FloorTable = Omit<SeatingTable, 'guests' | 'capacity'>;
+
+/** A seated guest whose name matches a "Find your table" search. */
+export interface TableMatch {
+  name: string;
+  tableId: string;
+  table: string;
+}
+
+export interface TableLookup {
+  matches: TableMatch[];
+  tables: FloorTable[];
+}
+
+/** What the couple should sort out before the day. */
+export interface SeatingWarnings {
+  /** Tables with more guests than seats. */
+  overCapacity: SeatingTable[];
+  /** Attending guests without a table. */
+  unseated: SeatingGuest[];
+  /** Seated guests who are no longer on an attending RSVP (declined, renamed or removed). */
+  stale: SeatingGuest[];
+}
+
+export interface SeatingClient {
+  /** Seated guests matching `name`, with the floor map to show them where to go. */
+  findTable(name: string): Promise<TableLookup>;
+}
@@ -0,0 +1,92 @@
+/**
+ * A stand-in for `IntersectionObserver`, which jsdom doesn't have. Every instance is kept
+ * so tests can find the one watching an element and report it entering or leaving the view.
+ */
+export class MockIntersectionObserver implements IntersectionObserver {
+  static instances: MockIntersectionObserver[] = [];
+
+  readonly root = null;
+  readonly rootMargin: string;
+  readonly thresholds: number[];
+  readonly scrollMargin = '0px';
+  readonly observed = new Set<Element>();
+  private readonly callback: IntersectionObserverCallback;
+
+  constructor(callback: IntersectionObserverCallback, options: IntersectionObserverInit = {}) {
+    this.callback = callback;
+    this.rootMargin = options.rootMargin ?? '0px';
+    this.thresholds = [options.threshold ?? 0].flat();
+    MockIntersectionObserver.instances.push(this);
+  }
+
+  observe(target: Element) {
+    this.observed.add(target);
+  }
+
+  unobserve(target: Element) {
+    this.observed.delete(target);
+  }
+
+  disconnect() {
+    this.observed.clear();
+  }
+
+  takeRecords(): IntersectionObserverEntry[] {
+    return [];
+  }
+
+  /** Reports every observed element as entering (or leaving) the viewport. */
+  trigger(isIntersecting: boolean) {
+    const entries = [...this.observed].map(
+      (target) =>
+        ({
+          target,
+          isIntersecting,
+          intersectionRatio: isIntersecting ? 1 : 0,
+          time: performance.now(),
+        }) as IntersectionObserverEntry,
+    );
+    if (entries.length > 0) this.callback(entries, this);
+  }
+
+  /** The observers currently watching `target`. */
+  static watching(target: Element): MockIntersectionObserver[] {
+    return MockIntersectionObserver.instances.filter((observer) => observer.observed.has(target));
+  }
+}
+
+/** A stand-in for `ResizeObserver`; tests resize an element and then `trigger` its observers. */
+export class MockResizeObserver implements ResizeObserver {
+  static instances: MockResizeObserver[] = [];
+
+  readonly observed = new Set<Element>();
+  private readonly callback: ResizeObserverCallback;
+
+  constructor(callback: ResizeObserverCallback) {
+    this.callback = callback;
+    MockResizeObserver.instances.push(this);
+  }
+
+  observe(target: Element) {
+    this.observed.add(target);
+  }
+
+  unobserve(target: Element) {
+    this.observed.delete(target);
+  }
+
+  disconnect() {
+    this.observed.clear();
+  }
+
+  /** Reports every observed element as resized. */
+  trigger() {
+    const entries = [...this.observed].map((target) => ({ target }) as ResizeObserverEntry);
+    if (entries.length > 0) this.callback(entries, this);
+  }
+
+  /** The observers currently watching `target`. */
+  static watching(target: Element): MockResizeObserver[] {
+    return MockResizeObserver.instances.filter((observer) => observer.observed.has(target));
+  }
+}
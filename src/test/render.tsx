@@ -0,0 +1,45 @@
+import { render } from '@testing-library/react';
+import type { RenderResult } from '@testing-library/react';
+import React from 'react';
+import { MemoryRouter } from 'react-router-dom';
+import { wedding } from '../config/index.ts';
+import { createI18n, I18nContext } from '../i18n/context.ts';
+import type { Locale } from '../i18n/locales.ts';
+import { InviteContext } from '../invite/context.ts';
+import type { InviteState } from '../invite/context.ts';
+import { PhaseContext } from '../phases/context.ts';
+import { phaseAt, previewInstant } from '../phases/phases.ts';
+import type { Phase } from '../phases/phases.ts';
+
+export interface RenderOptions {
+  /** Previews this phase, so the page behaves as it will at that time. Without it the real clock is used. */
+  phase?: Phase;
+  locale?: Locale;
+  invite?: InviteState;
+  /** The URL the router starts at. */
+  route?: string;
+}
+
+/**
+ * Renders `ui` inside the site's providers, with fixed values instead of the visitor's
+ * browser, invite code and the current date.
+ */
+export const renderWithProviders = (
+  ui: React.ReactElement,
+  { phase, locale = 'en', invite = { status: 'none' }, route = '/' }: RenderOptions = {},
+): RenderResult =>
+  render(
+    <MemoryRouter initialEntries={[route]}>
+      <I18nContext.Provider value={createI18n(locale)}>
+        <PhaseContext.Provider
+          value={{
+            phase: phase ?? phaseAt(new Date(), wedding),
+            previewAt: phase ? previewInstant(phase, wedding) : null,
+            exitPreview: () => {},
+          }}
+        >
+          <InviteContext.Provider value={invite}>{ui}</InviteContext.Provider>
+        </PhaseContext.Provider>
+      </I18nContext.Provider>
+    </MemoryRouter>,
+  );
@@ -0,0 +1,39 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+import { MockIntersectionObserver, MockResizeObserver } from './observers.ts';
+
+// Browser APIs jsdom leaves out; the components only need them to exist
+globalThis.IntersectionObserver = MockIntersectionObserver;
+globalThis.ResizeObserver = MockResizeObserver;
+
+window.matchMedia = (query: string) =>
+  ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    addListener: () => {},
+    removeListener: () => {},
+    dispatchEvent: () => false,
+  }) as MediaQueryList;
+
+window.scrollTo = () => {};
+Element.prototype.scrollIntoView = () => {};
+URL.createObjectURL = () => 'blob:test';
+URL.revokeObjectURL = () => {};
+
+// jsdom can't play media or draw: playback succeeds silently and canvases have no context
+HTMLMediaElement.prototype.play = () => Promise.resolve();
+HTMLMediaElement.prototype.pause = () => {};
+HTMLCanvasElement.prototype.getContext = (() => null) as typeof HTMLCanvasElement.prototype.getContext;
+
+afterEach(() => {
+  cleanup();
+  MockIntersectionObserver.instances = [];
+  MockResizeObserver.instances = [];
+  localStorage.clear();
+  sessionStorage.clear();
+  vi.useRealTimers();
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import type * as Config from '../config/index.ts';
+import type { WeddingConfig } from '../config/schema.ts';
+import { renderWithProviders } from '../test/render.tsx';
+import VideoSection from './VideoSection.tsx';
+
+const film = vi.hoisted(() => ({
+  video: { src: '/video/film.mp4', poster: '/prenup/prenup1.jpeg' } as WeddingConfig['video'],
+}));
+
+vi.mock('../config/index.ts', async (importOriginal) => {
+  const actual = await importOriginal<typeof Config>();
+  return {
+    ...actual,
+    wedding: {
+      ...actual.wedding,
+      get video() {
+        return film.video;
+      },
+    },
+  };
+});
+
+describe('VideoSection', () => {
+  it('plays the configured video with controls and a poster', () => {
+    const { container } = renderWithProviders(<VideoSection />);
+    const video = container.querySelector('video') as HTMLVideoElement;
+
+    expect(video).toHaveAttribute('controls');
+    expect(video).toHaveAttribute('poster', '/prenup/prenup1.jpeg');
+    expect(video.querySelector('source')).toHaveAttribute('src', '/video/film.mp4');
+  });
+
+  it('hides without a video in the config', () => {
+    film.video = undefined;
+    const { container } = renderWithProviders(<VideoSection />);
+
+    expect(container.querySelector('.video-section')).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import React from 'react';
+import { wedding } from '../config/index.ts';
+import { useI18n } from '../i18n/context.ts';
+
+const VideoSection: React.FC = () => {
+  const { t } = useI18n();
+  if (!wedding.video) return null;
+  return (
+    <section className="video-section" id="video">
+    <div className="video-wrapper">
+      <video 
+        className="video-frame" 
+        controls 
+        poster={wedding.video.poster}
+      >
+        <source src={wedding.video.src} type="video/mp4" />
+        {t('common.videoUnsupported')}
+      </video>
+    </div>
+  </section>
+  );
+};
+
+export default VideoSection;
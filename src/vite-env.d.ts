@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `rest` to use the JSON RSVP API, anything else for Google Forms. */
+  readonly VITE_RSVP_BACKEND?: string;
+  /** Base URL of the JSON RSVP API. Defaults to `/api`. */
+  readonly VITE_RSVP_API_URL?: string;
+}
@@ -1,7 +1,30 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { galleryManifestPlugin } from './scripts/vite-plugin-gallery.ts'
+import { invitesPlugin } from './scripts/vite-plugin-invites.ts'
+import { responsiveImagesPlugin } from './scripts/vite-plugin-responsive-images.ts'
+import { weddingConfigPlugin } from './scripts/vite-plugin-wedding-config.ts'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), weddingConfigPlugin(), galleryManifestPlugin(), invitesPlugin(), responsiveImagesPlugin()],
+  server: {
+    // Forward API calls to the reference RSVP server (`npm run server`)
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
+  test: {
+    restoreMocks: true,
+    unstubGlobals: true,
+    projects: [
+      {
+        extends: true,
+        test: { name: 'site', environment: 'jsdom', include: ['src/**/*.test.{ts,tsx}'], setupFiles: ['src/test/setup.ts'] },
+      },
+      // The reference server, run in Node against a throwaway database
+      { extends: true, test: { name: 'server', environment: 'node', include: ['server/**/*.test.ts'] } },
+    ],
+  },
 })